@@ -1,87 +1,29 @@
 import { motion } from 'framer-motion';
 import { ChevronDown, ChevronRight } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { ScrollArea } from './ui/scroll-area';
 import { Textarea } from './ui/textarea';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
-import type { BoundingBox, DocumentData } from '@/lib/supabase';
-
-// Add: section color palette (hex for stable use in PDF overlay)
-const SECTION_COLORS: Record<string, string> = {
-  metadata: '#10b981', // emerald
-  vendor: '#8b5cf6',   // violet
-  customer: '#f59e0b', // amber
-  items: '#0ea5e9',    // sky
-  other: '#f43f5e',    // rose
+import type { DocumentData } from '@/lib/supabase';
+import { parseBox, unionBoxes, type SourceBox } from '@/lib/geometry';
+import { findManualBox, manualBoxToHighlight, type ManualBox } from '@/lib/manualBoxes';
+import { SECTION_COLORS } from '@/lib/sectionColors';
+import { documentItems, locateField, otherInformation } from '@/lib/documentPages';
+import { useFlash } from '@/hooks/use-flash';
+
+// Fields of every extraction page are shown together; paths address the page each one is on
+const PAGE_KEY = /^\$\.document\.pages\.\[\d+\]\.([^.]+)/;
+
+// Section holding each top-level key of a page
+const SECTION_OF_KEY: Record<string, string> = {
+  metadata: 'metadata',
+  parties: 'vendor',
+  customerparties: 'customer',
+  items: 'items',
+  other_information: 'other',
 };
 
-// Replace normalizeBoxAny to STRICTLY interpret arrays as [x1,y1,x2,y2] and enforce edge ordering
-function normalizeBoxAny(input: any): (BoundingBox & { page?: number }) | null {
-  if (!input) return null;
-
-  const toNum = (v: any) => (v === null || v === undefined || v === '' ? NaN : Number(v));
-
-  // Arrays: strictly [x1, y1, x2, y2, (page?)]
-  if (Array.isArray(input)) {
-    if (input.length < 4) return null;
-
-    let x1 = toNum(input[0]);
-    let y1 = toNum(input[1]);
-    let x2 = toNum(input[2]);
-    let y2 = toNum(input[3]);
-    const page = toNum(input[4]);
-
-    if (![x1, y1, x2, y2].every(Number.isFinite)) return null;
-
-    // Enforce correct ordering
-    if (x2 < x1) [x1, x2] = [x2, x1];
-    if (y2 < y1) [y1, y2] = [y2, y1];
-
-    const width = x2 - x1;
-    const height = y2 - y1;
-    if (width <= 0 || height <= 0) return null;
-
-    return { x: x1, y: y1, width, height, page: Number.isFinite(page) ? page : undefined };
-  }
-
-  // Objects: prefer explicit edges x1,y1,x2,y2; fall back to x,y,width,height
-  const rawX1 = toNum(input.x1 ?? input.left ?? input.minX);
-  const rawY1 = toNum(input.y1 ?? input.top ?? input.minY);
-  let rawX2 = toNum(input.x2 ?? input.right ?? input.maxX);
-  let rawY2 = toNum(input.y2 ?? input.bottom ?? input.maxY);
-
-  const rawX = toNum(input.x ?? input.left ?? input.x0 ?? input.startX);
-  const rawY = toNum(input.y ?? input.top ?? input.y0 ?? input.startY);
-  const rawW = toNum(input.width ?? input.w);
-  const rawH = toNum(input.height ?? input.h);
-
-  const rawPage = input.page ?? input.page_number ?? input.pageIndex ?? input.p;
-  const page = toNum(rawPage);
-
-  if ([rawX1, rawY1, rawX2, rawY2].every(Number.isFinite)) {
-    let x1 = rawX1, y1 = rawY1, x2 = rawX2, y2 = rawY2;
-    if (x2 < x1) [x1, x2] = [x2, x1];
-    if (y2 < y1) [y1, y2] = [y2, y1];
-    const width = x2 - x1;
-    const height = y2 - y1;
-    if (width > 0 && height > 0) {
-      return { x: x1, y: y1, width, height, page: Number.isFinite(page) ? page : undefined };
-    }
-  }
-
-  let x = rawX, y = rawY, width = rawW, height = rawH;
-  if (!Number.isFinite(width) || !Number.isFinite(height)) {
-    if (Number.isFinite(rawX) && Number.isFinite(rawY) && Number.isFinite(rawX2) && Number.isFinite(rawY2)) {
-      width = rawX2 - rawX;
-      height = rawY2 - rawY;
-    }
-  }
-
-  if ([x, y, width, height].every(Number.isFinite) && (width as number) > 0 && (height as number) > 0) {
-    return { x: x as number, y: y as number, width: width as number, height: height as number, page: Number.isFinite(page) ? page : undefined };
-  }
-  return null;
-}
+const isUnder = (path: string, parent: string) => path === parent || path.startsWith(`${parent}.`);
 
 // Add: helper to find mail instruction text in common locations
 function getMailInstruction(doc: DocumentData): string {
@@ -104,13 +46,35 @@ function getMailInstruction(doc: DocumentData): string {
 
 interface DocumentFieldsProps {
   documentData: DocumentData;
-  onFieldHover: (box: (BoundingBox & { page?: number; color?: string }) | null) => void;
+  onFieldHover: (box: (SourceBox & { color?: string }) | null) => void;
+  // Reviewer-drawn boxes; a field's manual box is highlighted instead of its extracted one
+  manualBoxes?: Array<ManualBox>;
+  // document_data paths whose box is under the pointer on the document; their fields are marked
+  linkedPaths?: Array<string>;
+  // Paths to open and flash, e.g. after a click on the document; a new key reveals again
+  reveal?: { paths: Array<string>; key: number } | null;
 }
 
-export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsProps) {
+export function DocumentFields({ documentData, onFieldHover, manualBoxes, linkedPaths, reveal }: DocumentFieldsProps) {
   // Collapse all sections by default
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
   const showDebug = false; // Hide debug lines by default for a cleaner UI
+  const flashing = useFlash(reveal?.key);
+
+  // Open the sections holding the revealed fields
+  useEffect(() => {
+    const sections = (reveal?.paths ?? [])
+      .map((p) => SECTION_OF_KEY[PAGE_KEY.exec(p)?.[1] ?? ''])
+      .filter(Boolean);
+    if (sections.length) setExpandedSections((prev) => new Set([...prev, ...sections]));
+  }, [reveal]);
+
+  // Classes of a field (or item) linked to the pointer on the document, or flashing after a reveal
+  const linkClass = (path: string) => {
+    const linked = linkedPaths?.some((p) => isUnder(p, path));
+    const revealed = flashing && reveal?.paths.some((p) => isUnder(p, path));
+    return `${linked ? 'ring-2 ring-amber-400 bg-amber-50 dark:bg-amber-900/20' : ''} ${revealed ? 'animate-pulse ring-2 ring-amber-500' : ''}`;
+  };
 
   const toggleSection = (section: string) => {
     setExpandedSections((prev) => {
@@ -124,23 +88,29 @@ export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsPro
     });
   };
 
-  const page = documentData.document.pages[0];
+  const items = documentItems(documentData);
+  const otherInfo = otherInformation(documentData);
   const mailInstruction = getMailInstruction(documentData);
 
   const FieldItem = ({
     label,
     value,
     boundingBox,
+    path,
+    page,
     color,
   }: {
     label: string;
     value: string;
     boundingBox?: any[];
+    path: string;
+    page: number; // page the field was read from; boxes without their own page are on it
     color?: string;
   }) => {
-    const bb = normalizeBoxAny(boundingBox?.[0]);
+    const manual = findManualBox(manualBoxes, 'document', path);
+    const bb = manual ? manualBoxToHighlight(manual) : parseBox(boundingBox?.[0]);
     const dbg = bb
-      ? `x:${Math.round(bb.x)} y:${Math.round(bb.y)} w:${Math.round(bb.width)} h:${Math.round(bb.height)} p:${bb.page ?? page.page_number}`
+      ? `x:${Math.round(bb.x)} y:${Math.round(bb.y)} w:${Math.round(bb.width)} h:${Math.round(bb.height)} p:${bb.page ?? page}`
       : 'x:— y:— w:— h:— p:—';
 
     // Remove: mail instruction placeholder UI (should not appear in document fields)
@@ -155,16 +125,25 @@ export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsPro
 
     return (
       <motion.div
-        className="py-2.5 px-3 cursor-pointer rounded-lg transition-all border bg-card/50 hover:bg-primary/5 hover:border-primary/30 hover:shadow-sm border-l-2"
+        data-document-path={path}
+        className={`py-2.5 px-3 cursor-pointer rounded-lg transition-all border bg-card/50 hover:bg-primary/5 hover:border-primary/30 hover:shadow-sm border-l-2 ${linkClass(path)}`}
         style={{ borderLeftColor: color || 'transparent' }}
         onMouseEnter={() =>
-          bb && onFieldHover({ ...bb, page: bb.page ?? page.page_number, ...(color ? { color } : {}) })
+          bb && onFieldHover({ ...bb, page: bb.page ?? page, ...(color ? { color } : {}) })
         }
         onMouseLeave={() => onFieldHover(null)}
       >
         <div className="text-xs font-medium text-muted-foreground mb-1 flex items-center gap-2">
           {color && <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: color }} />}
           {label}
+          {manual && (
+            <span
+              className="rounded bg-fuchsia-100 px-1 text-[10px] text-fuchsia-700 dark:bg-fuchsia-900/30 dark:text-fuchsia-300"
+              title={manual.authorName ? `Box drawn by ${manual.authorName}` : 'Box drawn by a reviewer'}
+            >
+              manual
+            </span>
+          )}
         </div>
         {/* Show actual value only; do not show "From the EMail instructions" here */}
         <div className="text-sm font-medium text-foreground break-words whitespace-pre-wrap">
@@ -182,6 +161,22 @@ export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsPro
     );
   };
 
+  // Header field from the page that holds it
+  const HeaderField = ({ label, fieldKey, color }: { label: string; fieldKey: string; color?: string }) => {
+    const field = locateField(documentData, fieldKey);
+    if (!field) return null;
+    return (
+      <FieldItem
+        label={label}
+        value={field.value.value}
+        boundingBox={field.value.bounding_box}
+        path={field.path}
+        page={field.page}
+        color={color}
+      />
+    );
+  };
+
   const SectionHeader = ({ title, id, color }: { title: string; id: string; color?: string }) => {
     const isExpanded = expandedSections.has(id);
     return (
@@ -219,24 +214,21 @@ export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsPro
                 exit={{ opacity: 0, height: 0 }}
                 className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-1 pt-1"
               >
-                <FieldItem
-                  label="Document Title"
-                  value={page.metadata.document_title.value}
-                  boundingBox={page.metadata.document_title.bounding_box}
-                  color={SECTION_COLORS.metadata}
-                />
-                <FieldItem
-                  label="Date"
-                  value={page.metadata.date.value}
-                  boundingBox={page.metadata.date.bounding_box}
-                  color={SECTION_COLORS.metadata}
-                />
-                <FieldItem
-                  label="Purchase Order No"
-                  value={page.metadata.purchase_order_no.value}
-                  boundingBox={page.metadata.purchase_order_no.bounding_box}
-                  color={SECTION_COLORS.metadata}
-                />
+                <HeaderField
+                 label="Document Title"
+                 fieldKey="metadata.document_title"
+                 color={SECTION_COLORS.metadata}
+               />
+                <HeaderField
+                 label="Date"
+                 fieldKey="metadata.date"
+                 color={SECTION_COLORS.metadata}
+               />
+                <HeaderField
+                 label="Purchase Order No"
+                 fieldKey="metadata.purchase_order_no"
+                 color={SECTION_COLORS.metadata}
+               />
               </motion.div>
             )}
           </div>
@@ -251,30 +243,26 @@ export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsPro
                 exit={{ opacity: 0, height: 0 }}
                 className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-1 pt-1"
               >
-                <FieldItem
-                  label="Vendor Name"
-                  value={page.parties.vendor_information.vendor_name.value}
-                  boundingBox={page.parties.vendor_information.vendor_name.bounding_box}
-                  color={SECTION_COLORS.vendor}
-                />
-                <FieldItem
-                  label="Address"
-                  value={page.parties.vendor_information.address.value}
-                  boundingBox={page.parties.vendor_information.address.bounding_box}
-                  color={SECTION_COLORS.vendor}
-                />
-                <FieldItem
-                  label="Contact No"
-                  value={page.parties.vendor_information.contact_no.value}
-                  boundingBox={page.parties.vendor_information.contact_no.bounding_box}
-                  color={SECTION_COLORS.vendor}
-                />
-                <FieldItem
-                  label="Sales Person"
-                  value={page.parties.vendor_information.sales_person.value}
-                  boundingBox={page.parties.vendor_information.sales_person.bounding_box}
-                  color={SECTION_COLORS.vendor}
-                />
+                <HeaderField
+                 label="Vendor Name"
+                 fieldKey="parties.vendor_information.vendor_name"
+                 color={SECTION_COLORS.vendor}
+               />
+                <HeaderField
+                 label="Address"
+                 fieldKey="parties.vendor_information.address"
+                 color={SECTION_COLORS.vendor}
+               />
+                <HeaderField
+                 label="Contact No"
+                 fieldKey="parties.vendor_information.contact_no"
+                 color={SECTION_COLORS.vendor}
+               />
+                <HeaderField
+                 label="Sales Person"
+                 fieldKey="parties.vendor_information.sales_person"
+                 color={SECTION_COLORS.vendor}
+               />
               </motion.div>
             )}
           </div>
@@ -289,36 +277,31 @@ export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsPro
                 exit={{ opacity: 0, height: 0 }}
                 className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-1 pt-1"
               >
-                <FieldItem
-                  label="Customer Name"
-                  value={page.customerparties.customer_information.customer_name.value}
-                  boundingBox={page.customerparties.customer_information.customer_name.bounding_box}
-                  color={SECTION_COLORS.customer}
-                />
-                <FieldItem
-                  label="Address"
-                  value={page.customerparties.customer_information.address.value}
-                  boundingBox={page.customerparties.customer_information.address.bounding_box}
-                  color={SECTION_COLORS.customer}
-                />
-                <FieldItem
-                  label="Contact No"
-                  value={page.customerparties.customer_information.contact_no.value}
-                  boundingBox={page.customerparties.customer_information.contact_no.bounding_box}
-                  color={SECTION_COLORS.customer}
-                />
-                <FieldItem
-                  label="Contact Person"
-                  value={page.customerparties.customer_information.contact_person.value}
-                  boundingBox={page.customerparties.customer_information.contact_person.bounding_box}
-                  color={SECTION_COLORS.customer}
-                />
-                <FieldItem
-                  label="Email Address"
-                  value={page.customerparties.customer_information.email_address.value}
-                  boundingBox={page.customerparties.customer_information.email_address.bounding_box}
-                  color={SECTION_COLORS.customer}
-                />
+                <HeaderField
+                 label="Customer Name"
+                 fieldKey="customerparties.customer_information.customer_name"
+                 color={SECTION_COLORS.customer}
+               />
+                <HeaderField
+                 label="Address"
+                 fieldKey="customerparties.customer_information.address"
+                 color={SECTION_COLORS.customer}
+               />
+                <HeaderField
+                 label="Contact No"
+                 fieldKey="customerparties.customer_information.contact_no"
+                 color={SECTION_COLORS.customer}
+               />
+                <HeaderField
+                 label="Contact Person"
+                 fieldKey="customerparties.customer_information.contact_person"
+                 color={SECTION_COLORS.customer}
+               />
+                <HeaderField
+                 label="Email Address"
+                 fieldKey="customerparties.customer_information.email_address"
+                 color={SECTION_COLORS.customer}
+               />
               </motion.div>
             )}
           </div>
@@ -333,79 +316,22 @@ export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsPro
                 exit={{ opacity: 0, height: 0 }}
                 className="grid gap-2 pt-1"
               >
-                {page.items.map((item, index) => (
+                {items.map(({ value: item, path: itemPath, page }, index) => (
                   <motion.div
-                    key={index}
-                    className="p-3 rounded-lg border border-border hover:border-primary/30 cursor-pointer transition-all hover:shadow-sm bg-card/50 border-l-2"
+                    key={itemPath}
+                    data-document-path={itemPath}
+                    className={`p-3 rounded-lg border border-border hover:border-primary/30 cursor-pointer transition-all hover:shadow-sm bg-card/50 border-l-2 ${linkClass(itemPath)}`}
                     style={{ borderLeftColor: SECTION_COLORS.items }}
                     onMouseEnter={() => {
-                      // Compute merged item row directly from raw edges:
-                      // leftmost (min x1, tie-break on y1) and farthest right/bottom (max x2, max y2)
-                      const boxes: any[] = Array.isArray(item?.bounding_box) ? item.bounding_box : [];
-
-                      let leftmostX = Number.POSITIVE_INFINITY;
-                      let leftmostY = Number.POSITIVE_INFINITY;
-                      let maxRight = Number.NEGATIVE_INFINITY;
-                      let maxBottom = Number.NEGATIVE_INFINITY;
-                      let haveAny = false;
-
-                      for (const raw of boxes) {
-                        let rx1: number | undefined;
-                        let ry1: number | undefined;
-                        let rx2: number | undefined;
-                        let ry2: number | undefined;
-
-                        if (Array.isArray(raw) && raw.length >= 4) {
-                          rx1 = Number(raw[0]);
-                          ry1 = Number(raw[1]);
-                          rx2 = Number(raw[2]);
-                          ry2 = Number(raw[3]);
-                        } else if (raw && typeof raw === "object") {
-                          rx1 = Number(raw.x1 ?? raw.left ?? raw.minX);
-                          ry1 = Number(raw.y1 ?? raw.top ?? raw.minY);
-                          rx2 = Number(raw.x2 ?? raw.right ?? raw.maxX);
-                          ry2 = Number(raw.y2 ?? raw.bottom ?? raw.maxY);
-                        }
-
-                        if (
-                          Number.isFinite(rx1) &&
-                          Number.isFinite(ry1) &&
-                          Number.isFinite(rx2) &&
-                          Number.isFinite(ry2)
-                        ) {
-                          const nx1 = Math.min(rx1 as number, rx2 as number);
-                          const ny1 = Math.min(ry1 as number, ry2 as number);
-                          const nx2 = Math.max(rx1 as number, rx2 as number);
-                          const ny2 = Math.max(ry1 as number, ry2 as number);
-
-                          if (nx1 < leftmostX || (nx1 === leftmostX && ny1 < leftmostY)) {
-                            leftmostX = nx1;
-                            leftmostY = ny1;
-                          }
-                          if (nx2 > maxRight) maxRight = nx2;
-                          if (ny2 > maxBottom) maxBottom = ny2;
-                          haveAny = true;
-                        }
-                      }
-
-                      if (haveAny && maxRight > leftmostX && maxBottom > leftmostY) {
-                        const merged = {
-                          x: leftmostX,
-                          y: leftmostY,
-                          width: maxRight - leftmostX,
-                          height: maxBottom - leftmostY,
-                          page: page.page_number,
-                        };
-                        onFieldHover({ ...merged, color: SECTION_COLORS.items });
-                      } else {
-                        const ibb = normalizeBoxAny(item.bounding_box?.[0]);
-                        if (ibb)
-                          onFieldHover({
-                            ...ibb,
-                            page: ibb.page ?? page.page_number,
-                            color: SECTION_COLORS.items,
-                          });
+                      const manual = findManualBox(manualBoxes, 'document', itemPath);
+                      if (manual) {
+                        onFieldHover({ ...manualBoxToHighlight(manual), color: SECTION_COLORS.items });
+                        return;
                       }
+                      // Item row: union of its boxes on the page it starts on
+                      const rowBoxes: any[] = Array.isArray(item?.bounding_box) ? item.bounding_box : [];
+                      const row = unionBoxes(rowBoxes.map((b) => parseBox(b)));
+                      if (row) onFieldHover({ ...row, page: row.page ?? page, color: SECTION_COLORS.items });
                     }}
                     onMouseLeave={() => onFieldHover(null)}
                   >
@@ -437,13 +363,13 @@ export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsPro
                     </div>
 
                     {(() => {
-                      const ibb = normalizeBoxAny(item.bounding_box?.[0]);
+                      const ibb = parseBox(item.bounding_box?.[0]);
                       return (
                         <>
                           {showDebug && (
                             <div className="mt-2 text-[10px] text-muted-foreground font-mono">
                               {ibb
-                                ? `x:${Math.round(ibb.x)} y:${Math.round(ibb.y)} w:${Math.round(ibb.width)} h:${Math.round(ibb.height)} p:${ibb.page ?? page.page_number}`
+                                ? `x:${Math.round(ibb.x)} y:${Math.round(ibb.y)} w:${Math.round(ibb.width)} h:${Math.round(ibb.height)} p:${ibb.page ?? page}`
                                 : 'x:— y:— w:— h:— p:—'}
                             </div>
                           )}
@@ -466,18 +392,20 @@ export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsPro
           </div>
 
           {/* Other Information */}
-          {page.other_information.length > 0 && (
+          {otherInfo.length > 0 && (
             <div className="space-y-1.5 bg-card rounded-lg border p-2 overflow-visible">
               <SectionHeader title="Other Information" id="other" color={SECTION_COLORS.other} />
               {expandedSections.has('other') && (
                 <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2 pt-1 pb-3 min-h-0 overflow-visible">
-                  {page.other_information.map((info, index) => (
-                    <div key={index} className="space-y-1.5">
+                  {otherInfo.map(({ value: info, path: infoPath, page }) => (
+                    <div key={infoPath} className="space-y-1.5">
                       {info.additional_notes && (
                         <FieldItem
                           label="Additional Notes"
                           value={info.additional_notes.value}
                           boundingBox={info.additional_notes.bounding_box as any}
+                          path={`${infoPath}.additional_notes`}
+                          page={page}
                           color={SECTION_COLORS.other}
                         />
                       )}
@@ -486,6 +414,8 @@ export function DocumentFields({ documentData, onFieldHover }: DocumentFieldsPro
                           label="Title"
                           value={info.title.value}
                           boundingBox={info.title.bounding_box as any}
+                          path={`${infoPath}.title`}
+                          page={page}
                           color={SECTION_COLORS.other}
                         />
                       )}
@@ -1,6 +1,6 @@
-import React, { useEffect, useRef, useState, useMemo } from 'react';
+import React, { useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { ZoomIn, ZoomOut, RotateCcw, Loader2, ArrowUp, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ZoomIn, ZoomOut, RotateCcw, Loader2, ArrowUp, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Search, TextSelect, X, PanelLeft, Rows3, SquareDashedMousePointer, ScanText, Table2 } from 'lucide-react';
 import * as pdfjsLib from 'pdfjs-dist';
 // Add worker via Vite to ensure version matches installed package
  // Vite returns a URL string for the worker file
@@ -10,6 +10,7 @@ import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?worker&url';
 (pdfjsLib as any).GlobalWorkerOptions.workerSrc = pdfWorker;
 
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { useAction } from 'convex/react';
 import { api } from '@/convex/_generated/api';
 import type { BoundingBox, DocumentData as ExtractedDocumentData } from '@/lib/supabase';
@@ -18,6 +19,24 @@ import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip
 import { toast } from "sonner";
 // Add: global debug flag
 import { debugEnabled } from "@/lib/debug";
+// Add: pdf.js text content for the selectable text layer and find bar
+import { extractPageText, findInPages, TEXT_LAYER_FONT, type PdfFindHit, type PdfTextItem } from "@/lib/pdfText";
+// Add: thumbnail rail and continuous (all pages) scrolling
+import { loadPageDims, pageGeometryAttributes, pageGeometryOfElement, type PageDims } from "@/lib/pdfPages";
+// Add: shared box parsing and coordinate-space conversion (same projection as the other views)
+import { coordinateSpaceOf, pageGeometryOf, pageOfBox, parseBox, toPixelRect, toUnitEdges, unionBoxes, unionBoxesByPage, type PageGeometry, type PagePoint, type SourceBox, type UnitEdges } from "@/lib/geometry";
+import { ContinuousPages } from "@/components/pdf-viewer/ContinuousPages";
+import { PageThumbnailRail, THUMBNAIL_RAIL_WIDTH } from "@/components/pdf-viewer/PageThumbnailRail";
+// Add: edit mode for reviewer-drawn evidence boxes
+import { BoxEditorLayer } from "@/components/pdf-viewer/BoxEditorLayer";
+import type { EditTarget, ManualBox, ManualBoxGeometry, ManualBoxTarget } from "@/lib/manualBoxes";
+// Add: region capture (text layer, OCR fallback) into the focused SAP field
+import { RegionSelectLayer } from "@/components/pdf-viewer/RegionSelectLayer";
+import { captureRegionText, type RegionCapture } from "@/lib/regionCapture";
+// Add: line-item table reconstruction from a drawn region
+import { readTableRegion, type ReconstructedTable } from "@/lib/tableReconstruction";
+// Add: faxed/photographed orders (images, multi-page TIFF) behind the same page API
+import { detectSourceKind, loadRasterDocument, type SourceKind } from "@/lib/rasterDocument";
 
 interface PDFViewerProps {
   pdfUrl: string;
@@ -27,13 +46,122 @@ interface PDFViewerProps {
   documentData?: ExtractedDocumentData;
   fitToWidthInitially?: boolean;
   fitToWidthOnResize?: boolean;
+  // Add: reviewer-drawn boxes; edit mode is offered only when both handlers are given
+  manualBoxes?: Array<ManualBox>;
+  editTargets?: Array<EditTarget>;
+  onSaveManualBox?: (target: ManualBoxTarget, path: string, geometry: ManualBoxGeometry) => Promise<void>;
+  onRemoveManualBox?: (target: ManualBoxTarget, path: string) => Promise<void>;
+  // Add: region capture; captureLabel names the field the text goes to (none focused: capture is disabled)
+  captureLabel?: string | null;
+  onCaptureRegion?: (capture: RegionCapture) => Promise<void>;
+  // Add: storage path of the source, used to tell PDFs from images/TIFFs (defaults to the URL path)
+  storagePath?: string;
+  // Add: the loaded document (PDF or raster), e.g. for exports rendering its pages
+  onDocumentLoad?: (pdf: pdfjsLib.PDFDocumentProxy) => void;
+  // Add: reverse linking; the page point under the pointer (null once it leaves the pages) and clicked points
+  onPagePoint?: (point: PagePoint | null, action: 'hover' | 'click') => void;
+  // Add: table detection; called with the rows and columns read from a region drawn around an item table
+  onTableRegion?: (table: ReconstructedTable) => void;
 }
 
-export default function PDFViewer({ pdfUrl, highlightBox, onLoad, documentData, fitToWidthInitially = false, fitToWidthOnResize = true }: PDFViewerProps) {
+// Boxes of one page of the extraction (fields, merged item rows, and any other bounding_box arrays)
+function collectPageBoxes(page: any) {
+  // Boxes container should include optional page
+  const boxes: Array<(SourceBox & { label?: string; value?: string })> = [];
+
+  // Collect a field with its label and value so we can display value on the overlay
+  const pushField = (label: string, field?: { value?: string; bounding_box?: any[] }) => {
+    if (!field?.bounding_box?.length) return;
+    field.bounding_box.forEach((b) => {
+      const nb = parseBox(b);
+      if (nb) boxes.push({ ...nb, label, value: field.value });
+    });
+  };
+
+  // Metadata fields
+  pushField('Document Title', page?.metadata?.document_title);
+  pushField('Date', page?.metadata?.date);
+  pushField('Purchase Order No', page?.metadata?.purchase_order_no);
+  pushField('Vendor Name', page?.parties?.vendor_information?.vendor_name);
+  pushField('Vendor Address', page?.parties?.vendor_information?.address);
+  pushField('Vendor Contact', page?.parties?.vendor_information?.contact_no);
+  pushField('Sales Person', page?.parties?.vendor_information?.sales_person);
+  pushField('Customer Name', page?.customerparties?.customer_information?.customer_name);
+  pushField('Customer Address', page?.customerparties?.customer_information?.address);
+  pushField('Customer Contact', page?.customerparties?.customer_information?.contact_no);
+  pushField('Customer Person', page?.customerparties?.customer_information?.contact_person);
+  pushField('Customer Email', page?.customerparties?.customer_information?.email_address);
+
+  // Items (merge the boxes of each item into a row box per page it covers)
+  if (Array.isArray(page?.items)) {
+    page.items.forEach((item: any, idx: number) => {
+      const rows = Array.isArray(item?.bounding_box) ? unionBoxesByPage(item.bounding_box.map((b: any) => parseBox(b))) : [];
+      const desc: string = typeof item?.description === 'string' ? item.description : '';
+      const value = desc ? `Item ${idx + 1}: ${desc}` : `Item ${idx + 1}`;
+      rows.forEach((row) => boxes.push({ ...row, label: `Item ${idx + 1} (row)`, value }));
+    });
+  }
+
+  // Recursively collect any bounding_box arrays anywhere on the page object
+  const collectBoxes = (node: any) => {
+    if (!node) return;
+    if (Array.isArray(node)) {
+      node.forEach(collectBoxes);
+      return;
+    }
+    if (typeof node === 'object') {
+      if (Array.isArray((node as any).bounding_box)) {
+        (node as any).bounding_box.forEach((b: any) => {
+          const nb = parseBox(b);
+          if (nb) boxes.push(nb);
+        });
+      }
+      Object.values(node).forEach(collectBoxes);
+    }
+  };
+  // Recognized text lines are evidence for the mapping, not regions to outline
+  collectBoxes(page && { ...page, text_lines: undefined });
+  return boxes;
+}
+
+// Boxes drawn on page `n`: those of every extraction page whose own page (or else the page_number
+// of the entry holding them) is n, so an item continuing on the next page is drawn on both.
+// Extractions without page numbers are matched by position.
+function boxesOnPage(pages: any[], n: number) {
+  const numbered = pages.some((p) => typeof p?.page_number === 'number');
+  return pages.flatMap((p, i) => {
+    const entryPage = numbered ? p?.page_number : i + 1;
+    return collectPageBoxes(p).filter((b) => pageOfBox(b, Number.POSITIVE_INFINITY, entryPage) === n);
+  });
+}
+
+// Text of a page whose text is not loaded yet; one array so the text layer keeps its identity
+const NO_TEXT_ITEMS: PdfTextItem[] = [];
+
+export default function PDFViewer({
+  pdfUrl,
+  highlightBox,
+  onLoad,
+  documentData,
+  fitToWidthInitially = false,
+  fitToWidthOnResize = true,
+  manualBoxes,
+  editTargets,
+  onSaveManualBox,
+  onRemoveManualBox,
+  captureLabel,
+  onCaptureRegion,
+  storagePath,
+  onDocumentLoad,
+  onPagePoint,
+  onTableRegion,
+}: PDFViewerProps) {
   const [zoom, setZoom] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [pdfArrayBuffer, setPdfArrayBuffer] = useState<ArrayBuffer | null>(null);
+  // Add: kind of the bytes in pdfArrayBuffer (set together with it)
+  const sourceKindRef = useRef<SourceKind>('pdf');
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [canvasSize, setCanvasSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 }); // add canvas size to sync overlays
@@ -49,13 +177,7 @@ const animToRef = useRef<number>(1);
 const pdfDocRef = useRef<pdfjsLib.PDFDocumentProxy | null>(null);
 const pageRef = useRef<pdfjsLib.PDFPageProxy | null>(null);
 const renderTaskRef = useRef<any>(null);
-const baseViewportRef = useRef<{ width: number; height: number } | null>(null);
-
-// Track the source coordinate space of incoming boxes (auto-guessed per page)
-const sourceDimsRef = useRef<{ width: number; height: number } | null>(null);
-
-// Add: detect if incoming boxes use bottom-left origin (PDF native space)
-const originBottomLeftRef = useRef(false);
+const baseViewportRef = useRef<PageGeometry | null>(null);
 
 // Add: manual zoom mode — disables auto-fit on resize after user zooms
 const manualZoomRef = useRef(false);
@@ -63,134 +185,8 @@ const manualZoomRef = useRef(false);
 // Add: suppress zoom-effect-triggered render during first page render to avoid flicker
 const suppressZoomEffectRef = useRef(false);
 
-// Add: normalize/scale helpers and current page state
-type WideBox = BoundingBox & { page?: number; color?: string };
-
-// Remove Y calibration drift correction (not needed; align strictly to PDF top-left)
-// const Y_CALIBRATION_PX = -2;
-
-/**
- * Simplified normalization:
- * - Do NOT apply magnitude-based scaling (no 100/1000 heuristics).
- * - Accept either [x1,y1,x2,y2] or [x,y,w,h] array forms.
- * - For objects, prefer x2/y2 if provided; otherwise use width/height.
- * - Leave values in their original units; toPxBox will normalize if <= 1, else scale using sourceDims.
- */
-function normalizeBoxAny(input: any): (BoundingBox & { page?: number }) | null {
-  if (!input) return null;
-
-  const toNum = (v: any) => (v === null || v === undefined || v === "" ? NaN : Number(v));
-
-  // Arrays: interpret as [x1, y1, x2, y2, (page?)]
-  if (Array.isArray(input)) {
-    if (input.length < 4) return null;
-
-    let x1 = toNum(input[0]);
-    let y1 = toNum(input[1]);
-    let x2 = toNum(input[2]);
-    let y2 = toNum(input[3]);
-    const page = toNum(input[4]);
-
-    if (![x1, y1, x2, y2].every(Number.isFinite)) return null;
-
-    // Enforce correct edge ordering
-    if (x2 < x1) [x1, x2] = [x2, x1];
-    if (y2 < y1) [y1, y2] = [y2, y1];
-
-    const width = x2 - x1;
-    const height = y2 - y1;
-    if (width <= 0 || height <= 0) return null;
-
-    return {
-      x: x1,
-      y: y1,
-      width,
-      height,
-      page: Number.isFinite(page) ? page : undefined,
-    };
-  }
-
-  // Object-like formats: prefer explicit edges x1,y1,x2,y2; fall back to x,y,width,height
-  const rawX1 = toNum(input.x1 ?? input.left ?? input.minX);
-  const rawY1 = toNum(input.y1 ?? input.top ?? input.minY);
-  let rawX2 = toNum(input.x2 ?? input.right ?? input.maxX);
-  let rawY2 = toNum(input.y2 ?? input.bottom ?? input.maxY);
-
-  const rawX = toNum(input.x ?? input.left ?? input.x0 ?? input.startX);
-  const rawY = toNum(input.y ?? input.top ?? input.y0 ?? input.startY);
-  const rawW = toNum(input.width ?? input.w);
-  const rawH = toNum(input.height ?? input.h);
-
-  // If we have explicit edges, use them
-  if ([rawX1, rawY1, rawX2, rawY2].every(Number.isFinite)) {
-    let x1 = rawX1;
-    let y1 = rawY1;
-    let x2 = rawX2;
-    let y2 = rawY2;
-    if (x2 < x1) [x1, x2] = [x2, x1];
-    if (y2 < y1) [y1, y2] = [y2, y1];
-    const width = x2 - x1;
-    const height = y2 - y1;
-    if (width > 0 && height > 0) {
-      const rawPage = input.page ?? input.page_number ?? input.pageIndex ?? input.p;
-      const page = toNum(rawPage);
-      return {
-        x: x1,
-        y: y1,
-        width,
-        height,
-        page: Number.isFinite(page) ? page : undefined,
-      };
-    }
-  }
-
-  // Else try x,y,width,height or derive x2/y2
-  let x = rawX;
-  let y = rawY;
-  let width = rawW;
-  let height = rawH;
-
-  if (!Number.isFinite(width) || !Number.isFinite(height)) {
-    if (Number.isFinite(rawX) && Number.isFinite(rawY) && Number.isFinite(rawX2) && Number.isFinite(rawY2)) {
-      width = rawX2 - rawX;
-      height = rawY2 - rawY;
-    }
-  }
-
-  const rawPage = input.page ?? input.page_number ?? input.pageIndex ?? input.p;
-  const page = toNum(rawPage);
-
-  if (
-    [x, y, width, height].every(Number.isFinite) &&
-    (width as number) > 0 &&
-    (height as number) > 0
-  ) {
-    return {
-      x: x as number,
-      y: y as number,
-      width: width as number,
-      height: height as number,
-      page: Number.isFinite(page) ? page : undefined,
-    };
-  }
-
-  return null;
-}
-
-// Add: normalize a WideBox while preserving page & color
-function normalizeWideBox(input: WideBox | null | undefined): WideBox | null {
-  if (!input) return null;
-  const nb = normalizeBoxAny(input);
-  if (!nb) return null;
-  return {
-    x: nb.x,
-    y: nb.y,
-    width: nb.width,
-    height: nb.height,
-    page: (input as any).page ?? nb.page,
-    color: (input as any).color,
-  } as WideBox;
-}
+// Add: highlight box (any parsed box shape, see lib/geometry) and current page state
+type WideBox = SourceBox & { color?: string };
 
 const [currentPage, setCurrentPage] = useState(1);
 const [totalPages, setTotalPages] = useState(1); // Add: track total pages
@@ -204,363 +200,91 @@ const [ocrWords, setOcrWords] = useState<Array<{ x: number; y: number; w: number
 // Add: lightweight debug toggle for Item #1
 const [showDebug, setShowDebug] = useState(false);
 
-// NEW: coordinate origin toggle (false = top-left, true = bottom-left)
-// Origin is fixed to top-left. No toggle required.
-const ORIGIN = "top-left" as const;
-
-/**
- * Updated normalization:
- * - If incoming edges look like a 0–1000 space (values >1 and <=1000), divide by 1000 to get unit space.
- * - Otherwise, fall back to PDF base viewport normalization.
- * - Arrays are [x1,y1,x2,y2]; objects can be edges or x,y,w,h.
- * - Origin is top-left.
- */
-function robustUnitEdges(input: any): { x1: number; y1: number; x2: number; y2: number } {
-  const base = getBaseDims();
-  const zero = { x1: 0, y1: 0, x2: 0, y2: 0 };
-  if (!input || !base.width || !base.height) return zero;
-
-  const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
-  const toNum = (v: any) => (v === null || v === undefined || v === "" ? NaN : Number(v));
-  const srcW = base.width;
-  const srcH = base.height;
-
-  // Arrays: [x1, y1, x2, y2]
-  if (Array.isArray(input) && input.length >= 4) {
-    let x1 = toNum(input[0]);
-    let y1 = toNum(input[1]);
-    let x2 = toNum(input[2]);
-    let y2 = toNum(input[3]);
-    if (![x1, y1, x2, y2].every(Number.isFinite)) return zero;
-
-    if (x2 < x1) [x1, x2] = [x2, x1];
-    if (y2 < y1) [y1, y2] = [y2, y1];
-
-    const alreadyUnit = [x1, y1, x2, y2].every((n) => n >= 0 && n <= 1);
-    // Heuristic: 0–1000 coordinate space (common extractor output)
-    const looksLikeThousandScale =
-      !alreadyUnit &&
-      [x1, y1, x2, y2].every((n) => Math.abs(n) <= 1000) &&
-      [x1, y1, x2, y2].some((n) => Math.abs(n) > 1);
-
-    let ux1: number, uy1: number, ux2: number, uy2: number;
-    if (looksLikeThousandScale) {
-      ux1 = x1 / 1000;
-      uy1 = y1 / 1000;
-      ux2 = x2 / 1000;
-      uy2 = y2 / 1000;
-    } else {
-      ux1 = alreadyUnit ? x1 : x1 / srcW;
-      uy1 = alreadyUnit ? y1 : y1 / srcH;
-      ux2 = alreadyUnit ? x2 : x2 / srcW;
-      uy2 = alreadyUnit ? y2 : y2 / srcH;
-    }
-
-    ux1 = clamp01(ux1);
-    uy1 = clamp01(uy1);
-    ux2 = clamp01(ux2);
-    uy2 = clamp01(uy2);
-    if (ux2 <= ux1 || uy2 <= uy1) return zero;
-    return { x1: ux1, y1: uy1, x2: ux2, y2: uy2 };
-  }
-
-  // Object edges fast-path: { x1, y1, x2, y2 }
-  if (typeof input === "object" && input !== null) {
-    const x1o = (input as any).x1;
-    const y1o = (input as any).y1;
-    const x2o = (input as any).x2;
-    const y2o = (input as any).y2;
-    if ([x1o, y1o, x2o, y2o].every((v) => typeof v === "number" && Number.isFinite(v))) {
-      let x1 = x1o as number;
-      let y1 = y1o as number;
-      let x2 = x2o as number;
-      let y2 = y2o as number;
-      if (x2 < x1) [x1, x2] = [x2, x1];
-      if (y2 < y1) [y1, y2] = [y2, y1];
-
-      const alreadyUnit = [x1, y1, x2, y2].every((n) => n >= 0 && n <= 1);
-      const looksLikeThousandScale =
-        !alreadyUnit &&
-        [x1, y1, x2, y2].every((n) => Math.abs(n) <= 1000) &&
-        [x1, y1, x2, y2].some((n) => Math.abs(n) > 1);
-
-      let ux1: number, uy1: number, ux2: number, uy2: number;
-      if (looksLikeThousandScale) {
-        ux1 = x1 / 1000;
-        uy1 = y1 / 1000;
-        ux2 = x2 / 1000;
-        uy2 = y2 / 1000;
-      } else {
-        ux1 = alreadyUnit ? x1 : x1 / srcW;
-        uy1 = alreadyUnit ? y1 : y1 / srcH;
-        ux2 = alreadyUnit ? x2 : x2 / srcW;
-        uy2 = alreadyUnit ? y2 : y2 / srcH;
-      }
-
-      ux1 = clamp01(ux1);
-      uy1 = clamp01(uy1);
-      ux2 = clamp01(ux2);
-      uy2 = clamp01(uy2);
-      if (ux2 <= ux1 || uy2 <= uy1) return zero;
-      return { x1: ux1, y1: uy1, x2: ux2, y2: uy2 };
-    }
+// Add: text layer + find bar. Text is extracted per page on demand and cached for the loaded PDF.
+const textPagesRef = useRef<Map<number, PdfTextItem[]>>(new Map());
+const [textVersion, setTextVersion] = useState(0);
+const [textSelectEnabled, setTextSelectEnabled] = useState(true);
+const [findOpen, setFindOpen] = useState(false);
+const [findQuery, setFindQuery] = useState('');
+const [findHits, setFindHits] = useState<PdfFindHit[]>([]);
+const [findIndex, setFindIndex] = useState(0);
+const [findSearching, setFindSearching] = useState(false);
+const findInputRef = useRef<HTMLInputElement>(null);
+
+// Add: thumbnail rail + continuous mode. pageDims holds the base size of every page for layout.
+const [pdfDoc, setPdfDoc] = useState<pdfjsLib.PDFDocumentProxy | null>(null);
+const [pageDims, setPageDims] = useState<PageDims[]>([]);
+const [thumbnailsOpen, setThumbnailsOpen] = useState(false);
+const [continuous, setContinuous] = useState(false);
+
+// Add: box edit mode (single page only); switched off when the handlers go away, e.g. once locked
+const [editMode, setEditMode] = useState(false);
+const canEditBoxes = Boolean(onSaveManualBox && onRemoveManualBox);
+const boxEditing = editMode && canEditBoxes;
+const toggleEditMode = () => {
+  if (!editMode) {
+    setContinuous(false);
+    setCaptureMode(false);
+    setTableMode(false);
   }
+  setEditMode((v) => !v);
+};
 
-  // Objects via normalizeBoxAny -> [x, y, width, height]
-  const nb = normalizeBoxAny(input);
-  if (!nb) return zero;
-
-  const { x, y, width, height } = nb;
-  const isUnit =
-    x >= 0 && y >= 0 && width > 0 && height > 0 && x <= 1 && y <= 1 && width <= 1 && height <= 1;
-
-  // Heuristic for 0–1000 box space
-  const looksLikeThousandScale =
-    !isUnit &&
-    [x, y, x + width, y + height].every((n) => Math.abs(n) <= 1000) &&
-    [x, y, width, height].some((n) => Math.abs(n) > 1);
-
-  let x1u: number, y1u: number, x2u: number, y2u: number;
-  if (looksLikeThousandScale) {
-    x1u = x / 1000;
-    y1u = y / 1000;
-    x2u = (x + width) / 1000;
-    y2u = (y + height) / 1000;
-  } else {
-    x1u = isUnit ? x : x / srcW;
-    y1u = isUnit ? y : y / srcH;
-    x2u = isUnit ? x + width : (x + width) / srcW;
-    y2u = isUnit ? y + height : (y + height) / srcH;
-  }
-
-  if (x2u < x1u) [x1u, x2u] = [x2u, x1u];
-  if (y2u < y1u) [y1u, y2u] = [y2u, y1u];
-
-  x1u = clamp01(x1u);
-  y1u = clamp01(y1u);
-  x2u = clamp01(x2u);
-  y2u = clamp01(y2u);
-  if (x2u <= x1u || y2u <= y1u) return zero;
-  return { x1: x1u, y1: y1u, x2: x2u, y2: y2u };
-}
-
-// Add: normalized edges (x1,y1,x2,y2) helpers and projection using base viewport
-function toUnitEdgesTopLeft(input: any): { x1: number; y1: number; x2: number; y2: number } {
-  const base = getBaseDims();
-  if (!base.width || !base.height) return { x1: 0, y1: 0, x2: 0, y2: 0 };
-
-  const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
-  const toNum = (v: any) => (v === null || v === undefined || v === "" ? NaN : Number(v));
-
-  // Arrays are always treated as [x1, y1, x2, y2]
-  if (Array.isArray(input) && input.length >= 4) {
-    let x1 = toNum(input[0]);
-    let y1 = toNum(input[1]);
-    let x2 = toNum(input[2]);
-    let y2 = toNum(input[3]);
-
-    if (![x1, y1, x2, y2].every(Number.isFinite)) return { x1: 0, y1: 0, x2: 0, y2: 0 };
-
-    const alreadyUnit = [x1, y1, x2, y2].every((n) => n >= 0 && n <= 1);
-    if (!alreadyUnit) {
-      x1 = x1 / base.width;
-      y1 = y1 / base.height;
-      x2 = x2 / base.width;
-      y2 = y2 / base.height;
-    }
-    return { x1: clamp01(x1), y1: clamp01(y1), x2: clamp01(x2), y2: clamp01(y2) };
+// Add: region capture mode (single page only); the last OCR capture's words are shown via ocrWords
+const [captureMode, setCaptureMode] = useState(false);
+const [capturing, setCapturing] = useState(false);
+const canCapture = Boolean(onCaptureRegion && captureLabel);
+const regionCapturing = captureMode && canCapture;
+const toggleCaptureMode = () => {
+  if (!captureMode) {
+    setContinuous(false);
+    setEditMode(false);
+    setTableMode(false);
   }
+  setOcrWords([]);
+  setCaptureMode((v) => !v);
+};
 
-  // Object-like formats
-  const rawX = toNum(input?.x ?? input?.left ?? input?.x0 ?? input?.x1 ?? input?.startX ?? input?.minX);
-  const rawY = toNum(input?.y ?? input?.top ?? input?.y0 ?? input?.y1 ?? input?.startY ?? input?.minY);
-  let rawX2 = toNum(input?.x2 ?? input?.right ?? input?.maxX);
-  let rawY2 = toNum(input?.y2 ?? input?.bottom ?? input?.maxY);
-
-  const rawW = toNum(input?.width ?? input?.w);
-  const rawH = toNum(input?.height ?? input?.h);
-
-  // Derive x2/y2 if missing
-  if (!Number.isFinite(rawX2) && Number.isFinite(rawX) && Number.isFinite(rawW)) rawX2 = rawX + rawW;
-  if (!Number.isFinite(rawY2) && Number.isFinite(rawY) && Number.isFinite(rawH)) rawY2 = rawY + rawH;
-
-  if (![rawX, rawY, rawX2, rawY2].every(Number.isFinite)) return { x1: 0, y1: 0, x2: 0, y2: 0 };
-
-  let x1 = rawX;
-  let y1 = rawY;
-  let x2 = rawX2;
-  let y2 = rawY2;
-
-  const alreadyUnit = [x1, y1, x2, y2].every((n) => n >= 0 && n <= 1);
-  if (!alreadyUnit) {
-    x1 = x1 / base.width;
-    y1 = y1 / base.height;
-    x2 = x2 / base.width;
-    y2 = y2 / base.height;
+// Add: table mode (single page only); a region drawn around an item table is read into rows and columns
+const [tableMode, setTableMode] = useState(false);
+const [readingTable, setReadingTable] = useState(false);
+const tableSelecting = tableMode && Boolean(onTableRegion);
+const toggleTableMode = () => {
+  if (!tableMode) {
+    setContinuous(false);
+    setEditMode(false);
+    setCaptureMode(false);
   }
+  setTableMode((v) => !v);
+};
 
-  return {
-    x1: clamp01(x1),
-    y1: clamp01(y1),
-    x2: clamp01(x2),
-    y2: clamp01(y2),
-  };
-}
-
-function edgesToPxRect(
-  edges: { x1: number; y1: number; x2: number; y2: number },
-  base?: { width: number; height: number }
-) {
-  // Use provided base or fall back to the PDF base viewport (scale=1)
-  const baseDims = base && base.width && base.height ? base : getBaseDims();
-  const baseW = baseDims.width || 1;
-  const baseH = baseDims.height || 1;
-
-  const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
-  const x1 = clamp01(edges.x1);
-  const y1 = clamp01(edges.y1);
-  const x2 = clamp01(edges.x2);
-  const y2 = clamp01(edges.y2);
-
-  const x = x1 * baseW;
-  const y = y1 * baseH;
-  const width = Math.max(0, x2 - x1) * baseW;
-  const height = Math.max(0, y2 - y1) * baseH;
-  return { x, y, width, height };
-}
+// Add: reverse linking (page point -> fields); off while edit or capture mode owns the pointer
+const pagePointsEnabled = !boxEditing && !regionCapturing && !tableSelecting;
+const handlePagePointerMove = (e: React.MouseEvent) => {
+  if (onPagePoint) onPagePoint(pagePointsEnabled ? pagePointOfEvent(e) : null, 'hover');
+};
+const handlePageClick = (e: React.MouseEvent) => {
+  // A click that ends a text selection is not a jump to the fields
+  if (!onPagePoint || !pagePointsEnabled || window.getSelection()?.toString()) return;
+  const point = pagePointOfEvent(e);
+  if (point) onPagePoint(point, 'click');
+};
 
-const getBaseDims = () => {
+const getBaseDims = useCallback((): PageGeometry => {
   // Only use the base viewport (scale = 1) to avoid double-scaling.
   const base = baseViewportRef.current;
   if (base?.width && base?.height) return base;
   return { width: 0, height: 0 };
-};
+}, []);
 
 // Add a reactive flag to ensure base viewport is ready before projecting boxes
 const baseReady = !!(baseViewportRef.current?.width && baseViewportRef.current?.height);
 
-// Helper: recompute whether incoming boxes use a bottom-left origin (PDF native)
-const recomputeOriginGuess = () => {
-  originBottomLeftRef.current = false;
-};
-
-// Returns a normalized (0..1) top-left origin box for a given input box using PDF base only
-const toUnitBoxTopLeft = (
-  box: WideBox
-): { x: number; y: number; width: number; height: number } => {
-  if (
-    box == null ||
-    typeof box.x !== "number" ||
-    typeof box.y !== "number" ||
-    typeof box.width !== "number" ||
-    typeof box.height !== "number"
-  ) {
-    return { x: 0, y: 0, width: 0, height: 0 };
-  }
-
-  const base = getBaseDims();
-  if (!base.width || !base.height) {
-    return { x: 0, y: 0, width: 0, height: 0 };
-  }
-
-  const isNormalized =
-    box.x >= 0 &&
-    box.y >= 0 &&
-    box.width > 0 &&
-    box.height > 0 &&
-    box.x <= 1 &&
-    box.y <= 1 &&
-    box.width <= 1 &&
-    box.height <= 1;
-
-  // Force base viewport as the source space
-  const srcW = base.width;
-  const srcH = base.height;
-
-  const normX = isNormalized ? box.x : box.x / srcW;
-  const normW = isNormalized ? box.width : box.width / srcW;
-
-  let normY: number;
-  let normH: number;
-  if (isNormalized) {
-    normH = box.height;
-    normY = box.y;
-  } else {
-    normH = box.height / srcH;
-    normY = box.y / srcH;
-  }
-
-  const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
-  return {
-    x: clamp01(normX),
-    y: clamp01(normY),
-    width: clamp01(normW),
-    height: clamp01(normH),
-  };
-};
-
-// Project to pixels from normalized top-left origin using PDF base only
-const toPxBox = (box: WideBox): WideBox => {
-  if (
-    box == null ||
-    typeof box.x !== "number" ||
-    typeof box.y !== "number" ||
-    typeof box.width !== "number" ||
-    typeof box.height !== "number"
-  ) {
-    return box;
-  }
-
-  const base = getBaseDims();
-  if (!base.width || !base.height) return box;
-
-  const isNormalized =
-    box.x >= 0 &&
-    box.y >= 0 &&
-    box.width > 0 &&
-    box.height > 0 &&
-    box.x <= 1 &&
-    box.y <= 1 &&
-    box.width <= 1 &&
-    box.height <= 1;
-
-  // Force base viewport as the source space
-  const srcW = base.width;
-  const srcH = base.height;
-
-  const normX = isNormalized ? box.x : box.x / srcW;
-  const normW = isNormalized ? box.width : box.width / srcW;
-
-  let normY: number;
-  let normH: number;
-  if (isNormalized) {
-    normH = box.height;
-    normY = box.y;
-  } else {
-    normH = box.height / srcH;
-    normY = box.y / srcH;
-  }
-
-  const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
-  const pxX = clamp01(normX) * base.width;
-  const pxY = clamp01(normY) * base.height;
-  const pxW = clamp01(normW) * base.width;
-  const pxH = clamp01(normH) * base.height;
-
-  return {
-    x: pxX,
-    y: pxY,
-    width: pxW,
-    height: pxH,
-    page: (box as any).page,
-    color: (box as any).color,
-  } as WideBox;
-};
-
-// NEW: arrays/edges are already top-left; no flipping.
-function unitEdgesFromInput(input: any): { x1: number; y1: number; x2: number; y2: number } {
-  return robustUnitEdges(input);
-}
+// Unit edges of a box on the current page, or on another page of continuous mode
+const unitEdgesOf = useCallback(
+  (input: unknown, base?: PageGeometry) => toUnitEdges(input, base ?? getBaseDims()),
+  [getBaseDims]
+);
 
 const previewCanvasRef = useRef<HTMLCanvasElement | null>(null);
 const [hoverPreview, setHoverPreview] = useState<{
@@ -602,7 +326,7 @@ function showHoverPreview(rectPx: { x: number; y: number; width: number; height:
   // Always set the preview position/state first so the canvas mounts
   setHoverPreview({
     visible: true,
-    left: (rectPx.x * zoom) + (rectPx.width * zoom) + 16,
+    left: (rectPx.x * zoom) + (rectPx.width * zoom) + 16 + (thumbnailsOpen ? THUMBNAIL_RAIL_WIDTH : 0),
     top: Math.max(12, (rectPx.y * zoom) - 12),
     width: dstW,
     height: dstH,
@@ -775,114 +499,16 @@ function hideHoverPreview() {
   };
 
   // Compute candidate boxes from documentData and simple merging/focus logic
-  const { mergedBoxes, focusBox, allBoxes, sourceDims } = useMemo(() => {
+  const { mergedBoxes, focusBox, allBoxes } = useMemo(() => {
     const result = { 
       mergedBoxes: [] as BoundingBox[], 
-      focusBox: null as BoundingBox | null,
-      allBoxes: [] as BoundingBox[],
-      sourceDims: { width: 0, height: 0 } as { width: number; height: number },
+      focusBox: null as SourceBox | null,
+      allBoxes: [] as SourceBox[],
     };
     if (!documentData?.document?.pages?.length) return result;
 
-    // Select boxes for the currently rendered PDF page (fallback to first page)
-    const pages = documentData.document.pages;
-    const page = pages.find((p: any) => p?.page_number === currentPage) ?? pages[0];
-
-    // Boxes container should include optional page
-    const boxes: Array<(BoundingBox & { page?: number; label?: string; value?: string })> = [];
-
-    // Collect a field with its label and value so we can display value on the overlay
-    const pushField = (label: string, field?: { value?: string; bounding_box?: any[] }) => {
-      if (!field?.bounding_box?.length) return;
-      field.bounding_box.forEach((b) => {
-        const nb = normalizeBoxAny(b);
-        if (nb) boxes.push({ ...nb, label, value: field.value });
-      });
-    };
-
-    // Metadata fields
-    pushField('Document Title', page?.metadata?.document_title);
-    pushField('Date', page?.metadata?.date);
-    pushField('Purchase Order No', page?.metadata?.purchase_order_no);
-    pushField('Vendor Name', page?.parties?.vendor_information?.vendor_name);
-    pushField('Vendor Address', page?.parties?.vendor_information?.address);
-    pushField('Vendor Contact', page?.parties?.vendor_information?.contact_no);
-    pushField('Sales Person', page?.parties?.vendor_information?.sales_person);
-    pushField('Customer Name', page?.customerparties?.customer_information?.customer_name);
-    pushField('Customer Address', page?.customerparties?.customer_information?.address);
-    pushField('Customer Contact', page?.customerparties?.customer_information?.contact_no);
-    pushField('Customer Person', page?.customerparties?.customer_information?.contact_person);
-    pushField('Customer Email', page?.customerparties?.customer_information?.email_address);
-
-    // Items (merge all boxes of each item into a single row box)
-    if (Array.isArray(page?.items)) {
-      page.items.forEach((item: any, idx: number) => {
-        if (Array.isArray(item?.bounding_box) && item.bounding_box.length) {
-          // Compute merged row box using leftmost x1,y1 and farthest right/bottom x2,y2
-          let leftmostX = Number.POSITIVE_INFINITY;
-          let leftmostY = Number.POSITIVE_INFINITY;
-          let haveLeft = false;
-
-          let maxRight = Number.NEGATIVE_INFINITY;
-          let maxBottom = Number.NEGATIVE_INFINITY;
-
-          item.bounding_box.forEach((b: any) => {
-            const nb = normalizeBoxAny(b);
-            if (!nb) return;
-            const x1 = nb.x;
-            const y1 = nb.y;
-            const x2 = nb.x + nb.width;
-            const y2 = nb.y + nb.height;
-
-            if (Number.isFinite(x1) && x1 < leftmostX) {
-              leftmostX = x1;
-              leftmostY = Number.isFinite(y1) ? y1 : leftmostY;
-              haveLeft = true;
-            }
-            if (Number.isFinite(x2) && x2 > maxRight) maxRight = x2;
-            if (Number.isFinite(y2) && y2 > maxBottom) maxBottom = y2;
-          });
-
-          if (
-            haveLeft &&
-            Number.isFinite(maxRight) &&
-            Number.isFinite(maxBottom) &&
-            maxRight > leftmostX &&
-            maxBottom > leftmostY
-          ) {
-            const desc: string = typeof item?.description === 'string' ? item.description : '';
-            const value = desc ? `Item ${idx + 1}: ${desc}` : `Item ${idx + 1}`;
-            boxes.push({
-              x: leftmostX,
-              y: leftmostY,
-              width: maxRight - leftmostX,
-              height: maxBottom - leftmostY,
-              label: `Item ${idx + 1} (row)`,
-              value,
-            } as any);
-          }
-        }
-      });
-    }
-
-    // Recursively collect any bounding_box arrays anywhere on the page object
-    const collectBoxes = (node: any) => {
-      if (!node) return;
-      if (Array.isArray(node)) {
-        node.forEach(collectBoxes);
-        return;
-      }
-      if (typeof node === 'object') {
-        if (Array.isArray((node as any).bounding_box)) {
-          (node as any).bounding_box.forEach((b: any) => {
-            const nb = normalizeBoxAny(b);
-            if (nb) boxes.push(nb);
-          });
-        }
-        Object.values(node).forEach(collectBoxes);
-      }
-    };
-    collectBoxes(page);
+    // Select boxes for the currently rendered PDF page
+    const boxes = boxesOnPage(documentData.document.pages, currentPage);
 
     // Simple merge for overlapping or close boxes (10px threshold)
     const threshold = 10;
@@ -927,52 +553,26 @@ function hideHoverPreview() {
     const keyBox =
       boxes.find((b: any) => b.label && keyLabels.test(String(b.label))) || null;
 
-    // Compute source coordinate space guess from raw boxes before scaling
-    // Only consider non-normalized boxes (>1) to avoid collapsing to [0..1] when normalized inputs exist.
-    let maxRight = 0;
-    let maxBottom = 0;
-    for (const b of boxes) {
-      const isNormalized =
-        b.x >= 0 && b.y >= 0 && b.width > 0 && b.height > 0 &&
-        b.x <= 1 && b.y <= 1 && b.width <= 1 && b.height <= 1;
-      if (isNormalized) continue;
-      const r = b.x + b.width;
-      const bt = b.y + b.height;
-      if (Number.isFinite(r) && r > maxRight) maxRight = r;
-      if (Number.isFinite(bt) && bt > maxBottom) maxBottom = bt;
-    }
-    // Fallbacks to avoid zeros; if everything is normalized, prefer the PDF base viewport.
-    const base = baseViewportRef.current;
-    if (!Number.isFinite(maxRight) || maxRight <= 1) {
-      maxRight = (base?.width && base.width > 0) ? base.width : 1;
-    }
-    if (!Number.isFinite(maxBottom) || maxBottom <= 1) {
-      maxBottom = (base?.height && base.height > 0) ? base.height : 1;
-    }
-
     result.mergedBoxes = merged;
-    result.focusBox = keyBox ? { x: keyBox.x, y: keyBox.y, width: keyBox.width, height: keyBox.height } : null;
+    result.focusBox = keyBox ? { x: keyBox.x, y: keyBox.y, width: keyBox.width, height: keyBox.height, space: keyBox.space } : null;
     // Preserve label/value for overlays
-    result.allBoxes = boxes.map(({ x, y, width, height, page, label, value }) => (
-      { x, y, width, height, page, label, value } as any
+    result.allBoxes = boxes.map(({ x, y, width, height, page, space, label, value }) => (
+      { x, y, width, height, page, space, label, value } as any
     ));
-    result.sourceDims = { width: maxRight, height: maxBottom };
     return result;
   }, [documentData, currentPage]);
 
-  // Keep source dimension guess in a ref for the projector
-  useEffect(() => {
-    if (sourceDims?.width && sourceDims?.height) {
-      sourceDimsRef.current = sourceDims;
-      // Optional: log once for diagnostics
-      console.debug("PDFViewer: sourceDims guessed", sourceDims);
+  // Add: boxes of every page for continuous mode
+  const boxesByPage = useMemo(() => {
+    const byPage = new Map<number, SourceBox[]>();
+    const pages = documentData?.document?.pages ?? [];
+    if (!continuous || !pages.length) return byPage;
+    for (let n = 1; n <= totalPages; n++) {
+      const boxes = boxesOnPage(pages, n);
+      if (boxes.length) byPage.set(n, boxes);
     }
-  }, [sourceDims?.width, sourceDims?.height, currentPage]);
-
-  // Add: auto-detect if incoming boxes use bottom-left origin and flip Y accordingly
-  useEffect(() => {
-    recomputeOriginGuess();
-  }, [allBoxes, sourceDims?.width, sourceDims?.height, currentPage]);
+    return byPage;
+  }, [documentData, continuous, totalPages]);
 
   // Add: comprehensive debug snapshot for Item #1 (first item on current page)
   const item1Debug = useMemo(() => {
@@ -987,73 +587,21 @@ function hideHoverPreview() {
 
       const rawBoxes: any[] = Array.isArray(item?.bounding_box) ? item.bounding_box : [];
 
-      // Parsed boxes using the same function as overlays
-      const parsedBoxes = rawBoxes.map((b) => normalizeBoxAny(b));
-
-      // CHANGED: use robustUnitEdges so origin is respected
-      const unitEdges = parsedBoxes.map((pb) => robustUnitEdges(pb));
+      // Parsed boxes and their projection, as the overlays do it
+      const parsedBoxes = rawBoxes.map((b) => parseBox(b));
+      const spaces = parsedBoxes.map((pb) => (pb ? coordinateSpaceOf(pb) : null));
+      const unitEdges = parsedBoxes.map((pb) => unitEdgesOf(pb));
 
       // Pixel rectangles (base) and at current zoom used for screen placement
       const baseDimsForDebug = getBaseDims();
-      const pxRectsAtBase = unitEdges.map((e) => edgesToPxRect(e, baseDimsForDebug));
-      const pxRectsAtZoom = pxRectsAtBase.map((r) => ({
-        x: r.x * zoom,
-        y: r.y * zoom,
-        width: r.width * zoom,
-        height: r.height * zoom,
-      }));
-
-      // Merged row box calculation for item (leftmost top-left + farthest bottom-right)
-      let leftmostX = Number.POSITIVE_INFINITY;
-      let leftmostY = Number.POSITIVE_INFINITY;
-      let haveLeft = false;
-      let maxRight = Number.NEGATIVE_INFINITY;
-      let maxBottom = Number.NEGATIVE_INFINITY;
-
-      rawBoxes.forEach((b) => {
-        const nb = normalizeBoxAny(b);
-        if (!nb) return;
-        const x1 = nb.x;
-        const y1 = nb.y;
-        const x2 = nb.x + nb.width;
-        const y2 = nb.y + nb.height;
-
-        if (Number.isFinite(x1) && x1 < leftmostX) {
-          leftmostX = x1;
-          leftmostY = Number.isFinite(y1) ? y1 : leftmostY;
-          haveLeft = true;
-        }
-        if (Number.isFinite(x2) && x2 > maxRight) maxRight = x2;
-        if (Number.isFinite(y2) && y2 > maxBottom) maxBottom = y2;
-      });
+      const pxRectsAtBase = unitEdges.map((e) => (e ? toPixelRect(e, baseDimsForDebug) : null));
+      const pxRectsAtZoom = unitEdges.map((e) => (e ? toPixelRect(e, baseDimsForDebug, zoom) : null));
 
-      const merged =
-        haveLeft &&
-        Number.isFinite(maxRight) &&
-        Number.isFinite(maxBottom) &&
-        maxRight > leftmostX &&
-        maxBottom > leftmostY
-          ? {
-              x: leftmostX,
-              y: leftmostY,
-              width: maxRight - leftmostX,
-              height: maxBottom - leftmostY,
-            }
-          : null;
-
-      // Convert merged to unit edges following the same pipeline the overlays use
-      const mergedEdgesUnit = merged
-        ? robustUnitEdges([merged.x, merged.y, merged.x + merged.width, merged.y + merged.height])
-        : null;
-      const mergedPxRectAtBase = mergedEdgesUnit ? edgesToPxRect(mergedEdgesUnit, baseDimsForDebug) : null;
-      const mergedPxRectAtZoom = mergedPxRectAtBase
-        ? {
-            x: mergedPxRectAtBase.x * zoom,
-            y: mergedPxRectAtBase.y * zoom,
-            width: mergedPxRectAtBase.width * zoom,
-            height: mergedPxRectAtBase.height * zoom,
-          }
-        : null;
+      // Row box of the item (union of its boxes), as drawn on the page
+      const merged = unionBoxes(parsedBoxes);
+      const mergedEdgesUnit = unitEdgesOf(merged);
+      const mergedPxRectAtBase = mergedEdgesUnit ? toPixelRect(mergedEdgesUnit, baseDimsForDebug) : null;
+      const mergedPxRectAtZoom = mergedEdgesUnit ? toPixelRect(mergedEdgesUnit, baseDimsForDebug, zoom) : null;
 
       const debug = {
         // Keep a single, non-duplicated set of fields
@@ -1063,26 +611,21 @@ function hideHoverPreview() {
         baseDims: baseDimsForDebug,
         canvasSize,
         zoom,
-        sourceDimsGuess: sourceDimsRef.current ?? null,
 
         itemIndex: 0,
         rawBoxes,
         parsedBoxes,
+        spaces,
         unitEdges,
         pxRectsAtBase,
         pxRectsAtZoom,
 
         mergedRow: {
-          leftmostX,
-          leftmostY,
-          maxRight,
-          maxBottom,
           mergedBox: merged,
           mergedEdgesUnit,
           mergedPxRectAtBase,
           mergedPxRectAtZoom,
         },
-        coordOrigin: "top-left",
       };
 
       console.debug("PDFViewer:item1-debug", debug);
@@ -1091,7 +634,7 @@ function hideHoverPreview() {
       console.warn("PDFViewer:item1-debug failed", e);
       return null;
     }
-  }, [documentData, currentPage, zoom, canvasSize.width, canvasSize.height, totalPages]);
+  }, [documentData, currentPage, zoom, canvasSize.width, canvasSize.height, totalPages, getBaseDims, unitEdgesOf]);
 
   // Fetch PDF (URL-first for streaming) with proxy fallback; hide loader after first page render
   useEffect(() => {
@@ -1108,72 +651,98 @@ function hideHoverPreview() {
     setError(null);
 
     (async () => {
-      try {
-        // Fast path: let pdf.js stream the PDF over HTTP with range requests
-        const loadingTask = pdfjsLib.getDocument({ url: pdfUrl } as any);
-        const pdf = await loadingTask.promise;
-        if (cancelled) return;
-
-        pdfDocRef.current = pdf;
-        setTotalPages(pdf.numPages);
-
-        const page = await pdf.getPage(1);
-        if (cancelled) return;
+      // Add: images and TIFFs cannot be streamed by pdf.js; their bytes are fetched below
+      const urlKind = detectSourceKind({ path: storagePath || pdfUrl });
+      if (urlKind === 'pdf') {
+        try {
+          // Fast path: let pdf.js stream the PDF over HTTP with range requests
+          const loadingTask = pdfjsLib.getDocument({ url: pdfUrl } as any);
+          const pdf = await loadingTask.promise;
+          if (cancelled) return;
 
-        pageRef.current = page;
-        setCurrentPage(1);
+          latestRef.current.attachPdf(pdf);
 
-        const baseViewport = page.getViewport({ scale: 1 });
-        baseViewportRef.current = { width: baseViewport.width, height: baseViewport.height };
+          const page = await pdf.getPage(1);
+          if (cancelled) return;
 
-        // Compute initial scale (fit-to-width if requested)
-        let initialScale = 1;
-        if (fitToWidthInitially && containerRef.current && baseViewport.width) {
-          const containerWidth = containerRef.current.clientWidth || 0;
-          if (containerWidth) {
-            initialScale = clampZoom(containerWidth / baseViewport.width);
-            didFitToWidthRef.current = true;
+          pageRef.current = page;
+          setCurrentPage(1);
+
+          const baseViewport = page.getViewport({ scale: 1 });
+          baseViewportRef.current = pageGeometryOf(baseViewport);
+
+          // Compute initial scale (fit-to-width if requested)
+          let initialScale = 1;
+          if (fitToWidthInitially && containerRef.current && baseViewport.width) {
+            const containerWidth = containerRef.current.clientWidth || 0;
+            if (containerWidth) {
+              initialScale = clampZoom(containerWidth / baseViewport.width);
+              didFitToWidthRef.current = true;
+            }
           }
-        }
 
-        // Suppress the zoom effect during the first render to avoid double render flicker
-        suppressZoomEffectRef.current = true;
-        setZoom(initialScale);
-        setCanvasScale(initialScale);
-        await renderPage(initialScale);
-        suppressZoomEffectRef.current = false;
+          // Suppress the zoom effect during the first render to avoid double render flicker
+          suppressZoomEffectRef.current = true;
+          setZoom(initialScale);
+          setCanvasScale(initialScale);
+          await renderPage(initialScale);
+          suppressZoomEffectRef.current = false;
 
-        setIsLoading(false);
-        if (onLoad) onLoad();
-        return; // Done: URL streaming path succeeded
-      } catch (err) {
-        console.warn('PDFViewer: Direct URL load failed, falling back to proxy...', err);
-        // Fall through to proxy fetch below
+          setIsLoading(false);
+          if (onLoad) onLoad();
+          return; // Done: URL streaming path succeeded
+        } catch (err) {
+          console.warn('PDFViewer: Direct URL load failed, falling back to proxy...', err);
+          // Fall through to proxy fetch below
+        }
       }
 
       try {
-        const result: any = await fetchPdfProxy({ pdfUrl });
-        console.log('PDFViewer: Backend proxy response:', {
-          success: result.success,
-          size: result.success ? result.size : 0,
-          contentType: result.success ? result.contentType : null,
-        });
-
-        if (!result.success || !result.data) {
-          throw new Error(result?.error || 'Proxy did not return PDF data');
+        let bytes: Uint8Array | null = null;
+        let contentType: string | null = null;
+
+        // Add: raster sources are fetched directly first; the proxy covers CORS failures
+        if (urlKind !== 'pdf') {
+          try {
+            const response = await fetch(pdfUrl);
+            if (response.ok) {
+              bytes = new Uint8Array(await response.arrayBuffer());
+              contentType = response.headers.get('content-type');
+            }
+          } catch (err) {
+            console.warn('PDFViewer: Direct image fetch failed, falling back to proxy...', err);
+          }
+          if (cancelled) return;
         }
 
-        // base64 -> Uint8Array -> ArrayBuffer (create a copy to avoid detachment)
-        const binaryString = atob(result.data);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
+        if (!bytes?.byteLength) {
+          const result: any = await fetchPdfProxy({ pdfUrl });
+          console.log('PDFViewer: Backend proxy response:', {
+            success: result.success,
+            size: result.success ? result.size : 0,
+            contentType: result.success ? result.contentType : null,
+          });
+
+          if (!result.success || !result.data) {
+            throw new Error(result?.error || 'Proxy did not return PDF data');
+          }
+
+          // base64 -> Uint8Array
+          const binaryString = atob(result.data);
+          bytes = new Uint8Array(binaryString.length);
+          for (let i = 0; i < binaryString.length; i++) {
+            bytes[i] = binaryString.charCodeAt(i);
+          }
+          contentType = result.contentType ?? null;
         }
-        const arrayBuffer = bytes.buffer.slice(0);
-        const safeCopy = new Uint8Array(arrayBuffer);
+
+        // Copy into a fresh ArrayBuffer to avoid detachment
+        const safeCopy = new Uint8Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
         if (safeCopy.byteLength === 0) {
-          throw new Error('PDF data buffer is empty (0 bytes) from proxy');
+          throw new Error('Document data buffer is empty (0 bytes)');
         }
+        if (cancelled) return;
+        sourceKindRef.current = detectSourceKind({ path: storagePath || pdfUrl, contentType, bytes: safeCopy });
         setPdfArrayBuffer(safeCopy.buffer);
         // Do NOT set isLoading(false) here; we hide loader after first page render in the buffer loader effect
       } catch (err2: any) {
@@ -1186,7 +755,7 @@ function hideHoverPreview() {
     return () => {
       cancelled = true;
     };
-  }, [pdfUrl, fetchPdfProxy, onLoad, fitToWidthInitially]);
+  }, [pdfUrl, storagePath, fetchPdfProxy, onLoad, fitToWidthInitially]);
 
   // Load PDF and first page once per ArrayBuffer and cache for fast zoom renders
   useEffect(() => {
@@ -1196,11 +765,14 @@ function hideHoverPreview() {
     (async () => {
       try {
         const bufferCopy = pdfArrayBuffer.slice(0);
-        const loadingTask = pdfjsLib.getDocument({ data: bufferCopy });
-        const pdf = await loadingTask.promise;
+        // Add: images and TIFFs are decoded into a pdf.js-compatible document
+        const kind = sourceKindRef.current;
+        const pdf =
+          kind === 'pdf'
+            ? await pdfjsLib.getDocument({ data: bufferCopy }).promise
+            : await loadRasterDocument(new Uint8Array(bufferCopy), kind);
         if (cancelled) return;
-        pdfDocRef.current = pdf;
-        setTotalPages(pdf.numPages); // Add: set total pages
+        latestRef.current.attachPdf(pdf);
 
         const page = await pdf.getPage(1);
         if (cancelled) return;
@@ -1208,8 +780,7 @@ function hideHoverPreview() {
         setCurrentPage(1); // Ensure page state is synced
 
         const baseViewport = page.getViewport({ scale: 1 });
-        baseViewportRef.current = { width: baseViewport.width, height: baseViewport.height };
-        // Do NOT override sourceDimsRef here; prefer data-derived source dims when available.
+        baseViewportRef.current = pageGeometryOf(baseViewport);
 
         // Compute initial scale (fit-to-width if requested)
         let initialScale = 1;
@@ -1248,16 +819,52 @@ function hideHoverPreview() {
     };
   }, [pdfArrayBuffer, fitToWidthInitially]);
 
+  // Add: adopt a newly loaded PDF (text cache, page count and page sizes start over)
+  const attachPdf = (pdf: pdfjsLib.PDFDocumentProxy) => {
+    pdfDocRef.current = pdf;
+    setPdfDoc(pdf);
+    setPageDims([]);
+    resetTextCache();
+    setTotalPages(pdf.numPages);
+    onDocumentLoad?.(pdf);
+  };
+
+  // Continuous mode: scroll so a point of a page (base px; page top when omitted) is in view
+  const scrollToPagePoint = (
+    pageNum: number,
+    point?: { x: number; y: number },
+    behavior: ScrollBehavior = 'smooth'
+  ) => {
+    const container = containerRef.current;
+    const slot = container?.querySelector<HTMLElement>(`[data-page-number="${pageNum}"]`);
+    if (!container || !slot) return;
+    if (!point) {
+      container.scrollTo({ top: slot.offsetTop, behavior });
+      return;
+    }
+    container.scrollTo({
+      left: slot.offsetLeft + point.x * zoom - container.clientWidth / 2,
+      top: slot.offsetTop + point.y * zoom - container.clientHeight / 2,
+      behavior,
+    });
+  };
+
+  // Page of a highlight box (1-based, clamped); boxes without a page belong to the current page
+  const highlightPageOf = (box: WideBox) => pageOfBox(box, totalPages, currentPage);
+
   // Add: page navigation helpers
   const goToPage = async (pageNum: number) => {
     if (!pdfDocRef.current) return;
     const clamped = Math.max(1, Math.min(pageNum, totalPages));
+    if (continuous) {
+      scrollToPagePoint(clamped);
+      return;
+    }
     try {
       const page = await pdfDocRef.current.getPage(clamped);
       pageRef.current = page;
       const base = page.getViewport({ scale: 1 });
-      baseViewportRef.current = { width: base.width, height: base.height };
-      // Do NOT override sourceDimsRef here; keep using data-derived dims when present.
+      baseViewportRef.current = pageGeometryOf(base);
       setCurrentPage(clamped);
       await renderPage(canvasScale);
     } catch (e) {
@@ -1267,6 +874,231 @@ function hideHoverPreview() {
   const handlePrevPage = () => void goToPage(currentPage - 1);
   const handleNextPage = () => void goToPage(currentPage + 1);
 
+  // Add: text layer / find helpers
+  const resetTextCache = () => {
+    textPagesRef.current = new Map();
+    setTextVersion((v) => v + 1);
+    setFindHits([]);
+    setFindIndex(0);
+  };
+
+  const loadPageText = async (pageNum: number) => {
+    const cached = textPagesRef.current.get(pageNum);
+    if (cached) return cached;
+    const pdf = pdfDocRef.current;
+    if (!pdf) return [];
+    const page = await pdf.getPage(pageNum);
+    const items = await extractPageText(page);
+    // Ignore results for a PDF that was replaced meanwhile
+    if (pdfDocRef.current === pdf) {
+      textPagesRef.current.set(pageNum, items);
+    }
+    return items;
+  };
+
+  // Add: read the selected region (text layer first, OCR for scans) and hand it to the focused field
+  const handleCaptureRegion = async (region: UnitEdges) => {
+    const pdf = pdfDocRef.current;
+    if (!pdf || !onCaptureRegion) return;
+    setCapturing(true);
+    setOcrWords([]);
+    try {
+      const page = await pdf.getPage(currentPage);
+      const items = await loadPageText(currentPage);
+      const capture = await captureRegionText(page, items, region);
+      if (!capture.text) {
+        toast.warning('No text found in the selected region');
+        return;
+      }
+      const base = getBaseDims();
+      setOcrWords(
+        capture.words.map((w) => ({
+          x: w.x1 * base.width,
+          y: w.y1 * base.height,
+          w: (w.x2 - w.x1) * base.width,
+          h: (w.y2 - w.y1) * base.height,
+          text: w.text,
+          conf: w.confidence,
+        }))
+      );
+      await onCaptureRegion(capture);
+    } catch (e: any) {
+      toast.error(`Capture failed: ${e?.message || e}`);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  // Add: read the rows and columns of the table drawn around and hand them on for mapping
+  const handleTableRegion = async (region: UnitEdges) => {
+    const pdf = pdfDocRef.current;
+    if (!pdf || !onTableRegion) return;
+    setReadingTable(true);
+    try {
+      const page = await pdf.getPage(currentPage);
+      const items = await loadPageText(currentPage);
+      const table = await readTableRegion(page, items, region);
+      if (!table.rows.length) {
+        toast.warning('No text found in the selected region');
+        return;
+      }
+      onTableRegion(table);
+    } catch (e: any) {
+      toast.error(`Table detection failed: ${e?.message || e}`);
+    } finally {
+      setReadingTable(false);
+    }
+  };
+
+  // Scroll a find hit into view, switching pages first if needed
+  const goToHit = async (hit: PdfFindHit | undefined) => {
+    if (!hit) return;
+    if (continuous) {
+      const base = pageDims[hit.page - 1];
+      const first = hit.rects[0];
+      if (!base || !first) return;
+      const rect = toPixelRect(first, base);
+      scrollToPagePoint(hit.page, { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 });
+      return;
+    }
+    if (pageRef.current?.pageNumber !== hit.page) {
+      await goToPage(hit.page);
+    }
+    const container = containerRef.current;
+    const base = getBaseDims();
+    const first = hit.rects[0];
+    if (!container || !first || !base.width || !base.height) return;
+    const rect = toPixelRect(first, base);
+    container.scrollTo({
+      left: (rect.x + rect.width / 2) * zoom - container.clientWidth / 2,
+      top: (rect.y + rect.height / 2) * zoom - container.clientHeight / 2,
+      behavior: 'smooth',
+    });
+  };
+
+  // Handlers and page state of the latest render, for effects that must re-run only on their own
+  // triggers (a new document, a new query, a mode switch) rather than on every render
+  const latest = { attachPdf, goToPage, goToHit, scrollToPagePoint, highlightPageOf, currentPage, isLoading, pageDims };
+  const latestRef = useRef(latest);
+  latestRef.current = latest;
+
+  const stepFind = (delta: number) => {
+    if (!findHits.length) return;
+    const next = (findIndex + delta + findHits.length) % findHits.length;
+    setFindIndex(next);
+    void goToHit(findHits[next]);
+  };
+
+  const openFind = () => {
+    setFindOpen(true);
+    requestAnimationFrame(() => {
+      findInputRef.current?.focus();
+      findInputRef.current?.select();
+    });
+  };
+
+  const closeFind = () => {
+    setFindOpen(false);
+    setFindHits([]);
+    setFindIndex(0);
+  };
+
+  // Extract the text layer of the visible page once it is rendered (and its neighbours in continuous mode)
+  useEffect(() => {
+    if (isLoading || !pdfDocRef.current) return;
+    const wanted = (continuous ? [currentPage - 1, currentPage, currentPage + 1] : [currentPage]).filter(
+      (p) => p >= 1 && p <= totalPages && !textPagesRef.current.has(p)
+    );
+    if (!wanted.length) return;
+    let cancelled = false;
+    Promise.all(wanted.map((p) => loadPageText(p)))
+      .then(() => {
+        if (!cancelled) setTextVersion((v) => v + 1);
+      })
+      .catch((e) => console.warn('PDFViewer: failed to extract text for page', currentPage, e));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentPage, isLoading, totalPages, continuous]);
+
+  // Search all pages whenever the query changes (debounced) and jump to the first hit
+  useEffect(() => {
+    if (!findOpen) return;
+    const query = findQuery.trim();
+    if (!query) {
+      setFindHits([]);
+      setFindIndex(0);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      setFindSearching(true);
+      try {
+        for (let p = 1; p <= totalPages; p++) {
+          await loadPageText(p);
+          if (cancelled) return;
+        }
+        const hits = findInPages(textPagesRef.current, query);
+        setFindHits(hits);
+        setFindIndex(0);
+        setTextVersion((v) => v + 1);
+        void latestRef.current.goToHit(hits[0]);
+      } catch (e) {
+        console.warn('PDFViewer: find failed', e);
+      } finally {
+        if (!cancelled) setFindSearching(false);
+      }
+    }, 200);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [findQuery, findOpen, totalPages]);
+
+  // Read on every render; textVersion changes re-render when pages' text is loaded
+  const currentTextItems = textPagesRef.current.get(currentPage) ?? NO_TEXT_ITEMS;
+
+  // Add: OCR word boxes belong to the page and document they were captured on
+  useEffect(() => {
+    setOcrWords([]);
+  }, [currentPage, pdfDoc]);
+
+  // Add: base sizes of all pages, needed to lay out the thumbnail rail and continuous mode
+  useEffect(() => {
+    if (!pdfDoc || (!thumbnailsOpen && !continuous) || pageDims.length) return;
+    let cancelled = false;
+    loadPageDims(pdfDoc)
+      .then((dims) => {
+        if (!cancelled && pdfDocRef.current === pdfDoc) setPageDims(dims);
+      })
+      .catch((e) => console.warn('PDFViewer: failed to read page sizes', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDoc, thumbnailsOpen, continuous, pageDims.length]);
+
+  // Switching modes keeps the current page: render it onto the single canvas again...
+  useEffect(() => {
+    const { isLoading, goToPage, currentPage } = latestRef.current;
+    if (!continuous && !isLoading && pdfDocRef.current) void goToPage(currentPage);
+  }, [continuous]);
+
+  // ...or scroll to it once the continuous layout exists
+  useEffect(() => {
+    if (!continuous || !pageDims.length) return;
+    const { scrollToPagePoint, currentPage } = latestRef.current;
+    requestAnimationFrame(() => scrollToPagePoint(currentPage, undefined, 'auto'));
+  }, [continuous, pageDims.length]);
+
+  // Continuous mode: the page taking up most of the viewport becomes the current page
+  const handleVisiblePageChange = (pageNum: number) => {
+    const dims = pageDims[pageNum - 1];
+    if (dims) baseViewportRef.current = dims;
+    setCurrentPage(pageNum);
+  };
+
+  const handleThumbnailSelect = (pageNum: number) => void goToPage(pageNum);
+
   // Re-render quickly on zoom using cached PDF page; cancels any in-flight render
   useEffect(() => {
     if (!pageRef.current || !canvasRef.current) return;
@@ -1350,7 +1182,7 @@ function hideHoverPreview() {
 
     ro.observe(container);
     return () => ro.disconnect();
-  }, [fitToWidthOnResize, currentPage, canvasSize.width, zoom]);
+  }, [fitToWidthOnResize, currentPage, canvasSize.width, zoom, getBaseDims]);
 
   // Also fit-to-width on window resize and orientation changes (mobile rotation) with tolerance
   useEffect(() => {
@@ -1377,9 +1209,9 @@ function hideHoverPreview() {
       window.removeEventListener('resize', handler);
       window.removeEventListener('orientationchange', handler);
     };
-  }, [fitToWidthOnResize, currentPage, canvasSize.width, zoom]);
+  }, [fitToWidthOnResize, currentPage, canvasSize.width, zoom, getBaseDims]);
 
-  // Auto-focus/zoom into key region once after load if focusBox exists — respect origin
+  // Auto-focus/zoom into key region once after load if focusBox exists
   useEffect(() => {
     if (didAutoFocusRef.current) return;
     if (!focusBox || !containerRef.current || !pdfArrayBuffer) return;
@@ -1394,9 +1226,10 @@ function hideHoverPreview() {
     didAutoFocusRef.current = true;
     const container = containerRef.current;
 
-    // Convert to unit edges with origin handling, then to base px rect
-    const fEdges = unitEdgesFromInput([ (focusBox as any).x, (focusBox as any).y, (focusBox as any).x + (focusBox as any).width, (focusBox as any).y + (focusBox as any).height ]);
-    const fRect = edgesToPxRect(fEdges, base);
+    // Project through unit space to a base px rect
+    const fEdges = unitEdgesOf(focusBox, base);
+    if (!fEdges) return;
+    const fRect = toPixelRect(fEdges, base);
 
     const desiredZoom = clampZoom(1);
     setZoom(desiredZoom);
@@ -1410,14 +1243,7 @@ function hideHoverPreview() {
         behavior: 'smooth',
       });
     }, 180);
-  }, [focusBox, pdfArrayBuffer, canvasSize.width, canvasSize.height]);
-
-  // Remove overriding sourceDimsRef with guessed dimensions from boxes;
-  // retain the effect but make it a no-op to avoid accidental overrides.
-  useEffect(() => {
-    // Intentionally do not override sourceDimsRef here.
-    // Using the PDF base viewport (scale=1) avoids mis-scaling when boxes don't span the full page.
-  }, [sourceDims?.width, sourceDims?.height, currentPage]);
+  }, [focusBox, pdfArrayBuffer, canvasSize.width, canvasSize.height, getBaseDims, unitEdgesOf]);
 
   const [zoomBox, setZoomBox] = useState<{
     x: number;
@@ -1461,6 +1287,17 @@ function hideHoverPreview() {
 
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
+      // Add: Ctrl/Cmd+F opens the PDF find bar; the browser's find cannot search the canvas
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        openFind();
+        return;
+      }
+      // Don't treat typing (find bar, editors) as viewer shortcuts
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) {
+        return;
+      }
       if (e.key === '+' || e.key === '=') {
         e.preventDefault();
         // Use updateZoom for consistent behavior and scroll-centering
@@ -1486,43 +1323,23 @@ function hideHoverPreview() {
     };
     window.addEventListener('keydown', onKeyDown);
     return () => window.removeEventListener('keydown', onKeyDown);
-  }, [currentPage, totalPages, zoom]); // extend deps for nav
+  }, [currentPage, totalPages, zoom, findOpen]); // extend deps for nav
 
-  // Keep hover-centering when a box is highlighted — respect origin
+  // Keep hover-centering when a box is highlighted
   useEffect(() => {
-    if (!highlightBox || !containerRef.current) return;
+    if (!highlightBox || !containerRef.current || continuous) return;
 
     const maybeSwitchPageAndCenter = async () => {
-      const hbEdges = unitEdgesFromInput(highlightBox as any);
-      if (
-        !Number.isFinite(hbEdges.x1) ||
-        !Number.isFinite(hbEdges.y1) ||
-        !Number.isFinite(hbEdges.x2) ||
-        !Number.isFinite(hbEdges.y2) ||
-        hbEdges.x2 <= hbEdges.x1 ||
-        hbEdges.y2 <= hbEdges.y1
-      ) {
-        return;
-      }
-
-      // Clamp page to [1, totalPages] and handle 0-based page indices
-      const rawPage = (highlightBox as any)?.page as number | undefined;
-      const targetPage =
-        typeof rawPage === "number"
-          ? Math.min(Math.max(rawPage <= 0 ? 1 : rawPage, 1), totalPages)
-          : undefined;
+      if (!parseBox(highlightBox)) return;
 
-      if (typeof targetPage === "number" && pdfDocRef.current && targetPage !== currentPage) {
+      const targetPage = latestRef.current.highlightPageOf(highlightBox);
+      if (pdfDocRef.current && targetPage !== currentPage) {
         try {
           const page = await pdfDocRef.current.getPage(targetPage);
           pageRef.current = page;
-          const base = page.getViewport({ scale: 1 });
-          baseViewportRef.current = { width: base.width, height: base.height };
+          baseViewportRef.current = pageGeometryOf(page.getViewport({ scale: 1 }));
           setCurrentPage(targetPage);
           await renderPage(zoom);
-
-          // Ensure any origin state matches the new page before projecting the highlight
-          recomputeOriginGuess();
         } catch (e) {
           console.warn('Failed to switch page for highlight box:', e);
         }
@@ -1531,13 +1348,15 @@ function hideHoverPreview() {
       const container = containerRef.current;
       if (!container) return;
 
+      // Projected with the geometry of the page it is on (which may have just been switched to)
       const base = getBaseDims();
-      if (!base.width || !base.height) {
+      const hbEdges = unitEdgesOf(highlightBox, base);
+      if (!hbEdges) {
         console.debug('PDFViewer: skip hover center, base dims not ready', base);
         return;
       }
 
-      const hbRect = edgesToPxRect(hbEdges, base);
+      const hbRect = toPixelRect(hbEdges, base);
       const boxCenterX = hbRect.x + hbRect.width / 2;
       const boxCenterY = hbRect.y + hbRect.height / 2;
       container.scrollTo({
@@ -1548,7 +1367,21 @@ function hideHoverPreview() {
     };
 
     void maybeSwitchPageAndCenter();
-  }, [highlightBox, zoom, currentPage, canvasSize.width, canvasSize.height]);
+  }, [highlightBox, zoom, currentPage, canvasSize.width, canvasSize.height, continuous, getBaseDims, unitEdgesOf]);
+
+  // Add: continuous mode centers the highlight on its page. Not re-run on scroll (currentPage),
+  // so reading on after the jump is not pulled back.
+  useEffect(() => {
+    if (!highlightBox || !continuous || !pageDims.length) return;
+    const { highlightPageOf, scrollToPagePoint, pageDims: dims } = latestRef.current;
+    const page = highlightPageOf(highlightBox);
+    const base = dims[page - 1];
+    if (!base) return;
+    const hbEdges = unitEdgesOf(highlightBox, base);
+    if (!hbEdges) return;
+    const hbRect = toPixelRect(hbEdges, base);
+    scrollToPagePoint(page, { x: hbRect.x + hbRect.width / 2, y: hbRect.y + hbRect.height / 2 });
+  }, [highlightBox, continuous, pageDims.length, unitEdgesOf]);
 
   // Cleanup animation frame on unmount
   useEffect(() => {
@@ -1585,87 +1418,43 @@ function hideHoverPreview() {
 
     let hideTimer: number | null = null;
 
-    type Box = { x: number; y: number; width: number; height: number };
-    type HoverDetail = { pageNumber?: number; page?: number; bbox?: Box; box?: Box };
-
-    // Resolve page canvas based on page number
-    const getPageCanvas = (pageNum?: number | null): HTMLCanvasElement | null => {
-      if (!pageNum && pageNum !== 0) {
-        // try current visible canvas as a fallback
-        const visible = document.querySelector<HTMLCanvasElement>(".page canvas, [data-page-number] canvas");
-        return visible ?? null;
-      }
-      // Try both selectors to be resilient
-      return (
-        document.querySelector<HTMLCanvasElement>(`.page[data-page-number="${pageNum}"] canvas`) ||
-        document.querySelector<HTMLCanvasElement>(`[data-page-number="${pageNum}"] canvas`) ||
-        document.querySelector<HTMLCanvasElement>(`.page canvas`)
-      );
-    };
+    type HoverDetail = { pageNumber?: number; page?: number; bbox?: unknown; box?: unknown };
 
     const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
 
-    // Add a small helper near the magnifier logic
-    function expandRect(
-      box: { x: number; y: number; width: number; height: number },
-      factor: number,
-      maxW: number,
-      maxH: number
-    ) {
+    // Grow a rect around its center by `factor`, clamped to the canvas
+    function expandRect(box: BoundingBox, factor: number, maxW: number, maxH: number) {
       const cx = box.x + box.width / 2;
       const cy = box.y + box.height / 2;
       const newW = Math.max(1, box.width * factor);
       const newH = Math.max(1, box.height * factor);
-      let x = cx - newW / 2;
-      let y = cy - newH / 2;
-      if (x < 0) x = 0;
-      if (y < 0) y = 0;
-      const width = Math.min(newW, maxW - x);
-      const height = Math.min(newH, maxH - y);
-      return { x, y, width, height };
+      const x = Math.max(0, cx - newW / 2);
+      const y = Math.max(0, cy - newH / 2);
+      return { x, y, width: Math.min(newW, maxW - x), height: Math.min(newH, maxH - y) };
     }
 
     const showMagnifier = (detail: HoverDetail) => {
-      const pageNum = (detail.pageNumber ?? detail.page) ?? null;
-      const bbox = detail.bbox as { x: number; y: number; width: number; height: number } | undefined;
+      const pageNum = detail.pageNumber ?? detail.page;
+      const bbox = detail.bbox ?? detail.box;
       if (!pageNum || !bbox) return;
 
-      // Find the target page canvas to clamp the expansion
-      const pageEl = document.querySelector(`[data-page-number="${pageNum}"]`) as HTMLElement | null;
-      if (!pageEl) return;
-      const canvas = pageEl.querySelector("canvas") as HTMLCanvasElement | null;
-      if (!canvas) return;
+      const pageCanvas = document.querySelector<HTMLCanvasElement>(`[data-page-number="${pageNum}"] canvas`);
+      if (!pageCanvas || !pageCanvas.width || !pageCanvas.clientWidth) return;
+      // Canvas pixels of the box, projected like the overlays
+      const rect = hoverRectOnCanvas(bbox, pageCanvas);
+      if (!rect) return;
 
       // Expand by 50% (factor = 1.5) and clamp to canvas bounds
-      const expanded = expandRect(bbox, 1.5, canvas.width, canvas.height);
+      const { x, y, width, height } = expandRect(rect, 1.5, pageCanvas.width, pageCanvas.height);
+      if (width <= 0 || height <= 0) return;
 
-      // Use 'expanded' rect for the magnifier capture instead of the raw bbox
-      // Replace any direct use of `bbox` below with `expanded`
-      // Example:
-      // const { x, y, width, height } = bbox;  // OLD
-      // becomes:
-      const { x, y, width, height } = expanded; // NEW
-
-      // Convert from CSS pixels (client) to canvas pixels
-      const scaleX = canvas.width / canvas.clientWidth;
-      const scaleY = canvas.height / canvas.clientHeight;
-
-      // Guard for zero sizing
-      if (!isFinite(scaleX) || !isFinite(scaleY) || scaleX <= 0 || scaleY <= 0) return;
-
-      const sx = Math.max(0, x * scaleX);
-      const sy = Math.max(0, y * scaleY);
-      const sw = Math.max(1, width * scaleX);
-      const sh = Math.max(1, height * scaleY);
-
-      // Lens size based on bbox, clamped
-      const targetW = clamp(width * 2, 140, 360);
-      const targetH = clamp(height * 2, 100, 260);
-
-      // Fit bbox into lens preserving aspect ratio
-      const scale = Math.min(targetW / sw, targetH / sh);
-      const dw = Math.max(1, Math.floor(sw * scale));
-      const dh = Math.max(1, Math.floor(sh * scale));
+      // Lens size from the on-screen size of the area, clamped; the crop is fit preserving aspect
+      const cssPerPx = pageCanvas.clientWidth / pageCanvas.width;
+      const targetW = clamp(width * cssPerPx * 2, 140, 360);
+      const targetH = clamp(height * cssPerPx * 2, 100, 260);
+      const scale = Math.min(targetW / width, targetH / height);
+      const dw = Math.max(1, Math.floor(width * scale));
+      const dh = Math.max(1, Math.floor(height * scale));
 
       canvas.width = dw;
       canvas.height = dh;
@@ -1677,7 +1466,7 @@ function hideHoverPreview() {
       // Clear and draw snapshot
       ctx.clearRect(0, 0, dw, dh);
       try {
-        ctx.drawImage(canvas, sx, sy, sw, sh, 0, 0, dw, dh);
+        ctx.drawImage(pageCanvas, x, y, width, height, 0, 0, dw, dh);
       } catch {
         // Cross-origin or rendering errors — fail silently
         return;
@@ -1720,75 +1509,7 @@ function hideHoverPreview() {
     ];
 
     const showHandlers: Array<(e: Event) => void> = showEventNames.map(() => (e: Event) => {
-      const ce = e as CustomEvent<any>;
-      const detail = ce.detail || {};
-      const pageNumber: number | undefined = detail.pageNumber ?? detail.page;
-      const bbox = detail.bbox as { x: number; y: number; width: number; height: number } | undefined;
-      if (!pageNumber || !bbox) return;
-
-      // Find the target page canvas to clamp the expansion
-      const pageEl = document.querySelector(`[data-page-number="${pageNumber}"]`) as HTMLElement | null;
-      if (!pageEl) return;
-      const canvas = pageEl.querySelector("canvas") as HTMLCanvasElement | null;
-      if (!canvas) return;
-
-      // Expand by 50% (factor = 1.5) and clamp to canvas bounds
-      const expanded = expandRect(bbox, 1.5, canvas.width, canvas.height);
-
-      // Use 'expanded' rect for the magnifier capture instead of the raw bbox
-      // Replace any direct use of `bbox` below with `expanded`
-      // Example:
-      // const { x, y, width, height } = bbox;  // OLD
-      // becomes:
-      const { x, y, width, height } = expanded; // NEW
-
-      // Convert from CSS pixels (client) to canvas pixels
-      const scaleX = canvas.width / canvas.clientWidth;
-      const scaleY = canvas.height / canvas.clientHeight;
-
-      // Guard for zero sizing
-      if (!isFinite(scaleX) || !isFinite(scaleY) || scaleX <= 0 || scaleY <= 0) return;
-
-      const sx = Math.max(0, x * scaleX);
-      const sy = Math.max(0, y * scaleY);
-      const sw = Math.max(1, width * scaleX);
-      const sh = Math.max(1, height * scaleY);
-
-      // Lens size based on bbox, clamped
-      const targetW = clamp(width * 2, 140, 360);
-      const targetH = clamp(height * 2, 100, 260);
-
-      // Fit bbox into lens preserving aspect ratio
-      const scale = Math.min(targetW / sw, targetH / sh);
-      const dw = Math.max(1, Math.floor(sw * scale));
-      const dh = Math.max(1, Math.floor(sh * scale));
-
-      canvas.width = dw;
-      canvas.height = dh;
-
-      // High quality scaling
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = "high";
-
-      // Clear and draw snapshot
-      ctx.clearRect(0, 0, dw, dh);
-      try {
-        ctx.drawImage(canvas, sx, sy, sw, sh, 0, 0, dw, dh);
-      } catch {
-        // Cross-origin or rendering errors — fail silently
-        return;
-      }
-
-      // Style & show
-      overlay.style.width = `${dw}px`;
-      overlay.style.height = `${dh}px`;
-      overlay.style.display = "block";
-
-      // Keep visible while hovering
-      if (hideTimer) {
-        window.clearTimeout(hideTimer);
-        hideTimer = null;
-      }
+      showMagnifier((e as CustomEvent<HoverDetail>).detail || {});
     });
 
     const hideHandlers: Array<(e: Event) => void> = hideEventNames.map(() => (e: Event) => {
@@ -1811,6 +1532,125 @@ function hideHoverPreview() {
     };
   }, []);
 
+  // Ring/glow/fill for a highlight overlay color (6-digit hex colors get alpha suffixes)
+  const highlightColors = (color: string) => {
+    const withAlpha = (hex: string, alphaHex: string) =>
+      /^#([0-9a-f]{6})$/i.test(hex) ? `${hex}${alphaHex}` : hex;
+    return { ring: color, glow: withAlpha(color, '59'), fill: withAlpha(color, '33') };
+  };
+
+  // Selectable text spans of a page, projected from its base dims
+  const renderTextLayer = (items: PdfTextItem[], base: PageDims) => {
+    if (!items.length) return null;
+    return (
+      <div
+        className="absolute inset-0 overflow-hidden leading-none selection:bg-blue-500/30"
+        style={{ zIndex: textSelectEnabled ? 16 : 5, pointerEvents: 'none' }}
+      >
+        {items.map((item, idx) => {
+          const rect = toPixelRect(item, base);
+          return (
+            <span
+              key={`txt-${idx}`}
+              className="absolute whitespace-pre text-transparent origin-top-left cursor-text"
+              style={{
+                left: `${rect.x * zoom}px`,
+                top: `${rect.y * zoom}px`,
+                fontSize: `${rect.height * zoom}px`,
+                fontFamily: TEXT_LAYER_FONT,
+                transform: `scaleX(${item.scaleX})`,
+                pointerEvents: textSelectEnabled ? 'auto' : 'none',
+              }}
+            >
+              {item.str}
+            </span>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Find hits on a page
+  const renderFindHits = (pageNum: number, base: PageDims) => {
+    if (!findOpen) return null;
+    return findHits.map((hit, hitIdx) => {
+      if (hit.page !== pageNum) return null;
+      const active = hitIdx === findIndex;
+      const { ring, glow, fill } = highlightColors(active ? '#f97316' : '#facc15');
+      return hit.rects.map((edges, rectIdx) => {
+        const rect = toPixelRect(edges, base);
+        return (
+          <div
+            key={`find-${hitIdx}-${rectIdx}`}
+            className="absolute pointer-events-none rounded-sm"
+            style={{
+              left: `${rect.x * zoom}px`,
+              top: `${rect.y * zoom}px`,
+              width: `${rect.width * zoom}px`,
+              height: `${rect.height * zoom}px`,
+              boxShadow: active ? `0 0 0 3px ${ring}, 0 0 0 6px ${glow}` : `0 0 0 1px ${ring}`,
+              background: fill,
+              zIndex: active ? 45 : 40,
+            }}
+          />
+        );
+      });
+    });
+  };
+
+  // Continuous mode overlays of one page: extraction boxes, text layer, find hits and the highlight
+  const renderContinuousOverlays = (pageNum: number, base: PageDims) => {
+    const hbEdges =
+      highlightBox && highlightPageOf(highlightBox) === pageNum
+        ? unitEdgesOf(highlightBox, base)
+        : null;
+    const hbRect = hbEdges ? toPixelRect(hbEdges, base) : null;
+    const hbColors = highlightColors(highlightBox?.color || '#3b82f6');
+
+    return (
+      <>
+        {(boxesByPage.get(pageNum) ?? []).map((box, idx) => {
+          const edges = unitEdgesOf(box, base);
+          if (!edges) return null;
+          const rect = toPixelRect(edges, base);
+          return (
+            <div
+              key={`box-${idx}`}
+              className="absolute pointer-events-none rounded-sm"
+              style={{
+                left: `${rect.x * zoom}px`,
+                top: `${rect.y * zoom}px`,
+                width: `${rect.width * zoom}px`,
+                height: `${rect.height * zoom}px`,
+                boxShadow: "0 0 0 1px rgba(59,130,246,0.8), 0 0 0 6px rgba(59,130,246,0.18)",
+                background: "rgba(59,130,246,0.05)",
+                zIndex: 10,
+              }}
+            />
+          );
+        })}
+        {renderTextLayer(textPagesRef.current.get(pageNum) ?? [], base)}
+        {renderFindHits(pageNum, base)}
+        {hbRect && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.98 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="absolute pointer-events-none rounded-md z-50"
+            style={{
+              left: `${hbRect.x * zoom}px`,
+              top: `${hbRect.y * zoom}px`,
+              width: `${hbRect.width * zoom}px`,
+              height: `${hbRect.height * zoom}px`,
+              boxShadow: `0 0 0 4px ${hbColors.ring}, 0 0 0 8px ${hbColors.glow}`,
+              background: hbColors.fill,
+              filter: "drop-shadow(0 10px 28px rgba(0,0,0,0.30))",
+            }}
+          />
+        )}
+      </>
+    );
+  };
+
   if (error) {
     return (
       <div className="h-full flex items-center justify-center bg-muted/30">
@@ -1879,6 +1719,98 @@ function hideHoverPreview() {
           <RotateCcw className="h-4 w-4" />
         </Button>
 
+        <div className="mx-2 h-5 w-px bg-border" />
+        <Button
+          variant={findOpen ? 'secondary' : 'outline'}
+          size="icon"
+          className="rounded-full h-8 w-8"
+          onClick={() => (findOpen ? closeFind() : openFind())}
+          aria-label="Find in document"
+          title="Find in document (Ctrl+F)"
+        >
+          <Search className="h-4 w-4" />
+        </Button>
+        <Button
+          variant={textSelectEnabled ? 'secondary' : 'outline'}
+          size="icon"
+          className="rounded-full h-8 w-8 ml-1"
+          onClick={() => setTextSelectEnabled((v) => !v)}
+          aria-label="Toggle text selection"
+          aria-pressed={textSelectEnabled}
+          title={textSelectEnabled ? 'Text selection on (box magnifier off)' : 'Text selection off'}
+        >
+          <TextSelect className="h-4 w-4" />
+        </Button>
+
+        <div className="mx-2 h-5 w-px bg-border" />
+        <Button
+          variant={thumbnailsOpen ? 'secondary' : 'outline'}
+          size="icon"
+          className="rounded-full h-8 w-8"
+          onClick={() => setThumbnailsOpen((v) => !v)}
+          aria-label="Toggle page thumbnails"
+          aria-pressed={thumbnailsOpen}
+          title={thumbnailsOpen ? 'Hide page thumbnails' : 'Show page thumbnails'}
+        >
+          <PanelLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant={continuous ? 'secondary' : 'outline'}
+          size="icon"
+          className="rounded-full h-8 w-8 ml-1"
+          onClick={() => setContinuous((v) => !v)}
+          disabled={totalPages <= 1 || boxEditing || regionCapturing || tableSelecting}
+          aria-label="Toggle continuous scrolling"
+          aria-pressed={continuous}
+          title={continuous ? 'Continuous scrolling (all pages)' : 'Single page view'}
+        >
+          <Rows3 className="h-4 w-4" />
+        </Button>
+        {canEditBoxes && (
+          <Button
+            variant={boxEditing ? 'secondary' : 'outline'}
+            size="icon"
+            className="rounded-full h-8 w-8 ml-1"
+            onClick={toggleEditMode}
+            aria-label="Toggle box editing"
+            aria-pressed={boxEditing}
+            title={boxEditing ? 'Editing boxes: drag on the page to draw, click a box to change it' : 'Edit evidence boxes'}
+          >
+            <SquareDashedMousePointer className="h-4 w-4" />
+          </Button>
+        )}
+        {onCaptureRegion && (
+          <Button
+            variant={regionCapturing ? 'secondary' : 'outline'}
+            size="icon"
+            className="rounded-full h-8 w-8 ml-1"
+            onClick={toggleCaptureMode}
+            disabled={!captureLabel}
+            aria-label="Toggle region capture"
+            aria-pressed={regionCapturing}
+            title={
+              captureLabel
+                ? `Capture text into ${captureLabel}: drag a rectangle on the page`
+                : 'Focus a field in the SAP editor to capture text into it'
+            }
+          >
+            <ScanText className="h-4 w-4" />
+          </Button>
+        )}
+        {onTableRegion && (
+          <Button
+            variant={tableSelecting ? 'secondary' : 'outline'}
+            size="icon"
+            className="rounded-full h-8 w-8 ml-1"
+            onClick={toggleTableMode}
+            aria-label="Toggle table detection"
+            aria-pressed={tableSelecting}
+            title={tableSelecting ? 'Drag a rectangle around the item table' : 'Read line items from a table'}
+          >
+            <Table2 className="h-4 w-4" />
+          </Button>
+        )}
+
         <div className="mx-2 h-5 w-px bg-border" />
         <Button
           variant="outline"
@@ -1933,6 +1865,70 @@ function hideHoverPreview() {
         </span>
       </div>
 
+      {/* Add: find bar with next/previous hit navigation across pages */}
+      {findOpen && (
+        <div className="absolute top-16 right-4 z-20 flex items-center gap-1 rounded-full border bg-background/90 backdrop-blur px-3 py-1 shadow-sm">
+          <Search className="h-4 w-4 text-muted-foreground" />
+          <Input
+            ref={findInputRef}
+            value={findQuery}
+            onChange={(e) => setFindQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                stepFind(e.shiftKey ? -1 : 1);
+              }
+              if (e.key === 'Escape') {
+                e.preventDefault();
+                closeFind();
+              }
+            }}
+            placeholder="Find in document"
+            className="h-7 w-48 border-0 bg-transparent px-1 shadow-none focus-visible:ring-0"
+            aria-label="Find in document"
+          />
+          <span className="min-w-[3.5rem] text-right text-xs tabular-nums text-muted-foreground">
+            {findSearching ? (
+              <Loader2 className="ml-auto h-3.5 w-3.5 animate-spin" />
+            ) : findQuery.trim() ? (
+              findHits.length ? `${findIndex + 1} / ${findHits.length}` : 'No hits'
+            ) : null}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-full h-7 w-7"
+            onClick={() => stepFind(-1)}
+            disabled={!findHits.length}
+            aria-label="Previous hit"
+            title="Previous hit (Shift+Enter)"
+          >
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-full h-7 w-7"
+            onClick={() => stepFind(1)}
+            disabled={!findHits.length}
+            aria-label="Next hit"
+            title="Next hit (Enter)"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-full h-7 w-7"
+            onClick={closeFind}
+            aria-label="Close find"
+            title="Close (Esc)"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       {/* Scroll to top button inside PDF container */}
       <Button
         variant="outline"
@@ -1951,96 +1947,216 @@ function hideHoverPreview() {
         </div>
       )}
 
-      <div
-        ref={containerRef}
-        className="h-full w-full min-w-0 overflow-auto relative"
-        style={{ scrollBehavior: 'smooth' }}
-      >
-        {/* Canvas-based PDF rendering */}
-        <div
-          className="relative inline-block"
-          style={{
-            width: `${canvasSize.width}px`,
-            height: `${canvasSize.height}px`,
-          }}
-        >
-          <canvas
-            ref={canvasRef}
-            className="block mx-auto"
-            // Ensure the canvas stays under overlays
-            style={{ position: "relative", zIndex: 0 }}
+      <div className="flex h-full w-full min-w-0">
+        {/* Add: collapsible page thumbnails */}
+        {thumbnailsOpen && pdfDoc && pageDims.length > 0 && (
+          <PageThumbnailRail
+            key={pdfDoc.fingerprints[0] ?? undefined}
+            pdf={pdfDoc}
+            pageDims={pageDims}
+            currentPage={currentPage}
+            onSelect={handleThumbnailSelect}
           />
+        )}
 
-          {/* Subtle overlays for all boxes (normalized to base pixels, then scaled by zoom) */}
-          {/* Show all bounding boxes by default - ensure canvas is ready for visibility */}
-          {allBoxes.length > 0 && baseReady && canvasSize.width > 0 && canvasSize.height > 0 && (
-            <>
-              {allBoxes.map((box, idx) => {
-                const text: string | undefined =
-                  (box as any)?.value || (box as any)?.label || undefined;
-
-                // CHANGED: respect origin
-                const edges = unitEdgesFromInput(box) as { x1: number; y1: number; x2: number; y2: number };
-                if (
-                  !Number.isFinite(edges.x1) || !Number.isFinite(edges.y1) || !Number.isFinite(edges.x2) || !Number.isFinite(edges.y2) ||
-                  edges.x2 <= edges.x1 || edges.y2 <= edges.y1
-                ) {
-                  return null;
-                }
-                const rect = edgesToPxRect(edges, getBaseDims());
+        <div
+          ref={containerRef}
+          className="h-full min-w-0 flex-1 overflow-auto relative"
+          style={{ scrollBehavior: 'smooth' }}
+          onMouseMove={handlePagePointerMove}
+          onMouseLeave={() => onPagePoint?.(null, 'hover')}
+          onClick={handlePageClick}
+        >
+          {continuous && pdfDoc && pageDims.length > 0 ? (
+            // Add: all pages stacked; canvases are created lazily near the viewport and recycled
+            <ContinuousPages
+              key={pdfDoc.fingerprints[0] ?? undefined}
+              pdf={pdfDoc}
+              pageDims={pageDims}
+              zoom={zoom}
+              scale={canvasScale}
+              currentPage={currentPage}
+              scrollRoot={containerRef.current}
+              onVisiblePageChange={handleVisiblePageChange}
+              renderOverlays={renderContinuousOverlays}
+            />
+          ) : (
+            // Canvas-based PDF rendering
+            <div
+              {...(baseReady ? pageGeometryAttributes(currentPage, getBaseDims()) : {})}
+              className="relative inline-block"
+              style={{
+                width: `${canvasSize.width}px`,
+                height: `${canvasSize.height}px`,
+              }}
+            >
+              <canvas
+                ref={canvasRef}
+                className="block mx-auto"
+                // Ensure the canvas stays under overlays
+                style={{ position: "relative", zIndex: 0 }}
+              />
+
+              {/* Add: selectable text layer (pdf.js text content, projected like the box overlays) */}
+              {baseReady && canvasSize.width > 0 && renderTextLayer(currentTextItems, getBaseDims())}
+
+              {/* Subtle overlays for all boxes (normalized to base pixels, then scaled by zoom) */}
+              {/* Show all bounding boxes by default - ensure canvas is ready for visibility */}
+              {allBoxes.length > 0 && baseReady && canvasSize.width > 0 && canvasSize.height > 0 && (
+                <>
+                  {allBoxes.map((box, idx) => {
+                    const text: string | undefined =
+                      (box as any)?.value || (box as any)?.label || undefined;
+
+                    const edges = unitEdgesOf(box);
+                    if (!edges) return null;
+                    const rect = toPixelRect(edges, getBaseDims());
+
+                    return (
+                      <React.Fragment key={`box-${idx}`}>
+                        <div
+                          className="absolute pointer-events-none rounded-sm"
+                          style={{
+                            left: `${rect.x * zoom}px`,
+                            top: `${rect.y * zoom}px`,
+                            width: `${rect.width * zoom}px`,
+                            height: `${rect.height * zoom}px`,
+                            boxShadow: "0 0 0 1px rgba(59,130,246,0.8), 0 0 0 6px rgba(59,130,246,0.18)",
+                            background: "rgba(59,130,246,0.05)",
+                            zIndex: 10,
+                          }}
+                        />
+                        {/* Hover capture for magnifier */}
+                        <div
+                          key={`hover-${idx}`}
+                          className="absolute z-[15] bg-transparent"
+                          // Text selection takes the pointer over boxes while enabled
+                          style={{
+                            left: `${rect.x * zoom}px`,
+                            top: `${rect.y * zoom}px`,
+                            width: `${rect.width * zoom}px`,
+                            height: `${rect.height * zoom}px`,
+                            pointerEvents: textSelectEnabled ? 'none' : undefined,
+                          }}
+                          onMouseEnter={() => showHoverPreview(rect)}
+                          onMouseMove={() => showHoverPreview(rect)}
+                          onMouseLeave={hideHoverPreview}
+                        />
+                        {/* Show labels only in debug mode */}
+                        {debugEnabled && text && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <div
+                                key={`label-${idx}`}
+                                className="absolute z-[12] px-1.5 py-0.5 rounded-md text-[10px] font-medium bg-background/85 border shadow-sm max-w-[50%] truncate pointer-events-auto cursor-help"
+                                style={{
+                                  left: `${rect.x * zoom}px`,
+                                  top: `${rect.y * zoom}px`,
+                                }}
+                              >
+                                {String(text)}
+                              </div>
+                            </TooltipTrigger>
+                            <TooltipContent sideOffset={6}>
+                              <div className="text-xs space-y-1">
+                                <div className="font-medium">{String(text)}</div>
+                                <div className="text-muted-foreground">
+                                  {
+                                    (() => {
+                                      const fmt = (n: number) => n.toFixed(4);
+                                      const pageStr = (box as any)?.page ? `, p:${(box as any).page}` : "";
+                                      return `x1:${fmt(edges.x1)}, y1:${fmt(edges.y1)}, x2:${fmt(edges.x2)}, y2:${fmt(edges.y2)}${pageStr}`;
+                                    })()
+                                  }
+                                </div>
+                              </div>
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </>
+              )}
+
+              {/* Hover highlight overlay (normalized to base pixels) with dynamic color */}
+              {highlightBox && baseReady && highlightPageOf(highlightBox) === currentPage && (() => {
+                const hbEdges = unitEdgesOf(highlightBox);
+                if (!hbEdges) return null;
+                const hbRect = toPixelRect(hbEdges, getBaseDims());
+
+                const { ring, glow, fill } = highlightColors((highlightBox as any).color || '#3b82f6');
+                const fieldText =
+                  (highlightBox as any)?.value ||
+                  (highlightBox as any)?.label ||
+                  (highlightBox as any)?.text;
+
+                // Build label from the unit edges, not from canvas/base
+                const label = fieldText
+                  ? String(fieldText)
+                  : (() => {
+                      const fmt = (n: number) => Math.round(n * 1000) / 1000;
+                      const pageStr = (highlightBox as any)?.page ? `, p:${(highlightBox as any).page}` : "";
+                      return `x1:${fmt(hbEdges.x1)}, y1:${fmt(hbEdges.y1)}, x2:${fmt(hbEdges.x2)}, y2:${fmt(hbEdges.y2)}${pageStr}`;
+                    })();
 
                 return (
-                  <React.Fragment key={`box-${idx}`}>
-                    <div
-                      className="absolute pointer-events-none rounded-sm"
+                  <>
+                    <motion.div
+                      initial={{ opacity: 0, scale: 0.98 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      exit={{ opacity: 0 }}
+                      className="absolute pointer-events-none rounded-md z-50"
                       style={{
-                        left: `${rect.x * zoom}px`,
-                        top: `${rect.y * zoom}px`,
-                        width: `${rect.width * zoom}px`,
-                        height: `${rect.height * zoom}px`,
-                        boxShadow: "0 0 0 1px rgba(59,130,246,0.8), 0 0 0 6px rgba(59,130,246,0.18)",
-                        background: "rgba(59,130,246,0.05)",
-                        zIndex: 10,
+                        left: `${hbRect.x * zoom}px`,
+                        top: `${hbRect.y * zoom}px`,
+                        width: `${hbRect.width * zoom}px`,
+                        height: `${hbRect.height * zoom}px`,
+                        boxShadow: `0 0 0 4px ${ring}, 0 0 0 8px ${glow}`,
+                        background: fill,
+                        filter: "drop-shadow(0 10px 28px rgba(0,0,0,0.30))",
+                        willChange: "transform, opacity",
                       }}
                     />
-                    {/* Hover capture for magnifier */}
+                    {/* Hover capture for magnifier on highlighted box */}
                     <div
-                      key={`hover-${idx}`}
-                      className="absolute z-[15] bg-transparent"
+                      className="absolute z-[60] bg-transparent"
                       style={{
-                        left: `${rect.x * zoom}px`,
-                        top: `${rect.y * zoom}px`,
-                        width: `${rect.width * zoom}px`,
-                        height: `${rect.height * zoom}px`,
+                        left: `${hbRect.x * zoom}px`,
+                        top: `${hbRect.y * zoom}px`,
+                        width: `${hbRect.width * zoom}px`,
+                        height: `${hbRect.height * zoom}px`,
                       }}
-                      onMouseEnter={() => showHoverPreview(rect)}
-                      onMouseMove={() => showHoverPreview(rect)}
+                      onMouseEnter={() => showHoverPreview(hbRect)}
+                      onMouseMove={() => showHoverPreview(hbRect)}
                       onMouseLeave={hideHoverPreview}
                     />
-                    {/* Show labels only in debug mode */}
-                    {debugEnabled && text && (
+                    {/* Show highlight label only in debug mode */}
+                    {debugEnabled && (
                       <Tooltip>
                         <TooltipTrigger asChild>
                           <div
-                            key={`label-${idx}`}
-                            className="absolute z-[12] px-1.5 py-0.5 rounded-md text-[10px] font-medium bg-background/85 border shadow-sm max-w-[50%] truncate pointer-events-auto cursor-help"
+                            className="absolute z-[60] px-2 py-1 rounded-md text-[10px] font-medium bg-background/85 border shadow-sm pointer-events-auto cursor-help"
                             style={{
-                              left: `${rect.x * zoom}px`,
-                              top: `${rect.y * zoom}px`,
+                              left: `${hbRect.x * zoom}px`,
+                              top: `${hbRect.y * zoom}px`,
+                              transform: "translateY(-4px)",
+                              whiteSpace: "nowrap",
+                              borderColor: ring,
                             }}
                           >
-                            {String(text)}
+                            {label}
                           </div>
                         </TooltipTrigger>
                         <TooltipContent sideOffset={6}>
                           <div className="text-xs space-y-1">
-                            <div className="font-medium">{String(text)}</div>
+                            <div className="font-medium">{label}</div>
                             <div className="text-muted-foreground">
                               {
                                 (() => {
                                   const fmt = (n: number) => n.toFixed(4);
-                                  const pageStr = (box as any)?.page ? `, p:${(box as any).page}` : "";
-                                  return `x1:${fmt(edges.x1)}, y1:${fmt(edges.y1)}, x2:${fmt(edges.x2)}, y2:${fmt(edges.y2)}${pageStr}`;
+                                  const pageStr = (highlightBox as any)?.page ? `, p:${(highlightBox as any).page}` : "";
+                                  return `x1:${fmt(hbEdges.x1)}, y1:${fmt(hbEdges.y1)}, x2:${fmt(hbEdges.x2)}, y2:${fmt(hbEdges.y2)}${pageStr}`;
                                 })()
                               }
                             </div>
@@ -2048,239 +2164,171 @@ function hideHoverPreview() {
                         </TooltipContent>
                       </Tooltip>
                     )}
-                  </React.Fragment>
+                  </>
                 );
-              })}
-            </>
-          )}
-
-          {/* Hover highlight overlay (normalized to base pixels) with dynamic color */}
-          {highlightBox && baseReady && (() => {
-            // CHANGED: respect origin
-            const hbEdges = unitEdgesFromInput(highlightBox as any) as { x1: number; y1: number; x2: number; y2: number };
-            if (
-              !Number.isFinite(hbEdges.x1) || !Number.isFinite(hbEdges.y1) || !Number.isFinite(hbEdges.x2) || !Number.isFinite(hbEdges.y2) ||
-              hbEdges.x2 <= hbEdges.x1 || hbEdges.y2 <= hbEdges.y1
-            ) {
-              return null;
-            }
-            const hbRect = edgesToPxRect(hbEdges, getBaseDims());
-
-            const withAlpha = (hex: string, alphaHex: string) => {
-              if (typeof hex === 'string' && /^#([0-9a-f]{6})$/i.test(hex)) {
-                return `${hex}${alphaHex}`;
-              }
-              return hex;
-            };
-
-            const baseColor = (highlightBox as any).color || '#3b82f6';
-            const ring = baseColor;
-            const glow = withAlpha(baseColor, '59');
-            const fill = withAlpha(baseColor, '33');
-            const fieldText =
-              (highlightBox as any)?.value ||
-              (highlightBox as any)?.label ||
-              (highlightBox as any)?.text;
-
-            // Build label from robustUnitEdges (JSON-normalized), not from canvas/base
-            const label = fieldText
-              ? String(fieldText)
-              : (() => {
-                  const fmt = (n: number) => Math.round(n * 1000) / 1000;
-                  const pageStr = (highlightBox as any)?.page ? `, p:${(highlightBox as any).page}` : "";
-                  return `x1:${fmt(hbEdges.x1)}, y1:${fmt(hbEdges.y1)}, x2:${fmt(hbEdges.x2)}, y2:${fmt(hbEdges.y2)}${pageStr}`;
-                })();
-
-            return (
-              <>
-                <motion.div
-                  initial={{ opacity: 0, scale: 0.98 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0 }}
-                  className="absolute pointer-events-none rounded-md z-50"
-                  style={{
-                    left: `${hbRect.x * zoom}px`,
-                    top: `${hbRect.y * zoom}px`,
-                    width: `${hbRect.width * zoom}px`,
-                    height: `${hbRect.height * zoom}px`,
-                    boxShadow: `0 0 0 4px ${ring}, 0 0 0 8px ${glow}`,
-                    background: fill,
-                    filter: "drop-shadow(0 10px 28px rgba(0,0,0,0.30))",
-                    willChange: "transform, opacity",
-                  }}
+              })()}
+
+              {/* Add: find hits on this page, drawn like the highlight overlay; the current hit is emphasized */}
+              {baseReady && renderFindHits(currentPage, getBaseDims())}
+
+              {/* Add: edit mode — draw, move or resize reviewer boxes on this page and attach them to a field */}
+              {boxEditing && baseReady && onSaveManualBox && onRemoveManualBox && (
+                <BoxEditorLayer
+                  page={currentPage}
+                  width={getBaseDims().width * zoom}
+                  height={getBaseDims().height * zoom}
+                  boxes={manualBoxes ?? []}
+                  targets={editTargets ?? []}
+                  onSave={onSaveManualBox}
+                  onRemove={onRemoveManualBox}
                 />
-                {/* Hover capture for magnifier on highlighted box */}
-                <div
-                  className="absolute z-[60] bg-transparent"
-                  style={{
-                    left: `${hbRect.x * zoom}px`,
-                    top: `${hbRect.y * zoom}px`,
-                    width: `${hbRect.width * zoom}px`,
-                    height: `${hbRect.height * zoom}px`,
-                  }}
-                  onMouseEnter={() => showHoverPreview(hbRect)}
-                  onMouseMove={() => showHoverPreview(hbRect)}
-                  onMouseLeave={hideHoverPreview}
+              )}
+
+              {/* Add: capture mode — the selected region's text goes into the focused field */}
+              {regionCapturing && baseReady && (
+                <RegionSelectLayer
+                  width={getBaseDims().width * zoom}
+                  height={getBaseDims().height * zoom}
+                  busy={capturing}
+                  onSelect={handleCaptureRegion}
                 />
-                {/* Show highlight label only in debug mode */}
-                {debugEnabled && (
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <div
-                        className="absolute z-[60] px-2 py-1 rounded-md text-[10px] font-medium bg-background/85 border shadow-sm pointer-events-auto cursor-help"
-                        style={{
-                          left: `${hbRect.x * zoom}px`,
-                          top: `${hbRect.y * zoom}px`,
-                          transform: "translateY(-4px)",
-                          whiteSpace: "nowrap",
-                          borderColor: ring,
-                        }}
-                      >
-                        {label}
-                      </div>
-                    </TooltipTrigger>
-                    <TooltipContent sideOffset={6}>
-                      <div className="text-xs space-y-1">
-                        <div className="font-medium">{label}</div>
-                        <div className="text-muted-foreground">
-                          {
-                            (() => {
-                              const fmt = (n: number) => n.toFixed(4);
-                              const pageStr = (highlightBox as any)?.page ? `, p:${(highlightBox as any).page}` : "";
-                              return `x1:${fmt(hbEdges.x1)}, y1:${fmt(hbEdges.y1)}, x2:${fmt(hbEdges.x2)}, y2:${fmt(hbEdges.y2)}${pageStr}`;
-                            })()
-                          }
-                        </div>
-                      </div>
-                    </TooltipContent>
-                  </Tooltip>
-                )}
-              </>
-            );
-          })()}
-
-          {/* COCO-SSD detection overlays (from canvas pixel coords; scaled by zoom) */}
-          {predictions.length > 0 && (
-            <>
-              {predictions.map((p: any, idx: number) => {
-                const [x, y, w, h] = p?.bbox || [0, 0, 0, 0];
-                const left = x * zoom;
-                const top = y * zoom;
-                const width = w * zoom;
-                const height = h * zoom;
-
-                // amber-500 color scheme
-                const ring = "#f59e0b";
-                const glow = "#f59e0b55";
-                const fill = "#f59e0b22";
-                const label = `${p?.class ?? "object"} ${p?.score ? `(${Math.round((p.score as number) * 100)}%)` : ""}`;
-
-                return (
-                  <div key={`det-${idx}`}>
-                    <div
-                      className="absolute pointer-events-none rounded-md z-40"
-                      style={{
-                        left: `${left}px`,
-                        top: `${top}px`,
-                        width: `${width}px`,
-                        height: `${height}px`,
-                        boxShadow: `0 0 0 3px ${ring}, 0 0 0 7px ${glow}`,
-                        background: fill,
-                        filter: "drop-shadow(0 8px 20px rgba(0,0,0,0.25))",
-                      }}
-                    />
-                    <Tooltip>
-                      <TooltipTrigger asChild>
+              )}
+
+              {/* Add: table mode — the selected region is read as the line-item table */}
+              {tableSelecting && baseReady && (
+                <RegionSelectLayer
+                  width={getBaseDims().width * zoom}
+                  height={getBaseDims().height * zoom}
+                  busy={readingTable}
+                  onSelect={handleTableRegion}
+                  label="Select the item table"
+                />
+              )}
+
+              {/* COCO-SSD detection overlays (from canvas pixel coords; scaled by zoom) */}
+              {predictions.length > 0 && (
+                <>
+                  {predictions.map((p: any, idx: number) => {
+                    const [x, y, w, h] = p?.bbox || [0, 0, 0, 0];
+                    const left = x * zoom;
+                    const top = y * zoom;
+                    const width = w * zoom;
+                    const height = h * zoom;
+
+                    // amber-500 color scheme
+                    const ring = "#f59e0b";
+                    const glow = "#f59e0b55";
+                    const fill = "#f59e0b22";
+                    const label = `${p?.class ?? "object"} ${p?.score ? `(${Math.round((p.score as number) * 100)}%)` : ""}`;
+
+                    return (
+                      <div key={`det-${idx}`}>
                         <div
-                          className="absolute z-[41] px-2 py-1 rounded-md text-[10px] font-medium bg-background/85 border shadow-sm pointer-events-auto cursor-help"
+                          className="absolute pointer-events-none rounded-md z-40"
                           style={{
                             left: `${left}px`,
-                            top: `${Math.max(0, top - 22)}px`,
-                            whiteSpace: "nowrap",
-                            borderColor: ring,
+                            top: `${top}px`,
+                            width: `${width}px`,
+                            height: `${height}px`,
+                            boxShadow: `0 0 0 3px ${ring}, 0 0 0 7px ${glow}`,
+                            background: fill,
+                            filter: "drop-shadow(0 8px 20px rgba(0,0,0,0.25))",
                           }}
-                        >
-                          {label}
-                        </div>
-                      </TooltipTrigger>
-                      <TooltipContent sideOffset={6}>
-                        <div className="text-xs space-y-1">
-                          <div className="font-medium">{label}</div>
-                          <div className="text-muted-foreground">
-                            x:{Math.round(x)}, y:{Math.round(y)}, w:{Math.round(w)}, h:{Math.round(h)}
-                          </div>
-                        </div>
-                      </TooltipContent>
-                    </Tooltip>
-                  </div>
-                );
-              })}
-            </>
-          )}
-
-          {/* OCR overlays (Tesseract.js word boxes; from canvas pixel coords; scaled by zoom) */}
-          {ocrWords.length > 0 && (
-            <>
-              {ocrWords.map((w, idx) => {
-                const left = w.x * zoom;
-                const top = w.y * zoom;
-                const width = w.w * zoom;
-                const height = w.h * zoom;
-
-                // green-500 color scheme
-                const ring = "#22c55e";
-                const glow = "#22c55e55";
-                const fill = "#22c55e22";
-                const label = w.text || "(word)";
-                const conf =
-                  Number.isFinite(w.conf) && (w.conf as number) >= 0
-                    ? ` (${Math.round((w.conf as number))}%)`
-                    : "";
-
-                return (
-                  <div key={`ocr-${idx}`}>
-                    <div
-                      className="absolute pointer-events-none rounded-sm z-30"
-                      style={{
-                        left: `${left}px`,
-                        top: `${top}px`,
-                        width: `${width}px`,
-                        height: `${height}px`,
-                        boxShadow: `0 0 0 2px ${ring}, 0 0 0 6px ${glow}`,
-                        background: fill,
-                        filter: "drop-shadow(0 6px 16px rgba(0,0,0,0.22))",
-                      }}
-                    />
-                    <Tooltip>
-                      <TooltipTrigger asChild>
+                        />
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <div
+                              className="absolute z-[41] px-2 py-1 rounded-md text-[10px] font-medium bg-background/85 border shadow-sm pointer-events-auto cursor-help"
+                              style={{
+                                left: `${left}px`,
+                                top: `${Math.max(0, top - 22)}px`,
+                                whiteSpace: "nowrap",
+                                borderColor: ring,
+                              }}
+                            >
+                              {label}
+                            </div>
+                          </TooltipTrigger>
+                          <TooltipContent sideOffset={6}>
+                            <div className="text-xs space-y-1">
+                              <div className="font-medium">{label}</div>
+                              <div className="text-muted-foreground">
+                                x:{Math.round(x)}, y:{Math.round(y)}, w:{Math.round(w)}, h:{Math.round(h)}
+                              </div>
+                            </div>
+                          </TooltipContent>
+                        </Tooltip>
+                      </div>
+                    );
+                  })}
+                </>
+              )}
+
+              {/* OCR overlays (Tesseract.js word boxes; from canvas pixel coords; scaled by zoom) */}
+              {ocrWords.length > 0 && (
+                <>
+                  {ocrWords.map((w, idx) => {
+                    const left = w.x * zoom;
+                    const top = w.y * zoom;
+                    const width = w.w * zoom;
+                    const height = w.h * zoom;
+
+                    // green-500 color scheme
+                    const ring = "#22c55e";
+                    const glow = "#22c55e55";
+                    const fill = "#22c55e22";
+                    const label = w.text || "(word)";
+                    const conf =
+                      Number.isFinite(w.conf) && (w.conf as number) >= 0
+                        ? ` (${Math.round((w.conf as number))}%)`
+                        : "";
+
+                    return (
+                      <div key={`ocr-${idx}`}>
                         <div
-                          className="absolute z-[31] px-1.5 py-0.5 rounded-md text-[10px] font-medium bg-background/85 border shadow-sm pointer-events-auto cursor-help"
+                          className="absolute pointer-events-none rounded-sm z-30"
                           style={{
                             left: `${left}px`,
-                            top: `${Math.max(0, top - 18)}px`,
-                            whiteSpace: "nowrap",
-                            borderColor: ring,
+                            top: `${top}px`,
+                            width: `${width}px`,
+                            height: `${height}px`,
+                            boxShadow: `0 0 0 2px ${ring}, 0 0 0 6px ${glow}`,
+                            background: fill,
+                            filter: "drop-shadow(0 6px 16px rgba(0,0,0,0.22))",
                           }}
-                        >
-                          {label}
-                        </div>
-                      </TooltipTrigger>
-                      <TooltipContent sideOffset={6}>
-                        <div className="text-xs space-y-1">
-                          <div className="font-medium">
-                            {label}
-                            {conf}
-                          </div>
-                          <div className="text-muted-foreground">
-                            x:{Math.round(w.x)}, y:{Math.round(w.y)}, w:{Math.round(w.w)}, h:{Math.round(w.h)}
-                          </div>
-                        </div>
-                      </TooltipContent>
-                    </Tooltip>
-                  </div>
-                );
-              })}
-            </>
+                        />
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <div
+                              className="absolute z-[31] px-1.5 py-0.5 rounded-md text-[10px] font-medium bg-background/85 border shadow-sm pointer-events-auto cursor-help"
+                              style={{
+                                left: `${left}px`,
+                                top: `${Math.max(0, top - 18)}px`,
+                                whiteSpace: "nowrap",
+                                borderColor: ring,
+                              }}
+                            >
+                              {label}
+                            </div>
+                          </TooltipTrigger>
+                          <TooltipContent sideOffset={6}>
+                            <div className="text-xs space-y-1">
+                              <div className="font-medium">
+                                {label}
+                                {conf}
+                              </div>
+                              <div className="text-muted-foreground">
+                                x:{Math.round(w.x)}, y:{Math.round(w.y)}, w:{Math.round(w.w)}, h:{Math.round(w.h)}
+                              </div>
+                            </div>
+                          </TooltipContent>
+                        </Tooltip>
+                      </div>
+                    );
+                  })}
+                </>
+              )}
+            </div>
           )}
         </div>
       </div>
@@ -2341,6 +2389,36 @@ function hideHoverPreview() {
 // Add a named export for compatibility with namespace imports like `PDFViewer.PDFViewer`
 export { PDFViewer };
 
+/**
+ * Canvas pixel rect of a hovered source box on a rendered page. The page element carries its
+ * base geometry (data-page-width/-height/-transform), so the box is projected exactly as the
+ * overlays project it.
+ */
+function hoverRectOnCanvas(input: unknown, canvas: HTMLCanvasElement): BoundingBox | null {
+  const pageEl = canvas.closest<HTMLElement>("[data-page-number]");
+  const page = pageEl ? pageGeometryOfElement(pageEl) : null;
+  const edges = page ? toUnitEdges(input, page.geometry) : null;
+  return edges ? toPixelRect(edges, { width: canvas.width, height: canvas.height }) : null;
+}
+
+/**
+ * Unit-space point of a pointer event on the page element under it (single page or a continuous
+ * page slot), or null when the pointer is not over a page.
+ */
+function pagePointOfEvent(e: React.MouseEvent): PagePoint | null {
+  const pageEl = (e.target as HTMLElement).closest<HTMLElement>("[data-page-number]");
+  const page = pageEl ? pageGeometryOfElement(pageEl) : null;
+  if (!pageEl || !page) return null;
+  const rect = pageEl.getBoundingClientRect();
+  if (!rect.width || !rect.height) return null;
+  return {
+    page: page.page,
+    x: (e.clientX - rect.left) / rect.width,
+    y: (e.clientY - rect.top) / rect.height,
+    geometry: page.geometry,
+  };
+}
+
 // Global rectangular magnifier lens setup driven by "doc-hover-bbox"/"doc-hover-clear"
 declare global {
   interface Window {
@@ -2361,13 +2439,7 @@ if (typeof window !== "undefined" && !window.__pdfMagnifierSetup) {
 
   let rafId: number | null = null;
 
-  type BBox = {
-    page?: number;
-    left?: number;
-    top?: number;
-    width?: number;
-    height?: number;
-  };
+  type Rect = { left: number; top: number; width: number; height: number };
 
   const clamp = (v: number, min: number, max: number) =>
     Math.max(min, Math.min(max, v));
@@ -2392,52 +2464,18 @@ if (typeof window !== "undefined" && !window.__pdfMagnifierSetup) {
     return near;
   };
 
-  const isNormalized = (r: Required<BBox>) => {
-    // Heuristic: treat as normalized if dimensions <= 1.5
-    return (
-      r.left <= 1.5 &&
-      r.top <= 1.5 &&
-      r.width <= 1.5 &&
-      r.height <= 1.5
-    );
-  };
-
-  const expandRect = (
-    r: Required<BBox>,
-    factor: number,
-    canvas: HTMLCanvasElement
-  ) => {
-    // Expand rect by factor (e.g., 0.5 => +50% each dimension)
-    const cx = r.left + r.width / 2;
-    const cy = r.top + r.height / 2;
+  const expandRect = (r: Rect, factor: number, canvas: HTMLCanvasElement): Rect => {
+    // Expand rect by factor (e.g., 0.5 => +50% each dimension), clamped to the canvas
     const newW = r.width * (1 + factor);
     const newH = r.height * (1 + factor);
-
-    let left = cx - newW / 2;
-    let top = cy - newH / 2;
-    let width = newW;
-    let height = newH;
-
-    if (isNormalized(r)) {
-      // Clamp in normalized space
-      left = clamp(left, 0, 1);
-      top = clamp(top, 0, 1);
-      width = clamp(width, 0, 1 - left);
-      height = clamp(height, 0, 1 - top);
-      return {
-        left: left * canvas.width,
-        top: top * canvas.height,
-        width: width * canvas.width,
-        height: height * canvas.height,
-      };
-    } else {
-      // Absolute pixels
-      left = clamp(left, 0, canvas.width);
-      top = clamp(top, 0, canvas.height);
-      width = clamp(width, 0, canvas.width - left);
-      height = clamp(height, 0, canvas.height - top);
-      return { left, top, width, height };
-    }
+    const left = clamp(r.left + r.width / 2 - newW / 2, 0, canvas.width);
+    const top = clamp(r.top + r.height / 2 - newH / 2, 0, canvas.height);
+    return {
+      left,
+      top,
+      width: clamp(newW, 0, canvas.width - left),
+      height: clamp(newH, 0, canvas.height - top),
+    };
   };
 
   const hideLens = () => {
@@ -2521,32 +2559,22 @@ if (typeof window !== "undefined" && !window.__pdfMagnifierSetup) {
 
   const onHover = (e: Event) => {
     const detail = (e as CustomEvent).detail as {
-      bbox?: BBox;
-      sourceEl?: Element | null;
+      bbox?: { page?: number };
+      pageNumber?: number;
+      page?: number;
     };
     if (!detail?.bbox) return;
 
-    const canvas = findCanvasForPage(detail.bbox.page);
-    if (!canvas) {
+    const canvas = findCanvasForPage(detail.pageNumber ?? detail.page ?? detail.bbox.page);
+    // Canvas pixels of the box, projected like the overlays
+    const rect = canvas ? hoverRectOnCanvas(detail.bbox, canvas) : null;
+    if (!canvas || !rect) {
       hideLens();
       return;
     }
 
-    // Normalize bbox fields
-    const left = Number(detail.bbox.left ?? 0);
-    const top = Number(detail.bbox.top ?? 0);
-    const width = Number(detail.bbox.width ?? 0);
-    const height = Number(detail.bbox.height ?? 0);
-
-    if (width <= 0 || height <= 0) {
-      hideLens();
-      return;
-    }
-
-    const base = { left, top, width, height, page: detail.bbox.page } as Required<BBox>;
-
     // Expand capture by 50% and clamp to canvas bounds
-    const expanded = expandRect(base, 0.5, canvas);
+    const expanded = expandRect({ left: rect.x, top: rect.y, width: rect.width, height: rect.height }, 0.5, canvas);
 
     // Draw on next animation frame to avoid flooding
     if (rafId) cancelAnimationFrame(rafId);
@@ -8,8 +8,17 @@ import { Copy, Download, ChevronDown, ChevronRight } from "lucide-react";
 import { toast } from "sonner";
 import * as SalesSchema from "@/schemas/salesOrderCreate";
 import { motion } from "framer-motion";
-import type { DocumentData, BoundingBox } from "@/lib/supabase";
-import { createSapToSourceMapping, type SapToSourceMapping } from "@/lib/mappingLedger";
+import type { DocumentData } from "@/lib/supabase";
+import { unionBoxes, type SourceBox } from "@/lib/geometry";
+import {
+  createSapToSourceMapping,
+  WEAK_MATCH_CONFIDENCE,
+  type SapSourceMatch,
+  type SapToSourceMapping,
+} from "@/lib/mappingLedger";
+import type { ManualBox } from "@/lib/manualBoxes";
+import { evidenceStatus } from "@/lib/evidenceCoverage";
+import { useFlash } from "@/hooks/use-flash";
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, TableContainer } from "@/components/ui/table";
 
 type SAPJsonCardProps = {
@@ -17,11 +26,103 @@ type SAPJsonCardProps = {
   title?: string;
   className?: string;
   defaultCollapsed?: boolean;
-  onHoverHighlight?: (box: (BoundingBox & { page?: number; color?: string }) | null) => void;
+  onHoverHighlight?: (box: (SourceBox & { color?: string }) | null) => void;
   sourceDocumentData?: DocumentData;
+  // Reviewer-drawn boxes; preferred over boxes matched from sourceDocumentData
+  manualBoxes?: Array<ManualBox>;
+  // The payload as extracted; fields whose source field holds another value than the current one are flagged
+  extractedData?: unknown;
+  // BCP 47 locale of the source document when known; otherwise its number and date formats are inferred
+  sourceLocale?: string;
   hideHeader?: boolean;
   onShowMailHint?: () => void;
   onHideMailHint?: () => void;
+  // Schema validation messages keyed by "$.key.[i].key" path
+  validationErrors?: Record<string, string>;
+  // Called when a field is edited so the parent can keep its SAP object in sync
+  onValueChange?: (path: string, value: unknown) => void;
+  // Called with the path of a field input that gains focus; focusedPath is marked as the capture target
+  onFieldFocus?: (path: string) => void;
+  focusedPath?: string | null;
+  // Extra control after a field's input, e.g. a lookup button; null or undefined for none
+  fieldAddon?: (path: string) => React.ReactNode;
+  // SAP paths whose source box is under the pointer on the document; they are marked
+  linkedPaths?: Array<string>;
+  // Paths to open and flash, e.g. after a click on the document; a new key reveals again
+  reveal?: { paths: Array<string>; key: number } | null;
+};
+
+const METHOD_LABELS: Record<SapSourceMatch["method"], string> = {
+  manual: "manual box",
+  exact: "exact text",
+  normalized: "normalized text",
+  number: "amount",
+  date: "date",
+  partial: "partial text",
+};
+
+const isWeakMatch = (match: SapSourceMatch | null | undefined) => !!match && match.confidence < WEAK_MATCH_CONFIDENCE;
+
+// Tooltip for the mapping of the SAP field at `path`: confidence, how it matched and the document field it came from
+function matchTitle(path: string, match: SapSourceMatch | null | undefined): string {
+  if (!match) return "No source mapping";
+  const summary = `${isWeakMatch(match) ? "Weak match" : "Source found"} · ${Math.round(match.confidence * 100)}% (${
+    METHOD_LABELS[match.method]
+  })`;
+  // A box drawn on the SAP field itself has no document field behind it
+  return match.sourcePath === path ? summary : `${summary} · ${match.sourcePath.replace(/^\$\.?/, "")}`;
+}
+
+const matchDotClass = (match: SapSourceMatch | null | undefined) =>
+  !match ? "bg-rose-500" : isWeakMatch(match) ? "bg-amber-500" : "bg-emerald-500";
+
+// Confidence of a mapped field; weak matches are highlighted for review
+function MatchConfidence({ path, match }: { path: string; match: SapSourceMatch }) {
+  return (
+    <span
+      className={`flex-shrink-0 rounded px-1 text-[10px] font-medium tabular-nums ${
+        isWeakMatch(match) ? "bg-amber-100 text-amber-800" : "text-muted-foreground"
+      }`}
+      title={matchTitle(path, match)}
+    >
+      {Math.round(match.confidence * 100)}%
+    </span>
+  );
+}
+
+// A value the source document gives no evidence for; empty values and flags need none
+const isUnsupported = (value: unknown, match: SapSourceMatch | null | undefined) =>
+  !match && (typeof value === "number" || (typeof value === "string" && value.trim() !== ""));
+
+// A value the source contradicts: the field the extracted value was read from (`reference`) holds another one
+function DiffersFlag({ reference }: { reference: SapSourceMatch }) {
+  return (
+    <span
+      className="flex-shrink-0 rounded bg-orange-100 px-1 text-[10px] font-medium text-orange-800 dark:bg-orange-900/30 dark:text-orange-300"
+      title={`The source shows "${reference.sourceText ?? ""}" (${reference.sourcePath.replace(/^\$\.?/, "")})`}
+    >
+      Differs
+    </span>
+  );
+}
+
+function UnsupportedFlag() {
+  return (
+    <span
+      className="flex-shrink-0 rounded bg-rose-100 px-1 text-[10px] font-medium text-rose-700 dark:bg-rose-900/30 dark:text-rose-300"
+      title="Not found in the source document"
+    >
+      No evidence
+    </span>
+  );
+}
+
+// Edit of a numeric field: the number it reads as, else the text as typed, so validation flags a
+// cleared or invalid value instead of it silently becoming 0
+const numericInput = (raw: string): number | string => {
+  const trimmed = raw.trim();
+  const n = Number(trimmed);
+  return trimmed !== "" && Number.isFinite(n) ? n : raw;
 };
 
 function extractJsonFromText(input: string): any | null {
@@ -46,9 +147,19 @@ export function SAPJsonCard({
   defaultCollapsed = true,
   onHoverHighlight,
   sourceDocumentData,
+  manualBoxes,
+  extractedData,
+  sourceLocale,
   hideHeader,
   onShowMailHint,
   onHideMailHint,
+  validationErrors,
+  onValueChange,
+  onFieldFocus,
+  focusedPath,
+  fieldAddon,
+  linkedPaths,
+  reveal,
 }: SAPJsonCardProps) {
   const [collapsed, setCollapsed] = useState<boolean>(defaultCollapsed);
   const [expanded, setExpanded] = useState<Set<string>>(() => new Set<string>());
@@ -57,13 +168,64 @@ export function SAPJsonCard({
 
   const hoverMapping: SapToSourceMapping | null = useMemo(() => {
     try {
-      return sourceDocumentData ? createSapToSourceMapping(data, sourceDocumentData) : null;
+      return sourceDocumentData || manualBoxes?.length
+        ? createSapToSourceMapping(data, sourceDocumentData, manualBoxes, { locale: sourceLocale })
+        : null;
     } catch {
       return null;
     }
-  }, [data, sourceDocumentData]);
+  }, [data, sourceDocumentData, manualBoxes, sourceLocale]);
+
+  const referenceMapping: SapToSourceMapping = useMemo(() => {
+    try {
+      return extractedData && sourceDocumentData
+        ? createSapToSourceMapping(extractedData, sourceDocumentData, manualBoxes, { locale: sourceLocale })
+        : {};
+    } catch {
+      return {};
+    }
+  }, [extractedData, sourceDocumentData, manualBoxes, sourceLocale]);
+
+  // Flag for a value without solid evidence: the source field holding another value, else none at all
+  const evidenceFlag = (path: string, value: unknown) => {
+    const match = hoverMapping?.[path];
+    const reference = referenceMapping[path];
+    if (hoverMapping && reference && isUnsupported(value, null) && evidenceStatus(match, reference) === "differs") {
+      return <DiffersFlag reference={reference} />;
+    }
+    return hoverMapping && isUnsupported(value, match) ? <UnsupportedFlag /> : null;
+  };
+
+  const linkedSet = useMemo(() => new Set(linkedPaths ?? []), [linkedPaths]);
+  const revealedSet = useMemo(() => new Set(reveal?.paths ?? []), [reveal]);
+  const flashing = useFlash(reveal?.key);
+
+  // Open the card and every node above the revealed fields (tree nodes and table sub-objects)
+  useEffect(() => {
+    if (!reveal?.paths.length) return;
+    setCollapsed(false);
+    setExpanded((prev: Set<string>) => {
+      const next = new Set(prev);
+      for (const path of reveal.paths) {
+        const segments = path.split(".");
+        for (let i = 1; i < segments.length; i++) {
+          const ancestor = segments.slice(0, i).join(".");
+          next.add(ancestor);
+          next.add(`${ancestor}-details`);
+        }
+      }
+      return next;
+    });
+  }, [reveal]);
+
+  // Classes of a field linked to the pointer on the document, or flashing after a reveal
+  const linkClass = (path: string) =>
+    `${linkedSet.has(path) ? "bg-amber-50 ring-2 ring-inset ring-amber-400 dark:bg-amber-900/20" : ""} ${
+      flashing && revealedSet.has(path) ? "animate-pulse ring-2 ring-inset ring-amber-500" : ""
+    }`;
 
   const DEFAULT_HOVER_COLOR = "#3b82f6";
+  const WEAK_HOVER_COLOR = "#f59e0b";
   const hoverRafRef = useRef<number | null>(null);
   const clearHoverTimeoutRef = useRef<number | null>(null);
   const hoveredSetRafRef = useRef<number | null>(null);
@@ -84,8 +246,11 @@ export function SAPJsonCard({
     hoveredSetRafRef.current = requestAnimationFrame(() => {
       setHoveredPath((prev: string | null) => (prev === pathId ? prev : pathId));
     });
+    // Weak matches are outlined in amber so the reviewer checks them against the document
     const colored =
-      box && typeof box === "object" && !box.color ? { ...box, color: DEFAULT_HOVER_COLOR } : box;
+      box && typeof box === "object" && !box.color
+        ? { ...box, color: isWeakMatch(box) ? WEAK_HOVER_COLOR : DEFAULT_HOVER_COLOR }
+        : box;
     emitHover(colored);
   };
 
@@ -217,44 +382,14 @@ export function SAPJsonCard({
     }
   }, [parsed, orderTree]);
 
-  function unionBoxes(
-    boxes: Array<BoundingBox & { page?: number }>
-  ): (BoundingBox & { page?: number }) | null {
-    if (!boxes.length) return null;
-    let minX = Infinity,
-      minY = Infinity,
-      maxX = -Infinity,
-      maxY = -Infinity;
-    let page = boxes[0]?.page;
-    for (const b of boxes) {
-      const x1 = (b as any).x ?? (b as any).left ?? 0;
-      const y1 = (b as any).y ?? (b as any).top ?? 0;
-      const x2 = x1 + ((b as any).width ?? (b as any).w ?? 0);
-      const y2 = y1 + ((b as any).height ?? (b as any).h ?? 0);
-      minX = Math.min(minX, x1);
-      minY = Math.min(minY, y1);
-      maxX = Math.max(maxX, x2);
-      maxY = Math.max(maxY, y2);
-      if (page == null && (b as any).page != null) page = (b as any).page;
-    }
-    const out: any = {
-      x: minX,
-      y: minY,
-      width: Math.max(0, maxX - minX),
-      height: Math.max(0, maxY - minY),
-    };
-    if (page != null) out.page = page;
-    return out as BoundingBox & { page?: number };
-  }
-
   function getRowUnionBoxForArrayObject(
     basePath: string,
     rowIndex: number,
     columns: Array<string>,
     mapping: SapToSourceMapping | null
-  ): (BoundingBox & { page?: number }) | null {
+  ): SourceBox | null {
     if (!mapping) return null;
-    const boxes: Array<BoundingBox & { page?: number }> = [];
+    const boxes: Array<SourceBox> = [];
     for (const col of columns) {
       const p = `${basePath}.[${rowIndex}].${col}`;
       const b = mapping[p] as any;
@@ -301,36 +436,26 @@ export function SAPJsonCard({
   const isObjectLike = (v: unknown) => v !== null && typeof v === "object";
   const isArr = (v: unknown): v is Array<any> => Array.isArray(v);
 
-  const SAP_SECTION_COLORS: Record<string, string> = {
-    metadata: "#10b981",
-    header: "#10b981",
-    vendor: "#8b5cf6",
-    partner: "#8b5cf6",
-    parties: "#8b5cf6",
-    customer: "#f59e0b",
-    items: "#0ea5e9",
-    lines: "#0ea5e9",
-    addresses: "#06b6d4",
-    totals: "#f43f5e",
+  const errorFor = (path: string): string | undefined => validationErrors?.[path];
+  const errorCount = validationErrors ? Object.keys(validationErrors).length : 0;
+  const missingTopLevelKeys = useMemo(() => {
+    if (!validationErrors || !parsed || typeof parsed !== "object" || Array.isArray(parsed)) return [];
+    return Object.keys(validationErrors)
+      .map((p) => /^\$\.([^.]+)$/.exec(p)?.[1])
+      .filter((k): k is string => Boolean(k) && !((k as string) in (parsed as Record<string, any>)));
+  }, [validationErrors, parsed]);
+
+  // Record an edit locally and forward it to the parent
+  const commitEdit = (path: string, value: unknown) => {
+    setEditedValues(prev => ({...prev, [path]: value}));
+    onValueChange?.(path, value);
   };
-  const FALLBACK_COLORS: Array<string> = [
-    "#22c55e",
-    "#8b5cf6",
-    "#f59e0b",
-    "#0ea5e9",
-    "#f43f5e",
-    "#06b6d4",
-    "#a3e635",
-    "#e879f9",
-  ];
-  function hashKeyToIndex(key: string): number {
-    let h = 0;
-    for (let i = 0; i < key.length; i++) h = (h * 31 + key.charCodeAt(i)) | 0;
-    return Math.abs(h) % FALLBACK_COLORS.length;
-  }
-  function colorForKey(key: string): string {
-    return SAP_SECTION_COLORS[key] ?? FALLBACK_COLORS[hashKeyToIndex(key)];
-  }
+
+  // With onValueChange the parent owns the payload; drop local copies so its own writes
+  // (e.g. a region captured from the PDF) are not hidden behind an earlier edit
+  useEffect(() => {
+    if (onValueChange) setEditedValues({});
+  }, [data, onValueChange]);
 
   // NEW: Render array of objects with all fields in row and sub-objects as collapsible sections
   const ArrayOfObjectsAccordion = (({
@@ -354,6 +479,14 @@ export function SAPJsonCard({
         }
       });
     });
+    // Also show columns for required fields that no row has yet, so they can be filled in
+    if (validationErrors) {
+      Object.keys(validationErrors).forEach((p) => {
+        if (!p.startsWith(basePath)) return;
+        const m = /^\.\[\d+\]\.([^.]+)$/.exec(p.slice(basePath.length));
+        if (m) allPrimitiveKeys.add(m[1]);
+      });
+    }
     const primitiveColumns = Array.from(allPrimitiveKeys);
 
     // Replace native table with Arcadian (shadcn) table wrapped in a scrollable container
@@ -424,12 +557,13 @@ export function SAPJsonCard({
                     const storedVal = editedValues[fieldPath];
                     const val = storedVal !== undefined ? storedVal : item[col];
                     const fieldBox = hoverMapping ? hoverMapping[fieldPath] || null : null;
-                    const fieldHasMapping = Boolean(fieldBox);
+                    const fieldError = errorFor(fieldPath);
 
                     return (
                       <TableCell
                         key={col}
-                        className="px-3 py-2 align-top"
+                        data-sap-field={fieldPath}
+                        className={`px-3 py-2 align-top ${linkClass(fieldPath)}`}
                         onMouseEnter={() => {
                           if (fieldBox) {
                             handleRowEnter(fieldPath, fieldBox as any);
@@ -438,7 +572,7 @@ export function SAPJsonCard({
                           }
                         }}
                         onMouseLeave={handleRowLeave}
-                        title={fieldHasMapping ? "Source found" : "No source mapping"}
+                        title={fieldError ?? matchTitle(fieldPath, fieldBox)}
                       >
                         <div className="flex items-center gap-2 min-w-0">
                           {typeof val === "boolean" ? (
@@ -446,7 +580,7 @@ export function SAPJsonCard({
                               type="checkbox" 
                               checked={val}
                               onChange={(e) => {
-                                setEditedValues(prev => ({...prev, [fieldPath]: e.target.checked}));
+                                commitEdit(fieldPath, e.target.checked);
                               }}
                               className="h-3.5 w-3.5 flex-shrink-0"
                               onClick={(e) => e.stopPropagation()}
@@ -454,10 +588,12 @@ export function SAPJsonCard({
                           ) : (
                             <input
                               type={typeof val === "number" ? "number" : "text"}
+                              data-sap-path={fieldPath}
+                              data-capture-target={focusedPath === fieldPath || undefined}
                               value={val === null || val === undefined ? "" : String(val)}
                               onChange={(e) => {
-                                const newVal = typeof val === "number" ? parseFloat(e.target.value) || 0 : e.target.value;
-                                setEditedValues(prev => ({...prev, [fieldPath]: newVal}));
+                                const newVal = typeof val === "number" ? numericInput(e.target.value) : e.target.value;
+                                commitEdit(fieldPath, newVal);
                               }}
                               onKeyDown={(e) => {
                                 if (['w', 'a', 's', 'd', 'W', 'A', 'S', 'D'].includes(e.key) && !e.ctrlKey && !e.metaKey) {
@@ -467,11 +603,20 @@ export function SAPJsonCard({
                                 }
                                 e.stopPropagation();
                               }}
-                              className="w-full min-w-0 max-w-none whitespace-pre-wrap break-words rounded border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+                              aria-invalid={fieldError ? true : undefined}
+                              className={`w-full min-w-0 max-w-none whitespace-pre-wrap break-words rounded border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-ring data-capture-target:ring-2 data-capture-target:ring-emerald-500 ${
+                                fieldError ? "border-destructive focus:ring-destructive" : ""
+                              }`}
                               onClick={(e) => e.stopPropagation()}
                             />
                           )}
+                          {fieldAddon?.(fieldPath)}
+                          {fieldBox && isWeakMatch(fieldBox) && <MatchConfidence path={fieldPath} match={fieldBox} />}
+                          {evidenceFlag(fieldPath, val)}
                         </div>
+                        {fieldError && (
+                          <div className="mt-1 text-[11px] text-destructive">{fieldError}</div>
+                        )}
                       </TableCell>
                     );
                   })}
@@ -541,7 +686,7 @@ export function SAPJsonCard({
                                                           type="checkbox" 
                                                           checked={displayVal}
                                                           onChange={(e) => {
-                                                            setEditedValues(prev => ({...prev, [fieldValPath]: e.target.checked}));
+                                                            commitEdit(fieldValPath, e.target.checked);
                                                           }}
                                                           className="h-3.5 w-3.5"
                                                           onClick={(e) => e.stopPropagation()}
@@ -549,12 +694,14 @@ export function SAPJsonCard({
                                                       ) : (
                                                         <input
                                                           type={typeof displayVal === "number" ? "number" : "text"}
+                                                          data-sap-path={fieldValPath}
+                                                          data-capture-target={focusedPath === fieldValPath || undefined}
                                                           value={displayVal === null || displayVal === undefined ? "" : String(displayVal)}
                                                           onChange={(e) => {
-                                                            const newVal = typeof displayVal === "number" ? parseFloat(e.target.value) || 0 : e.target.value;
-                                                            setEditedValues(prev => ({...prev, [fieldValPath]: newVal}));
+                                                            const newVal = typeof displayVal === "number" ? numericInput(e.target.value) : e.target.value;
+                                                            commitEdit(fieldValPath, newVal);
                                                           }}
-                                                          className="flex-1 min-w-0 rounded border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+                                                          className="flex-1 min-w-0 rounded border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-ring data-capture-target:ring-2 data-capture-target:ring-emerald-500"
                                                           onClick={(e) => e.stopPropagation()}
                                                           onFocus={(e) => {
                                                             e.currentTarget.style.position = 'relative';
@@ -573,12 +720,14 @@ export function SAPJsonCard({
                                             ) : (
                                               <input
                                                 type={typeof displayItem === "number" ? "number" : "text"}
+                                                data-sap-path={itemValPath}
+                                                data-capture-target={focusedPath === itemValPath || undefined}
                                                 value={displayItem === null || displayItem === undefined ? "" : String(displayItem)}
                                                 onChange={(e) => {
-                                                  const newVal = typeof displayItem === "number" ? parseFloat(e.target.value) || 0 : e.target.value;
-                                                  setEditedValues(prev => ({...prev, [itemValPath]: newVal}));
+                                                  const newVal = typeof displayItem === "number" ? numericInput(e.target.value) : e.target.value;
+                                                  commitEdit(itemValPath, newVal);
                                                 }}
-                                                className="flex-1 rounded border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+                                                className="flex-1 rounded border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-ring data-capture-target:ring-2 data-capture-target:ring-emerald-500"
                                                 onClick={(e) => e.stopPropagation()}
                                                 onFocus={(e) => {
                                                   e.currentTarget.style.position = 'relative';
@@ -609,7 +758,7 @@ export function SAPJsonCard({
                                                 type="checkbox" 
                                                 checked={displayVal}
                                                 onChange={(e) => {
-                                                  setEditedValues(prev => ({...prev, [fieldValPath]: e.target.checked}));
+                                                  commitEdit(fieldValPath, e.target.checked);
                                                 }}
                                                 className="h-3.5 w-3.5"
                                                 onClick={(e) => e.stopPropagation()}
@@ -617,12 +766,14 @@ export function SAPJsonCard({
                                             ) : (
                                               <input
                                                 type={typeof displayVal === "number" ? "number" : "text"}
+                                                data-sap-path={fieldValPath}
+                                                data-capture-target={focusedPath === fieldValPath || undefined}
                                                 value={displayVal === null || displayVal === undefined ? "" : String(displayVal)}
                                                 onChange={(e) => {
-                                                  const newVal = typeof displayVal === "number" ? parseFloat(e.target.value) || 0 : e.target.value;
-                                                  setEditedValues(prev => ({...prev, [fieldValPath]: newVal}));
+                                                  const newVal = typeof displayVal === "number" ? numericInput(e.target.value) : e.target.value;
+                                                  commitEdit(fieldValPath, newVal);
                                                 }}
-                                                className="flex-1 rounded border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+                                                className="flex-1 rounded border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-ring data-capture-target:ring-2 data-capture-target:ring-emerald-500"
                                                 onClick={(e) => e.stopPropagation()}
                                                 onFocus={(e) => {
                                                   e.currentTarget.style.position = 'relative';
@@ -677,10 +828,13 @@ export function SAPJsonCard({
       (value as any[]).length > 0 &&
       (value as any[]).every((row) => row && typeof row === "object" && !Array.isArray(row));
 
+    const nodeError = errorFor(path);
+
     if (!isComplex) {
       return (
         <div
-          className="py-2.5 px-3 rounded-md"
+          data-sap-field={path}
+          className={`py-2.5 px-3 rounded-md ${linkClass(path)}`}
           style={{
             ...indentStyle,
             ...(hoveredPath === path
@@ -709,31 +863,54 @@ export function SAPJsonCard({
           <div className="grid grid-cols-[180px_minmax(0,1fr)] gap-3 items-center">
             <div className="flex items-center gap-2">
               <span
-                className={`h-2.5 w-2.5 rounded-full inline-block ${
-                  hoverMapping && hoverMapping[path] ? "bg-emerald-500" : "bg-rose-500"
-                }`}
-                title={hoverMapping && hoverMapping[path] ? "Source found" : "No source mapping"}
+                className={`h-2.5 w-2.5 rounded-full inline-block ${matchDotClass(hoverMapping?.[path])}`}
+                title={matchTitle(path, hoverMapping?.[path])}
               />
               <label className="text-xs font-medium text-muted-foreground">{label}</label>
+              {hoverMapping?.[path] && <MatchConfidence path={path} match={hoverMapping[path]} />}
+              {evidenceFlag(path, value)}
+            </div>
+            <div className="flex min-w-0 items-center gap-1.5">
+              {typeof value === "boolean" ? (
+                <input
+                  type="checkbox"
+                  defaultChecked={value}
+                  className="h-4 w-4"
+                  onChange={(e) => commitEdit(path, e.target.checked)}
+                />
+              ) : (
+                <input
+                  type={typeof value === "number" ? "number" : "text"}
+                  data-sap-path={path}
+                  data-capture-target={focusedPath === path || undefined}
+                  defaultValue={value === null || value === undefined ? "" : String(value)}
+                  aria-invalid={nodeError ? true : undefined}
+                  className={`w-full rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring data-capture-target:ring-2 data-capture-target:ring-emerald-500 ${
+                    nodeError ? "border-destructive focus:ring-destructive" : ""
+                  }`}
+                  // Commit on blur: the card re-renders on every parent update, which would reset focus mid-typing
+                  onBlur={(e) => {
+                    const raw = e.currentTarget.value;
+                    const original = value === null || value === undefined ? "" : String(value);
+                    if (raw === original) return;
+                    commitEdit(path, typeof value === "number" ? numericInput(raw) : raw);
+                  }}
+                  onMouseDown={(e) => {
+                    e.stopPropagation();
+                    const target = e.currentTarget;
+                    requestAnimationFrame(() => {
+                      target.focus();
+                      target.select();
+                    });
+                  }}
+                />
+              )}
+              {fieldAddon?.(path)}
             </div>
-            {typeof value === "boolean" ? (
-              <input type="checkbox" defaultChecked={value} className="h-4 w-4" />
-            ) : (
-              <input
-                type={typeof value === "number" ? "number" : "text"}
-                defaultValue={value === null || value === undefined ? "" : String(value)}
-                className="w-full rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
-                onMouseDown={(e) => {
-                  e.stopPropagation();
-                  const target = e.currentTarget;
-                  requestAnimationFrame(() => {
-                    target.focus();
-                    target.select();
-                  });
-                }}
-              />
-            )}
           </div>
+          {nodeError && (
+            <div className="mt-1 pl-[192px] text-[11px] text-destructive">{nodeError}</div>
+          )}
         </div>
       );
     }
@@ -768,6 +945,7 @@ export function SAPJsonCard({
               <span className="text-sm font-semibold text-foreground group-hover:text-primary transition-colors">
                 {label}
               </span>
+              {nodeError && <span className="text-[11px] font-normal text-destructive">{nodeError}</span>}
             </div>
             {open ? (
               <ChevronDown className="h-4 w-4 text-muted-foreground group-hover:text-primary transition-colors" />
@@ -783,7 +961,13 @@ export function SAPJsonCard({
                   : "space-y-1 pt-1"
               }
             >
-              {isArrayOfObjects ? (
+              {isArr(value) && value.length === 0 && onValueChange ? (
+                <div className="col-span-full px-3 py-1">
+                  <Button variant="outline" size="sm" onClick={() => onValueChange(`${path}.[0]`, {})}>
+                    Add row
+                  </Button>
+                </div>
+              ) : isArrayOfObjects ? (
                 <div className="col-span-full px-2">
                   <ArrayOfObjectsAccordion items={value as Array<Record<string, any>>} basePath={path} depth={depth} />
                 </div>
@@ -916,22 +1100,49 @@ export function SAPJsonCard({
         )}
 
         {!collapsed && (
-          <CardContent id="sap-json-content" className="pt-0">
+          <CardContent
+            id="sap-json-content"
+            className="pt-0"
+            onFocusCapture={(e) => {
+              const path = (e.target as HTMLElement).dataset?.sapPath;
+              if (path) onFieldFocus?.(path);
+            }}
+          >
+            {errorCount > 0 && (
+              <div className="mb-2 rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-xs text-destructive">
+                <div className="font-semibold">
+                  {errorCount} validation {errorCount === 1 ? "issue" : "issues"} must be fixed before Create
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {Object.entries(validationErrors ?? {}).map(([p, msg]) => (
+                    <li key={p} className="font-mono break-all">
+                      {p.replace(/^\$\.?/, "") || "payload"}: {msg}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <ScrollArea className="h-auto w-full rounded-md border">
               {parsed && typeof parsed === "object" && Object.keys(parsed as Record<string, any>).length > 0 ? (
                 <div className="p-2">
                   {Array.isArray(parsed) ? (
                     <TreeNode label="[]" value={parsed} path="$" depth={0} />
                   ) : (
-                    Object.entries(parsed as Record<string, any>).map(([k, v]) => (
-                      <TreeNode
-                        key={`$.${k}`}
-                        label={k}
-                        value={v}
-                        path={`$.${k}`}
-                        depth={0}
-                      />
-                    ))
+                    <>
+                      {Object.entries(parsed as Record<string, any>).map(([k, v]) => (
+                        <TreeNode
+                          key={`$.${k}`}
+                          label={k}
+                          value={v}
+                          path={`$.${k}`}
+                          depth={0}
+                        />
+                      ))}
+                      {/* Required top-level fields absent from the payload get an empty input */}
+                      {missingTopLevelKeys.map((k) => (
+                        <TreeNode key={`$.${k}`} label={k} value="" path={`$.${k}`} depth={0} />
+                      ))}
+                    </>
                   )}
                 </div>
               ) : (
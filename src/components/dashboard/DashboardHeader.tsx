@@ -7,7 +7,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { LogOut, Moon, Sun, User, Bell } from "lucide-react";
+import { LogOut, Moon, Sun, User, Bell, ShieldCheck, Send, BookUser } from "lucide-react";
 import { motion } from "framer-motion";
 import { Link } from "react-router";
 
@@ -18,6 +18,10 @@ type DashboardHeaderProps = {
   onProfile: () => void;
   onToggleDark: () => void;
   onSignOut: () => void;
+  // Add: shown to admins only
+  onManageRoles?: () => void;
+  onWebhooks?: () => void;
+  onCustomers?: () => void;
 };
 
 export function DashboardHeader({
@@ -27,6 +31,9 @@ export function DashboardHeader({
   onProfile,
   onToggleDark,
   onSignOut,
+  onManageRoles,
+  onWebhooks,
+  onCustomers,
 }: DashboardHeaderProps) {
   return (
     <div className="h-16 px-6 flex items-center justify-between">
@@ -100,6 +107,24 @@ export function DashboardHeader({
                 {isDarkMode ? <Sun className="h-4 w-4 mr-2" /> : <Moon className="h-4 w-4 mr-2" />}
                 Toggle Theme
               </DropdownMenuItem>
+              {onManageRoles && (
+                <DropdownMenuItem onClick={onManageRoles} className="cursor-pointer" role="menuitem">
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Manage Roles
+                </DropdownMenuItem>
+              )}
+              {onWebhooks && (
+                <DropdownMenuItem onClick={onWebhooks} className="cursor-pointer" role="menuitem">
+                  <Send className="h-4 w-4 mr-2" />
+                  Webhook Deliveries
+                </DropdownMenuItem>
+              )}
+              {onCustomers && (
+                <DropdownMenuItem onClick={onCustomers} className="cursor-pointer" role="menuitem">
+                  <BookUser className="h-4 w-4 mr-2" />
+                  Customer Master
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem
                 onClick={onSignOut}
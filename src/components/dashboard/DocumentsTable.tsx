@@ -1,7 +1,7 @@
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { motion } from "framer-motion";
-import { ChevronDown, ChevronUp, ArrowUpDown, ChevronRight, SlidersHorizontal, RefreshCw } from "lucide-react";
+import { ChevronDown, ChevronUp, ArrowUpDown, ChevronRight, SlidersHorizontal, RefreshCw, Filter, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -11,9 +11,18 @@ import {
   DropdownMenuTrigger,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
-import { ReactNode, useMemo, useState, useDeferredValue, useRef, useEffect } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { WORKFLOW_STEPS, isWorkflowStatus, workflowBadgeClass, workflowLabel } from "@/lib/workflow";
+import { formatCoverage } from "@/lib/evidenceCoverage";
+import type { DocumentsQuery, DocumentsSortKey } from "@/lib/documentsQuery";
+import { useCoverageThreshold } from "@/hooks/use-coverage-threshold";
+import { ReactNode, useMemo, useState, useRef, useEffect } from "react";
 /* removed Switch import */
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { toast } from "sonner";
@@ -28,10 +37,26 @@ type DocsRow = {
   title?: string;
   bucket_name?: string;
   mail_content?: string;
+  evidence_coverage?: number; // 0..1, saved when the document was last reviewed, else computed for the list
 };
 
+type DocumentsFilters = Pick<DocumentsQuery, "status" | "sender" | "dateFrom" | "dateTo">;
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const COVERAGE_THRESHOLDS = [0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
 type DocumentsTableProps = {
   docs: Array<DocsRow>;
+  query: DocumentsQuery;
+  onQueryChange: (query: DocumentsQuery) => void;
+  // Paging state from usePaginatedQuery
+  isLoading?: boolean;
+  canLoadMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Rows that arrived live since the page was opened
+  highlightIds?: Set<string>;
   selectedIds: Set<string>;
   onToggleSelectAll: () => void;
   onToggleSelect: (id: string) => void;
@@ -72,6 +97,10 @@ function extractDocName(input?: string) {
 }
 
 function StatusBadge({ value }: { value?: string }) {
+  if (isWorkflowStatus(value)) {
+    return <Badge className={workflowBadgeClass(value)}>{workflowLabel(value)}</Badge>;
+  }
+  // Documents without a workflow status yet show the free-form pipeline status
   const s = (value || "—").toLowerCase();
   let cls = "bg-slate-100 text-slate-700 dark:bg-slate-80/60 dark:text-slate-300";
   if (s.includes("success") || s.includes("done") || s.includes("complete") || s.includes("processed")) {
@@ -84,8 +113,28 @@ function StatusBadge({ value }: { value?: string }) {
   return <Badge className={cls}>{value || "—"}</Badge>;
 }
 
+// Evidence coverage of a reviewed document; only scores below the threshold are shown
+function CoverageBadge({ value, threshold }: { value?: number; threshold: number }) {
+  if (value === undefined || value >= threshold) return null;
+  return (
+    <Badge
+      className="bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300"
+      title={`Only ${formatCoverage(value)} of the SAP values have evidence in the document (threshold ${formatCoverage(threshold)})`}
+    >
+      Evidence {formatCoverage(value)}
+    </Badge>
+  );
+}
+
 export function DocumentsTable({
   docs,
+  query,
+  onQueryChange,
+  isLoading = false,
+  canLoadMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  highlightIds,
   selectedIds,
   onToggleSelectAll,
   onToggleSelect,
@@ -97,14 +146,15 @@ export function DocumentsTable({
   // Add: onRefresh
   onRefresh,
 }: DocumentsTableProps): ReactNode {
-  const [search, setSearch] = useState("");
-  const [sortBy, setSortBy] = useState<"id" | "from" | "subject" | "status" | "doc" | "created" | "cc">("id");
-  const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
+  const { sortBy, sortDir } = query;
+  // Local input value; pushed to the query after a short pause in typing
+  const [search, setSearch] = useState(query.search);
   // Removed: const [page, setPage] = useState(1);
   // Removed: const pageSize = 10;
 
   const [showCreatedAt, setShowCreatedAt] = useState(false);
   const [showCC, setShowCC] = useState(true);
+  const [coverageThreshold, setCoverageThreshold] = useCoverageThreshold();
 
   // Removed row-level overlay; using global route progress via PendingContext
 
@@ -151,8 +201,28 @@ export function DocumentsTable({
     }
   }, [docOnly]);
 
-  // ADD: Debounced search for smoother filtering under load
-  const deferredSearch = useDeferredValue(search.trim().toLowerCase());
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  useEffect(() => {
+    const next = search.trim();
+    if (next === queryRef.current.search) return;
+    const t = window.setTimeout(() => onQueryChange({ ...queryRef.current, search: next }), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(t);
+  }, [search, onQueryChange]);
+
+  // Filter form edits stay local until applied, so typing does not refetch on every keystroke
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [draftFilters, setDraftFilters] = useState<DocumentsFilters>(() => ({
+    status: query.status,
+    sender: query.sender,
+    dateFrom: query.dateFrom,
+    dateTo: query.dateTo,
+  }));
+  const activeFilterCount = [query.status, query.sender, query.dateFrom, query.dateTo].filter(Boolean).length;
+  const applyFilters = (filters: DocumentsFilters) => {
+    onQueryChange({ ...query, ...filters });
+    setFiltersOpen(false);
+  };
 
   // ADD: Precompute derived fields to avoid repeated heavy work
   const derivedDocs = useMemo(() => {
@@ -168,15 +238,14 @@ export function DocumentsTable({
   }, [docs]);
 
   // Update: allow toggling sort for all keys
-  const toggleSort = (key: "id" | "from" | "subject" | "status" | "doc" | "created" | "cc") => {
+  const toggleSort = (key: DocumentsSortKey) => {
     if (sortBy === key) {
-      setSortDir((d) => (d === "asc" ? "desc" : "asc"));
+      onQueryChange({ ...query, sortDir: sortDir === "asc" ? "desc" : "asc" });
     } else {
-      setSortBy(key);
-      setSortDir("asc");
+      onQueryChange({ ...query, sortBy: key, sortDir: "asc" });
     }
-    // Removed: setPage(1)
   };
+  const setSortDir = (dir: "asc" | "desc") => onQueryChange({ ...query, sortDir: dir });
 
   // Add: labels for sort UI
   const sortLabels: Record<typeof sortBy, string> = {
@@ -189,83 +258,23 @@ export function DocumentsTable({
     cc: "CC Emails",
   };
 
-  const processed = useMemo(() => {
-    const filtered = deferredSearch.length
-      ? derivedDocs.filter((d) => {
-          const name = (d.subject || d.title || d.bucket_name || d.id || "").toLowerCase();
-          const from = (d.from_email || "").toLowerCase();
-          const status = (d.status || "").toLowerCase();
-          const cc = (Array.isArray(d.cc_emails) ? d.cc_emails.join(",") : "").toLowerCase();
-          const mail = (d._mailPlain || "").toLowerCase();
-          const docName = (d._docName || "").toLowerCase();
-          return (
-            name.includes(deferredSearch) ||
-            from.includes(deferredSearch) ||
-            status.includes(deferredSearch) ||
-            cc.includes(deferredSearch) ||
-            mail.includes(deferredSearch) ||
-            docName.includes(deferredSearch)
-          );
-        })
-      : derivedDocs;
-
-    const sorted = [...filtered].sort((a, b) => {
-      // ID
-      if (sortBy === "id") {
-        const ai = Number(a.id);
-        const bi = Number(b.id);
-        const aNum = Number.isFinite(ai);
-        const bNum = Number.isFinite(bi);
-        if (aNum && bNum) {
-          return sortDir === "asc" ? ai - bi : bi - ai;
-        }
-        const as = (a.id || "").toLowerCase();
-        const bs = (b.id || "").toLowerCase();
-        return sortDir === "asc" ? as.localeCompare(bs) : bs.localeCompare(as);
-      }
-      // From Mail
-      if (sortBy === "from") {
-        const af = (a.from_email || "").toLowerCase();
-        const bf = (b.from_email || "").toLowerCase();
-        return sortDir === "asc" ? af.localeCompare(bf) : bf.localeCompare(af);
-      }
-      // Subject
-      if (sortBy === "subject") {
-        const asub = ((a.subject || "").replace(/<[^>]*>/g, "")).toLowerCase();
-        const bsub = ((b.subject || "").replace(/<[^>]*>/g, "")).toLowerCase();
-        return sortDir === "asc" ? asub.localeCompare(bsub) : bsub.localeCompare(asub);
-      }
-      // Document (last path segment / derived)
-      if (sortBy === "doc") {
-        const an = (a._docName || a.id || "").toLowerCase();
-        const bn = (b._docName || b.id || "").toLowerCase();
-        return sortDir === "asc" ? an.localeCompare(bn) : bn.localeCompare(an);
-      }
-      // Status
-      if (sortBy === "status") {
-        const as = (a.status || "").toLowerCase();
-        const bs = (b.status || "").toLowerCase();
-        return sortDir === "asc" ? as.localeCompare(bs) : bs.localeCompare(as);
-      }
-      // Created At
-      if (sortBy === "created") {
-        const ad = a.created_at ? new Date(a.created_at).getTime() : 0;
-        const bd = b.created_at ? new Date(b.created_at).getTime() : 0;
-        return sortDir === "asc" ? ad - bd : bd - ad;
-      }
-      // CC Emails (join to a single string)
-      if (sortBy === "cc") {
-        const ac = (Array.isArray(a.cc_emails) ? a.cc_emails.join(", ") : "").toLowerCase();
-        const bc = (Array.isArray(b.cc_emails) ? b.cc_emails.join(", ") : "").toLowerCase();
-        return sortDir === "asc" ? ac.localeCompare(bc) : bc.localeCompare(ac);
-      }
-      return 0;
-    });
-
-    return sorted;
-  }, [derivedDocs, deferredSearch, sortBy, sortDir]);
+  // Rows arrive filtered and sorted by the server
+  const visible = derivedDocs;
 
-  const visible = processed;
+  // Infinite scroll: load the next page when the end of the list comes into view
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || !canLoadMore || !onLoadMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "400px 0px" },
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [canLoadMore, onLoadMore]);
 
   // Open immediately and navigate; keep debounce guard to prevent double clicks
   const handleOpen = (id: string) => {
@@ -295,11 +304,8 @@ export function DocumentsTable({
         <div className="flex items-center gap-3 flex-nowrap overflow-x-auto">
           <Input
             value={search}
-            onChange={(e) => {
-              setSearch(e.target.value);
-              // Removed: setPage(1)
-            }}
-            placeholder="Search documents..."
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search subject and mail..."
             className="bg-background/50 h-9 flex-1 min-w-0"
             aria-label="Search documents"
           />
@@ -330,9 +336,129 @@ export function DocumentsTable({
               >
                 CC Emails
               </DropdownMenuCheckboxItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Flag evidence coverage below</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={String(coverageThreshold)}
+                onValueChange={(v) => setCoverageThreshold(Number(v))}
+              >
+                {COVERAGE_THRESHOLDS.map((t) => (
+                  <DropdownMenuRadioItem key={t} value={String(t)}>
+                    {formatCoverage(t)}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
             </DropdownMenuContent>
           </DropdownMenu>
 
+          {/* Filters: status, sender, received date range */}
+          <Popover
+            open={filtersOpen}
+            onOpenChange={(open) => {
+              if (open) {
+                setDraftFilters({
+                  status: query.status,
+                  sender: query.sender,
+                  dateFrom: query.dateFrom,
+                  dateTo: query.dateTo,
+                });
+              }
+              setFiltersOpen(open);
+            }}
+          >
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-white/5 hover:bg-white/10 border-white/10 backdrop-blur"
+                aria-label="Filter documents"
+                title="Filters"
+              >
+                <Filter className="h-4 w-4 mr-2" />
+                Filters
+                {activeFilterCount > 0 && (
+                  <Badge variant="secondary" className="ml-2 px-1.5 py-0 text-[10px]">
+                    {activeFilterCount}
+                  </Badge>
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-72">
+              <form
+                className="space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  applyFilters(draftFilters);
+                }}
+              >
+                <div className="space-y-1">
+                  <Label htmlFor="filter-status" className="text-xs">Status</Label>
+                  <Select
+                    value={draftFilters.status || "all"}
+                    onValueChange={(value) => setDraftFilters((f) => ({ ...f, status: value === "all" ? "" : value }))}
+                  >
+                    <SelectTrigger id="filter-status" className="h-8">
+                      <SelectValue placeholder="Any status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any status</SelectItem>
+                      {WORKFLOW_STEPS.map((step) => (
+                        <SelectItem key={step.value} value={step.value}>
+                          {step.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="filter-sender" className="text-xs">Sender</Label>
+                  <Input
+                    id="filter-sender"
+                    value={draftFilters.sender}
+                    onChange={(e) => setDraftFilters((f) => ({ ...f, sender: e.target.value }))}
+                    placeholder="name@example.com or example.com"
+                    className="h-8"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="filter-from" className="text-xs">Received from</Label>
+                    <Input
+                      id="filter-from"
+                      type="date"
+                      value={draftFilters.dateFrom}
+                      onChange={(e) => setDraftFilters((f) => ({ ...f, dateFrom: e.target.value }))}
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="filter-to" className="text-xs">Received to</Label>
+                    <Input
+                      id="filter-to"
+                      type="date"
+                      value={draftFilters.dateTo}
+                      onChange={(e) => setDraftFilters((f) => ({ ...f, dateTo: e.target.value }))}
+                      className="h-8"
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2 pt-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => applyFilters({ status: "", sender: "", dateFrom: "", dateTo: "" })}
+                  >
+                    Clear
+                  </Button>
+                  <Button type="submit" size="sm">
+                    Apply
+                  </Button>
+                </div>
+              </form>
+            </PopoverContent>
+          </Popover>
+
           {/* Sort menu */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -341,10 +467,10 @@ export function DocumentsTable({
                 size="sm"
                 className="bg-white/5 hover:bg-white/10 border-white/10 backdrop-blur"
                 aria-label="Sort"
-                title="Sort"
+                title={query.search ? "Search results are ordered by relevance" : "Sort"}
               >
                 <ArrowUpDown className="h-4 w-4 mr-2" />
-                Sort: {sortLabels[sortBy]} ({sortDir})
+                {query.search ? "Sort: Relevance" : `Sort: ${sortLabels[sortBy]} (${sortDir})`}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="min-w-44">
@@ -454,7 +580,9 @@ export function DocumentsTable({
                       handleOpen(doc.id);
                     }
                   }}
-                  className={`relative group rounded-2xl border border-white/10 ${
+                  className={`relative group rounded-2xl border ${
+                    highlightIds?.has(doc.id) ? "border-emerald-400/60" : "border-white/10"
+                  } ${
                     selectedIds.has(doc.id)
                       ? "bg-white/[0.14] ring-1 ring-white/20"
                       : "bg-white/[0.06]"
@@ -523,6 +651,10 @@ export function DocumentsTable({
                         </div>
 
                         <div className="shrink-0 flex items-center gap-2">
+                          {highlightIds?.has(doc.id) && (
+                            <Badge className="bg-emerald-500 text-white hover:bg-emerald-500">New</Badge>
+                          )}
+                          <CoverageBadge value={doc.evidence_coverage} threshold={coverageThreshold} />
                           <StatusBadge value={doc.status} />
                           <motion.span
                             initial={false}
@@ -642,7 +774,9 @@ export function DocumentsTable({
                 initial={{ opacity: 0, y: 6 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.18, ease: "easeOut" }}
-                className="rounded-xl border border-white/10 bg-white/[0.06] supports-[backdrop-filter]:bg-white/10 backdrop-blur p-2 shadow-sm cursor-pointer"
+                className={`rounded-xl border ${
+                  highlightIds?.has(doc.id) ? "border-emerald-400/60" : "border-white/10"
+                } bg-white/[0.06] supports-[backdrop-filter]:bg-white/10 backdrop-blur p-2 shadow-sm cursor-pointer`}
                 onClick={() => handleOpen(doc.id)}
                 role="button"
                 tabIndex={0}
@@ -690,7 +824,8 @@ export function DocumentsTable({
                       <div className="font-medium whitespace-pre-wrap break-words" title={docName}>
                         {docName}
                       </div>
-                      <div className="text-xs">
+                      <div className="text-xs flex items-center gap-1">
+                        <CoverageBadge value={doc.evidence_coverage} threshold={coverageThreshold} />
                         <StatusBadge value={doc.status} />
                       </div>
                     </div>
@@ -740,6 +875,31 @@ export function DocumentsTable({
             );
           })}
         </div>
+
+        {/* Empty result / paging footer */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            No documents match the current search and filters.
+          </div>
+        ) : null}
+        <div ref={sentinelRef} className="flex items-center justify-center py-3">
+          {isLoadingMore ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : canLoadMore && onLoadMore ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-white/5 hover:bg-white/10 border-white/10"
+              onClick={onLoadMore}
+            >
+              Load more
+            </Button>
+          ) : null}
+        </div>
       </div>
     </motion.div>
   );
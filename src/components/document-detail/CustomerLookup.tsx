@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from 'convex/react';
+import { BookUser, Sparkles } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { api } from '@/convex/_generated/api';
+import type { Customer } from '@/convex/customers';
+import { customerAddress, PARTNER_FUNCTIONS, type SoldToSuggestion } from '@/lib/customerMaster';
+
+interface LookupButtonProps {
+  title: string;
+  onClick: () => void;
+  // Marks a suggestion that differs from the field's value
+  suggested?: boolean;
+}
+
+/**
+ * Small button next to a SAP field that opens its lookup. It keeps no state, so it survives the
+ * SAP card re-creating its rows.
+ */
+export function LookupButton({ title, onClick, suggested }: LookupButtonProps) {
+  const Icon = suggested ? Sparkles : BookUser;
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-label={title}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className={`flex h-7 w-7 flex-shrink-0 items-center justify-center rounded border focus:outline-none focus-visible:ring-2 focus-visible:ring-ring ${
+        suggested
+          ? 'border-amber-300 bg-amber-50 text-amber-700 hover:bg-amber-100 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-300'
+          : 'bg-background text-muted-foreground hover:bg-muted hover:text-foreground'
+      }`}
+    >
+      <Icon className="h-3.5 w-3.5" />
+    </button>
+  );
+}
+
+function CustomerRow({ customer, score }: { customer: Customer; score?: number }) {
+  const address = customerAddress(customer);
+  return (
+    <div className="flex w-full min-w-0 items-start gap-3">
+      <span className="w-24 flex-shrink-0 font-mono text-xs">{customer.customerNumber}</span>
+      <div className="min-w-0 flex-1">
+        <div className="truncate">
+          {customer.name}
+          {customer.name2 ? ` ${customer.name2}` : ''}
+        </div>
+        {address && <div className="truncate text-xs text-muted-foreground">{address}</div>}
+      </div>
+      {score !== undefined && (
+        <Badge variant="secondary" className="flex-shrink-0 text-[10px]">
+          {Math.round(score * 100)}%
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+interface CustomerLookupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Field being filled, e.g. "SoldToParty" or "to_Partner.[1].Customer"
+  fieldLabel: string;
+  // Ranked sold-to suggestions, listed while nothing is typed
+  suggestions?: Array<SoldToSuggestion>;
+  onSelect: (customer: Customer) => void;
+}
+
+/**
+ * Search the customer master by number, name, address or email domain and pick a customer.
+ */
+export function CustomerLookupDialog({
+  open,
+  onOpenChange,
+  fieldLabel,
+  suggestions,
+  onSelect,
+}: CustomerLookupDialogProps) {
+  const [search, setSearch] = useState('');
+  const [debounced, setDebounced] = useState('');
+
+  useEffect(() => {
+    const t = setTimeout(() => setDebounced(search.trim()), 200);
+    return () => clearTimeout(t);
+  }, [search]);
+
+  useEffect(() => {
+    if (!open) setSearch('');
+  }, [open]);
+
+  const results = useQuery(api.customers.search, open ? { text: debounced || undefined, limit: 20 } : 'skip');
+  const showSuggestions = !search.trim() && !!suggestions?.length;
+
+  const pick = (customer: Customer) => {
+    onSelect(customer);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 sm:max-w-xl">
+        <DialogHeader className="px-4 pt-4">
+          <DialogTitle>Customer for {fieldLabel}</DialogTitle>
+          <DialogDescription>Search the customer master by number, name, address or email domain.</DialogDescription>
+        </DialogHeader>
+        {/* Results come from the server search; cmdk's own filtering would hide them */}
+        <Command shouldFilter={false} className="border-t">
+          <CommandInput
+            value={search}
+            onValueChange={setSearch}
+            placeholder="Customer number, name, city or domain…"
+          />
+          <CommandList className="max-h-[420px]">
+            <CommandEmpty>{results === undefined ? 'Searching…' : 'No customers found.'}</CommandEmpty>
+            {showSuggestions && (
+              <CommandGroup heading="Suggested from the sender and the extracted customer">
+                {suggestions.map(({ customer, score, reasons }) => (
+                  <CommandItem
+                    key={`suggested-${customer._id}`}
+                    value={`suggested-${customer._id}`}
+                    onSelect={() => pick(customer)}
+                    title={reasons.join(' · ')}
+                  >
+                    <CustomerRow customer={customer} score={score} />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {results && results.length > 0 && (
+              <CommandGroup heading={debounced ? 'Customer master' : 'All customers'}>
+                {results.map((customer) => (
+                  <CommandItem key={customer._id} value={customer._id} onSelect={() => pick(customer)}>
+                    <CustomerRow customer={customer} />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PartnerFunctionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (code: string) => void;
+}
+
+// Pick the partner function of a to_Partner row
+export function PartnerFunctionDialog({ open, onOpenChange, onSelect }: PartnerFunctionDialogProps) {
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Partner function"
+      description="Role of the partner in the sales order"
+    >
+      <CommandInput placeholder="Partner function…" />
+      <CommandList>
+        <CommandEmpty>No partner function found.</CommandEmpty>
+        <CommandGroup>
+          {PARTNER_FUNCTIONS.map((f) => (
+            <CommandItem
+              key={f.code}
+              value={`${f.code} ${f.label}`}
+              onSelect={() => {
+                onSelect(f.code);
+                onOpenChange(false);
+              }}
+            >
+              <span className="w-8 font-mono text-xs">{f.code}</span>
+              {f.label}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+}
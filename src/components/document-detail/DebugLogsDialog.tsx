@@ -2,6 +2,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { toast } from 'sonner';
+import { WebhookDeliveryList, type WebhookDeliveryWithAttempts } from '@/components/webhooks/WebhookDeliveryList';
+import type { Id } from '@/convex/_generated/dataModel';
 
 type DebugEvent = { label: string; payload: any; time: string };
 
@@ -10,9 +12,21 @@ interface DebugLogsDialogProps {
   onOpenChange: (open: boolean) => void;
   events: DebugEvent[];
   onClear: () => void;
+  // Add: persisted webhook deliveries of this document (admins only)
+  deliveries?: Array<WebhookDeliveryWithAttempts>;
+  onReplay?: (deliveryId: Id<'webhookDeliveries'>) => void;
+  replayingId?: Id<'webhookDeliveries'> | null;
 }
 
-export function DebugLogsDialog({ open, onOpenChange, events, onClear }: DebugLogsDialogProps) {
+export function DebugLogsDialog({
+  open,
+  onOpenChange,
+  events,
+  onClear,
+  deliveries,
+  onReplay,
+  replayingId,
+}: DebugLogsDialogProps) {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl">
@@ -49,6 +63,17 @@ export function DebugLogsDialog({ open, onOpenChange, events, onClear }: DebugLo
             </div>
           </div>
 
+          {deliveries && deliveries.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Webhook deliveries</div>
+              <ScrollArea className="max-h-[30vh] rounded border">
+                <div className="p-3">
+                  <WebhookDeliveryList deliveries={deliveries} onReplay={onReplay} replayingId={replayingId} />
+                </div>
+              </ScrollArea>
+            </div>
+          )}
+
           <ScrollArea className="h-[50vh] rounded border">
             <div className="p-3 space-y-3">
               {events.length ? (
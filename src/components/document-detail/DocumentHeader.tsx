@@ -1,8 +1,17 @@
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Switch } from '@/components/ui/switch';
-import { ArrowLeft, FileText, Loader2, User } from 'lucide-react';
+import { ArrowLeft, Check, FileDown, FileText, Loader2, RotateCcw, User, X } from 'lucide-react';
 import { useNavigate } from 'react-router';
+import { type WorkflowStatus, workflowBadgeClass, workflowLabel } from '@/lib/workflow';
+import type { Doc } from '@/convex/_generated/dataModel';
+
+type SapResponse = NonNullable<Doc<'documents'>['sapResponse']>;
 
 interface DocumentHeaderProps {
   title?: string;
@@ -23,6 +32,59 @@ interface DocumentHeaderProps {
   navLoading: null | 'prev' | 'next';
   onPrev: () => void;
   onNext: () => void;
+  // Review workflow
+  workflowStatus?: WorkflowStatus;
+  allowedTransitions?: ReadonlyArray<WorkflowStatus>;
+  workflowNote?: string; // e.g. who made the last change, or the rejection reason
+  isTransitioning?: boolean;
+  onApprove?: () => void;
+  onReject?: (reason: string) => Promise<boolean>; // resolves true once rejected
+  onReopen?: () => void;
+  // Add: latest sales order callback from the SAP middleware
+  sapResponse?: SapResponse;
+  // Add: annotated evidence PDF export (hidden without a handler)
+  onExportEvidence?: () => void;
+  isExporting?: boolean;
+}
+
+function SapResponseBadge({ response }: { response: SapResponse }) {
+  const created = response.result === 'created';
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-ring">
+          <Badge
+            className={
+              created
+                ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300'
+                : 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300'
+            }
+          >
+            {created ? `SAP ${response.sapDocumentNumber ?? 'created'}` : 'SAP rejected'}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-2 text-sm">
+        <div className="font-medium">
+          {created ? 'Sales order created' : 'Sales order rejected'}
+          {response.sapDocumentNumber ? ` · ${response.sapDocumentNumber}` : ''}
+        </div>
+        <div className="text-xs text-muted-foreground">{new Date(response.receivedAt).toLocaleString()}</div>
+        {response.messages.length > 0 ? (
+          <ul className="space-y-1 text-xs">
+            {response.messages.map((m, i) => (
+              <li key={i} className="flex gap-2">
+                {m.type && <span className="font-mono font-semibold">{m.type}</span>}
+                <span className="break-words">{m.text}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-xs text-muted-foreground">No messages.</div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
 }
 
 export function DocumentHeader({
@@ -44,8 +106,37 @@ export function DocumentHeader({
   navLoading,
   onPrev,
   onNext,
+  workflowStatus,
+  allowedTransitions = [],
+  workflowNote,
+  isTransitioning = false,
+  onApprove,
+  onReject,
+  onReopen,
+  sapResponse,
+  onExportEvidence,
+  isExporting = false,
 }: DocumentHeaderProps) {
   const navigate = useNavigate();
+  const [rejectOpen, setRejectOpen] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const canApprove = allowedTransitions.includes('approved') && !!onApprove;
+  const canReject = allowedTransitions.includes('rejected') && !!onReject;
+  // Reopen = back to review from a decided status; in_review is also the next step from received/extracted
+  const canReopen =
+    (workflowStatus === 'approved' || workflowStatus === 'rejected') &&
+    allowedTransitions.includes('in_review') &&
+    !!onReopen;
+
+  const submitReject = async () => {
+    const reason = rejectReason.trim();
+    if (!reason || !onReject) return;
+    if (await onReject(reason)) {
+      setRejectOpen(false);
+      setRejectReason('');
+    }
+  };
 
   return (
     <header className="border-b bg-background sticky top-0 z-10">
@@ -66,8 +157,18 @@ export function DocumentHeader({
           <div className="flex items-center gap-3">
             <FileText className="h-5 w-5 text-muted-foreground" />
             <div>
-              <h1 className="text-lg font-semibold">{title}</h1>
-              {status && <span className="text-xs text-muted-foreground">{status}</span>}
+              <div className="flex items-center gap-2">
+                <h1 className="text-lg font-semibold">{title}</h1>
+                {workflowStatus && (
+                  <Badge className={workflowBadgeClass(workflowStatus)}>{workflowLabel(workflowStatus)}</Badge>
+                )}
+                {sapResponse && <SapResponseBadge response={sapResponse} />}
+              </div>
+              {(workflowNote || status) && (
+                <span className="text-xs text-muted-foreground">
+                  {[workflowNote, status].filter(Boolean).join(' · ')}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -82,6 +183,59 @@ export function DocumentHeader({
             {isExpanded ? 'Split View' : 'Full Page'}
           </Button>
 
+          {canApprove && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onApprove}
+              disabled={isTransitioning}
+              className="px-4 rounded-md border-emerald-500/50 text-emerald-700 hover:bg-emerald-50 dark:text-emerald-300 dark:hover:bg-emerald-900/20"
+            >
+              {isTransitioning ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Check className="h-4 w-4 mr-2" />}
+              Approve
+            </Button>
+          )}
+
+          {canReject && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRejectOpen(true)}
+              disabled={isTransitioning}
+              className="px-4 rounded-md border-rose-500/50 text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-900/20"
+            >
+              <X className="h-4 w-4 mr-2" />
+              Reject
+            </Button>
+          )}
+
+          {canReopen && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onReopen}
+              disabled={isTransitioning}
+              className="px-4 rounded-md"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reopen
+            </Button>
+          )}
+
+          {onExportEvidence && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onExportEvidence}
+              disabled={isExporting}
+              className="px-4 rounded-md"
+              title="Download the document with the SAP field evidence highlighted and a summary page"
+            >
+              {isExporting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <FileDown className="h-4 w-4 mr-2" />}
+              Export
+            </Button>
+          )}
+
           <Button
             variant="default"
             size="sm"
@@ -199,6 +353,35 @@ export function DocumentHeader({
           </Button>
         </div>
       </div>
+
+      <Dialog open={rejectOpen} onOpenChange={setRejectOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject document</DialogTitle>
+            <DialogDescription>The reason is stored with the document's workflow history.</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="Why is this document rejected?"
+            rows={4}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={submitReject}
+              disabled={!rejectReason.trim() || isTransitioning}
+            >
+              {isTransitioning ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </header>
   );
 }
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { SourceBox } from '@/lib/geometry';
+import { sapFieldLabel } from '@/lib/evidenceExport';
+import {
+  COVERAGE_SECTION_LABELS,
+  formatCoverage,
+  type CoverageField,
+  type CoverageSection,
+  type EvidenceCoverage,
+  type EvidenceStatus,
+} from '@/lib/evidenceCoverage';
+
+interface EvidenceCoveragePanelProps {
+  coverage: EvidenceCoverage | null;
+  // Scores below this are flagged (see useCoverageThreshold)
+  threshold: number;
+  onFieldHover?: (box: (SourceBox & { color?: string }) | null) => void;
+  // Called when a field is clicked, e.g. to reveal it in the SAP view
+  onFieldSelect?: (field: CoverageField) => void;
+}
+
+const SECTIONS: Array<CoverageSection> = ['header', 'partners', 'items', 'pricing'];
+const STATUSES: Array<EvidenceStatus> = ['evidence', 'weak', 'differs', 'none'];
+
+const STATUS_LABELS: Record<EvidenceStatus, string> = {
+  evidence: 'Evidence',
+  weak: 'Weak match',
+  differs: 'Differs from source',
+  none: 'No evidence',
+};
+
+const STATUS_CLASSES: Record<EvidenceStatus, string> = {
+  evidence: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+  weak: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  differs: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300',
+  none: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300',
+};
+
+const HOVER_COLORS: Record<EvidenceStatus, string> = {
+  evidence: '#10b981',
+  weak: '#f59e0b',
+  differs: '#f97316',
+  none: '#f43f5e',
+};
+
+export function EvidenceCoveragePanel({ coverage, threshold, onFieldHover, onFieldSelect }: EvidenceCoveragePanelProps) {
+  // Sections the reviewer toggled; by default only sections with unsupported values are open
+  const [toggled, setToggled] = useState<Set<CoverageSection>>(() => new Set());
+
+  const toggle = (section: CoverageSection) => {
+    setToggled((prev) => {
+      const next = new Set(prev);
+      if (next.has(section)) next.delete(section);
+      else next.add(section);
+      return next;
+    });
+  };
+
+  if (!coverage || coverage.score === null) {
+    return <div className="text-sm text-muted-foreground">No SAP values to check against the document.</div>;
+  }
+
+  const { counts, score } = coverage;
+  const below = score < threshold;
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg border bg-card/50 px-3 py-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            {below ? (
+              <AlertTriangle className="h-4 w-4 text-amber-500" />
+            ) : (
+              <ShieldCheck className="h-4 w-4 text-emerald-500" />
+            )}
+            <span className="text-2xl font-semibold tabular-nums">{formatCoverage(score)}</span>
+            <span className="text-xs text-muted-foreground">of SAP values have evidence</span>
+          </div>
+          {below && (
+            <Badge className={STATUS_CLASSES.weak} title={`Threshold ${formatCoverage(threshold)}`}>
+              Below {formatCoverage(threshold)}
+            </Badge>
+          )}
+        </div>
+        <div className="mt-2 flex h-1.5 overflow-hidden rounded-full bg-muted">
+          {STATUSES.map((status) => (
+            <div
+              key={status}
+              style={{ width: `${(counts[status] / coverage.fields.length) * 100}%`, backgroundColor: HOVER_COLORS[status] }}
+            />
+          ))}
+        </div>
+        <div className="mt-2 flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {STATUSES.map((status) => (
+            <span key={status}>
+              {counts[status]} {STATUS_LABELS[status].toLowerCase()}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {SECTIONS.map((section) => {
+        const fields = coverage.fields.filter((f) => f.section === section);
+        if (!fields.length) return null;
+        const issues = fields.filter((f) => f.status !== 'evidence').length;
+        const isOpen = toggled.has(section) !== issues > 0;
+        return (
+          <div key={section} className="rounded-lg border bg-card/50">
+            <button
+              type="button"
+              className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left"
+              onClick={() => toggle(section)}
+              aria-expanded={isOpen}
+            >
+              <span className="flex items-center gap-2 text-sm font-medium">
+                {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                {COVERAGE_SECTION_LABELS[section]}
+              </span>
+              <span className="text-xs text-muted-foreground tabular-nums">
+                {fields.length - issues}/{fields.length}
+              </span>
+            </button>
+            {isOpen && (
+              <ul className="border-t px-3 py-2 space-y-1">
+                {fields.map((field) => (
+                  <li
+                    key={field.path}
+                    className="flex cursor-pointer items-center gap-2 rounded px-1 py-0.5 text-xs hover:bg-muted/40"
+                    onMouseEnter={() => onFieldHover?.(field.match ? { ...field.match, color: HOVER_COLORS[field.status] } : null)}
+                    onMouseLeave={() => onFieldHover?.(null)}
+                    onClick={() => onFieldSelect?.(field)}
+                    title={
+                      field.status === 'differs' && field.match
+                        ? `The source shows "${field.match.sourceText ?? ''}" · ${field.match.sourcePath.replace(/^\$\.?/, '')}`
+                        : field.match
+                        ? `${Math.round(field.match.confidence * 100)}% · ${field.match.sourcePath.replace(/^\$\.?/, '')}`
+                        : 'Not found in the document'
+                    }
+                  >
+                    <span className="w-2/5 shrink-0 truncate font-mono text-muted-foreground">{sapFieldLabel(field.path)}</span>
+                    <span className="min-w-0 flex-1 truncate">{String(field.value)}</span>
+                    <Badge className={`shrink-0 px-1.5 py-0 text-[10px] ${STATUS_CLASSES[field.status]}`}>
+                      {STATUS_LABELS[field.status]}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
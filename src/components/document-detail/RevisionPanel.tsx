@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { Doc, Id } from '@/convex/_generated/dataModel';
+
+type SapChange = Doc<'sapRevisions'>['changes'][number];
+
+interface RevisionPanelProps {
+  revisions: Array<Doc<'sapRevisions'>> | undefined;
+  onRestore: (revisionId: Id<'sapRevisions'>) => void;
+  restoringId?: Id<'sapRevisions'> | null;
+  canRestore?: boolean;
+}
+
+// "$.to_Item.[0].Material" -> "to_Item[0].Material"
+function formatPath(path: string) {
+  return path.replace(/^\$\.?/, '').replace(/\.\[/g, '[') || '(root)';
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined) return '—';
+  if (value === null) return 'null';
+  if (typeof value === 'object') {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+const KIND_CLASSES: Record<SapChange['kind'], string> = {
+  added: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+  removed: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300',
+  changed: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+};
+
+export function RevisionPanel({ revisions, onRestore, restoringId, canRestore = true }: RevisionPanelProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+
+  const toggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  if (revisions === undefined) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading revisions...
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <History className="h-4 w-4" />
+        No saved revisions yet. Each Save stores a new revision here.
+      </div>
+    );
+  }
+
+  const latestVersion = revisions[0]?.version;
+
+  return (
+    <div className="space-y-2">
+      {revisions.map((rev) => {
+        const isOpen = expanded.has(rev._id);
+        const isLatest = rev.version === latestVersion;
+        return (
+          <div key={rev._id} className="rounded-lg border bg-card/50">
+            <div className="flex items-center justify-between gap-2 px-3 py-2">
+              <button
+                type="button"
+                onClick={() => toggle(rev._id)}
+                className="flex min-w-0 items-center gap-2 text-left"
+                aria-expanded={isOpen}
+              >
+                {isOpen ? (
+                  <ChevronDown className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                ) : (
+                  <ChevronRight className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                )}
+                <span className="text-sm font-semibold">v{rev.version}</span>
+                {isLatest && <Badge variant="secondary">Current</Badge>}
+                <span className="truncate text-xs text-muted-foreground">
+                  {rev.authorName || 'Unknown user'} · {new Date(rev.createdAt).toLocaleString()}
+                  {rev.restoredFrom !== undefined ? ` · restored v${rev.restoredFrom}` : ''}
+                </span>
+              </button>
+              <div className="flex flex-shrink-0 items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {rev.changes.length} {rev.changes.length === 1 ? 'change' : 'changes'}
+                </span>
+                {canRestore && !isLatest && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={Boolean(restoringId)}
+                    onClick={() => onRestore(rev._id)}
+                  >
+                    {restoringId === rev._id ? (
+                      <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                    )}
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {isOpen && (
+              <div className="border-t px-3 py-2">
+                {rev.changes.length === 0 ? (
+                  <div className="text-xs text-muted-foreground">Identical to the AI output.</div>
+                ) : (
+                  <div className="space-y-1">
+                    <div className="grid grid-cols-[minmax(0,1.2fr)_minmax(0,1fr)_minmax(0,1fr)] gap-2 text-[11px] font-semibold text-muted-foreground">
+                      <span>Field</span>
+                      <span>AI output</span>
+                      <span>This revision</span>
+                    </div>
+                    {rev.changes.map((c) => (
+                      <div
+                        key={c.path}
+                        className="grid grid-cols-[minmax(0,1.2fr)_minmax(0,1fr)_minmax(0,1fr)] gap-2 text-xs"
+                      >
+                        <span className="flex min-w-0 items-center gap-1.5">
+                          <span className={`rounded px-1 text-[10px] ${KIND_CLASSES[c.kind]}`}>{c.kind}</span>
+                          <span className="truncate font-mono" title={formatPath(c.path)}>
+                            {formatPath(c.path)}
+                          </span>
+                        </span>
+                        <span className="break-all text-muted-foreground line-through decoration-rose-400/60">
+                          {formatValue(c.before)}
+                        </span>
+                        <span className="break-all">{formatValue(c.after)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
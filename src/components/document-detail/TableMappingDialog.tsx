@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  TABLE_ITEM_FIELDS,
+  isHeaderRow,
+  suggestColumnFields,
+  tableItemRows,
+  type ReconstructedTable,
+  type TableApplyMode,
+  type TableItemRow,
+} from '@/lib/tableReconstruction';
+
+// Select value of an unmapped column (Radix selects cannot use an empty value)
+const UNMAPPED = 'none';
+
+interface TableMappingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  table: ReconstructedTable;
+  // Rows currently in to_Item; decides the default mode
+  existingItems: number;
+  onApply: (rows: Array<TableItemRow>, mode: TableApplyMode) => Promise<void>;
+}
+
+/**
+ * Map the columns of a table read from the PDF to SAP item fields and write the rows into to_Item.
+ * Mount it with a key per table: the mapping starts from the table's header captions.
+ */
+export function TableMappingDialog({ open, onOpenChange, table, existingItems, onApply }: TableMappingDialogProps) {
+  const [skipHeader, setSkipHeader] = useState(() => isHeaderRow(table.rows[0]));
+  const [columnFields, setColumnFields] = useState<Array<string | null>>(() =>
+    isHeaderRow(table.rows[0]) ? suggestColumnFields(table.rows[0]) : table.columns.map(() => null),
+  );
+  const [mode, setMode] = useState<TableApplyMode>(existingItems ? 'replace' : 'append');
+  const [applying, setApplying] = useState(false);
+
+  const rows = useMemo(() => tableItemRows(table, columnFields, skipHeader), [table, columnFields, skipHeader]);
+
+  // A field goes to one column; choosing it elsewhere unmaps it here
+  const setColumnField = (index: number, value: string) => {
+    const field = value === UNMAPPED ? null : value;
+    setColumnFields((prev) => prev.map((f, i) => (i === index ? field : f === field ? null : f)));
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      await onApply(rows, mode);
+      onOpenChange(false);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Line items from table</DialogTitle>
+          <DialogDescription>
+            {table.rows.length} {table.rows.length === 1 ? 'line' : 'lines'} and {table.columns.length}{' '}
+            {table.columns.length === 1 ? 'column' : 'columns'} read on page {table.page}
+            {table.method === 'ocr' ? ' by OCR' : ''}. Choose the SAP field of each column; lines without a quantity
+            continue the item above.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[55vh] rounded-md border">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-background">
+              <tr>
+                {table.columns.map((_, i) => (
+                  <th key={i} className="p-1.5 text-left font-normal">
+                    <Select value={columnFields[i] ?? UNMAPPED} onValueChange={(v) => setColumnField(i, v)}>
+                      <SelectTrigger className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                        {TABLE_ITEM_FIELDS.map((f) => (
+                          <SelectItem key={f.path} value={f.path}>
+                            {f.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, r) => (
+                <tr
+                  key={r}
+                  className={`border-t ${r === 0 && skipHeader ? 'bg-muted/50 font-medium text-muted-foreground' : ''}`}
+                >
+                  {row.map((cell, c) => (
+                    <td
+                      key={c}
+                      className={`p-1.5 align-top ${columnFields[c] ? '' : 'text-muted-foreground/60'}`}
+                    >
+                      {cell?.text ?? ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ScrollArea>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <div className="flex items-center gap-2">
+            <Checkbox id="table-skip-header" checked={skipHeader} onCheckedChange={(v) => setSkipHeader(v === true)} />
+            <Label htmlFor="table-skip-header">First line is a header</Label>
+          </div>
+          <Select value={mode} onValueChange={(v) => setMode(v as TableApplyMode)}>
+            <SelectTrigger className="h-8 w-56 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="replace">Replace items ({existingItems} now)</SelectItem>
+              <SelectItem value="append">Append after existing items</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            {rows.length} {rows.length === 1 ? 'item' : 'items'} will be written
+          </span>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={applying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={applying || rows.length === 0}>
+            {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Write to SAP items
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,323 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  MANUAL_BOX_TARGET_LABELS,
+  manualBoxKey,
+  type EditTarget,
+  type ManualBox,
+  type ManualBoxGeometry,
+  type ManualBoxTarget,
+} from '@/lib/manualBoxes';
+import { cn } from '@/lib/utils';
+
+// Drafts smaller than this (unit page space) are treated as a stray click
+const MIN_BOX_SIZE = 0.005;
+const HANDLE_PX = 10;
+
+type Rect = Pick<ManualBoxGeometry, 'x' | 'y' | 'width' | 'height'>;
+type Handle = 'nw' | 'ne' | 'sw' | 'se';
+type DragMode = 'draw' | 'move' | Handle;
+
+type Draft = {
+  rect: Rect;
+  // Target + path the box is saved under; the original one for an existing box being edited
+  key: string | null;
+  originalKey: string | null;
+};
+
+interface BoxEditorLayerProps {
+  page: number;
+  // Size of the page on screen; geometry is kept in unit space so zoom changes need no conversion
+  width: number;
+  height: number;
+  boxes: Array<ManualBox>;
+  targets: Array<EditTarget>;
+  onSave: (target: ManualBoxTarget, path: string, geometry: ManualBoxGeometry) => Promise<void>;
+  onRemove: (target: ManualBoxTarget, path: string) => Promise<void>;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Rect spanned by two unit points, clipped to the page
+function spanRect(ax: number, ay: number, bx: number, by: number): Rect {
+  const x1 = clamp01(Math.min(ax, bx));
+  const y1 = clamp01(Math.min(ay, by));
+  const x2 = clamp01(Math.max(ax, bx));
+  const y2 = clamp01(Math.max(ay, by));
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+/**
+ * Edit mode overlay of one page: draw a box by dragging on the page, move it by its body,
+ * resize it by its corners, then attach it to a document_data or SAP field and save it.
+ * Saved boxes of the page are shown and can be picked up again by clicking them.
+ */
+export function BoxEditorLayer({ page, width, height, boxes, targets, onSave, onRemove }: BoxEditorLayerProps) {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; startX: number; startY: number; startRect: Rect } | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const targetsByKey = useMemo(() => new Map(targets.map((t) => [manualBoxKey(t.target, t.path), t])), [targets]);
+  const pageBoxes = useMemo(() => boxes.filter((b) => b.page === page), [boxes, page]);
+
+  // A new page starts without a draft
+  useEffect(() => {
+    setDraft(null);
+  }, [page]);
+
+  useEffect(() => {
+    if (!draft) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setDraft(null);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [draft]);
+
+  const toUnit = (e: React.PointerEvent) => {
+    const rect = layerRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width || !rect.height) return { x: 0, y: 0 };
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: DragMode, startRect: Rect) => {
+    if (e.button !== 0 || busy) return;
+    e.preventDefault();
+    e.stopPropagation();
+    layerRef.current?.setPointerCapture(e.pointerId);
+    const p = toUnit(e);
+    dragRef.current = { mode, startX: p.x, startY: p.y, startRect };
+    setDragging(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0 || busy) return;
+    const p = toUnit(e);
+    startDrag(e, 'draw', { x: p.x, y: p.y, width: 0, height: 0 });
+    setDraft({ rect: { x: p.x, y: p.y, width: 0, height: 0 }, key: null, originalKey: null });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toUnit(e);
+    const r = drag.startRect;
+    let next: Rect;
+    if (drag.mode === 'draw') {
+      next = spanRect(drag.startX, drag.startY, p.x, p.y);
+    } else if (drag.mode === 'move') {
+      next = {
+        ...r,
+        x: Math.max(0, Math.min(1 - r.width, r.x + p.x - drag.startX)),
+        y: Math.max(0, Math.min(1 - r.height, r.y + p.y - drag.startY)),
+      };
+    } else {
+      // The corner opposite the grabbed handle stays put
+      const fixedX = drag.mode.includes('w') ? r.x + r.width : r.x;
+      const fixedY = drag.mode.includes('n') ? r.y + r.height : r.y;
+      next = spanRect(fixedX, fixedY, p.x, p.y);
+    }
+    setDraft((d) => (d ? { ...d, rect: next } : d));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    setDragging(false);
+    layerRef.current?.releasePointerCapture(e.pointerId);
+    setDraft((d) => (d && (d.rect.width < MIN_BOX_SIZE || d.rect.height < MIN_BOX_SIZE) ? null : d));
+  };
+
+  const pickUp = (e: React.PointerEvent, box: ManualBox) => {
+    if (e.button !== 0 || busy) return;
+    const key = manualBoxKey(box.target, box.path);
+    const rect = { x: box.x, y: box.y, width: box.width, height: box.height };
+    setDraft({ rect, key, originalKey: key });
+    startDrag(e, 'move', rect);
+  };
+
+  const splitKey = (key: string) => {
+    const at = key.indexOf(':');
+    return { target: key.slice(0, at) as ManualBoxTarget, path: key.slice(at + 1) };
+  };
+
+  const handleSave = async () => {
+    if (!draft?.key) return;
+    setBusy(true);
+    try {
+      const { target, path } = splitKey(draft.key);
+      await onSave(target, path, { page, ...draft.rect });
+      // Re-attached to another field: the old field falls back to automatic matching
+      if (draft.originalKey && draft.originalKey !== draft.key) {
+        const original = splitKey(draft.originalKey);
+        await onRemove(original.target, original.path);
+      }
+      setDraft(null);
+    } catch {
+      // Reported by the caller; the draft stays so the save can be retried
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!draft?.originalKey) return;
+    setBusy(true);
+    try {
+      const { target, path } = splitKey(draft.originalKey);
+      await onRemove(target, path);
+      setDraft(null);
+    } catch {
+      // Reported by the caller
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const px = (r: Rect) => ({
+    left: `${r.x * width}px`,
+    top: `${r.y * height}px`,
+    width: `${r.width * width}px`,
+    height: `${r.height * height}px`,
+  });
+
+  const grouped = useMemo(() => {
+    const groups = new Map<ManualBoxTarget, Array<EditTarget>>();
+    for (const t of targets) groups.set(t.target, [...(groups.get(t.target) ?? []), t]);
+    return [...groups.entries()];
+  }, [targets]);
+
+  const labelOf = (box: ManualBox) =>
+    targetsByKey.get(manualBoxKey(box.target, box.path))?.label ?? box.path.replace(/^\$\./, '');
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute left-0 top-0 z-40 cursor-crosshair touch-none select-none"
+      style={{ width: `${width}px`, height: `${height}px` }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      aria-label="Box editor"
+    >
+      {pageBoxes.map((box) => {
+        const key = manualBoxKey(box.target, box.path);
+        if (draft?.originalKey === key) return null;
+        return (
+          <div
+            key={key}
+            className="absolute cursor-pointer rounded-sm border-2 border-dashed border-fuchsia-500 bg-fuchsia-500/10 hover:bg-fuchsia-500/20"
+            style={px(box)}
+            onPointerDown={(e) => pickUp(e, box)}
+            title={`${labelOf(box)}${box.authorName ? ` · ${box.authorName}` : ''}`}
+          >
+            <span className="pointer-events-none absolute -top-5 left-0 max-w-[240px] truncate rounded bg-fuchsia-600 px-1 text-[10px] font-medium text-white">
+              {labelOf(box)}
+            </span>
+          </div>
+        );
+      })}
+
+      {draft && (
+        <div
+          className="absolute cursor-move rounded-sm border-2 border-fuchsia-600 bg-fuchsia-500/15"
+          style={px(draft.rect)}
+          onPointerDown={(e) => startDrag(e, 'move', draft.rect)}
+        >
+          {(['nw', 'ne', 'sw', 'se'] as Array<Handle>).map((h) => (
+            <div
+              key={h}
+              className={cn(
+                'absolute rounded-sm border border-fuchsia-700 bg-white',
+                h === 'nw' || h === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'
+              )}
+              style={{
+                width: `${HANDLE_PX}px`,
+                height: `${HANDLE_PX}px`,
+                [h.includes('n') ? 'top' : 'bottom']: `${-HANDLE_PX / 2}px`,
+                [h.includes('w') ? 'left' : 'right']: `${-HANDLE_PX / 2}px`,
+              }}
+              onPointerDown={(e) => startDrag(e, h, draft.rect)}
+            />
+          ))}
+        </div>
+      )}
+
+      {draft && !dragging && draft.rect.width >= MIN_BOX_SIZE && (
+        <div
+          className="absolute z-10 flex w-[280px] items-center gap-1 rounded-md border bg-background/95 p-1 shadow-md backdrop-blur cursor-default"
+          style={{
+            left: `${Math.min(draft.rect.x * width, Math.max(0, width - 280))}px`,
+            top: `${(draft.rect.y + draft.rect.height) * height + 6}px`,
+          }}
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <Select value={draft.key ?? undefined} onValueChange={(key) => setDraft((d) => (d ? { ...d, key } : d))}>
+            <SelectTrigger className="h-8 min-w-0 flex-1 text-xs">
+              <SelectValue placeholder="Attach to field…" />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              {grouped.map(([target, items]) => (
+                <SelectGroup key={target}>
+                  <SelectLabel>{MANUAL_BOX_TARGET_LABELS[target]}</SelectLabel>
+                  {items.map((t) => (
+                    <SelectItem key={manualBoxKey(t.target, t.path)} value={manualBoxKey(t.target, t.path)} className="text-xs">
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="icon"
+            className="h-8 w-8"
+            onClick={handleSave}
+            disabled={!draft.key || busy}
+            aria-label="Save box"
+            title="Save box"
+          >
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          </Button>
+          {draft.originalKey && (
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={handleRemove}
+              disabled={busy}
+              aria-label="Delete box"
+              title="Delete box (automatic matching applies again)"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setDraft(null)}
+            disabled={busy}
+            aria-label="Discard changes"
+            title="Discard changes (Esc)"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
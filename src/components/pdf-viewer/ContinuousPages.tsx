@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { createCanvasPool, pageGeometryAttributes, type CanvasPool, type PageDims } from '@/lib/pdfPages';
+
+// Pages within one viewport height above/below the visible area count as "near"
+const NEAR_MARGIN = '100% 0px';
+// Upper bound on pages holding a canvas at once; the pages closest to the current one win
+const MAX_RENDERED_PAGES = 6;
+const PAGE_GAP_PX = 12;
+
+interface ContinuousPagesProps {
+  pdf: PDFDocumentProxy;
+  pageDims: Array<PageDims>;
+  // Overlay zoom (animated) and canvas render scale (settled), as in the single-page view
+  zoom: number;
+  scale: number;
+  currentPage: number;
+  scrollRoot: HTMLElement | null;
+  onVisiblePageChange: (page: number) => void;
+  // Absolutely positioned overlays for a page, projected from its base dims
+  renderOverlays: (page: number, base: PageDims) => React.ReactNode;
+}
+
+interface PageCanvasProps {
+  pdf: PDFDocumentProxy;
+  page: number;
+  scale: number;
+  pool: CanvasPool;
+  active: boolean;
+}
+
+/**
+ * Canvas of one page. A pooled canvas is attached only while the page is active and handed
+ * back to the pool when it scrolls away, so memory stays bounded on long documents.
+ */
+function PageCanvas({ pdf, page, scale, pool, active }: PageCanvasProps) {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!active || !host) return;
+    const next = pool.acquire();
+    next.className = 'block h-full w-full';
+    host.appendChild(next);
+    setCanvas(next);
+    return () => {
+      setCanvas(null);
+      pool.release(next);
+    };
+  }, [active, pool]);
+
+  useEffect(() => {
+    if (!canvas) return;
+    let cancelled = false;
+    let task: RenderTask | null = null;
+
+    (async () => {
+      try {
+        const pdfPage = await pdf.getPage(page);
+        if (cancelled) return;
+        const viewport = pdfPage.getViewport({ scale });
+        canvas.width = Math.floor(viewport.width);
+        canvas.height = Math.floor(viewport.height);
+        task = pdfPage.render({ canvas, viewport });
+        await task.promise;
+      } catch (e) {
+        if (e instanceof Error && e.name === 'RenderingCancelledException') return;
+        console.warn('PDFViewer: failed to render page', page, e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      try {
+        task?.cancel();
+      } catch {
+        // ignore
+      }
+    };
+  }, [canvas, pdf, page, scale]);
+
+  return <div ref={hostRef} className="absolute inset-0" />;
+}
+
+/**
+ * All pages stacked vertically. Pages are laid out from their base dims up front; canvases and
+ * overlays are only created for pages near the viewport.
+ */
+export function ContinuousPages({
+  pdf,
+  pageDims,
+  zoom,
+  scale,
+  currentPage,
+  scrollRoot,
+  onVisiblePageChange,
+  renderOverlays,
+}: ContinuousPagesProps) {
+  const pool = useMemo(() => createCanvasPool(MAX_RENDERED_PAGES), []);
+  const slotsRef = useRef<Map<number, HTMLDivElement>>(new Map());
+  const visibleHeightsRef = useRef<Map<number, number>>(new Map());
+  const onVisiblePageChangeRef = useRef(onVisiblePageChange);
+  const [nearPages, setNearPages] = useState<Set<number>>(() => new Set());
+
+  useEffect(() => {
+    onVisiblePageChangeRef.current = onVisiblePageChange;
+  }, [onVisiblePageChange]);
+
+  useEffect(() => {
+    if (!scrollRoot) return;
+    const pageOf = (entry: IntersectionObserverEntry) =>
+      Number((entry.target as HTMLElement).dataset.pageNumber);
+
+    const near = new IntersectionObserver(
+      (entries) => {
+        setNearPages((prev) => {
+          const next = new Set(prev);
+          for (const entry of entries) {
+            if (entry.isIntersecting) next.add(pageOf(entry));
+            else next.delete(pageOf(entry));
+          }
+          return next;
+        });
+      },
+      { root: scrollRoot, rootMargin: NEAR_MARGIN }
+    );
+
+    // The current page is the one taking up most of the viewport
+    const visibleHeights = visibleHeightsRef.current;
+    const visible = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) visibleHeights.set(pageOf(entry), entry.intersectionRect.height);
+          else visibleHeights.delete(pageOf(entry));
+        }
+        let best = 0;
+        let bestHeight = 0;
+        visibleHeights.forEach((height, page) => {
+          if (height > bestHeight || (height === bestHeight && page < best)) {
+            best = page;
+            bestHeight = height;
+          }
+        });
+        if (best) onVisiblePageChangeRef.current(best);
+      },
+      { root: scrollRoot, threshold: [0, 0.1, 0.25, 0.5, 0.75, 1] }
+    );
+
+    slotsRef.current.forEach((slot) => {
+      near.observe(slot);
+      visible.observe(slot);
+    });
+    return () => {
+      near.disconnect();
+      visible.disconnect();
+      visibleHeights.clear();
+    };
+  }, [scrollRoot, pdf, pageDims.length]);
+
+  const renderedPages = useMemo(() => {
+    const byDistance = [...nearPages].sort(
+      (a, b) => Math.abs(a - currentPage) - Math.abs(b - currentPage)
+    );
+    return new Set(byDistance.slice(0, MAX_RENDERED_PAGES));
+  }, [nearPages, currentPage]);
+
+  return (
+    <div className="flex flex-col items-start py-3" style={{ gap: `${PAGE_GAP_PX}px` }}>
+      {pageDims.map((dims, idx) => {
+        const page = idx + 1;
+        return (
+          <div
+            key={page}
+            ref={(el) => {
+              if (el) slotsRef.current.set(page, el);
+              else slotsRef.current.delete(page);
+            }}
+            {...pageGeometryAttributes(page, dims)}
+            className="relative shrink-0 bg-white shadow-sm"
+            style={{ width: `${dims.width * zoom}px`, height: `${dims.height * zoom}px` }}
+          >
+            <PageCanvas pdf={pdf} page={page} scale={scale} pool={pool} active={renderedPages.has(page)} />
+            {nearPages.has(page) && renderOverlays(page, dims)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { Loader2 } from 'lucide-react';
+import type { PageDims } from '@/lib/pdfPages';
+import { cn } from '@/lib/utils';
+
+// Width of the rail in px; the viewer offsets popups positioned over the page by it
+export const THUMBNAIL_RAIL_WIDTH = 128;
+const THUMB_WIDTH = 96;
+// Thumbnails are drawn at 2x for sharpness on high-density screens
+const THUMB_RENDER_SCALE = 2;
+
+interface PageThumbnailRailProps {
+  pdf: PDFDocumentProxy;
+  pageDims: Array<PageDims>;
+  currentPage: number;
+  onSelect: (page: number) => void;
+}
+
+/**
+ * Collapsible sidebar of page thumbnails. Thumbnails render lazily as they scroll into the rail,
+ * one at a time through a shared scratch canvas, and are kept as small JPEG data URLs.
+ * Key it by the PDF so a newly loaded document starts without stale thumbnails.
+ */
+export function PageThumbnailRail({ pdf, pageDims, currentPage, onSelect }: PageThumbnailRailProps) {
+  const railRef = useRef<HTMLDivElement>(null);
+  const itemsRef = useRef<Map<number, HTMLButtonElement>>(new Map());
+  const [thumbs, setThumbs] = useState<Map<number, string>>(() => new Map());
+
+  useEffect(() => {
+    const rail = railRef.current;
+    if (!rail) return;
+    let cancelled = false;
+    const requested = new Set<number>();
+    const queue: Array<number> = [];
+    let running = false;
+    const scratch = document.createElement('canvas');
+
+    const drain = async () => {
+      if (running) return;
+      running = true;
+      while (queue.length && !cancelled) {
+        const n = queue.shift() as number;
+        try {
+          const page = await pdf.getPage(n);
+          const base = page.getViewport({ scale: 1 });
+          const viewport = page.getViewport({ scale: (THUMB_WIDTH * THUMB_RENDER_SCALE) / base.width });
+          scratch.width = Math.floor(viewport.width);
+          scratch.height = Math.floor(viewport.height);
+          await page.render({ canvas: scratch, viewport }).promise;
+          if (cancelled) break;
+          const url = scratch.toDataURL('image/jpeg', 0.7);
+          setThumbs((prev) => new Map(prev).set(n, url));
+        } catch (e) {
+          console.warn('PDFViewer: failed to render thumbnail', n, e);
+        }
+      }
+      scratch.width = 0;
+      scratch.height = 0;
+      running = false;
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const n = Number((entry.target as HTMLElement).dataset.thumbPage);
+          if (!entry.isIntersecting || requested.has(n)) continue;
+          requested.add(n);
+          queue.push(n);
+        }
+        queue.sort((a, b) => a - b);
+        void drain();
+      },
+      { root: rail, rootMargin: '200px 0px' }
+    );
+    itemsRef.current.forEach((el) => observer.observe(el));
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [pdf, pageDims.length]);
+
+  // Keep the current page's thumbnail in view
+  useEffect(() => {
+    itemsRef.current.get(currentPage)?.scrollIntoView({ block: 'nearest' });
+  }, [currentPage]);
+
+  return (
+    <div
+      ref={railRef}
+      className="h-full shrink-0 overflow-y-auto border-r bg-muted/30 py-3"
+      style={{ width: `${THUMBNAIL_RAIL_WIDTH}px` }}
+      aria-label="Page thumbnails"
+    >
+      <div className="flex flex-col items-center gap-3">
+        {pageDims.map((dims, idx) => {
+          const page = idx + 1;
+          const url = thumbs.get(page);
+          const active = page === currentPage;
+          return (
+            <button
+              key={page}
+              ref={(el) => {
+                if (el) itemsRef.current.set(page, el);
+                else itemsRef.current.delete(page);
+              }}
+              type="button"
+              data-thumb-page={page}
+              onClick={() => onSelect(page)}
+              className="flex flex-col items-center gap-1 rounded-md p-1 outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              aria-label={`Go to page ${page}`}
+              aria-current={active ? 'page' : undefined}
+            >
+              <div
+                className={cn(
+                  'flex items-center justify-center overflow-hidden rounded-sm border bg-white shadow-sm transition-shadow',
+                  active ? 'ring-2 ring-primary' : 'hover:ring-1 hover:ring-primary/50'
+                )}
+                style={{ width: `${THUMB_WIDTH}px`, height: `${(THUMB_WIDTH * dims.height) / (dims.width || 1)}px` }}
+              >
+                {url ? (
+                  <img src={url} alt={`Page ${page}`} className="h-full w-full" draggable={false} />
+                ) : (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                )}
+              </div>
+              <span className={cn('text-[10px] tabular-nums', active ? 'font-semibold text-primary' : 'text-muted-foreground')}>
+                {page}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
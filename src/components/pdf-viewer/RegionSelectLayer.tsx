@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { UnitEdges } from '@/lib/geometry';
+
+// Selections smaller than this (unit page space) are treated as a stray click
+const MIN_REGION_SIZE = 0.005;
+
+interface RegionSelectLayerProps {
+  // Size of the page on screen; the selection is reported in unit space
+  width: number;
+  height: number;
+  // Set while the selected region is being read; the selection stays visible meanwhile
+  busy: boolean;
+  onSelect: (region: UnitEdges) => void;
+  // Accessible name of the layer
+  label?: string;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Capture and table mode overlay of one page: drag a rectangle to select the region to read text from.
+ */
+export function RegionSelectLayer({ width, height, busy, onSelect, label = 'Select a region to capture' }: RegionSelectLayerProps) {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const [region, setRegion] = useState<UnitEdges | null>(null);
+
+  // The selection is done with once it has been read
+  useEffect(() => {
+    if (!busy) setRegion(null);
+  }, [busy]);
+
+  const toUnit = (e: React.PointerEvent) => {
+    const rect = layerRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width || !rect.height) return { x: 0, y: 0 };
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0 || busy) return;
+    e.preventDefault();
+    e.stopPropagation();
+    layerRef.current?.setPointerCapture(e.pointerId);
+    const p = toUnit(e);
+    startRef.current = p;
+    setRegion({ x1: p.x, y1: p.y, x2: p.x, y2: p.y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start) return;
+    const p = toUnit(e);
+    setRegion({
+      x1: Math.min(start.x, p.x),
+      y1: Math.min(start.y, p.y),
+      x2: Math.max(start.x, p.x),
+      y2: Math.max(start.y, p.y),
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!startRef.current) return;
+    startRef.current = null;
+    layerRef.current?.releasePointerCapture(e.pointerId);
+    if (!region || region.x2 - region.x1 < MIN_REGION_SIZE || region.y2 - region.y1 < MIN_REGION_SIZE) {
+      setRegion(null);
+      return;
+    }
+    onSelect(region);
+  };
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute left-0 top-0 z-40 cursor-crosshair touch-none select-none"
+      style={{ width: `${width}px`, height: `${height}px` }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      aria-label={label}
+    >
+      {region && (
+        <div
+          className="absolute flex items-center justify-center rounded-sm border-2 border-dashed border-emerald-600 bg-emerald-500/15"
+          style={{
+            left: `${region.x1 * width}px`,
+            top: `${region.y1 * height}px`,
+            width: `${(region.x2 - region.x1) * width}px`,
+            height: `${(region.y2 - region.y1) * height}px`,
+          }}
+        >
+          {busy && <Loader2 className="h-4 w-4 animate-spin text-emerald-700" />}
+        </div>
+      )}
+    </div>
+  );
+}
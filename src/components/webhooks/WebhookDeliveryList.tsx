@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2, RotateCcw, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { Doc, Id } from '@/convex/_generated/dataModel';
+import { DELIVERY_MODE_LABELS } from '@/lib/webhooks';
+
+export type WebhookDeliveryWithAttempts = Doc<'webhookDeliveries'> & {
+  attemptLog: Array<Doc<'webhookAttempts'>>;
+  stalled: boolean; // in flight past its lease; replayable like a dead letter
+};
+
+interface WebhookDeliveryListProps {
+  deliveries: Array<WebhookDeliveryWithAttempts> | undefined;
+  onReplay?: (deliveryId: Id<'webhookDeliveries'>) => void;
+  replayingId?: Id<'webhookDeliveries'> | null;
+  showDocument?: boolean;
+  onOpenDocument?: (externalId: string) => void;
+}
+
+const STATUS_CLASSES: Record<Doc<'webhookDeliveries'>['status'], string> = {
+  pending: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  in_flight: 'bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300',
+  delivered: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+  dead: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300',
+};
+
+const STATUS_LABELS: Record<Doc<'webhookDeliveries'>['status'], string> = {
+  pending: 'Pending',
+  in_flight: 'Sending',
+  delivered: 'Delivered',
+  dead: 'Dead letter',
+};
+
+export function WebhookDeliveryList({
+  deliveries,
+  onReplay,
+  replayingId,
+  showDocument = false,
+  onOpenDocument,
+}: WebhookDeliveryListProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+
+  const toggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  if (deliveries === undefined) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading deliveries...
+      </div>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Send className="h-4 w-4" />
+        No webhook deliveries.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {deliveries.map((d) => {
+        const isOpen = expanded.has(d._id);
+        return (
+          <div key={d._id} className="rounded-lg border bg-card/50">
+            <div className="flex items-center justify-between gap-2 px-3 py-2">
+              <button
+                type="button"
+                onClick={() => toggle(d._id)}
+                className="flex min-w-0 items-center gap-2 text-left"
+                aria-expanded={isOpen}
+              >
+                {isOpen ? (
+                  <ChevronDown className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                ) : (
+                  <ChevronRight className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                )}
+                <Badge className={STATUS_CLASSES[d.status]}>{STATUS_LABELS[d.status]}</Badge>
+                <Badge variant="outline" className="font-mono text-[10px]">
+                  {DELIVERY_MODE_LABELS[d.mode]}
+                </Badge>
+                {showDocument && <span className="font-mono text-xs">#{d.externalId}</span>}
+                <span className="truncate text-xs text-muted-foreground">
+                  {new Date(d.createdAt).toLocaleString()}
+                  {d.userEmail ? ` · ${d.userEmail}` : ''}
+                  {` · ${d.attempts}/${d.maxAttempts} attempts`}
+                  {d.status === 'pending' && d.nextAttemptAt
+                    ? ` · next ${new Date(d.nextAttemptAt).toLocaleTimeString()}`
+                    : ''}
+                </span>
+              </button>
+              <div className="flex flex-shrink-0 items-center gap-2">
+                {showDocument && onOpenDocument && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => onOpenDocument(d.externalId)}
+                  >
+                    Open
+                  </Button>
+                )}
+                {onReplay && (d.status === 'dead' || d.stalled) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={Boolean(replayingId)}
+                    onClick={() => onReplay(d._id)}
+                  >
+                    {replayingId === d._id ? (
+                      <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                    )}
+                    Replay
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {isOpen && (
+              <div className="space-y-2 border-t px-3 py-2 text-xs">
+                <div className="grid grid-cols-[max-content_minmax(0,1fr)] gap-x-3 gap-y-1">
+                  <span className="text-muted-foreground">Idempotency key</span>
+                  <span className="break-all font-mono">{d.idempotencyKey}</span>
+                  <span className="text-muted-foreground">URL</span>
+                  <span className="break-all font-mono">{d.url}</span>
+                  <span className="text-muted-foreground">Mode</span>
+                  <span>
+                    {DELIVERY_MODE_LABELS[d.mode]}
+                    {d.payloadBytes !== undefined ? ` · ${d.payloadBytes.toLocaleString()} bytes` : ''}
+                  </span>
+                  {d.lastError && (
+                    <>
+                      <span className="text-muted-foreground">Last error</span>
+                      <span className="break-all text-rose-600 dark:text-rose-400">{d.lastError}</span>
+                    </>
+                  )}
+                </div>
+                {d.attemptLog.length === 0 ? (
+                  <div className="text-muted-foreground">No attempts yet.</div>
+                ) : (
+                  <div className="space-y-1">
+                    <div className="grid grid-cols-[3rem_5rem_5rem_minmax(0,1fr)] gap-2 font-semibold text-muted-foreground">
+                      <span>#</span>
+                      <span>Status</span>
+                      <span>Latency</span>
+                      <span>Response</span>
+                    </div>
+                    {d.attemptLog.map((a) => (
+                      <div key={a._id} className="grid grid-cols-[3rem_5rem_5rem_minmax(0,1fr)] gap-2">
+                        <span title={new Date(a.startedAt).toLocaleString()}>{a.attempt}</span>
+                        <span className={a.ok ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'}>
+                          {a.statusCode ?? '—'}
+                        </span>
+                        <span>{a.latencyMs} ms</span>
+                        <span className="break-all">{a.error || a.responseBody || '—'}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
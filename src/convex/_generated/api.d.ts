@@ -15,11 +15,21 @@ import type {
 } from "convex/server";
 import type * as auth_emailOtp from "../auth/emailOtp.js";
 import type * as auth from "../auth.js";
+import type * as crons from "../crons.js";
+import type * as customers from "../customers.js";
 import type * as documents from "../documents.js";
+import type * as extractionFormats from "../extractionFormats.js";
 import type * as http from "../http.js";
+import type * as inboundWebhooks from "../inboundWebhooks.js";
+import type * as n8nLogs from "../n8nLogs.js";
+import type * as n8nSync from "../n8nSync.js";
+import type * as sapRevisions from "../sapRevisions.js";
 import type * as users from "../users.js";
 import type * as webhook from "../webhook.js";
+import type * as webhookPayload from "../webhookPayload.js";
+import type * as webhookQueue from "../webhookQueue.js";
 import type * as webhooks from "../webhooks.js";
+import type * as workflow from "../workflow.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -32,11 +42,21 @@ import type * as webhooks from "../webhooks.js";
 declare const fullApi: ApiFromModules<{
   "auth/emailOtp": typeof auth_emailOtp;
   auth: typeof auth;
+  crons: typeof crons;
+  customers: typeof customers;
   documents: typeof documents;
+  extractionFormats: typeof extractionFormats;
   http: typeof http;
+  inboundWebhooks: typeof inboundWebhooks;
+  n8nLogs: typeof n8nLogs;
+  n8nSync: typeof n8nSync;
+  sapRevisions: typeof sapRevisions;
   users: typeof users;
   webhook: typeof webhook;
+  webhookPayload: typeof webhookPayload;
+  webhookQueue: typeof webhookQueue;
   webhooks: typeof webhooks;
+  workflow: typeof workflow;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,9 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Webhook deliveries whose scheduled attempt was lost (crashed or timed out action) are sent again
+crons.interval("sweep stalled webhook deliveries", { minutes: 1 }, internal.webhookQueue.sweep, {});
+
+export default crons;
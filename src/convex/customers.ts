@@ -0,0 +1,220 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { ROLES, customerImportRowValidator, type CustomerImportRow } from "./schema";
+import { requireRole } from "./users";
+
+// Rows per importRows call; the client sends large files in batches (CUSTOMER_IMPORT_BATCH)
+const MAX_IMPORT_ROWS = 500;
+
+const MAX_RESULTS = 50;
+
+// Convex full-text search takes at most 16 terms
+const MAX_SEARCH_TERMS = 16;
+
+const searchTerms = (text: string) => text.split(/\s+/).slice(0, MAX_SEARCH_TERMS).join(" ");
+
+// Customer as returned to the client, without the search text
+export type Customer = Omit<Doc<"customers">, "searchText">;
+
+const toCustomer = (doc: Doc<"customers">): Customer => {
+  const customer: Partial<Doc<"customers">> = { ...doc };
+  delete customer.searchText;
+  return customer as Customer;
+};
+
+const clean = (s: string | undefined) => s?.trim() || undefined;
+
+// "@Acme.COM " -> "acme.com"
+export const normalizeDomain = (domain: string) => domain.trim().toLowerCase().replace(/^@+/, "");
+
+// "sales.eu.acme.com" -> ["sales.eu.acme.com", "eu.acme.com", "acme.com"]
+const domainAndParents = (domain: string) => {
+  const labels = domain.split(".");
+  return labels.slice(0, Math.max(1, labels.length - 1)).map((_, i) => labels.slice(i).join("."));
+};
+
+function normalizeRow(row: CustomerImportRow, index: number): CustomerImportRow {
+  const customerNumber = row.customerNumber.trim();
+  const name = row.name.trim();
+  if (!customerNumber) {
+    throw new Error(`Row ${index + 1}: the customer number is missing`);
+  }
+  if (!name) {
+    throw new Error(`Row ${index + 1}: customer ${customerNumber} has no name`);
+  }
+  return {
+    customerNumber,
+    name,
+    name2: clean(row.name2),
+    street: clean(row.street),
+    postalCode: clean(row.postalCode),
+    city: clean(row.city),
+    country: clean(row.country),
+    emailDomains: Array.from(new Set(row.emailDomains.map(normalizeDomain).filter(Boolean))),
+    salesOrganization: clean(row.salesOrganization),
+    distributionChannel: clean(row.distributionChannel),
+    division: clean(row.division),
+  };
+}
+
+const searchTextOf = (row: CustomerImportRow) =>
+  [row.customerNumber, row.name, row.name2, row.street, row.postalCode, row.city, row.country, ...row.emailDomains]
+    .filter(Boolean)
+    .join(" ");
+
+async function replaceDomains(ctx: MutationCtx, customerId: Id<"customers">, domains: Array<string>) {
+  const existing = await ctx.db
+    .query("customerDomains")
+    .withIndex("by_customer", (q) => q.eq("customerId", customerId))
+    .collect();
+  for (const row of existing) {
+    await ctx.db.delete(row._id);
+  }
+  for (const domain of domains) {
+    await ctx.db.insert("customerDomains", { domain, customerId });
+  }
+}
+
+/**
+ * Insert or update customers by customer number. Admins only.
+ * A customer's email domains are replaced by the imported ones; customers missing from the file are kept.
+ */
+export const importRows = mutation({
+  args: {
+    rows: v.array(customerImportRowValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ROLES.ADMIN);
+    if (args.rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Import at most ${MAX_IMPORT_ROWS} customers at a time`);
+    }
+
+    const now = Date.now();
+    let inserted = 0;
+    let updated = 0;
+    for (const [index, raw] of args.rows.entries()) {
+      const row = normalizeRow(raw, index);
+      const fields = { ...row, searchText: searchTextOf(row), updatedAt: now };
+      const existing = await ctx.db
+        .query("customers")
+        .withIndex("by_customerNumber", (q) => q.eq("customerNumber", row.customerNumber))
+        .first();
+      let customerId: Id<"customers">;
+      if (existing) {
+        await ctx.db.replace(existing._id, fields);
+        customerId = existing._id;
+        updated++;
+      } else {
+        customerId = await ctx.db.insert("customers", fields);
+        inserted++;
+      }
+      await replaceDomains(ctx, customerId, row.emailDomains);
+    }
+
+    return { inserted, updated };
+  },
+});
+
+/**
+ * Delete a customer and its email domains. Admins only.
+ */
+export const remove = mutation({
+  args: {
+    id: v.id("customers"),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ROLES.ADMIN);
+    const customer = await ctx.db.get(args.id);
+    if (!customer) {
+      throw new Error("Customer not found");
+    }
+    await replaceDomains(ctx, args.id, []);
+    await ctx.db.delete(args.id);
+    return { success: true };
+  },
+});
+
+/**
+ * Customers matching `text` (number, names, address or email domain) in relevance order, or the
+ * first customers by number when `text` is blank. Empty when not signed in.
+ */
+export const search = query({
+  args: {
+    text: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+    const limit = Math.min(Math.max(1, args.limit ?? 20), MAX_RESULTS);
+    const text = args.text?.trim();
+
+    // An exact customer number comes first even when the search ranks it lower
+    const exact = text
+      ? await ctx.db
+          .query("customers")
+          .withIndex("by_customerNumber", (q) => q.eq("customerNumber", text))
+          .first()
+      : null;
+    const found = text
+      ? await ctx.db
+          .query("customers")
+          .withSearchIndex("search_text", (q) => q.search("searchText", searchTerms(text)))
+          .take(limit)
+      : await ctx.db.query("customers").withIndex("by_customerNumber").take(limit);
+
+    const results = exact ? [exact, ...found.filter((c) => c._id !== exact._id)].slice(0, limit) : found;
+    return results.map(toCustomer);
+  },
+});
+
+/**
+ * Candidates for the sold-to party of a document: the customers owning one of `domains` (or a parent
+ * domain of one), then the customers the full-text search finds for `text` (extracted customer name
+ * and address).
+ * Ranking is left to the client, which also sees the extraction. Empty when not signed in.
+ */
+export const candidates = query({
+  args: {
+    domains: v.array(v.string()),
+    text: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+
+    const ids = new Set<Id<"customers">>();
+    const domains = new Set(args.domains.map(normalizeDomain).filter(Boolean).flatMap(domainAndParents));
+    for (const domain of domains) {
+      const rows = await ctx.db
+        .query("customerDomains")
+        .withIndex("by_domain", (q) => q.eq("domain", domain))
+        .take(MAX_RESULTS);
+      for (const row of rows) ids.add(row.customerId);
+    }
+    const byDomain = await Promise.all(Array.from(ids, (id) => ctx.db.get(id)));
+
+    const text = args.text?.trim();
+    const byText = text
+      ? await ctx.db
+          .query("customers")
+          .withSearchIndex("search_text", (q) => q.search("searchText", searchTerms(text)))
+          .take(20)
+      : [];
+
+    const out: Array<Customer> = [];
+    const seen = new Set<Id<"customers">>();
+    for (const customer of [...byDomain, ...byText]) {
+      if (!customer || seen.has(customer._id)) continue;
+      seen.add(customer._id);
+      out.push(toCustomer(customer));
+    }
+    return out;
+  },
+});
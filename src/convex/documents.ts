@@ -1,10 +1,591 @@
-"use node";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { paginationOptsValidator } from "convex/server";
+import { Infer, v } from "convex/values";
+import { action, internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { normalizeN8nRow, senderAddress } from "./n8nLogs";
+import { diffSap, recordRevision } from "./sapRevisions";
+import {
+  ROLES,
+  WORKFLOW_STATUS,
+  captureMethodValidator,
+  coverageCountsValidator,
+  manualBoxTargetValidator,
+  type ManualBox,
+} from "./schema";
+import { requireRole } from "./users";
+import { applyTransition, initialWorkflowStatus, initializeWorkflow, isSapLocked } from "./workflow";
 
-import { v } from "convex/values";
-import { action } from "./_generated/server";
+// Fields too heavy for list views; fetch them with `get` / `getByExternalId`
+export type DocumentSummary = Omit<Doc<"documents">, "documentData" | "sapAiOutput" | "sapReviewed">;
+
+const toSummary = (doc: Doc<"documents">): DocumentSummary => {
+  const summary: Partial<Doc<"documents">> = { ...doc };
+  delete summary.documentData;
+  delete summary.sapAiOutput;
+  delete summary.sapReviewed;
+  return summary as DocumentSummary;
+};
+
+/**
+ * List documents, newest first, without extracted data or SAP payloads.
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+    const docs = await ctx.db.query("documents").withIndex("by_receivedAt").order("desc").collect();
+    return docs.map(toSummary);
+  },
+});
+
+export const documentSortByValidator = v.union(
+  v.literal("id"),
+  v.literal("from"),
+  v.literal("subject"),
+  v.literal("status"),
+  v.literal("doc"),
+  v.literal("created"),
+  v.literal("cc"),
+);
+export type DocumentSortBy = Infer<typeof documentSortByValidator>;
+
+const SORT_INDEXES = {
+  id: "by_sort_id",
+  from: "by_sort_from",
+  subject: "by_sort_subject",
+  status: "by_sort_status",
+  doc: "by_sort_doc",
+  created: "by_receivedAt",
+  cc: "by_sort_cc",
+} as const;
+
+/**
+ * Page through documents with server-side filtering and sorting.
+ * - status: workflow status
+ * - sender: an address ("Name <addr>" forms included) matches that sender; a domain ("acme.com",
+ *   "@acme.com") every sender at it
+ * - receivedFrom / receivedTo: inclusive bounds on receivedAt (ms)
+ * - search: full-text over subject and mail body; results come back in relevance order, ignoring sortBy
+ */
+export const listPage = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    sortBy: v.optional(documentSortByValidator),
+    sortDir: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
+    status: v.optional(v.string()),
+    sender: v.optional(v.string()),
+    receivedFrom: v.optional(v.number()),
+    receivedTo: v.optional(v.number()),
+    search: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const status = args.status?.trim().toLowerCase() || undefined;
+    const senderText = args.sender?.trim().toLowerCase() || undefined;
+    const byDomain = senderText !== undefined && !senderText.replace(/^@+/, "").includes("@");
+    const sender =
+      senderText === undefined ? undefined : byDomain ? senderText.replace(/^@+/, "") : senderAddress(senderText);
+    const senderField = byDomain ? "sortKeys.fromDomain" : "sortKeys.from";
+    const search = args.search?.trim() || undefined;
+    const sortBy = args.sortBy ?? "created";
+    const { receivedFrom, receivedTo } = args;
+
+    const table = ctx.db.query("documents");
+    let ordered;
+    if (search) {
+      ordered = table.withSearchIndex("search_text", (q) => {
+        let s = q.search("searchText", search);
+        if (status !== undefined) s = s.eq("sortKeys.status", status);
+        if (sender !== undefined) s = s.eq(senderField, sender);
+        return s;
+      });
+    } else if (sortBy === "created") {
+      // Date bounds narrow the index range itself when sorting by date
+      ordered = table
+        .withIndex("by_receivedAt", (q) => {
+          if (receivedFrom !== undefined && receivedTo !== undefined) {
+            return q.gte("receivedAt", receivedFrom).lte("receivedAt", receivedTo);
+          }
+          if (receivedFrom !== undefined) return q.gte("receivedAt", receivedFrom);
+          if (receivedTo !== undefined) return q.lte("receivedAt", receivedTo);
+          return q;
+        })
+        .order(args.sortDir ?? "desc");
+    } else {
+      ordered = table.withIndex(SORT_INDEXES[sortBy]).order(args.sortDir ?? "desc");
+    }
+
+    const filtered = ordered.filter((q) => {
+      const conditions = [];
+      if (!search && status !== undefined) conditions.push(q.eq(q.field("sortKeys.status"), status));
+      if (!search && sender !== undefined) conditions.push(q.eq(q.field(senderField), sender));
+      if ((search || sortBy !== "created") && receivedFrom !== undefined) {
+        conditions.push(q.gte(q.field("receivedAt"), receivedFrom));
+      }
+      if ((search || sortBy !== "created") && receivedTo !== undefined) {
+        conditions.push(q.lte(q.field("receivedAt"), receivedTo));
+      }
+      return conditions.length ? q.and(...conditions) : true;
+    });
+
+    const result = await filtered.paginate(args.paginationOpts);
+    return { ...result, page: result.page.map(toSummary) };
+  },
+});
+
+/**
+ * Get a single document with all fields. Returns null if not found or not signed in.
+ */
+export const get = query({
+  args: { id: v.id("documents") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return null;
+    }
+    return await ctx.db.get(args.id);
+  },
+});
 
 /**
- * Fetch a PDF from Supabase and return it as a base64 string
+ * Get a document by the id of its "N8N Logs" row (the id used in /document/:documentId routes).
+ */
+export const getByExternalId = query({
+  args: { externalId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return null;
+    }
+    return await ctx.db
+      .query("documents")
+      .withIndex("by_externalId", (q) => q.eq("externalId", args.externalId))
+      .unique();
+  },
+});
+
+// Documents `coverageInputs` reads at most; a few pages of the documents list
+const COVERAGE_INPUTS_LIMIT = 100;
+
+/**
+ * What the documents list needs to compute evidence coverage for documents that have none stored
+ * (imported, never saved): the extraction, the current SAP payload, the payload as extracted and the
+ * manual boxes. Documents with stored coverage or without a payload are left out.
+ */
+export const coverageInputs = query({
+  args: { ids: v.array(v.id("documents")) },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+    const docs = await Promise.all(args.ids.slice(0, COVERAGE_INPUTS_LIMIT).map((id) => ctx.db.get(id)));
+    return docs.flatMap((doc) => {
+      const sap = doc?.sapReviewed ?? doc?.sapAiOutput;
+      if (!doc || doc.evidenceCoverage || !sap) return [];
+      return [
+        {
+          _id: doc._id,
+          documentData: doc.documentData,
+          sap,
+          sapAiOutput: doc.sapAiOutput,
+          manualBoxes: doc.manualBoxes,
+        },
+      ];
+    });
+  },
+});
+
+/**
+ * Store the reviewer's SAP payload for a document; every save becomes a new revision.
+ * `coverage` is the payload's evidence coverage, stored with it for the documents list.
+ */
+export const saveReviewedSap = mutation({
+  args: {
+    id: v.id("documents"),
+    sap: v.any(),
+    coverage: v.optional(coverageCountsValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ROLES.USER);
+    const doc = await ctx.db.get(args.id);
+    if (!doc) {
+      throw new Error("Document not found");
+    }
+
+    const version = await recordRevision(ctx, doc, args.sap, user._id, undefined, args.coverage);
+
+    return { success: true, version };
+  },
+});
+
+// Unit-space geometry a reviewer may attach to a field; everything must lie on the page
+const isUnitBox = (box: { x: number; y: number; width: number; height: number }) =>
+  [box.x, box.y, box.width, box.height].every((n) => Number.isFinite(n)) &&
+  box.x >= 0 &&
+  box.y >= 0 &&
+  box.width > 0 &&
+  box.height > 0 &&
+  box.x + box.width <= 1 + 1e-6 &&
+  box.y + box.height <= 1 + 1e-6;
+
+const isValidBox = (box: { path: string; page: number; x: number; y: number; width: number; height: number }) =>
+  box.path.startsWith("$") && Number.isInteger(box.page) && box.page >= 1 && isUnitBox(box);
+
+/**
+ * Attach a reviewer-drawn box to a document_data or SAP field path, replacing any earlier
+ * box for the same field. Manual boxes take precedence over automatic matches (mappingLedger.ts).
+ * Boxes from a region capture also keep the capture method and the text that was read, and may
+ * bring the SAP payload holding that text: it is saved as a new revision in the same transaction,
+ * so the value never exists without its box or the other way round. Its `coverage` is stored as
+ * with saveReviewedSap.
+ */
+export const saveManualBox = mutation({
+  args: {
+    id: v.id("documents"),
+    target: manualBoxTargetValidator,
+    path: v.string(),
+    page: v.number(),
+    x: v.number(),
+    y: v.number(),
+    width: v.number(),
+    height: v.number(),
+    method: v.optional(captureMethodValidator),
+    capturedText: v.optional(v.string()),
+    sap: v.optional(v.any()),
+    coverage: v.optional(coverageCountsValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ROLES.USER);
+    const doc = await ctx.db.get(args.id);
+    if (!doc) {
+      throw new Error("Document not found");
+    }
+    if (isSapLocked(doc)) {
+      throw new Error("The document is locked in its current status; reopen it to edit its evidence");
+    }
+    const { id, sap, coverage, ...box } = args;
+    if (!isValidBox(box)) {
+      throw new Error("Invalid box");
+    }
+    if (sap !== undefined && box.target !== "sap") {
+      throw new Error("Only SAP field boxes can carry a SAP payload");
+    }
+
+    const version = sap === undefined ? undefined : await recordRevision(ctx, doc, sap, user._id, undefined, coverage);
+
+    const manualBox: ManualBox = {
+      ...box,
+      authorId: user._id,
+      authorName: user.name || user.email || undefined,
+      updatedAt: Date.now(),
+    };
+    const others = (doc.manualBoxes ?? []).filter((b) => b.target !== box.target || b.path !== box.path);
+    await ctx.db.patch(id, { manualBoxes: [...others, manualBox] });
+
+    return { success: true, version };
+  },
+});
+
+/**
+ * Attach boxes to several fields at once (e.g. every cell of a reconstructed item table), each
+ * replacing any earlier box for its field like saveManualBox. As there, `sap` is the payload
+ * holding the boxed values and is saved as a new revision in the same transaction.
+ * `clearPathPrefix` first drops every box of the target under that path (e.g. "$.to_Item." when
+ * the items are replaced), so no box outlives the value it pointed at.
+ */
+export const saveManualBoxes = mutation({
+  args: {
+    id: v.id("documents"),
+    target: manualBoxTargetValidator,
+    boxes: v.array(
+      v.object({
+        path: v.string(),
+        page: v.number(),
+        x: v.number(),
+        y: v.number(),
+        width: v.number(),
+        height: v.number(),
+        method: v.optional(captureMethodValidator),
+        capturedText: v.optional(v.string()),
+      }),
+    ),
+    sap: v.optional(v.any()),
+    coverage: v.optional(coverageCountsValidator),
+    clearPathPrefix: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ROLES.USER);
+    const doc = await ctx.db.get(args.id);
+    if (!doc) {
+      throw new Error("Document not found");
+    }
+    if (isSapLocked(doc)) {
+      throw new Error("The document is locked in its current status; reopen it to edit its evidence");
+    }
+    const { clearPathPrefix } = args;
+    if (clearPathPrefix !== undefined && !clearPathPrefix.startsWith("$.")) {
+      throw new Error("Invalid path prefix");
+    }
+    if (!args.boxes.every(isValidBox)) {
+      throw new Error("Invalid box");
+    }
+    if (args.sap !== undefined && args.target !== "sap") {
+      throw new Error("Only SAP field boxes can carry a SAP payload");
+    }
+
+    const version =
+      args.sap === undefined ? undefined : await recordRevision(ctx, doc, args.sap, user._id, undefined, args.coverage);
+    const now = Date.now();
+    const paths = new Set(args.boxes.map((b) => b.path));
+    const added: Array<ManualBox> = args.boxes.map((box) => ({
+      ...box,
+      target: args.target,
+      authorId: user._id,
+      authorName: user.name || user.email || undefined,
+      updatedAt: now,
+    }));
+    const others = (doc.manualBoxes ?? []).filter(
+      (b) =>
+        b.target !== args.target ||
+        (!paths.has(b.path) && !(clearPathPrefix !== undefined && b.path.startsWith(clearPathPrefix))),
+    );
+    await ctx.db.patch(args.id, { manualBoxes: [...others, ...added] });
+
+    return { success: true, count: added.length, version };
+  },
+});
+
+/**
+ * Drop the reviewer-drawn box of a field, so automatic matching applies again.
+ */
+export const removeManualBox = mutation({
+  args: {
+    id: v.id("documents"),
+    target: manualBoxTargetValidator,
+    path: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ROLES.USER);
+    const doc = await ctx.db.get(args.id);
+    if (!doc) {
+      throw new Error("Document not found");
+    }
+    if (isSapLocked(doc)) {
+      throw new Error("The document is locked in its current status; reopen it to edit its evidence");
+    }
+
+    const manualBoxes = (doc.manualBoxes ?? []).filter((b) => b.target !== args.target || b.path !== args.path);
+    await ctx.db.patch(args.id, { manualBoxes });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Store document_data extracted in the browser (OCR of a scan, see src/lib/localExtraction.ts) for
+ * a document the pipeline delivered without any. It stands in until the source row gets an
+ * extraction of its own, and moves a received document on to extracted.
+ */
+export const saveLocalExtraction = mutation({
+  args: {
+    id: v.id("documents"),
+    documentData: v.any(),
+    engine: v.string(),
+    confidence: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ROLES.USER);
+    const doc = await ctx.db.get(args.id);
+    if (!doc) {
+      throw new Error("Document not found");
+    }
+    if (isSapLocked(doc)) {
+      throw new Error("The document is locked in its current status; reopen it to edit its evidence");
+    }
+    if (doc.documentData !== undefined && doc.localExtraction === undefined) {
+      throw new Error("The document already has extracted data");
+    }
+    const pages = args.documentData?.document?.pages;
+    if (!Array.isArray(pages) || pages.length === 0) {
+      throw new Error("Invalid document data");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, {
+      documentData: args.documentData,
+      localExtraction: {
+        engine: args.engine,
+        pages: pages.length,
+        confidence: args.confidence,
+        extractedBy: user._id,
+        extractedAt: now,
+      },
+    });
+    if (doc.workflowStatus === WORKFLOW_STATUS.RECEIVED) {
+      const refreshed = await ctx.db.get(args.id);
+      if (refreshed) await applyTransition(ctx, refreshed, WORKFLOW_STATUS.EXTRACTED, user._id);
+    }
+
+    return { success: true, pages: pages.length };
+  },
+});
+
+/**
+ * Insert or refresh the document for one raw "N8N Logs" row. Rows are matched on their id;
+ * a reviewed SAP payload saved in the app is never overwritten by the source.
+ * Returns null for rows that cannot be normalized, and for new rows without a creation time: the
+ * newest receivedAt is where n8nSync.syncRecent resumes, so it must come from the source.
+ */
+export async function upsertN8nRow(ctx: MutationCtx, row: unknown, now = Date.now()) {
+  const normalized = normalizeN8nRow(row);
+  if (!normalized) {
+    return null;
+  }
+
+  const existing = await ctx.db
+    .query("documents")
+    .withIndex("by_externalId", (q) => q.eq("externalId", normalized.externalId))
+    .unique();
+
+  const initialStatus = initialWorkflowStatus(normalized);
+
+  if (existing) {
+    // Without a creation time of its own the row keeps the one it was imported with
+    const { sapReviewed, receivedAt, ...rest } = normalized;
+    const fromSource = { ...rest, ...(receivedAt !== undefined ? { receivedAt } : {}) };
+    // The workflow status is owned by workflow.ts; keep it out of the refreshed sort keys
+    const status = existing.workflowStatus ?? initialStatus;
+    // A local extraction is kept until the source has document data of its own
+    const keepLocal = fromSource.documentData === undefined && existing.localExtraction !== undefined;
+    const refreshed: Partial<Doc<"documents">> = {
+      ...fromSource,
+      ...(keepLocal ? { documentData: existing.documentData } : { localExtraction: undefined }),
+      ...(existing.sapReviewed === undefined && sapReviewed !== undefined ? { sapReviewed } : {}),
+      sortKeys: { ...fromSource.sortKeys, status },
+    };
+    // Only write what the source changed: every patch reaches open review screens as a new record
+    const changed = Object.fromEntries(
+      Object.entries(refreshed).filter(
+        ([key, value]) => diffSap(existing[key as keyof Doc<"documents">], value).length > 0,
+      ),
+    );
+    if (Object.keys(changed).length) {
+      await ctx.db.patch(existing._id, { ...changed, importedAt: now });
+    }
+    if (existing.workflowStatus === undefined) {
+      await ctx.db.patch(existing._id, { workflowStatus: status, workflowUpdatedAt: now });
+      await initializeWorkflow(ctx, existing._id, status);
+    } else if (status === WORKFLOW_STATUS.RECEIVED && initialStatus === WORKFLOW_STATUS.EXTRACTED) {
+      // Extraction finished after the row was first imported
+      const refreshed = await ctx.db.get(existing._id);
+      if (refreshed) await applyTransition(ctx, refreshed, WORKFLOW_STATUS.EXTRACTED);
+    }
+    return { documentId: existing._id, inserted: false };
+  }
+
+  const { receivedAt } = normalized;
+  if (receivedAt === undefined) {
+    return null;
+  }
+  const documentId = await ctx.db.insert("documents", {
+    ...normalized,
+    receivedAt,
+    workflowStatus: initialStatus,
+    workflowUpdatedAt: now,
+    sortKeys: { ...normalized.sortKeys, status: initialStatus },
+    importedAt: now,
+  });
+  await initializeWorkflow(ctx, documentId, initialStatus);
+  return { documentId, inserted: true };
+}
+
+/**
+ * Import raw rows from the Supabase "N8N Logs" table (see upsertN8nRow).
+ * Internal: rows are read from Supabase by the server (n8nSync.ts), never taken from a client.
+ */
+export const importN8nRows = internalMutation({
+  args: {
+    rows: v.array(v.any()),
+  },
+  handler: async (ctx, args) => {
+    let inserted = 0;
+    let updated = 0;
+    let skipped = 0;
+    const now = Date.now();
+
+    for (const row of args.rows) {
+      const result = await upsertN8nRow(ctx, row, now);
+      if (!result) skipped++;
+      else if (result.inserted) inserted++;
+      else updated++;
+    }
+
+    return { inserted, updated, skipped };
+  },
+});
+
+/**
+ * Remove a document whose "N8N Logs" row was deleted, together with its SAP revisions,
+ * workflow history and webhook deliveries.
+ * Returns false if no document matched. Admins only.
+ */
+export const removeByExternalId = mutation({
+  args: { externalId: v.string() },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ROLES.ADMIN);
+    const doc = await ctx.db
+      .query("documents")
+      .withIndex("by_externalId", (q) => q.eq("externalId", args.externalId))
+      .unique();
+    if (!doc) {
+      return false;
+    }
+
+    const revisions = await ctx.db
+      .query("sapRevisions")
+      .withIndex("by_document_and_version", (q) => q.eq("documentId", doc._id))
+      .collect();
+    for (const rev of revisions) {
+      await ctx.db.delete(rev._id);
+    }
+    const transitions = await ctx.db
+      .query("workflowTransitions")
+      .withIndex("by_document", (q) => q.eq("documentId", doc._id))
+      .collect();
+    for (const t of transitions) {
+      await ctx.db.delete(t._id);
+    }
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_document", (q) => q.eq("documentId", doc._id))
+      .collect();
+    for (const delivery of deliveries) {
+      const attempts = await ctx.db
+        .query("webhookAttempts")
+        .withIndex("by_delivery", (q) => q.eq("deliveryId", delivery._id))
+        .collect();
+      for (const attempt of attempts) {
+        await ctx.db.delete(attempt._id);
+      }
+      await ctx.db.delete(delivery._id);
+    }
+    await ctx.db.delete(doc._id);
+    return true;
+  },
+});
+
+/**
+ * Fetch a stored document (PDF, or an image/TIFF scan) from Supabase and return it as a base64 string
  * This bypasses CORS and browser blocking issues
  */
 export const fetchPdfProxy = action({
@@ -12,13 +593,14 @@ export const fetchPdfProxy = action({
     pdfUrl: v.string(),
   },
   handler: async (ctx, args) => {
+    await ctx.runQuery(internal.users.assertRole, { role: ROLES.MEMBER });
     try {
       console.log('Backend: Fetching PDF from:', args.pdfUrl);
-      
+
       const response = await fetch(args.pdfUrl, {
         method: 'GET',
         headers: {
-          'Accept': 'application/pdf',
+          'Accept': 'application/pdf, image/*;q=0.9, */*;q=0.5',
         },
       });
 
@@ -26,17 +608,21 @@ export const fetchPdfProxy = action({
         throw new Error(`Failed to fetch PDF: ${response.status} ${response.statusText}`);
       }
 
-      const arrayBuffer = await response.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-      const base64 = buffer.toString('base64');
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      // Encode in chunks: this module runs in the default runtime, where Buffer is unavailable
+      let binary = '';
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+      }
+      const base64 = btoa(binary);
 
-      console.log('Backend: PDF fetched successfully, size:', buffer.length, 'bytes');
+      console.log('Backend: PDF fetched successfully, size:', bytes.length, 'bytes');
 
       return {
         success: true,
         data: base64,
         contentType: response.headers.get('content-type') || 'application/pdf',
-        size: buffer.length,
+        size: bytes.length,
       };
     } catch (error) {
       console.error('Backend: PDF proxy error:', error);
@@ -46,4 +632,4 @@ export const fetchPdfProxy = action({
       };
     }
   },
-});
\ No newline at end of file
+});
@@ -0,0 +1,446 @@
+/**
+ * Extraction output comes from several extractors, each with its own JSON shape. A format adapter
+ * recognizes one shape and converts it into the canonical pages-based `document_data` the app
+ * reads (see `DocumentData` in src/lib/supabase.ts). Supporting another extractor means
+ * registering an adapter here; the importer, the dashboard and the mapping ledger all go through
+ * `toDocumentData`.
+ */
+
+// A box [x1, y1, x2, y2, page]; the page is missing on boxes of single-page output
+export type ExtractedBox = [number, number, number, number, number?];
+
+export type ExtractedField = { value: string; bounding_box: Array<ExtractedBox> };
+
+// A line of recognized text with its words; boxes are [x1, y1, x2, y2, page] in source units
+export type ExtractedTextLine = ExtractedField & {
+  words?: Array<ExtractedField & { confidence?: number }>;
+};
+
+export type ExtractedItem = {
+  description: string;
+  quantity: string;
+  unit_price: string;
+  total: string;
+  bounding_box: Array<ExtractedBox>;
+};
+
+export type ExtractedPage = ReturnType<typeof emptyPage> & { text_lines?: Array<ExtractedTextLine> };
+
+export type ExtractedDocument = { document: { pages: Array<ExtractedPage> } };
+
+export type ExtractionFormatAdapter = {
+  id: string;
+  label: string;
+  // Whether `raw` (already parsed from JSON) is in this format
+  detect: (raw: unknown) => boolean;
+  // Canonical document_data; undefined when nothing usable is left after conversion
+  convert: (raw: unknown) => ExtractedDocument | undefined;
+};
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => !!v && typeof v === "object" && !Array.isArray(v);
+// Properties of `v`, none when it is not an object
+const objectOf = (v: unknown): Json => (isObject(v) ? v : {});
+
+const toNum = (v: unknown) => (v === null || v === undefined || v === "" ? NaN : Number(v));
+const emptyField = (): ExtractedField => ({ value: "", bounding_box: [] });
+
+// A canonical page with every header field present and empty
+function emptyPage(page_number: number) {
+  return {
+    page_number,
+    metadata: { document_title: emptyField(), date: emptyField(), purchase_order_no: emptyField() },
+    parties: {
+      vendor_information: {
+        vendor_name: emptyField(),
+        address: emptyField(),
+        contact_no: emptyField(),
+        sales_person: emptyField(),
+      },
+    },
+    customerparties: {
+      customer_information: {
+        customer_name: emptyField(),
+        address: emptyField(),
+        contact_no: emptyField(),
+        contact_person: emptyField(),
+        email_address: emptyField(),
+      },
+    },
+    items: [] as Array<ExtractedItem>,
+    other_information: [] as Array<Record<string, ExtractedField>>,
+  };
+}
+
+const byPageNumber = (a: { page_number: number }, b: { page_number: number }) => a.page_number - b.page_number;
+
+// Page of a [x1,y1,x2,y2,p] box or { ..., page } object; undefined when it has none
+const pageOfBox = (b: unknown): number | undefined => {
+  const p = toNum(Array.isArray(b) ? b[4] : objectOf(b).page);
+  return Number.isFinite(p) ? p : undefined;
+};
+
+// A [x1,y1,x2,y2(,p)] box with numeric edges; undefined when it is not one
+function boxOf(b: unknown): ExtractedBox | undefined {
+  if (!Array.isArray(b) || b.length < 4) return undefined;
+  const [x1, y1, x2, y2] = b.slice(0, 4).map(toNum);
+  if (![x1, y1, x2, y2].every(Number.isFinite)) return undefined;
+  const page = pageOfBox(b);
+  return page === undefined ? [x1, y1, x2, y2] : [x1, y1, x2, y2, page];
+}
+
+const hasPages = (raw: unknown) => {
+  const pages = objectOf(objectOf(raw).document).pages;
+  return Array.isArray(pages) && pages.length > 0;
+};
+
+// Canonical pages format: document.pages[] with per-page header fields, items and notes
+const pagesFormat: ExtractionFormatAdapter = {
+  id: "pages",
+  label: "Pages (document.pages)",
+  detect: hasPages,
+  // Already canonical; the pages are passed through as the extractor wrote them
+  convert: (raw) => (hasPages(raw) ? (raw as ExtractedDocument) : undefined),
+};
+
+// Compact pair format: document.metadata/parties/items with [value, [x1,y1,x2,y2,p]] fields.
+// Every field and item keeps the page of its own box, and each physical page gets its own pages[]
+// entry; header fields a page does not hold are left empty there.
+const pairFormat: ExtractionFormatAdapter = {
+  id: "pairs",
+  label: "Value/box pairs",
+  detect: (raw) => {
+    const doc = objectOf(raw).document;
+    if (!isObject(doc) || Array.isArray(doc.pages) || !isObject(doc.metadata)) return false;
+    const md = doc.metadata;
+    return Array.isArray(md.document_type) || Array.isArray(md.date) || Array.isArray(md.purchase_order_no);
+  },
+  convert: (raw) => {
+    const fromPair = (pair: unknown): ExtractedField => {
+      // Accept both new [value, [x1,y1,x2,y2,p]] and old { value, bounding_box } shapes
+      if (Array.isArray(pair) && pair.length >= 2 && Array.isArray(pair[1])) {
+        const box = boxOf(pair[1]);
+        return { value: String(pair[0] ?? ""), bounding_box: box ? [box] : [] };
+      }
+      if (isObject(pair) && "value" in pair && Array.isArray(pair.bounding_box)) {
+        // Already a field; its boxes stay in the shape the extractor wrote them in
+        return pair as ExtractedField;
+      }
+      return { value: String(pair ?? ""), bounding_box: [] };
+    };
+    const pageOfField = (field: ExtractedField) =>
+      field.bounding_box.map(pageOfBox).find((p): p is number => p !== undefined);
+    // Box of a [value, box] pair, as given
+    const boxOfPair = (pair: unknown) => (Array.isArray(pair) ? pair[1] : undefined);
+
+    const combineBoxes = (boxes: Array<unknown>, fallbackPage: number): Array<ExtractedBox> => {
+      // Combine [x1,y1,x2,y2,p] boxes into one encompassing box per page, so a row crossing a page
+      // break keeps a box on each page; boxes without a page belong to `fallbackPage`
+      const byPage = new Map<number, Array<ExtractedBox>>();
+      for (const b of boxes) {
+        const box = boxOf(b);
+        if (!box) continue;
+        const page = box[4] ?? fallbackPage;
+        byPage.set(page, [...(byPage.get(page) ?? []), box]);
+      }
+      return Array.from(byPage.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([page, coords]) => [
+          Math.min(...coords.map((c) => c[0])),
+          Math.min(...coords.map((c) => c[1])),
+          Math.max(...coords.map((c) => c[2])),
+          Math.max(...coords.map((c) => c[3])),
+          page,
+        ]);
+    };
+
+    const doc = objectOf(objectOf(raw).document);
+    const md = objectOf(doc.metadata);
+    const parties = objectOf(doc.parties);
+    const vendor = objectOf(parties.vendor_information || parties.vendor);
+    const customer = objectOf(parties.customer_information || parties.customer);
+
+    const items: Array<unknown> = Array.isArray(doc.items) ? doc.items : [];
+    const otherInfoObj = objectOf(doc.other_information);
+
+    const metadata = {
+      document_title: fromPair(md.document_type),
+      date: fromPair(md.date),
+      purchase_order_no: fromPair(md.purchase_order_no),
+    };
+    // Sales person may not exist in this format
+    const vendor_information = {
+      vendor_name: fromPair(vendor.vendor_name),
+      address: fromPair(vendor.address),
+      contact_no: fromPair(vendor.contact_no),
+      sales_person: fromPair(vendor.sales_person),
+    };
+    // Email may be missing
+    const customer_information = {
+      customer_name: fromPair(customer.customer_name),
+      address: fromPair(customer.address),
+      contact_no: fromPair(customer.contact_no),
+      contact_person: fromPair(customer.contact_person),
+      email_address: fromPair(customer.email_address),
+    };
+
+    // Header fields without a page of their own go with the metadata (or the first page)
+    const headerPage = Object.values(metadata).map(pageOfField).find((p) => p !== undefined) ?? 1;
+
+    const pages = new Map<number, ReturnType<typeof emptyPage>>();
+    const pageEntry = (page_number: number) => {
+      let entry = pages.get(page_number);
+      if (!entry) {
+        entry = emptyPage(page_number);
+        pages.set(page_number, entry);
+      }
+      return entry;
+    };
+    pageEntry(headerPage);
+
+    const placeFields = (
+      fields: Record<string, ExtractedField>,
+      target: (entry: ExtractedPage) => Record<string, ExtractedField>,
+    ) => {
+      for (const [key, field] of Object.entries(fields)) {
+        target(pageEntry(pageOfField(field) ?? headerPage))[key] = field;
+      }
+    };
+    placeFields(metadata, (entry) => entry.metadata);
+    placeFields(vendor_information, (entry) => entry.parties.vendor_information);
+    placeFields(customer_information, (entry) => entry.customerparties.customer_information);
+
+    // Items go on the page they start on, with one row box per page they cover
+    for (const item of items) {
+      const it = objectOf(item);
+      const details = fromPair(it.details);
+      const quantity = fromPair(it.quantity);
+      const unit_price = fromPair(it.unit_price);
+      const total = fromPair(it.total);
+
+      const candidateBoxes = [it.item_no, it.details, it.unit, it.quantity, it.unit_price, it.total]
+        .map(boxOfPair)
+        .filter(Array.isArray);
+      const boxPages = candidateBoxes.map(pageOfBox).filter((p): p is number => p !== undefined);
+      const page = boxPages.length ? Math.min(...boxPages) : headerPage;
+      const bounding_box = combineBoxes(candidateBoxes, page);
+      // Pages an item continues on exist even when nothing else is extracted from them
+      for (const box of bounding_box) pageEntry(box[4] ?? page);
+
+      pageEntry(page).items.push({
+        description: details.value || "",
+        quantity: quantity.value || "",
+        unit_price: unit_price.value || "",
+        total: total.value || "",
+        bounding_box,
+      });
+    }
+
+    // Map other_information object => array of objects with FieldValue, on the page of each value
+    for (const [key, pair] of Object.entries(otherInfoObj)) {
+      const field = fromPair(pair);
+      pageEntry(pageOfField(field) ?? headerPage).other_information.push({ [key]: field });
+    }
+
+    return { document: { pages: Array.from(pages.values()).sort(byPageNumber) } };
+  },
+};
+
+type Edges = [number, number, number, number];
+
+// Edges [x1, y1, x2, y2] of an OCR geometry: [x1,y1,x2,y2], corner points [[x,y], ...] or
+// [{x,y}, ...], and edge or origin + size objects (x0/y0/x1/y1, left/top/width/height, ...)
+function edgesOf(g: unknown): Edges | undefined {
+  if (Array.isArray(g)) {
+    const values: Array<unknown> = g;
+    if (values.length >= 4 && values.slice(0, 4).every((n) => Number.isFinite(toNum(n)))) {
+      const [x1, y1, x2, y2] = values.map(toNum);
+      return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+    }
+    const points = values
+      .map((p) => (Array.isArray(p) ? [toNum(p[0]), toNum(p[1])] : [toNum(objectOf(p).x), toNum(objectOf(p).y)]))
+      .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y));
+    if (points.length < 2) return undefined;
+    const xs = points.map((p) => p[0]);
+    const ys = points.map((p) => p[1]);
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+  }
+  if (!isObject(g)) return undefined;
+  const x1 = toNum(g.x0 ?? g.x1 ?? g.left ?? g.x ?? g.minX);
+  const y1 = toNum(g.y0 ?? g.y1 ?? g.top ?? g.y ?? g.minY);
+  if (!Number.isFinite(x1) || !Number.isFinite(y1)) return undefined;
+  const width = toNum(g.width ?? g.w);
+  const height = toNum(g.height ?? g.h);
+  if (Number.isFinite(width) && Number.isFinite(height)) return [x1, y1, x1 + width, y1 + height];
+  // x0/y0 pairs with x1/y1, x1/y1 with x2/y2
+  const x2 = toNum("x0" in g ? g.x1 : (g.x2 ?? g.right ?? g.maxX));
+  const y2 = toNum("y0" in g ? g.y1 : (g.y2 ?? g.bottom ?? g.maxY));
+  return Number.isFinite(x2) && Number.isFinite(y2) ? [x1, y1, x2, y2] : undefined;
+}
+
+// Size of an OCR page in the units of its geometry: width/height, or dimensions as an object or as
+// docTR's [height, width]
+type OcrPageSize = { width?: unknown; height?: unknown };
+
+function ocrPageSizeOf(
+  page: (OcrPageSize & { dimensions?: unknown; size?: unknown }) | undefined,
+): { width: number; height: number } | undefined {
+  const dims = page?.dimensions ?? page?.size;
+  const named = dims && typeof dims === "object" ? (dims as OcrPageSize) : undefined;
+  const [width, height] = Array.isArray(dims)
+    ? [toNum(dims[1]), toNum(dims[0])]
+    : [toNum(page?.width ?? named?.width), toNum(page?.height ?? named?.height)];
+  return width > 0 && height > 0 ? { width, height } : undefined;
+}
+
+// Pixel edges may overshoot the page by rounding; anything further off is not on this page
+const EDGE_TOLERANCE = 0.01;
+
+// Unit edges of an OCR geometry. Relative geometry is kept and pixel geometry divided by the page
+// size; without a page size there is no telling where pixels are, so the box is dropped rather than
+// guessed (geometry.ts would read small pixel values as thousandths of the page).
+function unitEdgesOf(edges: Edges | undefined, size: { width: number; height: number } | undefined): Edges | undefined {
+  if (!edges) return undefined;
+  if (edges.every((n) => n >= 0 && n <= 1)) return edges;
+  if (!size) return undefined;
+  const unit: Edges = [edges[0] / size.width, edges[1] / size.height, edges[2] / size.width, edges[3] / size.height];
+  if (!unit.every((n) => n >= -EDGE_TOLERANCE && n <= 1 + EDGE_TOLERANCE)) return undefined;
+  return unit.map((n) => Math.min(1, Math.max(0, n))) as Edges;
+}
+
+const geometryOf = (node: unknown) => {
+  const n = objectOf(node);
+  return edgesOf(n.bbox ?? n.boundingBox ?? n.bounding_box ?? n.geometry ?? n.box ?? n.polygon);
+};
+
+const textOf = (node: unknown) => {
+  const n = objectOf(node);
+  const t = n.text ?? n.value ?? n.content;
+  return typeof t === "string" || typeof t === "number" ? String(t) : "";
+};
+
+// Entries of `v` when it is an array, else none
+const arrayOf = (v: unknown): Array<unknown> => (Array.isArray(v) ? v : []);
+
+const ocrPagesOf = (raw: unknown): Array<unknown> | undefined => {
+  const { pages, document } = objectOf(raw);
+  const documentPages = objectOf(document).pages;
+  return Array.isArray(pages) ? pages : Array.isArray(documentPages) ? documentPages : undefined;
+};
+
+const ocrLinesOf = (page: unknown): Array<unknown> => {
+  const { blocks, lines } = objectOf(page);
+  return Array.isArray(blocks) ? blocks.flatMap((b: unknown) => arrayOf(objectOf(b).lines)) : arrayOf(lines);
+};
+
+// Generic OCR output: pages → blocks → lines → words (blocks optional), each with text and geometry.
+// Header fields stay empty; the recognized lines and words go to text_lines of their page, where
+// the mapping ledger finds evidence for SAP values. Boxes are stored in unit page space, normalized
+// with the page size the payload gives; words and lines whose geometry cannot be normalized keep
+// their text without a box.
+const ocrWordFormat: ExtractionFormatAdapter = {
+  id: "ocr-words",
+  label: "OCR words and lines",
+  detect: (raw) =>
+    !!ocrPagesOf(raw)?.some((page) => {
+      const { blocks, lines } = objectOf(page);
+      return Array.isArray(blocks) || arrayOf(lines).some((l) => Array.isArray(objectOf(l).words));
+    }),
+  convert: (raw) => {
+    const pages = (ocrPagesOf(raw) ?? []).map((page, i): ExtractedPage => {
+      const p = objectOf(page);
+      const explicit = toNum(p.page_number ?? p.page ?? p.pageNumber);
+      const index = toNum(p.page_idx ?? p.pageIndex);
+      const page_number = Number.isFinite(explicit) ? explicit : Number.isFinite(index) ? index + 1 : i + 1;
+      const size = ocrPageSizeOf(p);
+      const boxesOf = (edges: Edges | undefined): Array<ExtractedBox> => (edges ? [[...edges, page_number]] : []);
+
+      const text_lines: Array<ExtractedTextLine> = [];
+      for (const line of ocrLinesOf(p)) {
+        const words = arrayOf(objectOf(line).words)
+          .map((w): ExtractedField & { confidence?: number } => {
+            const confidence = toNum(objectOf(w).confidence ?? objectOf(w).conf);
+            return {
+              value: textOf(w),
+              bounding_box: boxesOf(unitEdgesOf(geometryOf(w), size)),
+              ...(Number.isFinite(confidence) ? { confidence } : {}),
+            };
+          })
+          .filter((w) => w.value.trim());
+        const value = textOf(line) || words.map((w) => w.value).join(" ");
+        if (!value.trim()) continue;
+        // Lines without geometry of their own span their words
+        const wordEdges = words.flatMap((w) => w.bounding_box.slice(0, 1));
+        const edges: Edges | undefined =
+          unitEdgesOf(geometryOf(line), size) ??
+          (wordEdges.length
+            ? [
+                Math.min(...wordEdges.map((b) => b[0])),
+                Math.min(...wordEdges.map((b) => b[1])),
+                Math.max(...wordEdges.map((b) => b[2])),
+                Math.max(...wordEdges.map((b) => b[3])),
+              ]
+            : undefined);
+        text_lines.push({ value, bounding_box: boxesOf(edges), words });
+      }
+      return { ...emptyPage(page_number), text_lines };
+    });
+    return { document: { pages: pages.sort(byPageNumber) } };
+  },
+};
+
+// Later registrations are tried first, so a vendor adapter can claim a shape a built-in also accepts
+const adapters: Array<ExtractionFormatAdapter> = [ocrWordFormat, pairFormat, pagesFormat];
+
+/**
+ * Add an adapter, or replace the one with the same id. It is tried before the adapters registered
+ * earlier (the built-ins included).
+ */
+export function registerExtractionFormat(adapter: ExtractionFormatAdapter) {
+  const existing = adapters.findIndex((a) => a.id === adapter.id);
+  if (existing !== -1) adapters.splice(existing, 1);
+  adapters.unshift(adapter);
+}
+
+export const extractionFormats = (): ReadonlyArray<ExtractionFormatAdapter> => adapters;
+
+const parsed = (raw: unknown): unknown => {
+  if (typeof raw !== "string") return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+// Adapter for extraction output (an object or its JSON text); undefined when no adapter knows it
+export function detectExtractionFormat(raw: unknown): ExtractionFormatAdapter | undefined {
+  const obj = parsed(raw);
+  if (!obj || typeof obj !== "object") return undefined;
+  return adapters.find((a) => {
+    try {
+      return a.detect(obj);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Canonical document_data for extraction output in any registered format, with the id of the
+ * format it was read as. Undefined when no adapter recognizes it or the result has no pages.
+ */
+export function toDocumentData(raw: unknown): { format: string; data: ExtractedDocument } | undefined {
+  const obj = parsed(raw);
+  const adapter = detectExtractionFormat(obj);
+  if (!adapter) return undefined;
+  try {
+    const data = adapter.convert(obj);
+    return Array.isArray(data?.document?.pages) && data.document.pages.length > 0
+      ? { format: adapter.id, data }
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -1,8 +1,13 @@
 import { httpRouter } from "convex/server";
 import { auth } from "./auth";
+import { documentExtracted, salesOrderResult } from "./inboundWebhooks";
 
 const http = httpRouter();
 
 auth.addHttpRoutes(http);
 
+// Signed callbacks from the n8n pipeline and the SAP middleware (see inboundWebhooks.ts)
+http.route({ path: "/webhooks/n8n/document", method: "POST", handler: documentExtracted });
+http.route({ path: "/webhooks/sap/sales-order", method: "POST", handler: salesOrderResult });
+
 export default http;
@@ -0,0 +1,228 @@
+import { v } from "convex/values";
+import { httpAction, internalMutation, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { upsertN8nRow } from "./documents";
+import { SapResponse, WORKFLOW_STATUS } from "./schema";
+import { hmacSha256Hex, timingSafeEqualHex } from "./webhookPayload";
+import { applyTransition, workflowStatusOf } from "./workflow";
+
+// Requests signed further than this from the server clock are refused; receipts are kept for twice as long
+const SIGNATURE_TOLERANCE_MS = 5 * 60_000;
+const RECEIPT_RETENTION_MS = 2 * SIGNATURE_TOLERANCE_MS;
+const RECEIPT_CLEANUP_BATCH = 50;
+
+type CallbackResult = { status: number; body: Record<string, unknown> };
+
+const json = ({ status, body }: CallbackResult) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const getInboundSecret = () => process.env.WEBHOOK_INBOUND_SECRET || process.env.WEBHOOK_SECRET;
+
+/**
+ * Verify the X-Webhook-Signature / X-Webhook-Timestamp headers with the scheme used for outbound
+ * webhooks: HMAC-SHA256 over method, path, query, timestamp and body joined by newlines.
+ */
+async function verifySignature(
+  request: Request,
+  body: string,
+): Promise<{ ok: true; signature: string } | { ok: false; result: CallbackResult }> {
+  const secret = getInboundSecret();
+  if (!secret) {
+    return { ok: false, result: { status: 503, body: { error: "Inbound webhooks are not configured" } } };
+  }
+
+  const signature = request.headers.get("X-Webhook-Signature")?.trim().toLowerCase();
+  const timestamp = request.headers.get("X-Webhook-Timestamp")?.trim();
+  if (!signature || !timestamp) {
+    return { ok: false, result: { status: 401, body: { error: "Missing signature headers" } } };
+  }
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > SIGNATURE_TOLERANCE_MS) {
+    return { ok: false, result: { status: 401, body: { error: "Signature timestamp outside the allowed window" } } };
+  }
+
+  const url = new URL(request.url);
+  const expected = await hmacSha256Hex(
+    secret,
+    [request.method, url.pathname, url.search, timestamp, body].join("\n"),
+  );
+  if (!timingSafeEqualHex(signature, expected)) {
+    return { ok: false, result: { status: 401, body: { error: "Invalid signature" } } };
+  }
+  return { ok: true, signature };
+}
+
+/**
+ * Record the signature of an accepted callback; false if it was seen before (a replay).
+ * Also drops receipts that are past the timestamp window.
+ */
+async function claimReceipt(ctx: MutationCtx, signature: string, route: string) {
+  const seen = await ctx.db
+    .query("webhookReceipts")
+    .withIndex("by_signature", (q) => q.eq("signature", signature))
+    .first();
+  if (seen) return false;
+
+  const now = Date.now();
+  await ctx.db.insert("webhookReceipts", { signature, route, receivedAt: now });
+  const expired = await ctx.db
+    .query("webhookReceipts")
+    .withIndex("by_receivedAt", (q) => q.lt("receivedAt", now - RECEIPT_RETENTION_MS))
+    .take(RECEIPT_CLEANUP_BATCH);
+  for (const receipt of expired) {
+    await ctx.db.delete(receipt._id);
+  }
+  return true;
+}
+
+const replayResult: CallbackResult = { status: 409, body: { error: "Duplicate request" } };
+
+/**
+ * A document was extracted by the n8n pipeline: upsert it from its "N8N Logs" row.
+ */
+export const recordDocumentExtracted = internalMutation({
+  args: { signature: v.string(), row: v.any() },
+  handler: async (ctx, args): Promise<CallbackResult> => {
+    if (!(await claimReceipt(ctx, args.signature, "document"))) {
+      return replayResult;
+    }
+    const result = await upsertN8nRow(ctx, args.row);
+    if (!result) {
+      return { status: 400, body: { error: "Row has no id, or is new and has no creation time" } };
+    }
+    const doc = await ctx.db.get(result.documentId);
+    return {
+      status: 200,
+      body: { ok: true, inserted: result.inserted, status: doc ? workflowStatusOf(doc) : null },
+    };
+  },
+});
+
+/**
+ * The SAP middleware created or rejected the sales order of a submitted document.
+ * The response is stored on the document; created moves it to confirmed, rejected to rejected.
+ */
+export const recordSalesOrderResult = internalMutation({
+  args: {
+    signature: v.string(),
+    id: v.string(),
+    result: v.union(v.literal("created"), v.literal("rejected")),
+    sapDocumentNumber: v.optional(v.string()),
+    messages: v.array(v.object({ type: v.optional(v.string()), text: v.string() })),
+  },
+  handler: async (ctx, args): Promise<CallbackResult> => {
+    if (!(await claimReceipt(ctx, args.signature, "sales-order"))) {
+      return replayResult;
+    }
+    const doc = await ctx.db
+      .query("documents")
+      .withIndex("by_externalId", (q) => q.eq("externalId", args.id))
+      .unique();
+    if (!doc) {
+      return { status: 404, body: { error: "Document not found" } };
+    }
+
+    const sapResponse: SapResponse = {
+      result: args.result,
+      sapDocumentNumber: args.sapDocumentNumber,
+      messages: args.messages,
+      receivedAt: Date.now(),
+    };
+    await ctx.db.patch(doc._id, { sapResponse });
+
+    const from = workflowStatusOf(doc);
+    const target = args.result === "created" ? WORKFLOW_STATUS.CONFIRMED : WORKFLOW_STATUS.REJECTED;
+    if (from === target) {
+      return { status: 200, body: { ok: true, status: from } };
+    }
+
+    // Approved is accepted too: the callback may arrive before the delivery was marked as sent
+    if (from !== WORKFLOW_STATUS.SUBMITTED && from !== WORKFLOW_STATUS.APPROVED) {
+      return { status: 409, body: { error: `Document is ${from}; SAP response stored without a status change` } };
+    }
+    let current = doc;
+    if (target === WORKFLOW_STATUS.CONFIRMED && from === WORKFLOW_STATUS.APPROVED) {
+      await applyTransition(ctx, doc, WORKFLOW_STATUS.SUBMITTED);
+      current = (await ctx.db.get(doc._id)) ?? doc;
+    }
+
+    const reason =
+      target === WORKFLOW_STATUS.REJECTED
+        ? args.messages.map((m) => m.text).join("; ") || "Rejected by SAP"
+        : undefined;
+    const status = await applyTransition(ctx, current, target, undefined, reason);
+    return { status: 200, body: { ok: true, status } };
+  },
+});
+
+const readSignedJson = async (request: Request) => {
+  const body = await request.text();
+  const verified = await verifySignature(request, body);
+  if (!verified.ok) {
+    return verified;
+  }
+  try {
+    return { ok: true as const, signature: verified.signature, payload: JSON.parse(body) as unknown };
+  } catch {
+    return { ok: false as const, result: { status: 400, body: { error: "Body must be JSON" } } };
+  }
+};
+
+/**
+ * POST /webhooks/n8n/document — body: the "N8N Logs" row, or `{ row }`.
+ */
+export const documentExtracted = httpAction(async (ctx, request) => {
+  const parsed = await readSignedJson(request);
+  if (!parsed.ok) {
+    return json(parsed.result);
+  }
+  const payload = parsed.payload as { row?: unknown } | null;
+  const row = payload && typeof payload === "object" && "row" in payload ? payload.row : payload;
+  const result = await ctx.runMutation(internal.inboundWebhooks.recordDocumentExtracted, {
+    signature: parsed.signature,
+    row,
+  });
+  return json(result);
+});
+
+/**
+ * POST /webhooks/sap/sales-order — body:
+ * `{ id, result: "created" | "rejected", sapDocumentNumber?, messages?: Array<string | { type?, text }> }`.
+ */
+export const salesOrderResult = httpAction(async (ctx, request) => {
+  const parsed = await readSignedJson(request);
+  if (!parsed.ok) {
+    return json(parsed.result);
+  }
+  const payload = (parsed.payload ?? {}) as Record<string, unknown>;
+  const id = payload.id === undefined || payload.id === null ? "" : String(payload.id);
+  const result = payload.result;
+  if (!id || (result !== "created" && result !== "rejected")) {
+    return json({ status: 400, body: { error: 'Expected an id and result "created" or "rejected"' } });
+  }
+
+  const messages = (Array.isArray(payload.messages) ? payload.messages : [])
+    .map((m) => {
+      if (typeof m === "string") return { text: m };
+      if (m && typeof m === "object" && typeof m.text === "string") {
+        return { text: m.text, type: typeof m.type === "string" ? m.type : undefined };
+      }
+      return null;
+    })
+    .filter((m): m is { text: string; type?: string } => m !== null);
+
+  const outcome = await ctx.runMutation(internal.inboundWebhooks.recordSalesOrderResult, {
+    signature: parsed.signature,
+    id,
+    result,
+    sapDocumentNumber:
+      payload.sapDocumentNumber === undefined || payload.sapDocumentNumber === null
+        ? undefined
+        : String(payload.sapDocumentNumber),
+    messages,
+  });
+  return json(outcome);
+});
@@ -0,0 +1,722 @@
+/**
+ * Normalization of rows from the Supabase "N8N Logs" table into the typed `documents` shape.
+ * The n8n workflow writes rows with inconsistent column names, so all column probing lives here
+ * and runs once at import time instead of in every page that reads a document.
+ */
+import type { DocumentSortKeys } from './schema';
+import { toDocumentData } from './extractionFormats';
+
+// Add robust helpers to normalize mail content into safe HTML
+const escapeHtml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+
+const textToHtml = (s: string) => {
+  const safe = escapeHtml(s);
+  // Convert double newlines to paragraphs and single newlines to <br/>
+  return safe
+    .split(/\n{2,}/)
+    .map((para: string) => `<p>${para.replace(/\n/g, "<br/>")}</p>`)
+    .join("");
+};
+
+const looksLikeJson = (s: string) => {
+  const t = s.trim();
+  return (t.startsWith("{") && t.endsWith("}")) || (t.startsWith("[") && t.endsWith("]"));
+};
+
+const tryParseJson = (s: string): any | null => {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return null;
+  }
+};
+
+const tryDecodeBase64 = (s: string): string | null => {
+  try {
+    // Remove whitespace that may be present in logged payloads
+    const trimmed = s.replace(/\s+/g, "");
+    if (!/^[A-Za-z0-9+/=]+$/.test(trimmed) || trimmed.length % 4 !== 0) return null;
+    const decoded = atob(trimmed);
+    // Check if mostly printable to avoid showing binary
+    const printable = decoded.split("").filter((c) => /[\x09\x0A\x0D\x20-\x7E]/.test(c)).length;
+    if (decoded.length === 0) return null;
+    if (printable / decoded.length < 0.85) return null;
+    return decoded;
+  } catch {
+    return null;
+  }
+};
+
+// Prefer HTML fields, then plain text, then anything string-like
+const pickMailField = (obj: any): string | undefined => {
+  if (!obj || typeof obj !== "object") return undefined;
+
+  const htmlKeys: string[] = [
+    "html",
+    "HTML",
+    "body_html",
+    "html_body",
+    "content_html",
+    "message_html",
+    "bodyAsHtml",
+  ];
+  const textKeys: string[] = [
+    "text",
+    "Text",
+    "plain",
+    "plain_text",
+    "body_text",
+    "text_body",
+    "textBody",
+    "message",
+    "Message",
+    "body",
+    "Body",
+    "email_body",
+    "Email Body",
+    "emailBody",
+    "bodyAsText",
+    "content",
+    "Content",
+  ];
+
+  for (const k of htmlKeys) {
+    const v = (obj as any)[k];
+    if (typeof v === "string" && v.trim()) return v;
+  }
+  for (const k of textKeys) {
+    const v = (obj as any)[k];
+    if (typeof v === "string" && v.trim()) return v;
+  }
+
+  // Some providers wrap content in arrays or nested objects
+  for (const k of Object.keys(obj)) {
+    const v = (obj as any)[k];
+    if (typeof v === "string" && v.trim()) return v;
+    if (v && typeof v === "object") {
+      const inner = pickMailField(v);
+      if (inner) return inner;
+    }
+    if (Array.isArray(v)) {
+      for (const item of v) {
+        const inner = typeof item === "string" ? item : pickMailField(item);
+        if (inner && String(inner).trim()) return String(inner);
+      }
+    }
+  }
+
+  return undefined;
+};
+
+const getMailContent = (row: any): string => {
+  const directKeys: Array<string> = [
+    "mail_content",
+    "Mail Content",
+    "Mail content",
+    "mail content",
+    "mailContent",
+    "html",
+    "HTML",
+    "body",
+    "Body",
+    "content",
+    "Content",
+    "message",
+    "Message",
+    "text",
+    "Text",
+    "email_body",
+    "Email Body",
+    "emailBody",
+    "body_html",
+    "html_body",
+    "content_html",
+    "message_html",
+    "body_text",
+    "text_body",
+    "textBody",
+    "plain_text",
+    "bodyAsHtml",
+    "bodyAsText",
+    "raw", // sometimes raw payload holds the body
+  ];
+
+  const containers = ["data", "payload", "mail", "email", "message", "raw"];
+
+  const normalizeAnyToHtml = (val: any): string => {
+    if (val == null) return "";
+    if (typeof val === "string") {
+      const s = val.trim();
+      if (!s) return "";
+      // JSON-encoded string?
+      if (looksLikeJson(s)) {
+        const parsed = tryParseJson(s);
+        if (parsed) return normalizeAnyToHtml(parsed);
+      }
+      // Base64-encoded?
+      const maybeDecoded = tryDecodeBase64(s);
+      if (maybeDecoded) {
+        // If decoded contains HTML tags, use as-is; else treat as text
+        if (/[<>]/.test(maybeDecoded)) return maybeDecoded;
+        return textToHtml(maybeDecoded);
+      }
+      // If contains HTML tags, treat as HTML; otherwise treat as plain text
+      if (/[<>]/.test(s)) return s;
+      return textToHtml(s);
+    }
+    if (Array.isArray(val)) {
+      const joined = val
+        .map((item) => (typeof item === "string" ? item : pickMailField(item) ?? ""))
+        .filter(Boolean)
+        .join("\n\n");
+      return normalizeAnyToHtml(joined);
+    }
+    if (typeof val === "object") {
+      const picked = pickMailField(val);
+      if (picked) return normalizeAnyToHtml(picked);
+      // last resort stringify
+      try {
+        return textToHtml(JSON.stringify(val, null, 2));
+      } catch {
+        return "";
+      }
+    }
+    // numbers/booleans
+    return textToHtml(String(val));
+  };
+
+  // 1) Try direct keys on row
+  for (const k of directKeys) {
+    const candidate = row?.[k];
+    if (candidate == null) continue;
+    const html = normalizeAnyToHtml(candidate);
+    if (html) return html;
+  }
+
+  // 2) Try common nested containers
+  for (const c of containers) {
+    const nested = row?.[c];
+    if (!nested) continue;
+
+    // direct pick within the container
+    const picked = pickMailField(nested);
+    if (picked) {
+      const html = normalizeAnyToHtml(picked);
+      if (html) return html;
+    }
+
+    // scan deeper
+    const html = normalizeAnyToHtml(nested);
+    if (html) return html;
+  }
+
+  // 3) Full object scan as fallback
+  const fallback = pickMailField(row);
+  if (fallback) {
+    const html = normalizeAnyToHtml(fallback);
+    if (html) return html;
+  }
+
+  return "";
+};
+
+// Add: robust email extraction helpers for CC parsing
+const emailRegex = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+const extractEmailsFromString = (s: string): string[] => {
+  if (!s) return [];
+  const matches = s.match(emailRegex) || [];
+  // Normalize and uniq
+  const uniq = Array.from(new Set(matches.map((m) => m.trim())));
+  return uniq;
+};
+
+const deepCollectEmails = (val: any, acc: Set<string>): void => {
+  if (!val) return;
+  if (typeof val === "string") {
+    for (const e of extractEmailsFromString(val)) acc.add(e);
+    return;
+  }
+  if (Array.isArray(val)) {
+    for (const item of val) deepCollectEmails(item, acc);
+    return;
+  }
+  if (typeof val === "object") {
+    // Common direct fields
+    const direct = (val as any).value ?? (val as any).address ?? (val as any).email ?? "";
+    if (typeof direct === "string") {
+      for (const e of extractEmailsFromString(direct)) acc.add(e);
+    } else if (direct) {
+      deepCollectEmails(direct, acc);
+    }
+    // Walk all keys conservatively
+    for (const k of Object.keys(val)) {
+      deepCollectEmails((val as any)[k], acc);
+    }
+  }
+};
+
+const parseCCEmails = (field: any): string[] => {
+  const acc: Set<string> = new Set();
+
+  const fromArrayLike = (arr: any[]): string[] => {
+    for (const item of arr) {
+      if (typeof item === "string") {
+        for (const e of extractEmailsFromString(item)) acc.add(e);
+      } else if (item && typeof item === "object") {
+        // Common shapes: { value }, { address }, { email }, or nested
+        const v = (item as any).value ?? (item as any).address ?? (item as any).email ?? item;
+        deepCollectEmails(v, acc);
+      }
+    }
+    return Array.from(acc);
+  };
+
+  // Arrays
+  if (Array.isArray(field)) {
+    return fromArrayLike(field);
+  }
+
+  // Strings (could be JSON, CSV, or semicolon separated)
+  if (typeof field === "string") {
+    const trimmed = field.trim();
+    // JSON-looking string?
+    if (
+      (trimmed.startsWith("{") && trimmed.endsWith("}")) ||
+      (trimmed.startsWith("[") && trimmed.endsWith("]"))
+    ) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        return parseCCEmails(parsed);
+      } catch {
+        // fall through
+      }
+    }
+    // Extract emails from any free-form string, supporting commas/semicolons etc.
+    const emails = extractEmailsFromString(trimmed);
+    if (emails.length) return emails;
+    // As a last resort, split by comma/semicolon and trim
+    const splitGuess = trimmed
+      .split(/[,;]+/)
+      .map((s) => s.trim())
+      .filter(Boolean);
+    for (const part of splitGuess) {
+      for (const e of extractEmailsFromString(part)) acc.add(e);
+    }
+    return Array.from(acc);
+  }
+
+  // Objects
+  if (field && typeof field === "object") {
+    // Known array candidates
+    const arrCandidates =
+      (field as any).cc ??
+      (field as any).CC ??
+      (field as any).cc_emails ??
+      (field as any).recipients ??
+      (field as any).Recipients ??
+      (field as any).addresses ??
+      (field as any).emails ??
+      (field as any).list ??
+      (field as any).to ??
+      (field as any).To ??
+      (field as any).value; // sometimes value is an array
+
+    if (Array.isArray(arrCandidates)) {
+      return fromArrayLike(arrCandidates);
+    }
+
+    // Single value candidates
+    const single =
+      (field as any).value ??
+      (field as any).address ??
+      (field as any).email ??
+      (field as any).recipient ??
+      (field as any).Recipient ??
+      (field as any).user ??
+      (field as any).User;
+
+    if (single != null) {
+      deepCollectEmails(single, acc);
+      if (acc.size) return Array.from(acc);
+    }
+
+    // Deep scan as final fallback
+    deepCollectEmails(field, acc);
+    if (acc.size) return Array.from(acc);
+  }
+
+  return [];
+};
+
+const parseEmailField = (field: any): string => {
+  if (!field) return '';
+  if (typeof field === 'string') return field;
+  if (Array.isArray(field) && field.length > 0) {
+    const first = field[0];
+    if (typeof first === 'string') return first;
+    if (first?.value) return first.value;
+    if (first?.address) return first.address;
+    if (first?.email) return first.email;
+  }
+  if (field.value) return field.value;
+  if (field.address) return field.address;
+  if (field.email) return field.email;
+  return '';
+};
+
+const coerceDocumentData = (row: any) => {
+  const candidates = [
+    row?.PDF_AI_OUTPUT,
+    row?.['PDF_AI_OUTPUT'],
+    row?.pdf_ai_output,
+    row?.document_data,
+    row?.data,
+    row?.json,
+    row?.payload,
+    row?.['Document Data'],
+    row?.['document_data'],
+    row?.['Data'],
+  ];
+  for (const cand of candidates) {
+    // Any registered extraction format, converted to the pages shape the UI reads
+    const converted = toDocumentData(cand);
+    if (converted) return converted.data;
+  }
+  return undefined;
+};
+
+const isSapLike = (obj: any): boolean => {
+  if (!obj || typeof obj !== 'object') return false;
+  const hasSub =
+    Array.isArray(obj.to_Item) ||
+    Array.isArray(obj.to_Partner) ||
+    Array.isArray(obj.to_PricingElement);
+  if (hasSub) return true;
+  const headerHints = [
+    'DocType',
+    'SalesOrganization',
+    'DistributionChannel',
+    'Division',
+    'SalesOrg',
+    'SalesOffice',
+  ];
+  for (const key of headerHints) {
+    if (typeof obj[key] === 'string' || typeof obj[key] === 'number') return true;
+  }
+  return false;
+};
+
+const tryParseSap = (val: any): any | undefined => {
+  try {
+    const obj = typeof val === 'string' ? JSON.parse(val) : val;
+    if (obj && typeof obj === 'object') {
+      return obj?.output ?? obj;
+    }
+  } catch {
+    // ignore parse errors
+  }
+  return undefined;
+};
+
+const pickArray = (obj: any, keys: string[]) => {
+  for (const k of keys) {
+    const v = obj?.[k];
+    if (Array.isArray(v)) return v;
+    if (v && Array.isArray(v.results)) return v.results;
+  }
+  return undefined;
+};
+
+// Normalizes nested arrays/keys of a SAP payload for UI rendering
+const normalizeSap = (src: any) => {
+  if (!src || typeof src !== 'object') return undefined;
+  let root = src;
+
+  // OData-like wrapping
+  if (root?.d) {
+    const d = root.d;
+    if (Array.isArray(d?.results) && d.results.length > 0) {
+      root = d.results[0];
+    } else {
+      root = d;
+    }
+  }
+
+  const out: any = { ...root };
+
+  // Top-level collections (support varied casings/aliases)
+  const items = pickArray(root, ['to_Item', 'to_item', 'Items', 'items', 'TO_ITEM', 'to_Items']);
+  if (items) out.to_Item = items;
+
+  const partners = pickArray(root, ['to_Partner', 'to_partner', 'Partners', 'partners', 'TO_PARTNER']);
+  if (partners) out.to_Partner = partners;
+
+  const pricing = pickArray(
+    root,
+    ['to_PricingElement', 'to_pricingelement', 'to_PricingElements', 'pricing', 'Pricing', 'TO_PRICINGELEMENT']
+  );
+  if (pricing) out.to_PricingElement = pricing;
+
+  // Normalize each item nested arrays
+  if (Array.isArray(out.to_Item)) {
+    out.to_Item = out.to_Item.map((it: any) => {
+      const i: any = { ...it };
+      const itemPartners = pickArray(it, [
+        'to_ItemPartner',
+        'to_itempartner',
+        'ItemPartners',
+        'item_partners',
+        'to_Item_Partner',
+      ]);
+      if (itemPartners) i.to_ItemPartner = itemPartners;
+
+      const itemPricing = pickArray(it, [
+        'to_ItemPricingElement',
+        'to_itempricingelement',
+        'ItemPricing',
+        'item_pricing',
+        'to_Item_PricingElement',
+      ]);
+      if (itemPricing) i.to_ItemPricingElement = itemPricing;
+
+      return i;
+    });
+  }
+
+  return out;
+};
+
+const asSap = (val: any): any | undefined => {
+  const parsed = tryParseSap(val);
+  if (!parsed) return undefined;
+  const norm = normalizeSap(parsed);
+  if (norm && isSapLike(norm)) return norm;
+  if (isSapLike(parsed)) return parsed;
+  return undefined;
+};
+
+// Columns the app used to write reviewed SAP JSON into
+const REVIEWED_SAP_COLUMNS = [
+  'SAP_JSON_FROM_APP',
+  'SAP_JSON_from_APP',
+  'sap_json_from_app',
+  'SAP JSON from app',
+  'SAP JSON FROM APP',
+  'sap_json_app',
+  'sap_app_json',
+];
+
+// Columns n8n writes the AI-generated SAP payload into, most specific first
+const AI_SAP_COLUMNS = [
+  'SAP_AI_OUTPUT',
+  'sap_ai_output',
+  'SAP JSON',
+  'SAP_JSON',
+  'sap_json',
+  'sap_payload',
+  'SAP',
+  'sap',
+  'sap_output',
+  'SAP_Output',
+  'sapOutput',
+  'sap_payload_json',
+  'sap_payload_string',
+];
+
+const extractReviewedSap = (row: any): any | undefined => {
+  for (const col of REVIEWED_SAP_COLUMNS) {
+    const sap = asSap(row?.[col]);
+    if (sap) return sap;
+  }
+  return undefined;
+};
+
+const extractAiSap = (row: any): any | undefined => {
+  for (const col of AI_SAP_COLUMNS) {
+    const sap = asSap(row?.[col]);
+    if (sap) return sap;
+  }
+
+  const rest = Object.entries(row).filter(([key]) => !REVIEWED_SAP_COLUMNS.includes(key));
+
+  // Keys that include 'sap' anywhere
+  for (const [key, value] of rest) {
+    if (!key.toLowerCase().includes('sap')) continue;
+    const sap = asSap(value);
+    if (sap) return sap;
+  }
+
+  // Fallback: scan all values for any JSON that looks like SAP
+  for (const [, value] of rest) {
+    const sap = asSap(value);
+    if (sap) return sap;
+  }
+
+  return undefined;
+};
+
+const storagePathOf = (row: any): string | undefined => {
+  const bucket = row?.['Bucket Name'] ?? row?.bucket_name ?? '';
+  const objectPath = [row?.path, row?.object_path, row?.file, row?.filename, row?.name].find(
+    (v: any) => typeof v === 'string' && v.trim().length > 0
+  ) as string | undefined;
+
+  // "Bucket Name" usually already holds the full "bucket/path" value
+  if (typeof bucket === 'string' && bucket.includes('/')) return bucket;
+  if (bucket && objectPath && !String(objectPath).startsWith(`${bucket}/`)) {
+    return `${bucket}/${objectPath}`;
+  }
+  return objectPath;
+};
+
+const subjectOf = (row: any): string | undefined => {
+  const subjectCandidates = [
+    row?.subject, row?.Subject, row?.title, row?.Title, row?.email_subject,
+    row?.['Email Subject'], row?.mail_subject, row?.['Mail Subject'], row?.emailSubject
+  ];
+  for (const candidate of subjectCandidates) {
+    const raw = typeof candidate === 'string' ? candidate : candidate?.value;
+    if (typeof raw === 'string' && raw.trim()) return raw.replace(/<[^>]*>/g, '').trim();
+  }
+  return undefined;
+};
+
+const timestampOf = (value: any): number | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim()) {
+    const t = Date.parse(value);
+    if (Number.isFinite(t)) return t;
+  }
+  return undefined;
+};
+
+// Search field limit; mail bodies beyond this add little to matching
+const MAX_SEARCH_TEXT = 20000;
+
+const plainText = (html: string) =>
+  html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const lastSegment = (value?: string) => {
+  if (!value) return '';
+  const parts = value.split('/').filter(Boolean);
+  return parts.length ? parts[parts.length - 1] : value;
+};
+
+/**
+ * Bare lower-case address of a sender ("Jane Doe <Jane@Acme.com>" -> "jane@acme.com"); the text
+ * itself, lower-cased, when it holds no address.
+ */
+export const senderAddress = (from: string) => {
+  const address = /[^\s<>"'(),;:]+@[^\s<>"'(),;:]+\.[^\s<>"'(),;:]+/.exec(from)?.[0];
+  return (address ?? from).trim().toLowerCase();
+};
+
+/**
+ * Sort and search keys for the paginated dashboard query (documents.listPage).
+ * Mirrors the orderings DocumentsTable used to apply in memory.
+ */
+export function documentIndexFields(doc: Omit<NormalizedN8nRow, 'sortKeys' | 'searchText'>) {
+  const { externalId, email } = doc;
+  const subject = email.subject ?? '';
+  const from = senderAddress(email.from ?? '');
+  const sortKeys: DocumentSortKeys = {
+    id: /^\d+$/.test(externalId) ? externalId.padStart(20, '0') : externalId.toLowerCase(),
+    from,
+    fromDomain: from.includes('@') ? from.slice(from.lastIndexOf('@') + 1) : '',
+    subject: subject.toLowerCase(),
+    status: '', // workflow status; set by the importer and kept current by workflow.ts
+    doc: (lastSegment(doc.bucketName) || lastSegment(doc.title) || lastSegment(subject) || externalId).toLowerCase(),
+    cc: email.cc.join(', ').toLowerCase(),
+  };
+  const searchText = [subject, plainText(email.mailContent ?? '')].filter(Boolean).join('\n').slice(0, MAX_SEARCH_TEXT);
+  return { sortKeys, searchText };
+}
+
+export type NormalizedN8nRow = {
+  externalId: string;
+  receivedAt?: number; // unset when the row has no creation time
+  status?: string;
+  title?: string;
+  storagePath?: string;
+  bucketName?: string;
+  email: {
+    from?: string;
+    cc: string[];
+    subject?: string;
+    mailContent?: string;
+  };
+  documentData?: any;
+  sapAiOutput?: any;
+  sapReviewed?: any;
+  sortKeys: DocumentSortKeys;
+  searchText: string;
+};
+
+/**
+ * Map one "N8N Logs" row to the `documents` table shape.
+ * Returns null for rows without any usable identifier. `receivedAt` is left unset rather than guessed
+ * when the row has no creation time: syncs resume from the newest one.
+ */
+export function normalizeN8nRow(row: any): NormalizedN8nRow | null {
+  if (!row || typeof row !== 'object') return null;
+  const rawId = row.id ?? row.uuid ?? row._id;
+  if (rawId === null || rawId === undefined || rawId === '') return null;
+
+  const storagePath = storagePathOf(row);
+  const documentData = coerceDocumentData(row);
+  const status = row.status ?? row.Status ?? row.state ?? row.State;
+  const title =
+    documentData?.document?.pages?.map((p: any) => p?.metadata?.document_title?.value).find(Boolean) ||
+    (typeof row.title === 'string' ? row.title : undefined) ||
+    (storagePath ? storagePath.split('/').pop() : undefined);
+  const from = parseEmailField(row.from ?? row.From ?? row.from_email ?? row.sender ?? row['From Email']);
+  const mailContent = getMailContent(row);
+  const bucketName = row['Bucket Name'] ?? row.bucket_name;
+
+  const normalized = {
+    externalId: String(rawId),
+    receivedAt: timestampOf(row.created_at) ?? timestampOf(row.createdAt) ?? timestampOf(row.timestamp),
+    status: status ? String(status) : undefined,
+    title: title || undefined,
+    storagePath,
+    bucketName: typeof bucketName === 'string' && bucketName ? bucketName : undefined,
+    email: {
+      from: from || undefined,
+      cc: parseCCEmails(
+        row.cc ??
+        row.CC ??
+        row.cc_emails ??
+        row['CC Emails'] ??
+        row['Cc Emails'] ??
+        row.ccEmails ??
+        row.recipients ??
+        row.Recipients ??
+        row.to ??
+        row.To ??
+        row['To Emails']
+      ),
+      subject: subjectOf(row),
+      mailContent: mailContent || undefined,
+    },
+    documentData,
+    sapAiOutput: extractAiSap(row),
+    sapReviewed: extractReviewedSap(row),
+  };
+  return { ...normalized, ...documentIndexFields(normalized) };
+}
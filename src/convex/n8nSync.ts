@@ -0,0 +1,107 @@
+import { v } from "convex/values";
+import { action, internalQuery, type ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { ROLES } from "./schema";
+
+// Rows carry extracted JSON and mail bodies; keep each mutation call well under Convex argument limits
+const IMPORT_BATCH_SIZE = 20;
+
+// Rows read per request to Supabase, and per sync; a sync that stops early resumes from its cursor
+const PAGE_SIZE = 200;
+const MAX_ROWS_PER_SYNC = 5000;
+
+const SOURCE_TABLE = "N8N Logs";
+
+export type ImportSummary = { inserted: number; updated: number; skipped: number };
+
+/**
+ * The server reads "N8N Logs" with its own credentials: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+ * (or SUPABASE_ANON_KEY when the table is readable with it).
+ */
+const getSupabaseConfig = () => {
+  const url = process.env.SUPABASE_URL?.replace(/\/$/, "");
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+  if (!url || !key) {
+    throw new Error("Supabase is not configured on the server; set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY");
+  }
+  return { url, key };
+};
+
+async function fetchRows(params: Record<string, string>): Promise<Array<unknown>> {
+  const { url, key } = getSupabaseConfig();
+  const query = new URLSearchParams({ select: "*", ...params });
+  const response = await fetch(`${url}/rest/v1/${encodeURIComponent(SOURCE_TABLE)}?${query}`, {
+    headers: { apikey: key, Authorization: `Bearer ${key}`, Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to read ${SOURCE_TABLE}: ${response.status} ${response.statusText}`);
+  }
+  const rows = await response.json();
+  return Array.isArray(rows) ? rows : [];
+}
+
+async function importBatches(ctx: ActionCtx, rows: Array<unknown>): Promise<ImportSummary> {
+  const total: ImportSummary = { inserted: 0, updated: 0, skipped: 0 };
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const res = await ctx.runMutation(internal.documents.importN8nRows, { rows: rows.slice(i, i + IMPORT_BATCH_SIZE) });
+    total.inserted += res.inserted;
+    total.updated += res.updated;
+    total.skipped += res.skipped;
+  }
+  return total;
+}
+
+/**
+ * Creation time of the newest imported row; syncs continue from there.
+ */
+export const latestReceivedAt = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const newest = await ctx.db.query("documents").withIndex("by_receivedAt").order("desc").first();
+    return newest?.receivedAt ?? null;
+  },
+});
+
+/**
+ * Import the rows created in "N8N Logs" since the newest imported one, oldest first.
+ * Rows created at that same instant are read again; importing an unchanged row writes nothing.
+ * Changes to older rows arrive through syncOne (realtime) and the signed n8n callback.
+ */
+export const syncRecent = action({
+  args: {},
+  handler: async (ctx): Promise<ImportSummary & { more: boolean }> => {
+    await ctx.runQuery(internal.users.assertRole, { role: ROLES.MEMBER });
+    const since = await ctx.runQuery(internal.n8nSync.latestReceivedAt, {});
+
+    const total: ImportSummary = { inserted: 0, updated: 0, skipped: 0 };
+    for (let offset = 0; offset < MAX_ROWS_PER_SYNC; offset += PAGE_SIZE) {
+      const rows = await fetchRows({
+        order: "created_at.asc",
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+        ...(since === null ? {} : { created_at: `gte.${new Date(since).toISOString()}` }),
+      });
+      const res = await importBatches(ctx, rows);
+      total.inserted += res.inserted;
+      total.updated += res.updated;
+      total.skipped += res.skipped;
+      if (rows.length < PAGE_SIZE) {
+        return { ...total, more: false };
+      }
+    }
+    return { ...total, more: true };
+  },
+});
+
+/**
+ * Import a single "N8N Logs" row by its id, e.g. after a realtime change or when a document
+ * link is opened before the list synced.
+ */
+export const syncOne = action({
+  args: { externalId: v.string() },
+  handler: async (ctx, args): Promise<ImportSummary> => {
+    await ctx.runQuery(internal.users.assertRole, { role: ROLES.MEMBER });
+    const rows = await fetchRows({ id: `eq.${args.externalId}`, limit: "1" });
+    return importBatches(ctx, rows);
+  },
+});
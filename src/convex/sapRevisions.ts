@@ -0,0 +1,127 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { ROLES, WORKFLOW_STATUS, coverageCountsValidator, type CoverageCounts, type SapChange } from "./schema";
+import { requireRole } from "./users";
+import { applyTransition, isSapLocked, workflowStatusOf } from "./workflow";
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  v !== null && typeof v === "object" && !Array.isArray(v);
+
+/**
+ * Field-level diff of two SAP payloads. Objects are compared key by key and arrays
+ * index by index, so paths look like "$.to_Item.[0].Material".
+ */
+export function diffSap(before: unknown, after: unknown, path = "$"): Array<SapChange> {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).flatMap((k) => diffSap(before[k], after[k], `${path}.${k}`));
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const len = Math.max(before.length, after.length);
+    const changes: Array<SapChange> = [];
+    for (let i = 0; i < len; i++) changes.push(...diffSap(before[i], after[i], `${path}.[${i}]`));
+    return changes;
+  }
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined) return [{ path, kind: "added", after }];
+  if (after === undefined) return [{ path, kind: "removed", before }];
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ path, kind: "changed", before, after }];
+}
+
+/**
+ * Store `sap` as the document's reviewed payload and append it as a new revision.
+ * Used by documents.saveReviewedSap and by restore below.
+ * `coverage` is the payload's evidence coverage as the saving client computed it; without one the
+ * document's coverage is cleared rather than left describing an older payload.
+ * The first save moves a received/extracted document into review; approved and later statuses are read-only.
+ */
+export async function recordRevision(
+  ctx: MutationCtx,
+  doc: Doc<"documents">,
+  sap: unknown,
+  authorId: Id<"users">,
+  restoredFrom?: number,
+  coverage?: CoverageCounts,
+) {
+  if (isSapLocked(doc)) {
+    throw new Error("The document is locked in its current status; reopen it to edit the SAP payload");
+  }
+  if (coverage && (!Number.isFinite(coverage.score) || coverage.score < 0 || coverage.score > 1)) {
+    throw new Error("Invalid coverage score");
+  }
+
+  const latest = await ctx.db
+    .query("sapRevisions")
+    .withIndex("by_document_and_version", (q) => q.eq("documentId", doc._id))
+    .order("desc")
+    .first();
+  const author = await ctx.db.get(authorId);
+  const now = Date.now();
+  const version = (latest?.version ?? 0) + 1;
+
+  await ctx.db.insert("sapRevisions", {
+    documentId: doc._id,
+    version,
+    sap,
+    changes: diffSap(doc.sapAiOutput, sap),
+    authorId,
+    authorName: author?.name || author?.email || undefined,
+    createdAt: now,
+    restoredFrom,
+  });
+  await ctx.db.patch(doc._id, {
+    sapReviewed: sap,
+    reviewedBy: authorId,
+    reviewedAt: now,
+    evidenceCoverage: coverage ? { ...coverage, computedAt: now } : undefined,
+  });
+
+  const status = workflowStatusOf(doc);
+  if (status === WORKFLOW_STATUS.RECEIVED || status === WORKFLOW_STATUS.EXTRACTED) {
+    await applyTransition(ctx, doc, WORKFLOW_STATUS.IN_REVIEW, authorId);
+  }
+
+  return version;
+}
+
+/**
+ * List the revisions of a document, newest first
+ */
+export const list = query({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+    return await ctx.db
+      .query("sapRevisions")
+      .withIndex("by_document_and_version", (q) => q.eq("documentId", args.documentId))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Make an earlier revision current again. History is append-only, so this adds a new revision.
+ */
+export const restore = mutation({
+  args: { revisionId: v.id("sapRevisions"), coverage: v.optional(coverageCountsValidator) },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ROLES.USER);
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision) {
+      throw new Error("Revision not found");
+    }
+    const doc = await ctx.db.get(revision.documentId);
+    if (!doc) {
+      throw new Error("Document not found");
+    }
+
+    const version = await recordRevision(ctx, doc, revision.sap, user._id, revision.version, args.coverage);
+    return { success: true, version };
+  },
+});
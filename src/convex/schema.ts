@@ -16,6 +16,186 @@ export const roleValidator = v.union(
 );
 export type Role = Infer<typeof roleValidator>;
 
+// review lifecycle of a document; allowed transitions live in workflow.ts
+export const WORKFLOW_STATUS = {
+  RECEIVED: "received",
+  EXTRACTED: "extracted",
+  IN_REVIEW: "in_review",
+  APPROVED: "approved",
+  SUBMITTED: "submitted", // sent to SAP, waiting for the result
+  CONFIRMED: "confirmed",
+  REJECTED: "rejected",
+} as const;
+
+export const workflowStatusValidator = v.union(
+  v.literal(WORKFLOW_STATUS.RECEIVED),
+  v.literal(WORKFLOW_STATUS.EXTRACTED),
+  v.literal(WORKFLOW_STATUS.IN_REVIEW),
+  v.literal(WORKFLOW_STATUS.APPROVED),
+  v.literal(WORKFLOW_STATUS.SUBMITTED),
+  v.literal(WORKFLOW_STATUS.CONFIRMED),
+  v.literal(WORKFLOW_STATUS.REJECTED),
+);
+export type WorkflowStatus = Infer<typeof workflowStatusValidator>;
+
+// email metadata of the message a document arrived with
+export const documentEmailValidator = v.object({
+  from: v.optional(v.string()),
+  cc: v.array(v.string()),
+  subject: v.optional(v.string()),
+  mailContent: v.optional(v.string()), // normalized HTML body
+});
+export type DocumentEmail = Infer<typeof documentEmailValidator>;
+
+// lowercase copies of the dashboard sort columns, so each sort can be served by an index
+export const documentSortKeysValidator = v.object({
+  id: v.string(), // numeric ids are zero-padded so they order numerically
+  from: v.string(), // bare sender address
+  fromDomain: v.string(), // domain of the sender address; empty without one
+  subject: v.string(),
+  status: v.string(), // workflow status
+  doc: v.string(), // last path segment of the bucket name, title or subject
+  cc: v.string(),
+});
+export type DocumentSortKeys = Infer<typeof documentSortKeysValidator>;
+
+// one field-level difference between two SAP payloads, addressed by a "$.key.[i].key" path
+export const sapChangeValidator = v.object({
+  path: v.string(),
+  kind: v.union(v.literal("added"), v.literal("removed"), v.literal("changed")),
+  before: v.optional(v.any()),
+  after: v.optional(v.any()),
+});
+export type SapChange = Infer<typeof sapChangeValidator>;
+
+// lifecycle of a queued outbound webhook delivery (see webhookQueue.ts)
+export const DELIVERY_STATUS = {
+  PENDING: "pending", // waiting for its next attempt
+  IN_FLIGHT: "in_flight",
+  DELIVERED: "delivered",
+  DEAD: "dead", // gave up; can be replayed from the admin page
+} as const;
+
+export const deliveryStatusValidator = v.union(
+  v.literal(DELIVERY_STATUS.PENDING),
+  v.literal(DELIVERY_STATUS.IN_FLIGHT),
+  v.literal(DELIVERY_STATUS.DELIVERED),
+  v.literal(DELIVERY_STATUS.DEAD),
+);
+export type DeliveryStatus = Infer<typeof deliveryStatusValidator>;
+
+// How a delivery carries the SAP payload; GET (payload in the query string) is legacy only
+export const DELIVERY_MODE = {
+  POST: "post", // signed JSON body
+  POST_GZIP: "post_gzip", // signed JSON body, gzip Content-Encoding
+  GET: "get",
+} as const;
+
+export const deliveryModeValidator = v.union(
+  v.literal(DELIVERY_MODE.POST),
+  v.literal(DELIVERY_MODE.POST_GZIP),
+  v.literal(DELIVERY_MODE.GET),
+);
+export type DeliveryMode = Infer<typeof deliveryModeValidator>;
+
+// Outcome of a sales order creation reported back by the SAP middleware
+export const sapResponseValidator = v.object({
+  result: v.union(v.literal("created"), v.literal("rejected")),
+  sapDocumentNumber: v.optional(v.string()),
+  messages: v.array(
+    v.object({
+      type: v.optional(v.string()), // SAP message type, e.g. E, W, I, S
+      text: v.string(),
+    }),
+  ),
+  receivedAt: v.number(),
+});
+export type SapResponse = Infer<typeof sapResponseValidator>;
+
+// JSON a manual evidence box is attached to: the extracted document_data or the SAP payload
+export const MANUAL_BOX_TARGET = {
+  DOCUMENT: "document",
+  SAP: "sap",
+} as const;
+
+export const manualBoxTargetValidator = v.union(
+  v.literal(MANUAL_BOX_TARGET.DOCUMENT),
+  v.literal(MANUAL_BOX_TARGET.SAP),
+);
+export type ManualBoxTarget = Infer<typeof manualBoxTargetValidator>;
+
+// How the value of a captured box was read from the page (see PDFViewer region capture)
+export const CAPTURE_METHOD = {
+  TEXT_LAYER: "text_layer", // PDF text content
+  OCR: "ocr", // Tesseract, for scans
+} as const;
+
+export const captureMethodValidator = v.union(
+  v.literal(CAPTURE_METHOD.TEXT_LAYER),
+  v.literal(CAPTURE_METHOD.OCR),
+);
+export type CaptureMethod = Infer<typeof captureMethodValidator>;
+
+// Box drawn by a reviewer for one field; geometry is unit page space (0..1, top-left origin)
+export const manualBoxValidator = v.object({
+  target: manualBoxTargetValidator,
+  path: v.string(), // "$.key.[i].key" path of the field in the target JSON
+  page: v.number(), // 1-based
+  x: v.number(),
+  y: v.number(),
+  width: v.number(),
+  height: v.number(),
+  authorId: v.id("users"),
+  authorName: v.optional(v.string()), // name or email at the time of the save
+  updatedAt: v.number(),
+  method: v.optional(captureMethodValidator), // unset for boxes drawn by hand
+  capturedText: v.optional(v.string()), // text read from the box when it was captured
+});
+export type ManualBox = Infer<typeof manualBoxValidator>;
+
+// Evidence coverage of a SAP payload, sent with the save that stores it (src/lib/evidenceCoverage.ts)
+export const coverageCountsValidator = v.object({
+  score: v.number(), // share of SAP values with evidence in the source, 0..1
+  evidence: v.number(),
+  weak: v.number(), // matched only weakly or partially
+  differs: v.optional(v.number()), // the field the extraction read it from holds another value; unset before it was counted
+  none: v.number(),
+});
+export type CoverageCounts = Infer<typeof coverageCountsValidator>;
+
+// Evidence coverage of a document's current SAP payload, stored with the revision that saved it
+export const evidenceCoverageValidator = v.object({
+  ...coverageCountsValidator.fields,
+  computedAt: v.number(),
+});
+export type EvidenceCoverageSummary = Infer<typeof evidenceCoverageValidator>;
+
+// Extraction run in the reviewer's browser for a document the pipeline delivered without data
+export const localExtractionValidator = v.object({
+  engine: v.string(), // e.g. "tesseract"
+  pages: v.number(),
+  confidence: v.number(), // mean word confidence, 0..100
+  extractedBy: v.id("users"),
+  extractedAt: v.number(),
+});
+export type LocalExtraction = Infer<typeof localExtractionValidator>;
+
+// One customer of the SAP customer master as imported from CSV (see customers.importRows)
+export const customerImportRowValidator = v.object({
+  customerNumber: v.string(), // SAP customer number, kept as written (leading zeros included)
+  name: v.string(),
+  name2: v.optional(v.string()),
+  street: v.optional(v.string()),
+  postalCode: v.optional(v.string()),
+  city: v.optional(v.string()),
+  country: v.optional(v.string()),
+  emailDomains: v.array(v.string()), // domains the customer's staff mail from, e.g. "acme.com"
+  salesOrganization: v.optional(v.string()), // default sales area
+  distributionChannel: v.optional(v.string()),
+  division: v.optional(v.string()),
+});
+export type CustomerImportRow = Infer<typeof customerImportRowValidator>;
+
 const schema = defineSchema(
   {
     // default auth tables using convex auth.
@@ -35,6 +215,134 @@ const schema = defineSchema(
 
     // add other tables here
 
+    // documents ingested from the Supabase "N8N Logs" table (see n8nLogs.ts)
+    documents: defineTable({
+      externalId: v.string(), // id of the source row in "N8N Logs"
+      status: v.optional(v.string()), // free-form pipeline status from n8n
+      title: v.optional(v.string()),
+      workflowStatus: v.optional(workflowStatusValidator), // set by the importer, then only via workflow.ts
+      workflowUpdatedAt: v.optional(v.number()),
+      rejectionReason: v.optional(v.string()), // reason given for the latest rejection
+      sapResponse: v.optional(sapResponseValidator), // latest sales order callback (see inboundWebhooks.ts)
+      receivedAt: v.number(), // creation time of the source row
+      storagePath: v.optional(v.string()), // "bucket/path" of the PDF (or image/TIFF scan) in Supabase storage
+      bucketName: v.optional(v.string()),
+      email: documentEmailValidator,
+      documentData: v.optional(v.any()), // extracted DocumentData (src/lib/supabase.ts)
+      sapAiOutput: v.optional(v.any()), // SAP payload generated by the AI step
+      sapReviewed: v.optional(v.any()), // SAP payload as saved by a reviewer
+      manualBoxes: v.optional(v.array(manualBoxValidator)), // reviewer-drawn evidence, one per target + path
+      // Set with every saved revision (sapRevisions.recordRevision)
+      evidenceCoverage: v.optional(evidenceCoverageValidator),
+      localExtraction: v.optional(localExtractionValidator), // set when documentData came from documents.saveLocalExtraction
+      reviewedBy: v.optional(v.id("users")),
+      reviewedAt: v.optional(v.number()),
+      importedAt: v.number(),
+      sortKeys: v.optional(documentSortKeysValidator), // filled by the importer
+      searchText: v.optional(v.string()), // subject + plain-text mail body for full-text search
+    })
+      .index("by_externalId", ["externalId"])
+      .index("by_receivedAt", ["receivedAt"])
+      .index("by_sort_id", ["sortKeys.id"])
+      .index("by_sort_from", ["sortKeys.from"])
+      .index("by_sort_subject", ["sortKeys.subject"])
+      .index("by_sort_status", ["sortKeys.status"])
+      .index("by_sort_doc", ["sortKeys.doc"])
+      .index("by_sort_cc", ["sortKeys.cc"])
+      .searchIndex("search_text", {
+        searchField: "searchText",
+        filterFields: ["sortKeys.status", "sortKeys.from", "sortKeys.fromDomain"],
+      }),
+
+    // immutable history of reviewed SAP payloads; one row per save or restore
+    sapRevisions: defineTable({
+      documentId: v.id("documents"),
+      version: v.number(), // 1-based, increasing per document
+      sap: v.any(),
+      changes: v.array(sapChangeValidator), // diff against the document's sapAiOutput
+      authorId: v.id("users"),
+      authorName: v.optional(v.string()), // name or email at the time of the save
+      createdAt: v.number(),
+      restoredFrom: v.optional(v.number()), // version this revision restored, if any
+    }).index("by_document_and_version", ["documentId", "version"]),
+
+    // append-only log of workflow status changes
+    workflowTransitions: defineTable({
+      documentId: v.id("documents"),
+      from: v.optional(workflowStatusValidator), // unset for the initial status
+      to: workflowStatusValidator,
+      actorId: v.optional(v.id("users")), // unset for system transitions (import, SAP callbacks)
+      actorName: v.optional(v.string()),
+      reason: v.optional(v.string()),
+      createdAt: v.number(),
+    }).index("by_document", ["documentId", "createdAt"]),
+
+    // outbound webhook deliveries (Create -> n8n/SAP), retried with backoff until delivered or dead
+    webhookDeliveries: defineTable({
+      documentId: v.id("documents"),
+      externalId: v.string(), // document id sent to the webhook
+      idempotencyKey: v.string(), // one live (not dead) delivery per key; also sent as the Idempotency-Key header
+      url: v.string(),
+      mode: deliveryModeValidator,
+      sap: v.string(), // SAP JSON as sent
+      payloadBytes: v.optional(v.number()), // uncompressed size of the request payload
+      routeId: v.optional(v.string()),
+      source: v.optional(v.string()),
+      userEmail: v.optional(v.string()),
+      status: deliveryStatusValidator,
+      attempts: v.number(),
+      maxAttempts: v.number(),
+      nextAttemptAt: v.optional(v.number()),
+      lastStatusCode: v.optional(v.number()),
+      lastError: v.optional(v.string()),
+      createdBy: v.id("users"),
+      createdAt: v.number(),
+      updatedAt: v.number(),
+      deliveredAt: v.optional(v.number()),
+    })
+      .index("by_idempotencyKey", ["idempotencyKey"])
+      .index("by_status", ["status", "updatedAt"])
+      .index("by_document", ["documentId", "createdAt"])
+      .index("by_updatedAt", ["updatedAt"]),
+
+    // one row per HTTP attempt of a delivery
+    webhookAttempts: defineTable({
+      deliveryId: v.id("webhookDeliveries"),
+      attempt: v.number(), // 1-based across replays
+      startedAt: v.number(),
+      latencyMs: v.number(),
+      ok: v.boolean(),
+      statusCode: v.optional(v.number()), // unset when no response was received
+      responseBody: v.optional(v.string()), // truncated
+      error: v.optional(v.string()),
+    }).index("by_delivery", ["deliveryId", "attempt"]),
+
+    // signatures of accepted inbound callbacks, kept for the timestamp window to reject replays
+    webhookReceipts: defineTable({
+      signature: v.string(),
+      route: v.string(),
+      receivedAt: v.number(),
+    })
+      .index("by_signature", ["signature"])
+      .index("by_receivedAt", ["receivedAt"]),
+
+    // SAP customer master used to look up and suggest SoldToParty and partner customers
+    customers: defineTable({
+      ...customerImportRowValidator.fields,
+      searchText: v.string(), // number, names and address for full-text search
+      updatedAt: v.number(),
+    })
+      .index("by_customerNumber", ["customerNumber"])
+      .searchIndex("search_text", { searchField: "searchText" }),
+
+    // one row per email domain of a customer, so a sender's domain can be looked up by index
+    customerDomains: defineTable({
+      domain: v.string(), // lowercase
+      customerId: v.id("customers"),
+    })
+      .index("by_domain", ["domain"])
+      .index("by_customer", ["customerId"]),
+
     // tableName: defineTable({
     //   ...
     //   // table fields
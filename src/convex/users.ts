@@ -1,6 +1,54 @@
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { query, QueryCtx, mutation } from "./_generated/server";
+import { query, QueryCtx, mutation, internalQuery } from "./_generated/server";
 import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { ROLES, Role, roleValidator } from "./schema";
+
+const ROLE_RANK: Record<Role, number> = {
+  [ROLES.MEMBER]: 0, // view only
+  [ROLES.USER]: 1, // edit and save SAP payloads, move documents through review
+  [ROLES.ADMIN]: 2, // send to SAP, delete documents, manage roles
+};
+
+// Comma-separated emails that are always admins (ADMIN_EMAILS env var); bootstraps the first admin
+const adminEmails = () =>
+  (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Role the user acts with. Users without a stored role are members.
+ */
+export function isEnvAdmin(user: Doc<"users">) {
+  return !!user.email && adminEmails().includes(user.email.toLowerCase());
+}
+
+export function effectiveRole(user: Doc<"users">): Role {
+  if (isEnvAdmin(user)) {
+    return ROLES.ADMIN;
+  }
+  return user.role ?? ROLES.MEMBER;
+}
+
+export function hasRole(user: Doc<"users">, role: Role) {
+  return ROLE_RANK[effectiveRole(user)] >= ROLE_RANK[role];
+}
+
+/**
+ * Get the current user and check they have at least `role`. Throws otherwise.
+ * Use at the top of every mutation; actions go through assertRole below.
+ */
+export const requireRole = async (ctx: QueryCtx, role: Role) => {
+  const user = await getCurrentUser(ctx);
+  if (user === null) {
+    throw new Error("Not authenticated");
+  }
+  if (!hasRole(user, role)) {
+    throw new Error(`Forbidden: requires the ${role} role`);
+  }
+  return user;
+};
 
 /**
  * Get the current signed in user. Returns null if the user is not signed in.
@@ -55,4 +103,72 @@ export const updateProfile = mutation({
 
     return { success: true };
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Effective role of the signed in user, or null when signed out.
+ */
+export const currentRole = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    return user === null ? null : effectiveRole(user);
+  },
+});
+
+/**
+ * Role check for actions, which cannot read the database directly:
+ * await ctx.runQuery(internal.users.assertRole, { role: ROLES.ADMIN })
+ */
+export const assertRole = internalQuery({
+  args: { role: roleValidator },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, args.role);
+    return null;
+  },
+});
+
+/**
+ * List all users with their stored and effective roles. Admins only.
+ */
+export const listWithRoles = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, ROLES.ADMIN);
+    const users = await ctx.db.query("users").collect();
+    return users
+      .filter((u) => !u.isAnonymous)
+      .map((u) => ({
+        _id: u._id,
+        name: u.name,
+        email: u.email,
+        role: effectiveRole(u),
+        // Admins from ADMIN_EMAILS cannot be changed here
+        roleFromEnv: isEnvAdmin(u),
+      }));
+  },
+});
+
+/**
+ * Change another user's role. Admins only; admins cannot change their own role.
+ */
+export const setRole = mutation({
+  args: {
+    userId: v.id("users"),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireRole(ctx, ROLES.ADMIN);
+    if (admin._id === args.userId) {
+      throw new Error("You cannot change your own role");
+    }
+    const target = await ctx.db.get(args.userId);
+    if (!target) {
+      throw new Error("User not found");
+    }
+
+    await ctx.db.patch(args.userId, { role: args.role });
+
+    return { success: true };
+  },
+});
@@ -1,7 +1,9 @@
 "use node";
 
 import { action } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { ROLES } from "./schema";
 
 export const send = action({
   args: {
@@ -12,6 +14,9 @@ export const send = action({
     timestamp: v.string(),
   },
   handler: async (ctx, args) => {
+    // Sending to SAP is an admin action
+    await ctx.runQuery(internal.users.assertRole, { role: ROLES.ADMIN });
+
     let url: URL;
     try {
       url = new URL(args.url);
@@ -0,0 +1,134 @@
+import { DELIVERY_MODE, DeliveryMode } from "./schema";
+
+// Proxies and servers commonly reject URLs beyond ~8KB
+const MAX_GET_URL_LENGTH = 8000;
+const DEFAULT_MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+// HMAC-SHA256 signature using Web Crypto API; shared by outbound signing and inbound verification
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const subtle: SubtleCrypto | undefined = (globalThis as { crypto?: Crypto }).crypto?.subtle;
+  if (!subtle) {
+    throw new Error("WebCrypto SubtleCrypto not available in this runtime");
+  }
+  const enc = new TextEncoder();
+  const key = await subtle.importKey(
+    "raw",
+    enc.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const sigBuffer = await subtle.sign("HMAC", key, enc.encode(message));
+  const bytes = new Uint8Array(sigBuffer);
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+// Compares hex signatures without exiting early on the first difference
+export function timingSafeEqualHex(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+const isDeliveryMode = (value: string): value is DeliveryMode =>
+  (Object.values(DELIVERY_MODE) as Array<string>).includes(value);
+
+// "host=mode,host=mode" from WEBHOOK_DELIVERY_MODES
+const getModesByHost = (): Map<string, DeliveryMode> => {
+  const modes = new Map<string, DeliveryMode>();
+  for (const entry of (process.env.WEBHOOK_DELIVERY_MODES ?? "").split(",")) {
+    const [host, mode] = entry.split("=").map((s) => s.trim().toLowerCase());
+    if (host && mode && isDeliveryMode(mode)) {
+      modes.set(host, mode);
+    }
+  }
+  return modes;
+};
+
+/**
+ * Delivery mode for a webhook target: the WEBHOOK_DELIVERY_MODES entry for its host,
+ * else WEBHOOK_DELIVERY_MODE, else POST.
+ */
+export function resolveDeliveryMode(url: string): DeliveryMode {
+  let hostname = "";
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    // invalid URLs are rejected when sending
+  }
+  const byHost = getModesByHost().get(hostname);
+  if (byHost) return byHost;
+  const fallback = (process.env.WEBHOOK_DELIVERY_MODE ?? "").trim().toLowerCase();
+  return isDeliveryMode(fallback) ? fallback : DELIVERY_MODE.POST;
+}
+
+export type WebhookPayloadParams = {
+  id: string;
+  sap: string;
+  routeId?: string;
+  userEmail?: string;
+  source?: string;
+};
+
+/**
+ * JSON body of a POST delivery. The SAP payload is embedded as JSON rather than as a string when it parses.
+ */
+export function buildPostBody(params: WebhookPayloadParams): string {
+  let sap: unknown = params.sap;
+  try {
+    sap = JSON.parse(params.sap);
+  } catch {
+    // send the raw string
+  }
+  return JSON.stringify({
+    id: params.id,
+    routeId: params.routeId,
+    userEmail: params.userEmail,
+    source: params.source,
+    sap,
+  });
+}
+
+// Query string parameters of a legacy GET delivery
+export function getQueryParams(params: WebhookPayloadParams): Array<[string, string]> {
+  const entries: Array<[string, string]> = [
+    ["id", params.id],
+    ["sap", params.sap],
+  ];
+  if (params.routeId) entries.push(["routeId", params.routeId]);
+  if (params.userEmail) entries.push(["userEmail", params.userEmail]);
+  if (params.source) entries.push(["source", params.source]);
+  return entries;
+}
+
+/**
+ * Size of the request payload in bytes (body for POST, full URL for GET) and the error if it exceeds
+ * the limit for the mode (WEBHOOK_MAX_PAYLOAD_BYTES for POST, ~8KB URL for GET).
+ */
+export function checkPayloadSize(
+  mode: DeliveryMode,
+  url: string,
+  params: WebhookPayloadParams,
+): { bytes: number; error?: string } {
+  if (mode === DELIVERY_MODE.GET) {
+    const search = new URLSearchParams(getQueryParams(params)).toString();
+    const bytes = url.length + 1 + search.length;
+    return bytes > MAX_GET_URL_LENGTH
+      ? { bytes, error: `Payload too large for a GET webhook (${bytes} URL characters); use POST delivery` }
+      : { bytes };
+  }
+
+  const configured = Number(process.env.WEBHOOK_MAX_PAYLOAD_BYTES);
+  const limit = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_PAYLOAD_BYTES;
+  const bytes = new TextEncoder().encode(buildPostBody(params)).length;
+  return bytes > limit
+    ? { bytes, error: `Payload is ${bytes} bytes; the webhook limit is ${limit} bytes` }
+    : { bytes };
+}
@@ -0,0 +1,363 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { DELIVERY_STATUS, DeliveryMode, ROLES, WORKFLOW_STATUS, deliveryStatusValidator } from "./schema";
+import { getCurrentUser, hasRole, requireRole } from "./users";
+import { applyTransition, workflowStatusOf } from "./workflow";
+import { checkPayloadSize, resolveDeliveryMode } from "./webhookPayload";
+
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 30 * 60_000;
+// An in-flight delivery older than this is assumed lost (e.g. the action crashed) and may be claimed again
+const IN_FLIGHT_LEASE_MS = 2 * 60_000;
+const MAX_RESPONSE_BODY = 4000;
+// Stalled deliveries re-scheduled per sweep run
+const SWEEP_BATCH = 100;
+
+// 30s, 1m, 2m, 4m, ... capped at 30m, with +-20% jitter so retries of one outage spread out
+const retryDelay = (attempt: number) => {
+  const base = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+};
+
+// 408/429 and 5xx may succeed later; other HTTP errors will not
+const isRetriable = (statusCode?: number) =>
+  statusCode === undefined || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+
+// FNV-1a; only needs to tell payloads of one document apart
+const hashString = (s: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+};
+
+// In flight for longer than the lease: the attempt's action died without reporting an outcome
+const isLeaseExpired = (delivery: Doc<"webhookDeliveries">, now: number) =>
+  delivery.status === DELIVERY_STATUS.IN_FLIGHT && delivery.updatedAt < now - IN_FLIGHT_LEASE_MS;
+
+// `stalled`: in flight past its lease, so it may be replayed (as of when the query last ran)
+const withAttempts = async (ctx: QueryCtx, delivery: Doc<"webhookDeliveries">) => ({
+  ...delivery,
+  stalled: isLeaseExpired(delivery, Date.now()),
+  attemptLog: await ctx.db
+    .query("webhookAttempts")
+    .withIndex("by_delivery", (q) => q.eq("deliveryId", delivery._id))
+    .order("desc")
+    .collect(),
+});
+
+// The transition that approved `doc` last; deliveries are scoped to it, so a reopened and
+// re-approved document is sent again
+const latestApproval = async (ctx: QueryCtx, doc: Doc<"documents">) => {
+  const transitions = await ctx.db
+    .query("workflowTransitions")
+    .withIndex("by_document", (q) => q.eq("documentId", doc._id))
+    .order("desc")
+    .collect();
+  return transitions.find((t) => t.to === WORKFLOW_STATUS.APPROVED) ?? null;
+};
+
+// Deliveries that still count as sending the payload; a dead one is sent again by a new Create
+const isLiveDelivery = (delivery: Doc<"webhookDeliveries">) => delivery.status !== DELIVERY_STATUS.DEAD;
+
+const isAdmin = async (ctx: QueryCtx) => {
+  const user = await getCurrentUser(ctx);
+  return user !== null && hasRole(user, ROLES.ADMIN);
+};
+
+/**
+ * Queue the SAP payload of an approved document for delivery to the Create webhook. The payload is
+ * the one stored on the document (reviewed, else as extracted), i.e. the one that was approved.
+ * A pending, in-flight or delivered delivery with the same idempotency key (default: document +
+ * approval + payload hash) is reused instead of sending twice; a dead one is queued again.
+ * The delivery mode comes from the target's configuration; payloads over the mode's size limit are refused.
+ */
+export const enqueue = mutation({
+  args: {
+    documentId: v.id("documents"),
+    url: v.string(),
+    routeId: v.optional(v.string()),
+    source: v.optional(v.string()),
+    idempotencyKey: v.optional(v.string()),
+  },
+  handler: async (
+    ctx,
+    args,
+  ): Promise<{ deliveryId: Id<"webhookDeliveries">; duplicate: boolean; mode: DeliveryMode; payloadBytes?: number }> => {
+    const user = await requireRole(ctx, ROLES.ADMIN);
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      throw new Error("Document not found");
+    }
+    if (workflowStatusOf(doc) !== WORKFLOW_STATUS.APPROVED) {
+      throw new Error("Only approved documents can be sent to SAP");
+    }
+    const stored = doc.sapReviewed ?? doc.sapAiOutput;
+    if (stored === undefined || stored === null) {
+      throw new Error("The document has no SAP payload");
+    }
+    const sap = JSON.stringify(stored);
+
+    const approval = await latestApproval(ctx, doc);
+    const idempotencyKey =
+      args.idempotencyKey?.trim() || `${doc.externalId}:${approval?._id ?? doc.workflowUpdatedAt}:${hashString(sap)}`;
+    const existing = (
+      await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_idempotencyKey", (q) => q.eq("idempotencyKey", idempotencyKey))
+        .collect()
+    ).find(isLiveDelivery);
+    if (existing) {
+      return { deliveryId: existing._id, duplicate: true, mode: existing.mode, payloadBytes: existing.payloadBytes };
+    }
+
+    const mode = resolveDeliveryMode(args.url);
+    const size = checkPayloadSize(mode, args.url, {
+      id: doc.externalId,
+      sap,
+      routeId: args.routeId,
+      userEmail: user.email,
+      source: args.source,
+    });
+    if (size.error) {
+      throw new Error(size.error);
+    }
+
+    const now = Date.now();
+    const deliveryId = await ctx.db.insert("webhookDeliveries", {
+      documentId: doc._id,
+      externalId: doc.externalId,
+      idempotencyKey,
+      url: args.url,
+      mode,
+      sap,
+      payloadBytes: size.bytes,
+      routeId: args.routeId,
+      source: args.source,
+      userEmail: user.email,
+      status: DELIVERY_STATUS.PENDING,
+      attempts: 0,
+      maxAttempts: MAX_ATTEMPTS,
+      nextAttemptAt: now,
+      createdBy: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.webhooks.deliverQueued, { deliveryId });
+
+    return { deliveryId, duplicate: false, mode, payloadBytes: size.bytes };
+  },
+});
+
+/**
+ * Send a dead delivery, or one whose attempt was lost in flight, again with a fresh round of retries.
+ * Admins only.
+ */
+export const replay = mutation({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    await requireRole(ctx, ROLES.ADMIN);
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery) {
+      throw new Error("Delivery not found");
+    }
+    const now = Date.now();
+    if (delivery.status !== DELIVERY_STATUS.DEAD && !isLeaseExpired(delivery, now)) {
+      throw new Error("Only dead or stalled deliveries can be replayed");
+    }
+
+    await ctx.db.patch(delivery._id, {
+      status: DELIVERY_STATUS.PENDING,
+      maxAttempts: delivery.attempts + MAX_ATTEMPTS,
+      nextAttemptAt: now,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.webhooks.deliverQueued, { deliveryId: delivery._id });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Deliveries of one document, newest first, with their attempts. Empty for non-admins.
+ */
+export const listForDocument = query({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    if (!(await isAdmin(ctx))) {
+      return [];
+    }
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_document", (q) => q.eq("documentId", args.documentId))
+      .order("desc")
+      .collect();
+    return await Promise.all(deliveries.map((d) => withAttempts(ctx, d)));
+  },
+});
+
+/**
+ * Most recently updated deliveries, optionally in one status, with their attempts. Empty for non-admins.
+ */
+export const list = query({
+  args: {
+    status: v.optional(deliveryStatusValidator),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    if (!(await isAdmin(ctx))) {
+      return [];
+    }
+    const limit = Math.min(Math.max(args.limit ?? 50, 1), 200);
+    const { status } = args;
+    const deliveries =
+      status !== undefined
+        ? await ctx.db
+            .query("webhookDeliveries")
+            .withIndex("by_status", (q) => q.eq("status", status))
+            .order("desc")
+            .take(limit)
+        : await ctx.db.query("webhookDeliveries").withIndex("by_updatedAt").order("desc").take(limit);
+    return await Promise.all(deliveries.map((d) => withAttempts(ctx, d)));
+  },
+});
+
+/**
+ * Mark a delivery in flight for the next attempt. Returns null if it is not due
+ * (already delivered, dead, or being sent by another run).
+ */
+export const claim = internalMutation({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  handler: async (ctx, args): Promise<Doc<"webhookDeliveries"> | null> => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery) return null;
+    const now = Date.now();
+    if (delivery.status !== DELIVERY_STATUS.PENDING && !isLeaseExpired(delivery, now)) return null;
+
+    const attempts = delivery.attempts + 1;
+    await ctx.db.patch(delivery._id, {
+      status: DELIVERY_STATUS.IN_FLIGHT,
+      attempts,
+      nextAttemptAt: undefined,
+      updatedAt: now,
+    });
+    return { ...delivery, status: DELIVERY_STATUS.IN_FLIGHT, attempts };
+  },
+});
+
+/**
+ * Store the outcome of an attempt, then mark the delivery delivered, schedule a retry, or give up.
+ * A successful delivery moves an approved document to submitted.
+ */
+export const recordAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    startedAt: v.number(),
+    latencyMs: v.number(),
+    ok: v.boolean(),
+    statusCode: v.optional(v.number()),
+    responseBody: v.optional(v.string()),
+    error: v.optional(v.string()),
+    retriable: v.optional(v.boolean()), // false for failures that cannot succeed later (e.g. invalid URL)
+  },
+  handler: async (ctx, args): Promise<null> => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery) return null;
+
+    const responseBody = args.responseBody?.slice(0, MAX_RESPONSE_BODY);
+    await ctx.db.insert("webhookAttempts", {
+      deliveryId: delivery._id,
+      attempt: delivery.attempts,
+      startedAt: args.startedAt,
+      latencyMs: args.latencyMs,
+      ok: args.ok,
+      statusCode: args.statusCode,
+      responseBody,
+      error: args.error,
+    });
+
+    const now = Date.now();
+    if (args.ok) {
+      await ctx.db.patch(delivery._id, {
+        status: DELIVERY_STATUS.DELIVERED,
+        lastStatusCode: args.statusCode,
+        lastError: undefined,
+        deliveredAt: now,
+        updatedAt: now,
+      });
+      const doc = await ctx.db.get(delivery.documentId);
+      if (doc && workflowStatusOf(doc) === WORKFLOW_STATUS.APPROVED) {
+        await applyTransition(ctx, doc, WORKFLOW_STATUS.SUBMITTED, delivery.createdBy);
+      }
+      return null;
+    }
+
+    const lastError = args.error || responseBody || `HTTP ${args.statusCode ?? "error"}`;
+    const retry =
+      args.retriable !== false && isRetriable(args.statusCode) && delivery.attempts < delivery.maxAttempts;
+    if (!retry) {
+      await ctx.db.patch(delivery._id, {
+        status: DELIVERY_STATUS.DEAD,
+        lastStatusCode: args.statusCode,
+        lastError,
+        updatedAt: now,
+      });
+      return null;
+    }
+
+    const delay = retryDelay(delivery.attempts);
+    await ctx.db.patch(delivery._id, {
+      status: DELIVERY_STATUS.PENDING,
+      lastStatusCode: args.statusCode,
+      lastError,
+      nextAttemptAt: now + delay,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(delay, internal.webhooks.deliverQueued, { deliveryId: delivery._id });
+    return null;
+  },
+});
+
+/**
+ * Pick up deliveries nothing is going to run any more (crons.ts): in flight past their lease, and
+ * pending past their next attempt (e.g. the scheduled run was lost). A delivery whose lost attempt
+ * was its last one is given up. Scheduling a delivery that is already being sent is harmless:
+ * `claim` lets only one run through.
+ */
+export const sweep = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ rescheduled: number; dead: number }> => {
+    const now = Date.now();
+    const stalled = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_status", (q) => q.eq("status", DELIVERY_STATUS.IN_FLIGHT).lt("updatedAt", now - IN_FLIGHT_LEASE_MS))
+      .take(SWEEP_BATCH);
+    const overdue = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_status", (q) => q.eq("status", DELIVERY_STATUS.PENDING))
+      .filter((q) => q.lte(q.field("nextAttemptAt"), now))
+      .take(SWEEP_BATCH);
+
+    let rescheduled = 0;
+    let dead = 0;
+    for (const delivery of [...stalled, ...overdue]) {
+      if (delivery.status === DELIVERY_STATUS.IN_FLIGHT && delivery.attempts >= delivery.maxAttempts) {
+        await ctx.db.patch(delivery._id, {
+          status: DELIVERY_STATUS.DEAD,
+          lastError: `Attempt ${delivery.attempts} did not report an outcome`,
+          updatedAt: now,
+        });
+        dead++;
+        continue;
+      }
+      await ctx.scheduler.runAfter(0, internal.webhooks.deliverQueued, { deliveryId: delivery._id });
+      rescheduled++;
+    }
+    return { rescheduled, dead };
+  },
+});
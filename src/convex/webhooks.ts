@@ -1,7 +1,11 @@
 "use node";
 
-import { action } from "./_generated/server";
+import { gzipSync } from "zlib";
+import { action, internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { DELIVERY_MODE, ROLES } from "./schema";
+import { buildPostBody, checkPayloadSize, getQueryParams, hmacSha256Hex, WebhookPayloadParams } from "./webhookPayload";
 
 // Add: Helpers for allowlist and HMAC signing
 const getAllowedHosts = (): Array<string> => {
@@ -18,27 +22,86 @@ const getAllowedHosts = (): Array<string> => {
 const isLocalhostHost = (hostname: string): boolean =>
   hostname === "localhost" || hostname === "127.0.0.1";
 
-// HMAC-SHA256 signature using Web Crypto API (Node 18+)
-async function hmacSha256Hex(secret: string, message: string): Promise<string> {
-  const subtle: SubtleCrypto | undefined = (globalThis as any)?.crypto?.subtle;
-  if (!subtle) {
-    throw new Error("WebCrypto SubtleCrypto not available in this runtime");
+// Validate URL and enforce HTTPS (http only for localhost) and the optional WEBHOOK_ALLOW_HOSTS allowlist
+const checkWebhookTarget = (raw: string): { ok: true; url: URL } | { ok: false; error: string } => {
+  let target: URL;
+  try {
+    target = new URL(raw);
+  } catch {
+    return { ok: false, error: "Invalid webhook URL" };
   }
-  const enc = new TextEncoder();
-  const key = await subtle.importKey(
-    "raw",
-    enc.encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"]
-  );
-  const sigBuffer = await subtle.sign("HMAC", key, enc.encode(message));
-  const bytes = new Uint8Array(sigBuffer);
-  let hex = "";
-  for (let i = 0; i < bytes.length; i++) {
-    hex += bytes[i].toString(16).padStart(2, "0");
+  if (target.protocol !== "https:") {
+    const isLocalhost = target.protocol === "http:" && isLocalhostHost(target.hostname);
+    if (!isLocalhost) {
+      return { ok: false, error: "Webhook URL must use HTTPS (or http on localhost)" };
+    }
+  }
+  const allowlist = getAllowedHosts();
+  if (
+    allowlist.length > 0 &&
+    !allowlist.includes(target.hostname.toLowerCase()) &&
+    !isLocalhostHost(target.hostname.toLowerCase())
+  ) {
+    return { ok: false, error: "Webhook host is not allowed by WEBHOOK_ALLOW_HOSTS" };
+  }
+  return { ok: true, url: target };
+};
+
+type SignedRequestParams = WebhookPayloadParams & { idempotencyKey?: string };
+
+const baseHeaders = (params: SignedRequestParams): Record<string, string> => {
+  const headers: Record<string, string> = {
+    "X-Webhook-Source": "convex",
+  };
+  if (params.userEmail) headers["X-Webhook-User-Email"] = params.userEmail;
+  if (params.idempotencyKey) headers["Idempotency-Key"] = params.idempotencyKey;
+  return headers;
+};
+
+// Adds the HMAC headers when WEBHOOK_SECRET is set; the message is method, path, query, timestamp (and body)
+async function signRequest(headers: Record<string, string>, method: "GET" | "POST", url: URL, body?: string) {
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret) return;
+  const timestamp = Date.now().toString();
+  const parts = [method, url.pathname, url.search, timestamp];
+  if (body !== undefined) parts.push(body);
+  const signingMessage = parts.join("\n");
+  try {
+    const signature = await hmacSha256Hex(secret, signingMessage);
+    headers["X-Webhook-Timestamp"] = timestamp;
+    headers["X-Webhook-Signature"] = signature;
+    headers["X-Webhook-Signature-Alg"] = "HMAC-SHA256";
+  } catch (e) {
+    console.log(`[Webhook][Signing][${method}][Error]`, { error: String(e) });
   }
-  return hex;
+}
+
+// Legacy: GET request carrying id + full SAP JSON in the query string
+async function buildSignedGetRequest(target: URL, params: SignedRequestParams) {
+  const url = new URL(target.toString());
+  for (const [key, value] of getQueryParams(params)) {
+    url.searchParams.set(key, value);
+  }
+  const headers = baseHeaders(params);
+  await signRequest(headers, "GET", url);
+  return { url, headers };
+}
+
+/**
+ * POST request with the SAP payload as JSON body, optionally gzip-compressed.
+ * The signature covers the uncompressed body, as for sendWebhook.
+ */
+async function buildSignedPostRequest(target: URL, params: SignedRequestParams, gzip: boolean) {
+  const url = new URL(target.toString());
+  const json = buildPostBody(params);
+  const headers = baseHeaders(params);
+  headers["Content-Type"] = "application/json";
+  await signRequest(headers, "POST", url, json);
+  if (!gzip) {
+    return { url, headers, body: json };
+  }
+  headers["Content-Encoding"] = "gzip";
+  return { url, headers, body: new Uint8Array(gzipSync(json)) };
 }
 
 export const sendWebhook = action({
@@ -53,6 +116,9 @@ export const sendWebhook = action({
     timeoutMs: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    // Sending to SAP is an admin action
+    await ctx.runQuery(internal.users.assertRole, { role: ROLES.ADMIN });
+
     // Log request (full JSON payload)
     try {
       console.log("[Webhook][Request][POST]", {
@@ -182,6 +248,9 @@ export const sendWebhookGet = action({
     source: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // Sending to SAP is an admin action
+    await ctx.runQuery(internal.users.assertRole, { role: ROLES.ADMIN });
+
     // Fix request logging to reflect GET args (no args.body here)
     try {
       console.log("[Webhook][Request][GET]", {
@@ -196,77 +265,18 @@ export const sendWebhookGet = action({
       console.log("[Webhook][Request][GET][LogError]", { error: String(e) });
     }
 
-    // Validate URL and enforce HTTPS, but allow http for localhost
-    let target: URL;
-    try {
-      target = new URL(args.url);
-    } catch {
+    const checked = checkWebhookTarget(args.url);
+    if (!checked.ok) {
       return {
         ok: false,
         status: 0,
-        body: "Invalid webhook URL",
+        body: checked.error,
         url: args.url,
         method: "GET" as const,
       };
     }
-    if (target.protocol !== "https:") {
-      const isLocalhost =
-        target.protocol === "http:" &&
-        (target.hostname === "localhost" || target.hostname === "127.0.0.1");
-      if (!isLocalhost) {
-        return {
-          ok: false,
-          status: 0,
-          body: "Webhook URL must use HTTPS (or http on localhost)",
-          url: target.toString(),
-          method: "GET" as const,
-        };
-      }
-    }
-
-    // Enforce optional hostname allowlist
-    const allowlist = getAllowedHosts();
-    if (
-      allowlist.length > 0 &&
-      !allowlist.includes(target.hostname.toLowerCase()) &&
-      !isLocalhostHost(target.hostname.toLowerCase())
-    ) {
-      return {
-        ok: false,
-        status: 0,
-        body: "Webhook host is not allowed by WEBHOOK_ALLOW_HOSTS",
-        url: target.toString(),
-        method: "GET" as const,
-      };
-    }
 
-    // Build final URL with query params
-    const url = new URL(target.toString());
-    url.searchParams.set("id", args.id);
-    url.searchParams.set("sap", args.sap);
-    if (args.routeId) url.searchParams.set("routeId", args.routeId);
-    if (args.userEmail) url.searchParams.set("userEmail", args.userEmail);
-    if (args.source) url.searchParams.set("source", args.source);
-
-    // Build headers with optional HMAC signature (no body for GET)
-    const headers: Record<string, string> = {
-      "X-Webhook-Source": "convex",
-    };
-    if (args.userEmail) headers["X-Webhook-User-Email"] = args.userEmail;
-
-    const secret = process.env.WEBHOOK_SECRET;
-    const timestamp = Date.now().toString();
-    if (secret) {
-      const signingMessage = ["GET", url.pathname, url.search, timestamp].join("\n");
-      try {
-        const signature = await hmacSha256Hex(secret, signingMessage);
-        headers["X-Webhook-Timestamp"] = timestamp;
-        headers["X-Webhook-Signature"] = signature;
-        headers["X-Webhook-Signature-Alg"] = "HMAC-SHA256";
-      } catch (e) {
-        console.log("[Webhook][Signing][GET][Error]", { error: String(e) });
-      }
-    }
+    const { url, headers } = await buildSignedGetRequest(checked.url, args);
 
     const res = await fetch(url.toString(), { method: "GET", headers });
     const text = await res.text().catch(() => "");
@@ -291,4 +301,85 @@ export const sendWebhookGet = action({
       method: "GET" as const,
     };
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Send one attempt of a queued delivery (webhookQueue.ts) and report the outcome back to the queue,
+ * which decides between delivered, retry with backoff, and dead.
+ */
+export const deliverQueued = internalAction({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  handler: async (ctx, args): Promise<null> => {
+    const delivery = await ctx.runMutation(internal.webhookQueue.claim, { deliveryId: args.deliveryId });
+    if (!delivery) return null;
+
+    const startedAt = Date.now();
+    const report = (outcome: {
+      ok: boolean;
+      statusCode?: number;
+      responseBody?: string;
+      error?: string;
+      retriable?: boolean;
+    }) =>
+      ctx.runMutation(internal.webhookQueue.recordAttempt, {
+        deliveryId: delivery._id,
+        startedAt,
+        latencyMs: Date.now() - startedAt,
+        ...outcome,
+      });
+
+    const checked = checkWebhookTarget(delivery.url);
+    if (!checked.ok) {
+      await report({ ok: false, error: checked.error, retriable: false });
+      return null;
+    }
+
+    const params = {
+      id: delivery.externalId,
+      sap: delivery.sap,
+      routeId: delivery.routeId,
+      userEmail: delivery.userEmail,
+      source: delivery.source,
+      idempotencyKey: delivery.idempotencyKey,
+    };
+    // Limits may have changed since the delivery was queued
+    const size = checkPayloadSize(delivery.mode, checked.url.toString(), params);
+    if (size.error) {
+      await report({ ok: false, error: size.error, retriable: false });
+      return null;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 15000);
+    try {
+      let res: Response;
+      if (delivery.mode === DELIVERY_MODE.GET) {
+        const { url, headers } = await buildSignedGetRequest(checked.url, params);
+        res = await fetch(url.toString(), { method: "GET", headers, signal: controller.signal });
+      } else {
+        const { url, headers, body } = await buildSignedPostRequest(
+          checked.url,
+          params,
+          delivery.mode === DELIVERY_MODE.POST_GZIP,
+        );
+        res = await fetch(url.toString(), { method: "POST", headers, body, signal: controller.signal });
+      }
+      const text = await res.text().catch(() => "");
+      console.log("[Webhook][Delivery]", {
+        deliveryId: delivery._id,
+        attempt: delivery.attempts,
+        mode: delivery.mode,
+        status: res.status,
+        ok: res.ok,
+      });
+      await report({ ok: res.ok, statusCode: res.status, responseBody: text });
+    } catch (e: any) {
+      const error = e?.name === "AbortError" ? "Request timed out (15s)" : e?.message || "Network error";
+      console.log("[Webhook][Delivery][Error]", { deliveryId: delivery._id, attempt: delivery.attempts, error });
+      await report({ ok: false, error });
+    } finally {
+      clearTimeout(timeout);
+    }
+    return null;
+  },
+});
@@ -0,0 +1,162 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { ROLES, WORKFLOW_STATUS, WorkflowStatus } from "./schema";
+import { requireRole } from "./users";
+
+const {
+  RECEIVED,
+  EXTRACTED,
+  IN_REVIEW,
+  APPROVED,
+  SUBMITTED,
+  CONFIRMED,
+  REJECTED,
+} = WORKFLOW_STATUS;
+
+// Allowed next statuses. Moving back to in_review is the "Reopen" action.
+export const WORKFLOW_TRANSITIONS: Record<WorkflowStatus, ReadonlyArray<WorkflowStatus>> = {
+  [RECEIVED]: [EXTRACTED, IN_REVIEW, REJECTED],
+  [EXTRACTED]: [IN_REVIEW, APPROVED, REJECTED],
+  [IN_REVIEW]: [APPROVED, REJECTED],
+  [APPROVED]: [SUBMITTED, IN_REVIEW, REJECTED],
+  [SUBMITTED]: [CONFIRMED, REJECTED],
+  [CONFIRMED]: [],
+  [REJECTED]: [IN_REVIEW],
+};
+
+// Statuses in which the reviewed SAP payload may no longer change
+const LOCKED_STATUSES: ReadonlyArray<WorkflowStatus> = [APPROVED, SUBMITTED, CONFIRMED];
+
+/**
+ * Status for the initial import of a document: extracted once the pipeline produced data.
+ */
+export function initialWorkflowStatus(doc: { documentData?: unknown; sapAiOutput?: unknown }): WorkflowStatus {
+  return doc.documentData !== undefined || doc.sapAiOutput !== undefined ? EXTRACTED : RECEIVED;
+}
+
+/**
+ * Current status of a document; documents imported before the workflow existed have none stored.
+ */
+export function workflowStatusOf(doc: Doc<"documents">): WorkflowStatus {
+  return doc.workflowStatus ?? initialWorkflowStatus(doc);
+}
+
+export function isSapLocked(doc: Doc<"documents">) {
+  return LOCKED_STATUSES.includes(workflowStatusOf(doc));
+}
+
+/**
+ * Move a document to `to`, recording the transition. Throws if the lifecycle does not allow it.
+ * `actorId` is omitted for system transitions (import, SAP callbacks).
+ */
+export async function applyTransition(
+  ctx: MutationCtx,
+  doc: Doc<"documents">,
+  to: WorkflowStatus,
+  actorId?: Id<"users">,
+  reason?: string,
+) {
+  const from = workflowStatusOf(doc);
+  if (!WORKFLOW_TRANSITIONS[from].includes(to)) {
+    throw new Error(`Cannot move a document from ${from} to ${to}`);
+  }
+  const actor = actorId ? await ctx.db.get(actorId) : null;
+  const now = Date.now();
+
+  await ctx.db.insert("workflowTransitions", {
+    documentId: doc._id,
+    from,
+    to,
+    actorId,
+    actorName: actor?.name || actor?.email || undefined,
+    reason,
+    createdAt: now,
+  });
+  await ctx.db.patch(doc._id, {
+    workflowStatus: to,
+    workflowUpdatedAt: now,
+    rejectionReason: to === REJECTED ? reason : undefined,
+    ...(doc.sortKeys ? { sortKeys: { ...doc.sortKeys, status: to } } : {}),
+  });
+
+  return to;
+}
+
+/**
+ * Record the status a newly imported document starts in.
+ */
+export async function initializeWorkflow(ctx: MutationCtx, documentId: Id<"documents">, status: WorkflowStatus) {
+  await ctx.db.insert("workflowTransitions", {
+    documentId,
+    to: status,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Workflow state of a document: current status, the statuses it may move to, its history (newest first)
+ * and the latest SAP sales order response.
+ */
+export const state = query({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return null;
+    }
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      return null;
+    }
+    const status = workflowStatusOf(doc);
+    const history = await ctx.db
+      .query("workflowTransitions")
+      .withIndex("by_document", (q) => q.eq("documentId", doc._id))
+      .order("desc")
+      .collect();
+
+    return {
+      status,
+      allowed: WORKFLOW_TRANSITIONS[status],
+      sapLocked: isSapLocked(doc),
+      rejectionReason: doc.rejectionReason,
+      sapResponse: doc.sapResponse,
+      history,
+    };
+  },
+});
+
+/**
+ * Reviewer actions: approve, reject (reason required) and reopen (back to in_review).
+ * Submitted is set by the webhook queue once the payload was delivered.
+ */
+export const transition = mutation({
+  args: {
+    documentId: v.id("documents"),
+    to: v.union(
+      v.literal(APPROVED),
+      v.literal(REJECTED),
+      v.literal(IN_REVIEW),
+    ),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ROLES.USER);
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      throw new Error("Document not found");
+    }
+    const reason = args.reason?.trim() || undefined;
+    if (args.to === REJECTED && !reason) {
+      throw new Error("A reason is required to reject a document");
+    }
+    if (args.to === APPROVED && doc.sapReviewed === undefined && doc.sapAiOutput === undefined) {
+      throw new Error("Cannot approve a document without an SAP payload");
+    }
+
+    const status = await applyTransition(ctx, doc, args.to, user._id, reason);
+    return { success: true, status };
+  },
+});
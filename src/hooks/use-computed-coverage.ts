@@ -0,0 +1,26 @@
+import { useMemo } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import type { EvidenceCoverageSummary } from "@/convex/schema";
+import { documentCoverage } from "@/lib/evidenceCoverage";
+
+type CoverageRow = { _id: Id<"documents">; evidenceCoverage?: EvidenceCoverageSummary };
+
+/**
+ * Evidence coverage score of listed documents that have none stored, e.g. imported and never saved,
+ * keyed by document id. Computed in the browser for display only; the first save stores it.
+ */
+export function useComputedCoverage(rows: Array<CoverageRow>, enabled = true) {
+  const ids = useMemo(() => rows.filter((r) => !r.evidenceCoverage).map((r) => r._id), [rows]);
+  const inputs = useQuery(api.documents.coverageInputs, enabled && ids.length ? { ids } : "skip");
+
+  return useMemo(() => {
+    const scores = new Map<Id<"documents">, number>();
+    for (const input of inputs ?? []) {
+      const { score } = documentCoverage(input.sap, input.documentData, input.sapAiOutput, input.manualBoxes);
+      if (score !== null) scores.set(input._id, score);
+    }
+    return scores;
+  }, [inputs]);
+}
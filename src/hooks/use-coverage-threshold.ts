@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_COVERAGE_THRESHOLD } from "@/lib/evidenceCoverage";
+
+const STORAGE_KEY = "evidenceCoverageThreshold";
+
+function readThreshold(): number {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const v = raw ? Number(raw) : NaN;
+    return v >= 0 && v <= 1 ? v : DEFAULT_COVERAGE_THRESHOLD;
+  } catch {
+    return DEFAULT_COVERAGE_THRESHOLD;
+  }
+}
+
+/**
+ * Evidence coverage (0..1) below which a document is flagged, persisted to localStorage and shared
+ * by the documents list and the review screen.
+ */
+export function useCoverageThreshold() {
+  const [threshold, setThreshold] = useState<number>(readThreshold);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, String(threshold));
+    } catch {
+      // ignore
+    }
+  }, [threshold]);
+
+  // Follow changes made in another tab
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) setThreshold(readThreshold());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  return [threshold, setThreshold] as const;
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+
+const FLASH_MS = 1600;
+
+/**
+ * True for a moment each time `trigger` changes to a new non-zero value, e.g. to flash the fields
+ * a click on the document revealed.
+ */
+export function useFlash(trigger: number | undefined, durationMs = FLASH_MS) {
+  const [flashing, setFlashing] = useState(false);
+
+  useEffect(() => {
+    if (!trigger) return;
+    setFlashing(true);
+    const timer = window.setTimeout(() => setFlashing(false), durationMs);
+    return () => window.clearTimeout(timer);
+  }, [trigger, durationMs]);
+
+  return flashing;
+}
@@ -0,0 +1,22 @@
+import { useCallback } from "react";
+import { useAction } from "convex/react";
+import { api } from "@/convex/_generated/api";
+
+export type { ImportSummary } from "@/convex/n8nSync";
+
+/**
+ * Import rows from the Supabase "N8N Logs" table into the Convex documents table. The server reads
+ * the rows itself (src/convex/n8nSync.ts); lists read from Convex only.
+ * - importNew: rows created since the newest imported one
+ * - importOne: a single row by its id (e.g. when a document link is opened before the list synced,
+ *   or after a realtime change)
+ */
+export function useN8nImport() {
+  const syncRecent = useAction(api.n8nSync.syncRecent);
+  const syncOne = useAction(api.n8nSync.syncOne);
+
+  const importNew = useCallback(() => syncRecent({}), [syncRecent]);
+  const importOne = useCallback((externalId: string) => syncOne({ externalId }), [syncOne]);
+
+  return { importNew, importOne };
+}
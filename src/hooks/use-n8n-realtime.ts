@@ -0,0 +1,64 @@
+import { useEffect, useRef } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { supabase, hasSupabaseEnv } from "@/lib/supabase";
+import { useN8nImport } from "@/hooks/use-n8n-import";
+
+type N8nRealtimeOptions = {
+  enabled: boolean;
+  // Called with the "N8N Logs" id of each inserted row once it is imported
+  onInserted?: (externalId: string) => void;
+  onDeleted?: (externalId: string) => void;
+  // Removing documents needs the admin role; other sessions ignore deletes
+  mirrorDeletes?: boolean;
+};
+
+/**
+ * Mirror inserts, updates and deletes on the Supabase "N8N Logs" table into the Convex
+ * documents table as they happen. Lists reading from Convex then update on their own.
+ * Requires realtime to be enabled for the table in Supabase (Database > Publications).
+ */
+export function useN8nRealtime({ enabled, onInserted, onDeleted, mirrorDeletes = false }: N8nRealtimeOptions) {
+  const { importOne } = useN8nImport();
+  const removeDocument = useMutation(api.documents.removeByExternalId);
+
+  // Keep the subscription stable while callbacks change between renders
+  const handlersRef = useRef({ importOne, removeDocument, onInserted, onDeleted, mirrorDeletes });
+  handlersRef.current = { importOne, removeDocument, onInserted, onDeleted, mirrorDeletes };
+
+  useEffect(() => {
+    if (!enabled || !hasSupabaseEnv) return;
+
+    const channel = supabase
+      .channel("n8n-logs-inbox")
+      .on("postgres_changes", { event: "*", schema: "public", table: "N8N Logs" }, (payload) => {
+        const handlers = handlersRef.current;
+        const handle = async () => {
+          if (payload.eventType === "DELETE") {
+            const id = (payload.old as Record<string, unknown>)?.id;
+            if (id === undefined || id === null) return;
+            if (handlers.mirrorDeletes) await handlers.removeDocument({ externalId: String(id) });
+            handlers.onDeleted?.(String(id));
+            return;
+          }
+          // Only the id is taken from the payload; the server reads the row itself
+          const id = (payload.new as Record<string, unknown>)?.id;
+          if (id === undefined || id === null) return;
+          await handlers.importOne(String(id));
+          if (payload.eventType === "INSERT") handlers.onInserted?.(String(id));
+        };
+        handle().catch((error) => {
+          console.error("Realtime sync failed for N8N Logs change:", payload.eventType, error);
+        });
+      })
+      .subscribe((status) => {
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          console.warn("N8N Logs realtime subscription:", status);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled]);
+}
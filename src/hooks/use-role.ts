@@ -0,0 +1,19 @@
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { useAuth } from "@/hooks/use-auth";
+
+/**
+ * Effective role of the signed in user (see convex/users.ts).
+ * Only used to hide controls; every mutation and action checks the role again on the backend.
+ */
+export function useRole() {
+  const { isAuthenticated } = useAuth();
+  const role = useQuery(api.users.currentRole, isAuthenticated ? {} : "skip");
+
+  return {
+    role: role ?? null,
+    isLoading: isAuthenticated && role === undefined,
+    canEdit: role === "user" || role === "admin",
+    isAdmin: role === "admin",
+  };
+}
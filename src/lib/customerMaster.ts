@@ -0,0 +1,288 @@
+import type { Customer } from "@/convex/customers";
+import type { CustomerImportRow } from "@/convex/schema";
+import { locateField } from "@/lib/documentPages";
+import type { DocumentData } from "@/lib/supabase";
+import { tokenize, tokenSimilarity } from "@/lib/valueMatching";
+
+// Customer master CSV import and sold-to party suggestions for the SAP editor.
+
+type CustomerColumn = keyof CustomerImportRow;
+
+// Customers sent per customers.importRows call; the mutation accepts at most 500
+export const CUSTOMER_IMPORT_BATCH = 500;
+
+// Header captions accepted per column, compared lower-cased without spaces or punctuation
+const COLUMN_ALIASES: Record<CustomerColumn, Array<string>> = {
+  customerNumber: ["customernumber", "customerno", "customer", "customerid", "kunnr", "soldtoparty", "soldto"],
+  name: ["name", "name1", "customername", "companyname", "company"],
+  name2: ["name2", "namesupplement"],
+  street: ["street", "streetaddress", "address", "strasse"],
+  postalCode: ["postalcode", "postcode", "zip", "zipcode", "plz"],
+  city: ["city", "town", "ort"],
+  country: ["country", "countrykey", "land"],
+  emailDomains: ["emaildomains", "emaildomain", "domains", "domain", "email", "emails"],
+  salesOrganization: ["salesorganization", "salesorg", "vkorg"],
+  distributionChannel: ["distributionchannel", "distrchannel", "channel", "vtweg"],
+  division: ["division", "organizationdivision", "spart"],
+};
+
+const captionKey = (caption: string) => caption.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Delimiter used most often outside quotes on the first line
+function detectDelimiter(text: string): string {
+  const counts = new Map<string, number>([[",", 0], [";", 0], ["\t", 0]]);
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === "\n" || ch === "\r")) break;
+    else if (!quoted && counts.has(ch)) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Records of a CSV text (RFC 4180 quoting; comma, semicolon or tab separated). Blank lines are dropped.
+ */
+export function parseCsv(text: string): Array<Array<string>> {
+  const delimiter = detectDelimiter(text);
+  const records: Array<Array<string>> = [];
+  let record: Array<string> = [];
+  let field = "";
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some((f) => f.trim())) records.push(record);
+    record = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length) endRecord();
+  return records;
+}
+
+// Domain of an email address, including "Name <user@host>" forms
+export function emailDomain(text: string | null | undefined): string | undefined {
+  return /@([a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,})/i.exec(text ?? "")?.[1].toLowerCase();
+}
+
+// Email domains given as a list of domains or of addresses
+const domainsOf = (text: string) =>
+  text
+    .split(/[\s,;|]+/)
+    .map((part) => (part.includes("@") ? (emailDomain(part) ?? "") : part.toLowerCase()))
+    .filter(Boolean);
+
+export type CustomerCsvResult = {
+  rows: Array<CustomerImportRow>;
+  // Lines that were skipped, with the reason
+  errors: Array<string>;
+  // Columns of the file that were not recognized
+  ignoredColumns: Array<string>;
+};
+
+/**
+ * Customer master rows of a CSV export. The first line names the columns (see COLUMN_ALIASES);
+ * a customer number and a name are required.
+ */
+export function parseCustomerCsv(text: string): CustomerCsvResult {
+  const [header = [], ...lines] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const columns = header.map((caption) => {
+    const key = captionKey(caption);
+    return (Object.keys(COLUMN_ALIASES) as Array<CustomerColumn>).find((c) => COLUMN_ALIASES[c].includes(key));
+  });
+  const ignoredColumns = header.filter((caption, i) => caption.trim() && !columns[i]);
+  if (!columns.includes("customerNumber") || !columns.includes("name")) {
+    return { rows: [], errors: ["The file needs a customer number and a name column"], ignoredColumns };
+  }
+
+  const rows: Array<CustomerImportRow> = [];
+  const errors: Array<string> = [];
+  lines.forEach((line, i) => {
+    const row: CustomerImportRow = { customerNumber: "", name: "", emailDomains: [] };
+    columns.forEach((column, c) => {
+      const value = line[c]?.trim();
+      if (!column || !value) return;
+      if (column === "emailDomains") row.emailDomains.push(...domainsOf(value));
+      else row[column] = value;
+    });
+    // Line numbers as in the file, after the header
+    if (!row.customerNumber) errors.push(`Line ${i + 2}: no customer number`);
+    else if (!row.name) errors.push(`Line ${i + 2}: no name for customer ${row.customerNumber}`);
+    else rows.push(row);
+  });
+  return { rows, errors, ignoredColumns };
+}
+
+// Mailbox providers; their domains say nothing about the customer
+const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "yahoo.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "gmx.de",
+  "gmx.net",
+  "web.de",
+  "t-online.de",
+  "proton.me",
+  "protonmail.com",
+]);
+
+// Legal forms that most company names share
+const LEGAL_FORMS = new Set([
+  "gmbh", "ag", "kg", "co", "mbh", "ltd", "limited", "inc", "llc", "corp", "corporation", "company", "sa", "sas", "srl",
+  "spa", "bv", "nv", "plc", "oy", "ab", "as",
+]);
+
+const nameTokens = (text: string) => tokenize(text).filter((t) => !LEGAL_FORMS.has(t));
+
+// What a document tells about its sold-to party
+export type SoldToEvidence = {
+  domains: Array<string>; // sender and extracted contact email domains, without free mail providers
+  customerName?: string;
+  address?: string;
+};
+
+/**
+ * Sold-to evidence of a document: the domain of the sender (`from`) and of the extracted contact
+ * email, and the extracted customer name and address.
+ */
+export function soldToEvidence(data: DocumentData | null | undefined, from: string | null | undefined): SoldToEvidence {
+  const text = (key: string) =>
+    String(locateField(data, `customerparties.customer_information.${key}`)?.value.value ?? "").trim();
+  const domains = [emailDomain(from), emailDomain(text("email_address"))].filter(
+    (d): d is string => !!d && !FREE_MAIL_DOMAINS.has(d),
+  );
+  return {
+    domains: Array.from(new Set(domains)),
+    customerName: text("customer_name") || undefined,
+    address: text("address") || undefined,
+  };
+}
+
+// Text to search the customer master with
+export const soldToSearchText = (evidence: SoldToEvidence) =>
+  [evidence.customerName, evidence.address].filter(Boolean).join(" ");
+
+export type SoldToSuggestion = {
+  customer: Customer;
+  score: number; // 0..1
+  reasons: Array<string>;
+};
+
+// Share of the score per kind of evidence; kinds the document has no evidence for are left out
+const WEIGHTS = { domain: 0.5, name: 0.35, address: 0.15 };
+
+// Candidates scoring lower are not suggested
+export const MIN_SUGGESTION_SCORE = 0.25;
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+/**
+ * Candidates ranked as the document's sold-to party. A sender domain that is (a subdomain of) one of
+ * the customer's domains counts most, then the similarity of the extracted name and address.
+ */
+export function rankSoldToCandidates(customers: Array<Customer>, evidence: SoldToEvidence): Array<SoldToSuggestion> {
+  const name = evidence.customerName ? nameTokens(evidence.customerName) : [];
+  const address = evidence.address ? tokenize(evidence.address) : [];
+  const weight =
+    (evidence.domains.length ? WEIGHTS.domain : 0) +
+    (name.length ? WEIGHTS.name : 0) +
+    (address.length ? WEIGHTS.address : 0);
+  if (!weight) return [];
+
+  return customers
+    .map((customer) => {
+      const reasons: Array<string> = [];
+      let score = 0;
+      const domain = evidence.domains.find((d) =>
+        customer.emailDomains.some((own) => d === own || d.endsWith(`.${own}`)),
+      );
+      if (domain) {
+        score += WEIGHTS.domain;
+        reasons.push(`Sender domain ${domain}`);
+      }
+      if (name.length) {
+        const similarity = tokenSimilarity(name, nameTokens(`${customer.name} ${customer.name2 ?? ""}`));
+        score += WEIGHTS.name * similarity;
+        if (similarity > 0) reasons.push(`Name ${percent(similarity)}`);
+      }
+      if (address.length) {
+        const own = tokenize([customer.street, customer.postalCode, customer.city, customer.country].join(" "));
+        const similarity = tokenSimilarity(address, own);
+        score += WEIGHTS.address * similarity;
+        if (similarity > 0) reasons.push(`Address ${percent(similarity)}`);
+      }
+      return { customer, score: score / weight, reasons };
+    })
+    .filter((s) => s.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Address of a customer on one line
+export const customerAddress = (customer: Customer) =>
+  [customer.street, [customer.postalCode, customer.city].filter(Boolean).join(" "), customer.country]
+    .filter(Boolean)
+    .join(", ");
+
+// Partner functions of the sales order API (to_Partner.PartnerFunction)
+export const PARTNER_FUNCTIONS: Array<{ code: string; label: string }> = [
+  { code: "SP", label: "Sold-to party" },
+  { code: "SH", label: "Ship-to party" },
+  { code: "BP", label: "Bill-to party" },
+  { code: "PY", label: "Payer" },
+  { code: "CP", label: "Contact person" },
+  { code: "ER", label: "Employee responsible" },
+];
+
+// SAP editor fields filled from the customer master
+export const isSoldToPath = (path: string) => path === "$.SoldToParty";
+export const isPartnerCustomerPath = (path: string) => /^\$\.to_Partner\.\[\d+\]\.Customer$/.test(path);
+export const isPartnerFunctionPath = (path: string) => /^\$\.to_Partner\.\[\d+\]\.PartnerFunction$/.test(path);
+
+/**
+ * Header fields to set when `customer` becomes the sold-to party: its number and, where the
+ * payload has none yet, its default sales area.
+ */
+export function soldToUpdates(customer: Customer, sap: unknown): Array<{ path: string; value: string }> {
+  const header = sap && typeof sap === "object" && !Array.isArray(sap) ? (sap as Record<string, unknown>) : {};
+  const blank = (key: string) => !String(header[key] ?? "").trim();
+  const updates = [{ path: "$.SoldToParty", value: customer.customerNumber }];
+  const salesArea: Array<[string, string | undefined]> = [
+    ["SalesOrganization", customer.salesOrganization],
+    ["DistributionChannel", customer.distributionChannel],
+    ["OrganizationDivision", customer.division],
+  ];
+  for (const [key, value] of salesArea) {
+    if (value && blank(key)) updates.push({ path: `$.${key}`, value });
+  }
+  return updates;
+}
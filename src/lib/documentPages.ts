@@ -0,0 +1,60 @@
+import type { DocumentData, FieldValue, Item } from "@/lib/supabase";
+
+// Extracted fields live on the pages[] entry of the physical page they were read from, so a
+// document's header, items and notes can be spread over several entries.
+
+type ExtractionPage = DocumentData["document"]["pages"][number];
+type OtherInformation = ExtractionPage["other_information"][number];
+
+// A value of document_data with its "$.key.[i].key" path and 1-based page
+export type Located<T> = { value: T; path: string; page: number };
+
+export const pagePath = (index: number) => `$.document.pages.[${index}]`;
+
+// Page of an extraction page: its page_number, else its position
+export const pageNumberOf = (page: ExtractionPage | undefined, index: number) =>
+  typeof page?.page_number === "number" ? page.page_number : index + 1;
+
+const pagesOf = (data: DocumentData | null | undefined): Array<ExtractionPage> =>
+  Array.isArray(data?.document?.pages) ? data.document.pages : [];
+
+/**
+ * Header field at `key` ("metadata.date", "parties.vendor_information.address", ...) from the first
+ * page that has a value or a box for it; the first page's (empty) field otherwise.
+ */
+export function locateField(data: DocumentData | null | undefined, key: string): Located<FieldValue> | null {
+  const pages = pagesOf(data);
+  const fieldOf = (page: ExtractionPage) =>
+    key
+      .split(".")
+      .reduce<unknown>(
+        (node, k) => (node && typeof node === "object" ? (node as Record<string, unknown>)[k] : undefined),
+        page,
+      ) as FieldValue | undefined;
+
+  let fallback: Located<FieldValue> | null = null;
+  for (let i = 0; i < pages.length; i++) {
+    const field = fieldOf(pages[i]);
+    if (!field || typeof field !== "object") continue;
+    const located = { value: field, path: `${pagePath(i)}.${key}`, page: pageNumberOf(pages[i], i) };
+    if (String(field.value ?? "").trim() || field.bounding_box?.length) return located;
+    fallback ??= located;
+  }
+  return fallback;
+}
+
+function collect<T>(data: DocumentData | null | undefined, key: "items" | "other_information"): Array<Located<T>> {
+  return pagesOf(data).flatMap((page, i) =>
+    (Array.isArray(page?.[key]) ? (page[key] as Array<T>) : []).map((value, j) => ({
+      value,
+      path: `${pagePath(i)}.${key}.[${j}]`,
+      page: pageNumberOf(page, i),
+    })),
+  );
+}
+
+// Items of every page, in page order
+export const documentItems = (data: DocumentData | null | undefined) => collect<Item>(data, "items");
+
+export const otherInformation = (data: DocumentData | null | undefined) =>
+  collect<OtherInformation>(data, "other_information");
@@ -0,0 +1,23 @@
+// Search, sort and filter state of the documents list; applied server-side by documents.listPage
+
+export type DocumentsSortKey = "id" | "from" | "subject" | "status" | "doc" | "created" | "cc";
+
+export type DocumentsQuery = {
+  search: string;
+  sortBy: DocumentsSortKey;
+  sortDir: "asc" | "desc";
+  status: string;
+  sender: string;
+  dateFrom: string; // yyyy-mm-dd, inclusive
+  dateTo: string; // yyyy-mm-dd, inclusive
+};
+
+export const DEFAULT_DOCUMENTS_QUERY: DocumentsQuery = {
+  search: "",
+  sortBy: "id",
+  sortDir: "desc",
+  status: "",
+  sender: "",
+  dateFrom: "",
+  dateTo: "",
+};
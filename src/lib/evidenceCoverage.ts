@@ -0,0 +1,127 @@
+import type { CoverageCounts } from "@/convex/schema";
+import type { ManualBoxEvidence } from "@/lib/manualBoxes";
+import {
+  createSapToSourceMapping,
+  WEAK_MATCH_CONFIDENCE,
+  type MappingOptions,
+  type SapSourceMatch,
+  type SapToSourceMapping,
+} from "@/lib/mappingLedger";
+
+/**
+ * Evidence for one SAP value: the source shows it, the source shows it only weakly (a low-confidence
+ * or partial match, e.g. another reading of an amount or a description with other words), the
+ * source field the extracted value was read from holds another value, or the source has nothing for
+ * it. A weak match says nothing about whether the value is wrong; a differing one usually is, or was
+ * changed on purpose.
+ */
+export type EvidenceStatus = "evidence" | "weak" | "differs" | "none";
+
+export type CoverageSection = "header" | "partners" | "items" | "pricing";
+
+export const COVERAGE_SECTION_LABELS: Record<CoverageSection, string> = {
+  header: "Header",
+  partners: "Partners",
+  items: "Items",
+  pricing: "Pricing",
+};
+
+export type CoverageField = {
+  path: string; // "$.key.[i].key"
+  section: CoverageSection;
+  value: string | number;
+  status: EvidenceStatus;
+  // Where the source shows the value; for "differs", the source field holding the other value
+  match: SapSourceMatch | null;
+};
+
+export type EvidenceCoverage = {
+  fields: Array<CoverageField>;
+  counts: Record<EvidenceStatus, number>;
+  // Share of fields with evidence, 0..1; null when the payload has no values to check
+  score: number | null;
+};
+
+// Documents scoring below this are flagged in the documents list unless the user picks another threshold
+export const DEFAULT_COVERAGE_THRESHOLD = 0.8;
+
+const isSolid = (match: SapSourceMatch | null | undefined): match is SapSourceMatch =>
+  !!match && match.method !== "partial" && match.confidence >= WEAK_MATCH_CONFIDENCE;
+
+/**
+ * Status of a SAP value from its match, and from `reference`, the match of the value extracted for
+ * the same path: when the extracted value was found in the source and the current one is not, the
+ * field it was read from holds something else.
+ */
+export function evidenceStatus(
+  match: SapSourceMatch | null | undefined,
+  reference?: SapSourceMatch | null,
+): EvidenceStatus {
+  if (isSolid(match)) return "evidence";
+  if (isSolid(reference) && reference.sourceText !== undefined) return "differs";
+  return match ? "weak" : "none";
+}
+
+// Pricing elements are their own section wherever they sit; other arrays go by their top-level key
+function sectionOf(path: string): CoverageSection {
+  if (/PricingElement/.test(path)) return "pricing";
+  if (path.startsWith("$.to_Partner.")) return "partners";
+  if (path.startsWith("$.to_Item.")) return "items";
+  return "header";
+}
+
+/**
+ * Evidence status of every SAP value, from `createSapToSourceMapping`; `reference` maps the payload
+ * as extracted and tells which values differ from the source. Empty values and booleans (flags no
+ * document prints) are left out; the score counts only fields with evidence.
+ */
+export function evidenceCoverage(
+  sap: unknown,
+  mapping: SapToSourceMapping,
+  reference: SapToSourceMapping = {},
+): EvidenceCoverage {
+  const fields: Array<CoverageField> = [];
+
+  const visit = (val: unknown, path: string) => {
+    if (Array.isArray(val)) {
+      val.forEach((v, i) => visit(v, `${path}.[${i}]`));
+      return;
+    }
+    if (val && typeof val === "object") {
+      for (const [k, v] of Object.entries(val)) visit(v, `${path}.${k}`);
+      return;
+    }
+    if (typeof val === "number" || (typeof val === "string" && val.trim() !== "")) {
+      const status = evidenceStatus(mapping[path], reference[path]);
+      const match = (status === "differs" ? reference[path] : mapping[path]) ?? null;
+      fields.push({ path, section: sectionOf(path), value: val, status, match });
+    }
+  };
+  visit(sap, "$");
+
+  const counts: Record<EvidenceStatus, number> = { evidence: 0, weak: 0, differs: 0, none: 0 };
+  for (const field of fields) counts[field.status]++;
+  return { fields, counts, score: fields.length ? counts.evidence / fields.length : null };
+}
+
+/**
+ * Coverage of `sap` against a document's extraction, with `extractedSap` (the payload as the
+ * pipeline delivered it) as the reference for differing values.
+ */
+export function documentCoverage(
+  sap: unknown,
+  documentData: unknown,
+  extractedSap: unknown,
+  manualBoxes: Array<ManualBoxEvidence> = [],
+  options: MappingOptions = {},
+): EvidenceCoverage {
+  const mapping = createSapToSourceMapping(sap, documentData, manualBoxes, options);
+  const reference = extractedSap ? createSapToSourceMapping(extractedSap, documentData, manualBoxes, options) : {};
+  return evidenceCoverage(sap, mapping, reference);
+}
+
+// Summary stored with a saved payload (documents.saveReviewedSap); none when there is nothing to check
+export const coverageCounts = (coverage: EvidenceCoverage): CoverageCounts | undefined =>
+  coverage.score === null ? undefined : { score: coverage.score, ...coverage.counts };
+
+export const formatCoverage = (score: number) => `${Math.round(score * 100)}%`;
@@ -0,0 +1,238 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { pageGeometryOf, pageOfBox, toUnitEdges, type PageGeometry, type UnitEdges } from "@/lib/geometry";
+import type { ManualBox } from "@/lib/manualBoxes";
+import { createSapToSourceMapping, WEAK_MATCH_CONFIDENCE, type SapToSourceMapping } from "@/lib/mappingLedger";
+import { buildPdf, fitText, lineOp, rectOp, textOp, type PdfPage } from "@/lib/pdfWriter";
+import { colorForPath } from "@/lib/sectionColors";
+
+// Pages are rasterized at up to 2x (144 dpi), capped so large scans stay within canvas limits
+const EXPORT_RENDER_SCALE = 2;
+const MAX_EXPORT_SIDE_PX = 2480;
+const JPEG_QUALITY = 0.85;
+// Page sizes above A2 are pixel-sized scans rather than points; those are fitted to A4
+const MAX_PAGE_SIDE_PT = 1684;
+const A4 = { width: 595.28, height: 841.89 };
+
+// One highlight on a page; SAP fields mapped to the same source box share it
+type EvidenceMark = UnitEdges & { color: string; labels: Array<string> };
+
+type SummaryRow = { label: string; value: string; path: string };
+type SummarySection = { title: string; rows: Array<SummaryRow> };
+
+export type EvidenceExportInput = {
+  pdf: PDFDocumentProxy;
+  sap: unknown;
+  documentData?: unknown;
+  manualBoxes?: Array<ManualBox>;
+  title?: string;
+  onProgress?: (done: number, total: number) => void;
+};
+
+// "$.items.[0].material" -> "items[1].material" (rows counted from 1, as in the summary)
+export function sapFieldLabel(path: string): string {
+  return path.replace(/^\$\.?/, "").replace(/\.\[(\d+)\]/g, (_, i) => `[${Number(i) + 1}]`);
+}
+
+function marksByPage(mapping: SapToSourceMapping, numPages: number, geometryOf: (page: number) => PageGeometry) {
+  const pages = new Map<number, Map<string, EvidenceMark>>();
+  for (const [path, box] of Object.entries(mapping)) {
+    if (!box) continue;
+    const page = pageOfBox(box, numPages);
+    const rect = toUnitEdges(box, geometryOf(page));
+    if (!rect) continue;
+    const key = [rect.x1, rect.y1, rect.x2, rect.y2].map((n) => n.toFixed(4)).join(",");
+    const marks = pages.get(page) ?? new Map<string, EvidenceMark>();
+    const mark = marks.get(key);
+    if (mark) mark.labels.push(sapFieldLabel(path));
+    else marks.set(key, { ...rect, color: colorForPath(path), labels: [sapFieldLabel(path)] });
+    pages.set(page, marks);
+  }
+  return pages;
+}
+
+function drawMarks(ctx: CanvasRenderingContext2D, marks: Iterable<EvidenceMark>, width: number, height: number, scale: number) {
+  const fontPx = Math.round(9 * scale);
+  ctx.font = `600 ${fontPx}px ui-sans-serif, system-ui, sans-serif`;
+  ctx.textBaseline = "middle";
+  for (const mark of marks) {
+    const x = mark.x1 * width;
+    const y = mark.y1 * height;
+    const w = (mark.x2 - mark.x1) * width;
+    const h = (mark.y2 - mark.y1) * height;
+
+    ctx.globalAlpha = 0.15;
+    ctx.fillStyle = mark.color;
+    ctx.fillRect(x, y, w, h);
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = mark.color;
+    ctx.lineWidth = Math.max(1, scale);
+    ctx.strokeRect(x, y, w, h);
+
+    // Label tag above the box, or inside it when the box touches the top of the page
+    const label = mark.labels.length > 2 ? `${mark.labels.slice(0, 2).join(", ")} +${mark.labels.length - 2}` : mark.labels.join(", ");
+    const padding = 3 * scale;
+    const tagH = fontPx + padding;
+    const tagW = Math.min(ctx.measureText(label).width + padding * 2, width - x);
+    const tagY = y - tagH >= 0 ? y - tagH : y;
+    ctx.fillStyle = mark.color;
+    ctx.fillRect(x, tagY, tagW, tagH);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(label, x + padding, tagY + tagH / 2, tagW - padding * 2);
+  }
+}
+
+async function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+  if (!blob) throw new Error("Could not encode page image");
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+async function renderEvidencePage(pdf: PDFDocumentProxy, pageNumber: number, marks: Iterable<EvidenceMark>): Promise<PdfPage> {
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const scale = Math.min(EXPORT_RENDER_SCALE, MAX_EXPORT_SIDE_PX / Math.max(base.width, base.height, 1));
+  const viewport = page.getViewport({ scale });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.floor(viewport.width));
+  canvas.height = Math.max(1, Math.floor(viewport.height));
+  try {
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvas, viewport }).promise;
+    drawMarks(ctx, marks, canvas.width, canvas.height, scale);
+
+    const fit = Math.max(base.width, base.height) > MAX_PAGE_SIDE_PT ? A4.height / Math.max(base.width, base.height) : 1;
+    return {
+      width: base.width * fit,
+      height: base.height * fit,
+      image: { jpeg: await canvasToJpeg(canvas), width: canvas.width, height: canvas.height },
+    };
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+}
+
+const formatValue = (v: unknown) => (v === null || v === undefined ? "" : typeof v === "object" ? JSON.stringify(v) : String(v));
+
+/**
+ * SAP payload as summary sections: a header with every field outside arrays of objects, then one
+ * section per line of each array of objects (items, partners, ...).
+ */
+function summarySections(sap: unknown): Array<SummarySection> {
+  const header: SummarySection = { title: "Header", rows: [] };
+  const lines: Array<SummarySection> = [];
+
+  const visit = (val: unknown, path: string, section: SummarySection) => {
+    if (Array.isArray(val)) {
+      if (val.some((v) => v && typeof v === "object")) {
+        val.forEach((v, i) => {
+          const line: SummarySection = { title: sapFieldLabel(`${path}.[${i}]`), rows: [] };
+          lines.push(line);
+          visit(v, `${path}.[${i}]`, line);
+        });
+      } else {
+        val.forEach((v, i) => visit(v, `${path}.[${i}]`, section));
+      }
+      return;
+    }
+    if (val && typeof val === "object") {
+      for (const [k, v] of Object.entries(val)) visit(v, `${path}.${k}`, section);
+      return;
+    }
+    const label = section === header ? sapFieldLabel(path) : sapFieldLabel(path).slice(section.title.length + 1);
+    section.rows.push({ label, value: formatValue(val), path });
+  };
+
+  visit(sap, "$", header);
+  return [header, ...lines].filter((s) => s.rows.length);
+}
+
+function summaryPages(sap: unknown, mapping: SapToSourceMapping, numPages: number, title: string): Array<PdfPage> {
+  const margin = 48;
+  const col = { label: margin, value: 250, evidence: A4.width - margin - 70 };
+  const rowHeight = 13;
+  const pages: Array<PdfPage> = [];
+  let content = "";
+  let y = 0;
+
+  const newPage = () => {
+    if (content) pages.push({ ...A4, content });
+    content = "";
+    y = margin;
+  };
+  const ensure = (space: number) => {
+    if (y + space > A4.height - margin) newPage();
+  };
+
+  newPage();
+  content += textOp(A4, margin, y + 14, "Evidence summary", { size: 16, font: "bold" });
+  y += 32;
+  content += textOp(A4, margin, y, fitText(title, A4.width - 2 * margin, 10), { size: 10, color: "#374151" });
+  y += 14;
+  content += textOp(A4, margin, y, `Exported ${new Date().toLocaleString()}`, { size: 8, color: "#6b7280" });
+  y += 24;
+
+  for (const section of summarySections(sap)) {
+    ensure(rowHeight * 3);
+    content += textOp(A4, margin, y, section.title, { size: 11, font: "bold" });
+    y += 6;
+    content += lineOp(A4, margin, A4.width - margin, y, "#d1d5db");
+    y += rowHeight;
+
+    for (const row of section.rows) {
+      ensure(rowHeight);
+      content += textOp(A4, col.label, y, fitText(row.label, col.value - col.label - 8, 8), { size: 8, color: "#374151" });
+      content += textOp(A4, col.value, y, fitText(row.value, col.evidence - col.value - 8, 8), { size: 8 });
+      const box = mapping[row.path];
+      if (box) {
+        content += rectOp(A4, col.evidence, y - 6.5, 7, 7, colorForPath(row.path));
+        // Weak matches carry their confidence so the reader knows to double-check them
+        const weak = box.confidence < WEAK_MATCH_CONFIDENCE ? ` (${Math.round(box.confidence * 100)}%)` : "";
+        content += textOp(A4, col.evidence + 11, y, `page ${pageOfBox(box, numPages)}${weak}`, { size: 8, color: "#374151" });
+      } else {
+        content += textOp(A4, col.evidence, y, "no source", { size: 8, color: "#9ca3af" });
+      }
+      y += rowHeight;
+    }
+    y += rowHeight;
+  }
+  newPage();
+  return pages;
+}
+
+/**
+ * Review PDF for customer disputes: every page of the source with the boxes each SAP field was
+ * mapped to burned in (section colours, labelled with the field), followed by summary pages with
+ * the final SAP header and lines. Runs fully in the browser; pages are rasterized.
+ */
+export async function exportEvidencePdf({
+  pdf,
+  sap,
+  documentData,
+  manualBoxes = [],
+  title = "Document",
+  onProgress,
+}: EvidenceExportInput): Promise<Blob> {
+  const mapping = createSapToSourceMapping(sap, documentData, manualBoxes);
+
+  const geometries = new Map<number, PageGeometry>();
+  for (let n = 1; n <= pdf.numPages; n++) {
+    geometries.set(n, pageGeometryOf((await pdf.getPage(n)).getViewport({ scale: 1 })));
+  }
+  const marks = marksByPage(mapping, pdf.numPages, (n) => geometries.get(n) ?? { width: 1, height: 1 });
+
+  const pages: Array<PdfPage> = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    onProgress?.(n - 1, pdf.numPages);
+    pages.push(await renderEvidencePage(pdf, n, marks.get(n)?.values() ?? []));
+  }
+  onProgress?.(pdf.numPages, pdf.numPages);
+  pages.push(...summaryPages(sap, mapping, pdf.numPages, title));
+
+  const bytes = buildPdf(pages, { title: `${title} (evidence)` });
+  return new Blob([bytes as BlobPart], { type: "application/pdf" });
+}
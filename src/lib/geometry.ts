@@ -0,0 +1,224 @@
+import type { BoundingBox } from "@/lib/supabase";
+
+/**
+ * Coordinate spaces a source box can be expressed in:
+ * - "unit": 0..1 of the displayed page, top-left origin (what overlays project from)
+ * - "thousand": 0..1000 of the displayed page, top-left origin (common extractor output)
+ * - "page": units of the displayed page at scale 1, top-left origin (PDF points as shown, or
+ *   source pixels for scans)
+ * - "pdf": PDF user space in points, bottom-left origin, before the page's /Rotate
+ * Pixels on screen are page units times the zoom (see `toPixelRect`).
+ */
+export type CoordinateSpace = "unit" | "thousand" | "page" | "pdf";
+
+const SPACES: Array<CoordinateSpace> = ["unit", "thousand", "page", "pdf"];
+
+// Edges in unit space (0..1, top-left origin)
+export type UnitEdges = { x1: number; y1: number; x2: number; y2: number };
+
+// A parsed box; `page` is 1-based, `space` is set when the source declares it
+export type SourceBox = BoundingBox & { page?: number; space?: CoordinateSpace };
+
+/**
+ * Displayed page at scale 1: its size and the pdf.js viewport transform from PDF user space
+ * (which includes the page rotation). Without a transform the page is taken as unrotated.
+ */
+export type PageGeometry = { width: number; height: number; transform?: Array<number> };
+
+// A point on a displayed page in unit space (0..1, top-left origin), with that page's geometry
+export type PagePoint = { page: number; x: number; y: number; geometry: PageGeometry };
+
+const toNum = (v: unknown) => (v === null || v === undefined || v === "" ? NaN : Number(v));
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const pick = (o: Record<string, unknown>, keys: Array<string>) => keys.map((k) => o[k]).find((v) => v != null);
+
+// Page number of a box object; page/page_number/pageNumber/p are 1-based, pageIndex is 0-based
+function pageOfObject(o: Record<string, unknown>): number | undefined {
+  const page = toNum(pick(o, ["page", "page_number", "pageNumber", "p"]));
+  if (Number.isFinite(page)) return page;
+  const index = toNum(o.pageIndex);
+  return Number.isFinite(index) ? index + 1 : undefined;
+}
+
+function spaceOfObject(o: Record<string, unknown>): CoordinateSpace | undefined {
+  if (SPACES.includes(o.space as CoordinateSpace)) return o.space as CoordinateSpace;
+  const origin = typeof o.origin === "string" ? o.origin.toLowerCase().replace(/[\s_]/g, "-") : "";
+  return origin === "bottom-left" ? "pdf" : undefined;
+}
+
+function fromEdges(x1: number, y1: number, x2: number, y2: number): BoundingBox | null {
+  if (![x1, y1, x2, y2].every(Number.isFinite)) return null;
+  if (x2 < x1) [x1, x2] = [x2, x1];
+  if (y2 < y1) [y1, y2] = [y2, y1];
+  const width = x2 - x1;
+  const height = y2 - y1;
+  return width > 0 && height > 0 ? { x: x1, y: y1, width, height } : null;
+}
+
+/**
+ * Parse any box shape found in extraction output, manual boxes or mappings:
+ * - arrays [x1, y1, x2, y2, (page)]
+ * - edge objects { x1|left|minX, y1|top|minY, x2|right|maxX, y2|bottom|maxY }
+ * - origin + size objects { x|left|x0, y|top|y0, width|w, height|h }
+ * Values keep their units; `toUnitEdges` resolves the space. `pageOverride` wins over the
+ * box's own page (e.g. the page_number of the extraction page holding it).
+ */
+export function parseBox(input: unknown, pageOverride?: number): SourceBox | null {
+  if (!input || typeof input !== "object") return null;
+  const withPage = (box: BoundingBox | null, page?: number, space?: CoordinateSpace): SourceBox | null => {
+    if (!box) return null;
+    const p = pageOverride !== undefined && Number.isFinite(pageOverride) ? pageOverride : page;
+    return { ...box, ...(p !== undefined ? { page: p } : {}), ...(space ? { space } : {}) };
+  };
+
+  if (Array.isArray(input)) {
+    if (input.length < 4) return null;
+    const [x1, y1, x2, y2, page] = input.map(toNum);
+    return withPage(fromEdges(x1, y1, x2, y2), Number.isFinite(page) ? page : undefined);
+  }
+
+  const o = input as Record<string, unknown>;
+  const page = pageOfObject(o);
+  const space = spaceOfObject(o);
+
+  const x1 = toNum(pick(o, ["x1", "left", "minX"]));
+  const y1 = toNum(pick(o, ["y1", "top", "minY"]));
+  const x2 = toNum(pick(o, ["x2", "right", "maxX"]));
+  const y2 = toNum(pick(o, ["y2", "bottom", "maxY"]));
+  const edges = fromEdges(x1, y1, x2, y2);
+  if (edges) return withPage(edges, page, space);
+
+  const x = toNum(pick(o, ["x", "left", "x0", "startX"]));
+  const y = toNum(pick(o, ["y", "top", "y0", "startY"]));
+  const width = toNum(pick(o, ["width", "w"]));
+  const height = toNum(pick(o, ["height", "h"]));
+  if ([x, y, width, height].every(Number.isFinite)) {
+    return withPage(fromEdges(x, y, x + width, y + height), page, space);
+  }
+  // Right/bottom edges with a size but no origin
+  if ([x2, y2, width, height].every(Number.isFinite)) {
+    return withPage(fromEdges(x2 - width, y2 - height, x2, y2), page, space);
+  }
+  return null;
+}
+
+/**
+ * Space of a box: the declared one, else inferred from its magnitude. Edges within 0..1 are unit
+ * space, edges within ±1000 are the 0–1000 space, anything else is page units.
+ */
+export function coordinateSpaceOf(box: SourceBox): CoordinateSpace {
+  if (box.space) return box.space;
+  const edges = [box.x, box.y, box.x + box.width, box.y + box.height];
+  if (edges.every((n) => n >= 0 && n <= 1)) return "unit";
+  if (edges.every((n) => Math.abs(n) <= 1000) && edges.some((n) => Math.abs(n) > 1)) return "thousand";
+  return "page";
+}
+
+// PDF user-space point to displayed page units (top-left origin, rotation applied)
+export function pdfPointToPage(x: number, y: number, page: PageGeometry): [number, number] {
+  const [a, b, c, d, e, f] = page.transform ?? [1, 0, 0, -1, 0, page.height];
+  return [a * x + c * y + e, b * x + d * y + f];
+}
+
+/**
+ * Unit edges of a box on a page, clamped to the page; null when the box cannot be parsed, the
+ * page size is unknown, or nothing of the box is left on the page.
+ */
+export function toUnitEdges(input: unknown, page: PageGeometry): UnitEdges | null {
+  const box = parseBox(input);
+  if (!box || !page.width || !page.height) return null;
+
+  let { x: x1, y: y1 } = box;
+  let x2 = box.x + box.width;
+  let y2 = box.y + box.height;
+  switch (coordinateSpaceOf(box)) {
+    case "unit":
+      break;
+    case "thousand":
+      [x1, y1, x2, y2] = [x1 / 1000, y1 / 1000, x2 / 1000, y2 / 1000];
+      break;
+    case "page":
+      [x1, y1, x2, y2] = [x1 / page.width, y1 / page.height, x2 / page.width, y2 / page.height];
+      break;
+    case "pdf": {
+      // Rotation can swap axes, so project both corners and take their extent
+      const [ax, ay] = pdfPointToPage(x1, y1, page);
+      const [bx, by] = pdfPointToPage(x2, y2, page);
+      [x1, x2] = [Math.min(ax, bx) / page.width, Math.max(ax, bx) / page.width];
+      [y1, y2] = [Math.min(ay, by) / page.height, Math.max(ay, by) / page.height];
+      break;
+    }
+  }
+
+  const edges = { x1: clamp01(x1), y1: clamp01(y1), x2: clamp01(x2), y2: clamp01(y2) };
+  return edges.x2 > edges.x1 && edges.y2 > edges.y1 ? edges : null;
+}
+
+/**
+ * Rect of unit edges in page units times `scale`: pass 1 for the base viewport, the zoom for
+ * CSS pixels of a rendered page, or canvas size / page size for canvas pixels.
+ */
+export function toPixelRect(edges: UnitEdges, page: { width: number; height: number }, scale = 1): BoundingBox {
+  const x1 = clamp01(edges.x1);
+  const y1 = clamp01(edges.y1);
+  return {
+    x: x1 * page.width * scale,
+    y: y1 * page.height * scale,
+    width: Math.max(0, clamp01(edges.x2) - x1) * page.width * scale,
+    height: Math.max(0, clamp01(edges.y2) - y1) * page.height * scale,
+  };
+}
+
+/**
+ * Smallest box around all boxes (e.g. every word box of an item row). Boxes on another page or
+ * in another space than the first box are left out: without the page size they cannot be combined.
+ */
+export function unionBoxes(boxes: Array<SourceBox | null | undefined>): SourceBox | null {
+  const present = boxes.filter((b): b is SourceBox => !!b);
+  if (!present.length) return null;
+  const first = present[0];
+  const space = coordinateSpaceOf(first);
+  const page = present.find((b) => b.page !== undefined)?.page;
+  const same = present.filter((b) => coordinateSpaceOf(b) === space && (b.page === undefined || b.page === page));
+
+  const x1 = Math.min(...same.map((b) => b.x));
+  const y1 = Math.min(...same.map((b) => b.y));
+  const x2 = Math.max(...same.map((b) => b.x + b.width));
+  const y2 = Math.max(...same.map((b) => b.y + b.height));
+  const union = fromEdges(x1, y1, x2, y2);
+  // The space is made explicit so the union is read the same way as its parts
+  return union ? { ...union, ...(page !== undefined ? { page } : {}), space } : null;
+}
+
+/**
+ * One union per page, in page order, for rows that continue across a page break; boxes without a
+ * page count as on the first page of the others.
+ */
+export function unionBoxesByPage(boxes: Array<SourceBox | null | undefined>): Array<SourceBox> {
+  const present = boxes.filter((b): b is SourceBox => !!b);
+  const pages = Array.from(new Set(present.map((b) => b.page).filter((p): p is number => p !== undefined))).sort(
+    (a, b) => a - b,
+  );
+  if (pages.length <= 1) {
+    const union = unionBoxes(present);
+    return union ? [union] : [];
+  }
+  return pages
+    .map((page, i) => unionBoxes(present.filter((b) => b.page === page || (i === 0 && b.page === undefined))))
+    .filter((b): b is SourceBox => !!b);
+}
+
+/**
+ * 1-based page of a box clamped to the document; page 0 (a 0-based first page) counts as page 1,
+ * and boxes without a page belong to `fallback`.
+ */
+export function pageOfBox(box: { page?: number } | null | undefined, numPages: number, fallback = 1): number {
+  const page = box?.page;
+  if (typeof page !== "number" || !Number.isFinite(page)) return fallback;
+  return Math.min(Math.max(Math.round(page), 1), Math.max(numPages, 1));
+}
+
+// Page geometry of a pdf.js (or raster) viewport at scale 1
+export function pageGeometryOf(viewport: { width: number; height: number; transform: Array<number> }): PageGeometry {
+  return { width: viewport.width, height: viewport.height, transform: viewport.transform };
+}
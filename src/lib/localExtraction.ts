@@ -0,0 +1,68 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { toDocumentData } from "@/convex/extractionFormats";
+import type { UnitEdges } from "@/lib/geometry";
+import { recognizeRegion } from "@/lib/ocr";
+import type { DocumentData } from "@/lib/supabase";
+
+export const LOCAL_EXTRACTION_ENGINE = "tesseract";
+
+// Convex documents are limited to 1 MiB; leave room for the rest of the document
+const MAX_DOCUMENT_DATA_BYTES = 900 * 1024;
+
+const WHOLE_PAGE: UnitEdges = { x1: 0, y1: 0, x2: 1, y2: 1 };
+
+// Unit coordinates to 5 decimals (well below a pixel) to keep the stored JSON small
+const round = (n: number) => Math.round(n * 1e5) / 1e5;
+const edges = (e: UnitEdges) => [round(e.x1), round(e.y1), round(e.x2), round(e.y2)];
+
+export type LocalExtractionResult = {
+  documentData: DocumentData;
+  confidence: number; // mean word confidence, 0..100
+  words: number;
+};
+
+/**
+ * OCR every page of a document (PDF or scan) in the browser and build word- and line-level
+ * document_data, with boxes in unit page space. Pages run one after another on the shared
+ * Tesseract worker; `onProgress` gets the number of pages done.
+ */
+export async function extractDocumentLocally(
+  pdf: PDFDocumentProxy,
+  onProgress?: (done: number, total: number) => void,
+): Promise<LocalExtractionResult> {
+  const pages = [];
+  let confidenceSum = 0;
+  let words = 0;
+
+  onProgress?.(0, pdf.numPages);
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n);
+    const ocr = await recognizeRegion(page, WHOLE_PAGE);
+    pages.push({
+      page_number: n,
+      lines: ocr.lines.map((line) => ({
+        text: line.text,
+        bbox: edges(line),
+        words: line.words.map((word) => ({ text: word.text, bbox: edges(word), confidence: Math.round(word.confidence) })),
+      })),
+    });
+    for (const word of ocr.words) confidenceSum += word.confidence;
+    words += ocr.words.length;
+    onProgress?.(n, pdf.numPages);
+  }
+
+  if (!words) {
+    throw new Error("No text was recognized in the document");
+  }
+  // Read through the OCR word adapter like any other extractor output
+  const converted = toDocumentData({ pages });
+  if (!converted) {
+    throw new Error("No text was recognized in the document");
+  }
+  // DocumentData declares object boxes; extractions store [x1, y1, x2, y2, page] arrays (see geometry.ts)
+  const documentData = converted.data as unknown as DocumentData;
+  if (new Blob([JSON.stringify(documentData)]).size > MAX_DOCUMENT_DATA_BYTES) {
+    throw new Error("The recognized text is too large to store");
+  }
+  return { documentData, confidence: Math.round(confidenceSum / words), words };
+}
@@ -0,0 +1,108 @@
+import type { Doc } from "@/convex/_generated/dataModel";
+import type { SourceBox } from "@/lib/geometry";
+
+// Reviewer-drawn evidence box (see documents.saveManualBox); geometry is unit page space
+export type ManualBox = NonNullable<Doc<"documents">["manualBoxes"]>[number];
+export type ManualBoxTarget = ManualBox["target"];
+export type ManualBoxGeometry = Pick<ManualBox, "page" | "x" | "y" | "width" | "height">;
+
+// What the source mapping reads of a manual box; boxes about to be saved have no author yet
+export type ManualBoxEvidence = Omit<ManualBox, "authorId" | "authorName" | "updatedAt">;
+
+// A field a box can be attached to, addressed by its "$.key.[i].key" path in the target JSON
+export type EditTarget = {
+  target: ManualBoxTarget;
+  path: string;
+  label: string;
+};
+
+export const MANUAL_BOX_TARGET_LABELS: Record<ManualBoxTarget, string> = {
+  document: "Document data",
+  sap: "SAP",
+};
+
+// Stable key of a target + path pair, e.g. for select values and lookups
+export const manualBoxKey = (target: ManualBoxTarget, path: string) => `${target}:${path}`;
+
+export function findManualBox(
+  boxes: Array<ManualBox> | undefined,
+  target: ManualBoxTarget,
+  path: string,
+): ManualBox | null {
+  return boxes?.find((b) => b.target === target && b.path === path) ?? null;
+}
+
+/**
+ * `boxes` as they are once `added` is saved by documents.saveManualBoxes: boxes of the added target
+ * under `clearPathPrefix` are dropped, and each added box replaces the one of its target and path.
+ */
+export function withSavedBoxes(
+  boxes: Array<ManualBoxEvidence> | undefined,
+  added: Array<ManualBoxEvidence>,
+  clearPathPrefix?: string,
+): Array<ManualBoxEvidence> {
+  const keys = new Set(added.map((b) => manualBoxKey(b.target, b.path)));
+  const targets = new Set(added.map((b) => b.target));
+  const kept = (boxes ?? []).filter(
+    (b) =>
+      !keys.has(manualBoxKey(b.target, b.path)) &&
+      !(clearPathPrefix !== undefined && targets.has(b.target) && b.path.startsWith(clearPathPrefix)),
+  );
+  return [...kept, ...added];
+}
+
+// Highlight box as the PDF viewer takes it
+export function manualBoxToHighlight(box: ManualBoxGeometry): SourceBox & { page: number } {
+  return { x: box.x, y: box.y, width: box.width, height: box.height, page: box.page, space: "unit" };
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+// "$.document.pages.[0].metadata.date" -> "Page 1 · metadata.date"
+function documentPathLabel(path: string): string {
+  const m = /^\$\.document\.pages\.\[(\d+)\]\.(.+)$/.exec(path);
+  return m ? `Page ${Number(m[1]) + 1} · ${m[2]}` : path.replace(/^\$\./, "");
+}
+
+/**
+ * Extracted fields of document_data a box can be attached to: every node carrying a value or
+ * a bounding_box (FieldValue entries and item rows), in document order.
+ */
+export function documentEditTargets(documentData: unknown): Array<EditTarget> {
+  const out: Array<EditTarget> = [];
+  const visit = (val: unknown, path: string) => {
+    if (Array.isArray(val)) {
+      val.forEach((v, i) => visit(v, `${path}.[${i}]`));
+      return;
+    }
+    if (!isPlainObject(val)) return;
+    if ("value" in val || "bounding_box" in val) {
+      out.push({ target: "document", path, label: documentPathLabel(path) });
+      return;
+    }
+    for (const k of Object.keys(val)) visit(val[k], `${path}.${k}`);
+  };
+  visit(documentData, "$");
+  return out;
+}
+
+/**
+ * Scalar leaves of a SAP payload, addressed like the rows of SAPJsonCard.
+ */
+export function sapEditTargets(sap: unknown): Array<EditTarget> {
+  const out: Array<EditTarget> = [];
+  const visit = (val: unknown, path: string) => {
+    if (Array.isArray(val)) {
+      val.forEach((v, i) => visit(v, `${path}.[${i}]`));
+      return;
+    }
+    if (isPlainObject(val)) {
+      for (const k of Object.keys(val)) visit(val[k], `${path}.${k}`);
+      return;
+    }
+    if (path !== "$") out.push({ target: "sap", path, label: path.replace(/^\$\./, "") });
+  };
+  visit(sap, "$");
+  return out;
+}
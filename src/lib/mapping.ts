@@ -1,70 +1,11 @@
-import type { BoundingBox, DocumentData } from "@/lib/supabase";
-
-/**
- * Normalize a variety of bbox shapes to {x,y,width,height,page?}.
- * Accepts arrays like [x1,y1,x2,y2,(page?)] or objects with x1,y1,x2,y2 or x,y,width,height.
- */
-function normalizeBoxAny(input: any, pageOverride?: number): (BoundingBox & { page?: number }) | null {
-  if (!input) return null;
-
-  const toNum = (v: any) => (v === null || v === undefined || v === "" ? NaN : Number(v));
-
-  if (Array.isArray(input)) {
-    if (input.length < 4) return null;
-    let x1 = toNum(input[0]);
-    let y1 = toNum(input[1]);
-    let x2 = toNum(input[2]);
-    let y2 = toNum(input[3]);
-    const page = toNum(input[4]);
-
-    if (![x1, y1, x2, y2].every(Number.isFinite)) return null;
-    if (x2 < x1) [x1, x2] = [x2, x1];
-    if (y2 < y1) [y1, y2] = [y2, y1];
-    const width = x2 - x1;
-    const height = y2 - y1;
-    if (width <= 0 || height <= 0) return null;
-    return { x: x1, y: y1, width, height, page: Number.isFinite(pageOverride) ? pageOverride : (Number.isFinite(page) ? page : undefined) };
-  }
-
-  const rawX1 = toNum(input.x1 ?? input.left ?? input.minX);
-  const rawY1 = toNum(input.y1 ?? input.top ?? input.minY);
-  let rawX2 = toNum(input.x2 ?? input.right ?? input.maxX);
-  let rawY2 = toNum(input.y2 ?? input.bottom ?? input.maxY);
-
-  const rawX = toNum(input.x ?? input.left ?? input.x0 ?? input.startX);
-  const rawY = toNum(input.y ?? input.top ?? input.y0 ?? input.startY);
-  const rawW = toNum(input.width ?? input.w);
-  const rawH = toNum(input.height ?? input.h);
-
-  if ([rawX1, rawY1, rawX2, rawY2].every(Number.isFinite)) {
-    let x1 = rawX1, y1 = rawY1, x2 = rawX2, y2 = rawY2;
-    if (x2 < x1) [x1, x2] = [x2, x1];
-    if (y2 < y1) [y1, y2] = [y2, y1];
-    const width = x2 - x1;
-    const height = y2 - y1;
-    if (width > 0 && height > 0) {
-      return { x: x1, y: y1, width, height, page: Number.isFinite(pageOverride) ? pageOverride : undefined };
-    }
-  }
-
-  let x = rawX, y = rawY, width = rawW, height = rawH;
-  if (!Number.isFinite(width) || !Number.isFinite(height)) {
-    if (Number.isFinite(rawX) && Number.isFinite(rawY) && Number.isFinite(rawX2) && Number.isFinite(rawY2)) {
-      width = rawX2 - rawX;
-      height = rawY2 - rawY;
-    }
-  }
-
-  if ([x, y, width, height].every(Number.isFinite) && (width as number) > 0 && (height as number) > 0) {
-    return { x: x as number, y: y as number, width: width as number, height: height as number, page: Number.isFinite(pageOverride) ? pageOverride : undefined };
-  }
-  return null;
-}
+import { parseBox, type SourceBox } from "@/lib/geometry";
+import { SECTION_COLORS } from "@/lib/sectionColors";
+import type { DocumentData } from "@/lib/supabase";
 
 type SourceEntry = {
   text: string;
   path: string;
-  box: BoundingBox & { page?: number };
+  box: SourceBox;
 };
 
 /**
@@ -86,7 +27,7 @@ export function extractSourceEntries(documentData: DocumentData): Array<SourceEn
       const s = String(val).trim();
       if (!s) return;
       const first = Array.isArray(bbox) ? bbox[0] : null;
-      const norm = normalizeBoxAny(first, Number.isFinite(pageNum) ? pageNum : undefined);
+      const norm = parseBox(first, Number.isFinite(pageNum) ? pageNum : undefined);
       if (!norm) return;
       out.push({ text: s, path, box: norm });
     };
@@ -118,7 +59,7 @@ export function extractSourceEntries(documentData: DocumentData): Array<SourceEn
     // items: item-level bbox; attribute texts map to item bbox
     const items = Array.isArray(page?.items) ? page.items as Array<any> : [];
     items.forEach((item, i) => {
-      const ibox = normalizeBoxAny(Array.isArray(item?.bounding_box) ? item.bounding_box[0] : null, Number.isFinite(pageNum) ? pageNum : undefined);
+      const ibox = parseBox(Array.isArray(item?.bounding_box) ? item.bounding_box[0] : null, Number.isFinite(pageNum) ? pageNum : undefined);
       const addItemField = (key: string) => {
         const v = item?.[key];
         if (v == null) return;
@@ -151,15 +92,6 @@ export function extractSourceEntries(documentData: DocumentData): Array<SourceEn
   return out;
 }
 
-// consistent section color palette (match DocumentFields)
-const SECTION_COLORS: Record<string, string> = {
-  metadata: "#10b981", // emerald
-  vendor: "#8b5cf6",   // violet
-  customer: "#f59e0b", // amber
-  items: "#0ea5e9",    // sky
-  other: "#f43f5e",    // rose
-};
-
 // derive color from source entry path
 function colorForSourcePath(path: string): string | undefined {
   if (!path) return undefined;
@@ -196,7 +128,7 @@ function sapTraverse(
 
 export type SapToSourceMapping = Record<
   string,
-  ((BoundingBox & { page?: number; color?: string }) | null)
+  ((SourceBox & { color?: string }) | null)
 >;
 
 /**
@@ -1,11 +1,69 @@
-import type { DocumentData, BoundingBox } from "@/lib/supabase";
+import { toDocumentData } from "@/convex/extractionFormats";
+import { pageOfBox, parseBox, toUnitEdges, unionBoxesByPage, type PagePoint, type SourceBox } from "@/lib/geometry";
+import type { ManualBoxEvidence } from "@/lib/manualBoxes";
+import type { DocumentData } from "@/lib/supabase";
+import {
+  inferLocaleHints,
+  localeHintsFor,
+  mergeLocaleHints,
+  parseAmount,
+  parseDates,
+  sapDate,
+  sapNumber,
+  tokenize,
+  tokenSimilarity,
+  type Certainty,
+  type LocaleHints,
+} from "@/lib/valueMatching";
 
-export type SapToSourceMapping = Record<string, (BoundingBox & { page?: number }) | null>;
+/**
+ * How a SAP field was matched: a box drawn on the field or on its document text, the same text,
+ * the same text up to case/punctuation/time of day, the same amount or date as printed in the
+ * document's locale, or shared words of a longer text.
+ */
+export type MatchMethod = "manual" | "exact" | "normalized" | "number" | "date" | "partial";
+
+/**
+ * Source box of a SAP field and how it was found. `sourcePath` is the document_data path of the
+ * matched text (the SAP path itself for a box drawn on the SAP field) and `sourceText` that text;
+ * `confidence` is 0..1.
+ */
+export type SapSourceMatch = SourceBox & {
+  sourcePath: string;
+  sourceText?: string; // unset for a box drawn on the SAP field
+  confidence: number;
+  method: MatchMethod;
+};
+
+export type SapToSourceMapping = Record<string, SapSourceMatch | null>;
+
+export type MappingOptions = {
+  // BCP 47 locale the document was written in; otherwise number and date formats are inferred
+  locale?: string;
+};
+
+// Matches below this are flagged for the reviewer
+export const WEAK_MATCH_CONFIDENCE = 0.7;
+
+const CERTAINTY_CONFIDENCE: Record<Certainty, number> = {
+  certain: 0.85,
+  hinted: 0.75,
+  ambiguous: 0.6,
+  contradicted: 0.4,
+};
+// A value found inside a longer text (a date in "Order date: 03.05.2024") is a little less certain
+const EMBEDDED_PENALTY = 0.05;
+// Partial matching is for descriptions; short values only match as a whole
+const PARTIAL_MIN_LENGTH = 12;
+const PARTIAL_MIN_SIMILARITY = 0.5;
+// Confidence of a partial match with every word shared; less overlap scales it down
+const PARTIAL_MAX_CONFIDENCE = 0.8;
 
 type SourceEntry = {
   text: string;
-  bbox: BoundingBox & { page?: number };
+  bbox: SourceBox;
   path: string;
+  manual?: boolean; // drawn by a reviewer; wins over automatic entries with the same text
 };
 
 const isScalar = (v: unknown): v is string | number | boolean =>
@@ -15,28 +73,6 @@ const normalize = (s: string) => s.replace(/\s+/g, " ").trim();
 const alnum = (s: string) => s.replace(/[^0-9A-Za-z]/g, "");
 const beforeT = (s: string) => (s.includes("T") ? s.split("T")[0] : s);
 
-function toBBox(anyBox: any): (BoundingBox & { page?: number }) | null {
-  if (!anyBox || typeof anyBox !== "object") return null;
-
-  const x = anyBox.x ?? anyBox.left ?? (typeof anyBox.right === "number" && typeof anyBox.width !== "number" ? anyBox.right - (anyBox.width ?? 0) : undefined);
-  const y = anyBox.y ?? anyBox.top ?? (typeof anyBox.bottom === "number" && typeof anyBox.height !== "number" ? anyBox.bottom - (anyBox.height ?? 0) : undefined);
-
-  const width =
-    anyBox.width ??
-    anyBox.w ??
-    (typeof anyBox.right === "number" && typeof x === "number" ? anyBox.right - x : undefined);
-  const height =
-    anyBox.height ??
-    anyBox.h ??
-    (typeof anyBox.bottom === "number" && typeof y === "number" ? anyBox.bottom - y : undefined);
-
-  if ([x, y, width, height].every((n) => typeof n === "number" && isFinite(n))) {
-    const page = anyBox.page ?? anyBox.pageNumber ?? anyBox.p ?? undefined;
-    return { x, y, width, height, ...(page != null ? { page } : {}) };
-  }
-  return null;
-}
-
 function tryExtractText(obj: any): string | null {
   if (obj == null) return null;
   if (typeof obj === "string") return obj;
@@ -52,81 +88,98 @@ function tryExtractText(obj: any): string | null {
   return null;
 }
 
+// document_data in the canonical pages shape, whatever extraction format it came in
+const canonicalSource = (source: unknown) => (source ? (toDocumentData(source)?.data ?? source) : source);
+
+// Boxes without a page of their own are on the extraction page holding them
+const onPage = (box: SourceBox | null, page?: number): SourceBox | null =>
+  box && box.page === undefined && page !== undefined ? { ...box, page } : box;
+
+/**
+ * Text entries of canonical document_data: every { value, bounding_box } field (header fields,
+ * notes, recognized text_lines and their words) and every scalar of an item row, which share the
+ * row's boxes. Other extraction formats are converted first (see `toDocumentData`).
+ */
 function extractSourceEntries(node: any, basePath = "$"): Array<SourceEntry> {
   const out: Array<SourceEntry> = [];
 
-  const visit = (val: any, path: string) => {
+  // `page` is the page_number of the extraction page being visited
+  const visit = (val: any, path: string, page?: number) => {
     if (Array.isArray(val)) {
-      // Tuple pattern: [value, bbox]
-      if (val.length === 2 && isScalar(val[0]) && typeof val[1] === "object") {
-        const bb = toBBox(val[1]);
-        if (bb) {
-          const t = String(val[0]);
-          out.push({ text: t, bbox: bb, path });
-          return;
-        }
-      }
-      // Token arrays: words/tokens with text+bbox
-      if (val.length > 0 && val.every((x) => typeof x === "object")) {
-        for (let i = 0; i < val.length; i++) visit(val[i], `${path}.[${i}]`);
-        return;
-      }
-      // Generic array
-      for (let i = 0; i < val.length; i++) visit(val[i], `${path}.[${i}]`);
+      for (let i = 0; i < val.length; i++) visit(val[i], `${path}.[${i}]`, page);
       return;
     }
 
     if (val && typeof val === "object") {
-      // Object with explicit bbox
-      const boxLike = (val as any).bbox ?? (val as any).box ?? (val as any).region ?? null;
-      if (boxLike) {
-        const bb = toBBox(boxLike);
+      if (typeof val.page_number === "number") page = val.page_number;
+
+      // A box's own page wins over the page holding it; a row crossing a page break gets an entry
+      // per page
+      if (Array.isArray(val.bounding_box)) {
+        const parts = unionBoxesByPage(val.bounding_box.map((b: unknown) => onPage(parseBox(b), page)));
         const t = tryExtractText(val);
-        if (bb && t != null && normalize(String(t)).length > 0) {
-          out.push({ text: String(t), bbox: bb, path });
-          // Continue to traverse to catch nested as well
+        for (const bb of parts) {
+          if (t != null && normalize(t)) {
+            out.push({ text: t, bbox: bb, path });
+            continue;
+          }
+          for (const [k, v] of Object.entries(val)) {
+            if (k !== "bounding_box" && isScalar(v) && normalize(String(v))) {
+              out.push({ text: String(v), bbox: bb, path: `${path}.${k}` });
+            }
+          }
         }
       }
 
-      // Objects that directly look like a bbox (rare)
-      const selfBBox = toBBox(val);
-      if (selfBBox) {
-        // If there is a sibling text field, prefer that
-        const txt = tryExtractText(val);
-        if (txt) out.push({ text: String(txt), bbox: selfBBox, path });
-      }
-
-      // Token containers: { words: [...]} or { tokens: [...] }
-      if (Array.isArray((val as any).words)) {
-        (val as any).words.forEach((w: any, i: number) => {
-          const t = tryExtractText(w);
-          const bb = toBBox(w?.bbox ?? w?.box);
-          if (t && bb) out.push({ text: String(t), bbox: bb, path: `${path}.words.[${i}]` });
-        });
-      }
-      if (Array.isArray((val as any).tokens)) {
-        (val as any).tokens.forEach((w: any, i: number) => {
-          const t = tryExtractText(w);
-          const bb = toBBox(w?.bbox ?? w?.box);
-          if (t && bb) out.push({ text: String(t), bbox: bb, path: `${path}.tokens.[${i}]` });
-        });
-      }
-
-      // Recurse props
       for (const k of Object.keys(val)) {
-        if (k === "bbox" || k === "box" || k === "region") continue;
-        visit((val as any)[k], `${path}.${k}`);
+        if (k !== "bounding_box") visit(val[k], `${path}.${k}`, page);
       }
-      return;
     }
-
-    // Primitive without bbox: nothing to add
   };
 
   visit(node, basePath);
   return out;
 }
 
+// Value at a "$.key.[i].key" path, or undefined when the path does not exist
+function valueAtPath(root: any, path: string): any {
+  let node = root;
+  for (const seg of path.split(".").slice(1)) {
+    if (node == null || typeof node !== "object") return undefined;
+    const arrIdx = /^\[(\d+)\]$/.exec(seg);
+    node = arrIdx ? node[Number(arrIdx[1])] : node[seg];
+  }
+  return node;
+}
+
+const isUnder = (path: string, parent: string) => path === parent || path.startsWith(`${parent}.`);
+
+/**
+ * Source entries for reviewer-drawn boxes on document_data fields, with the field's text.
+ * Automatic entries inside those fields are dropped: the manual box is the corrected geometry.
+ */
+function applyManualEntries(
+  entries: Array<SourceEntry>,
+  source: any,
+  manualBoxes: Array<ManualBoxEvidence>,
+): Array<SourceEntry> {
+  const manual: Array<SourceEntry> = [];
+  for (const box of manualBoxes) {
+    if (box.target !== "document") continue;
+    const text = tryExtractText(valueAtPath(source, box.path));
+    if (text == null || !normalize(text)) continue;
+    const { x, y, width, height, page } = box;
+    manual.push({ text, bbox: { x, y, width, height, page, space: "unit" }, path: box.path, manual: true });
+  }
+  if (!manual.length) return entries;
+  const automatic = entries.filter((e) => !manual.some((m) => isUnder(e.path, m.path)));
+  return [...manual, ...automatic];
+}
+
+// Manual boxes first, then longer (more specific) text
+const byPreference = (a: SourceEntry, b: SourceEntry) =>
+  Number(!!b.manual) - Number(!!a.manual) || b.text.length - a.text.length;
+
 function indexEntries(entries: Array<SourceEntry>): Map<string, Array<SourceEntry>> {
   const idx = new Map<string, Array<SourceEntry>>();
   const add = (key: string, e: SourceEntry) => {
@@ -146,6 +199,7 @@ function indexEntries(entries: Array<SourceEntry>): Map<string, Array<SourceEntr
   return idx;
 }
 
+// Lookup keys for a SAP value; the first is the value itself, the others are looser variants
 function candidateKeysForValue(v: unknown): Array<string> {
   const s = normalize(String(v ?? ""));
   if (!s) return [];
@@ -158,11 +212,118 @@ function candidateKeysForValue(v: unknown): Array<string> {
   return keys;
 }
 
-export function createSapToSourceMapping(sap: unknown, source: DocumentData | any): SapToSourceMapping {
+type ReadingHit = { entry: SourceEntry; certainty: Certainty; embedded: boolean };
+
+const numberKey = (n: number) => String(Math.round(n * 1e6) / 1e6);
+
+/**
+ * Canonical amounts and dates of every source entry ("YYYY-MM-DD" for dates), each with how sure
+ * the reading is under the document's locale hints.
+ */
+function indexReadings(entries: Array<SourceEntry>, hints: LocaleHints) {
+  const numbers = new Map<string, Array<ReadingHit>>();
+  const dates = new Map<string, Array<ReadingHit>>();
+  const add = (idx: Map<string, Array<ReadingHit>>, key: string, hit: ReadingHit) => {
+    const cur = idx.get(key) ?? [];
+    cur.push(hit);
+    idx.set(key, cur);
+  };
+  for (const entry of entries) {
+    const text = normalize(entry.text);
+    for (const r of parseAmount(text, hints)) {
+      add(numbers, numberKey(r.value), { entry, certainty: r.certainty, embedded: false });
+    }
+    for (const r of parseDates(text, hints)) {
+      add(dates, r.value, { entry, certainty: r.certainty, embedded: text.length > 10 });
+    }
+  }
+  return { numbers, dates };
+}
+
+const readingConfidence = (h: ReadingHit) => CERTAINTY_CONFIDENCE[h.certainty] - (h.embedded ? EMBEDDED_PENALTY : 0);
+
+function bestReading(hits: Array<ReadingHit> | undefined): ReadingHit | null {
+  if (!hits?.length) return null;
+  return hits.slice().sort((a, b) => readingConfidence(b) - readingConfidence(a) || byPreference(a.entry, b.entry))[0];
+}
+
+const toMatch = (entry: SourceEntry, method: MatchMethod, confidence: number): SapSourceMatch => ({
+  ...entry.bbox,
+  sourcePath: entry.path,
+  sourceText: entry.text,
+  confidence: Math.round(confidence * 100) / 100,
+  method,
+});
+
+/**
+ * Source box for every scalar of the SAP payload, keyed by "$.key.[i].key" path (null when unmatched),
+ * with the matched document_data path and a confidence. Matching tries, in order:
+ * - a manual box drawn on the SAP path (used as is)
+ * - the same text, then the same text ignoring case, punctuation or a time of day; a manual box on
+ *   a document_data field wins over automatic entries with that text
+ * - the same date or amount as the document prints it ("03/05/2024", "1.000,00 EUR"); number and
+ *   date formats come from `options.locale` or are inferred from the document, and readings the
+ *   format leaves open are scored lower
+ * - for longer texts such as descriptions, the entry sharing the most words
+ */
+export function createSapToSourceMapping(
+  sap: unknown,
+  source: DocumentData | any,
+  manualBoxes: Array<ManualBoxEvidence> = [],
+  options: MappingOptions = {},
+): SapToSourceMapping {
   try {
-    if (!sap || !source) return {};
-    const entries = extractSourceEntries(source, "$");
+    if (!sap || (!source && !manualBoxes.length)) return {};
+    source = canonicalSource(source);
+    const automatic = source ? extractSourceEntries(source, "$") : [];
+    const entries = source ? applyManualEntries(automatic, source, manualBoxes) : automatic;
     const idx = indexEntries(entries);
+    const hints = mergeLocaleHints(
+      options.locale ? localeHintsFor(options.locale) : {},
+      inferLocaleHints(entries.map((e) => e.text)),
+    );
+    const readings = indexReadings(entries, hints);
+    const tokenized = entries.map((entry) => ({ entry, tokens: tokenize(entry.text) }));
+    const sapBoxes = new Map(manualBoxes.filter((b) => b.target === "sap").map((b) => [b.path, b]));
+
+    // Amounts and dates only match loosely through their readings: "0,45" is not "045"
+    const matchText = (val: string | number | boolean): SapSourceMatch | null => {
+      const keys = candidateKeysForValue(val);
+      const loose = sapNumber(val) === null && sapDate(val) === null;
+      for (const key of loose ? keys : keys.slice(0, 1)) {
+        const candidates = idx.get(key)?.filter((e) => loose || normalize(e.text) === key);
+        if (!candidates?.length) continue;
+        const entry = candidates.slice().sort(byPreference)[0];
+        if (entry.manual) return toMatch(entry, "manual", 1);
+        return normalize(entry.text) === keys[0] ? toMatch(entry, "exact", 1) : toMatch(entry, "normalized", 0.9);
+      }
+      return null;
+    };
+
+    const matchReading = (val: unknown): SapSourceMatch | null => {
+      const date = sapDate(val);
+      if (date) {
+        const hit = bestReading(readings.dates.get(date));
+        return hit ? toMatch(hit.entry, "date", readingConfidence(hit)) : null;
+      }
+      const n = sapNumber(val);
+      if (n === null) return null;
+      const hit = bestReading(readings.numbers.get(numberKey(n)));
+      return hit ? toMatch(hit.entry, "number", readingConfidence(hit)) : null;
+    };
+
+    const matchPartial = (val: unknown): SapSourceMatch | null => {
+      if (typeof val !== "string" || normalize(val).length < PARTIAL_MIN_LENGTH) return null;
+      const tokens = tokenize(val);
+      if (tokens.length < 2) return null;
+      let best: { entry: SourceEntry; similarity: number } | null = null;
+      for (const { entry, tokens: entryTokens } of tokenized) {
+        const similarity = tokenSimilarity(tokens, entryTokens);
+        if (similarity < PARTIAL_MIN_SIMILARITY || (best && similarity < best.similarity)) continue;
+        if (!best || similarity > best.similarity || byPreference(entry, best.entry) < 0) best = { entry, similarity };
+      }
+      return best ? toMatch(best.entry, "partial", best.similarity * PARTIAL_MAX_CONFIDENCE) : null;
+    };
 
     const mapping: SapToSourceMapping = {};
 
@@ -176,22 +337,16 @@ export function createSapToSourceMapping(sap: unknown, source: DocumentData | an
         return;
       }
 
+      const sapBox = sapBoxes.get(path);
+      if (sapBox) {
+        const { x, y, width, height, page } = sapBox;
+        mapping[path] = { x, y, width, height, page, space: "unit", sourcePath: path, confidence: 1, method: "manual" };
+        return;
+      }
+
       // Primitive field -> attempt match
       if (isScalar(val)) {
-        const keys = candidateKeysForValue(val);
-        let matched: SourceEntry | null = null;
-
-        for (const k of keys) {
-          const candidates = idx.get(k);
-          if (candidates && candidates.length) {
-            // Prefer longer text (more specific), fallback first occurrence
-            matched =
-              candidates.slice().sort((a, b) => b.text.length - a.text.length)[0] ?? candidates[0];
-            break;
-          }
-        }
-
-        mapping[path] = matched ? matched.bbox : null;
+        mapping[path] = matchText(val) ?? matchReading(val) ?? matchPartial(val);
       }
     };
 
@@ -201,3 +356,53 @@ export function createSapToSourceMapping(sap: unknown, source: DocumentData | an
     return {};
   }
 }
+
+/**
+ * A field with a box on the source: a document_data field (each field of an item row carries the
+ * row box) or a SAP field matched to the source.
+ */
+export type SourceRegion = { box: SourceBox; path: string; target: "document" | "sap" };
+
+// Fields whose source box contains a point, as "$.key.[i].key" paths
+export type SourceLinks = { documentPaths: Array<string>; sapPaths: Array<string> };
+
+/**
+ * Every document_data field and SAP field with a box on the source, for looking fields up by a
+ * point on the page (the reverse of `createSapToSourceMapping`).
+ */
+export function createSourceRegions(
+  sap: unknown,
+  source: unknown,
+  manualBoxes: Array<ManualBoxEvidence> = [],
+  options: MappingOptions = {},
+): Array<SourceRegion> {
+  try {
+    source = canonicalSource(source);
+    const automatic = source ? extractSourceEntries(source, "$") : [];
+    const entries = source ? applyManualEntries(automatic, source, manualBoxes) : automatic;
+    const mapping = sap ? createSapToSourceMapping(sap, source, manualBoxes, options) : {};
+    return [
+      ...entries.map((e): SourceRegion => ({ box: e.bbox, path: e.path, target: "document" })),
+      ...Object.entries(mapping).flatMap(([path, match]): Array<SourceRegion> =>
+        match ? [{ box: match, path, target: "sap" }] : [],
+      ),
+    ];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Document and SAP fields whose box contains `point`; boxes without a page are on page 1.
+ */
+export function sourceLinksAt(regions: Array<SourceRegion>, point: PagePoint, numPages: number): SourceLinks {
+  const documentPaths = new Set<string>();
+  const sapPaths = new Set<string>();
+  for (const region of regions) {
+    if (pageOfBox(region.box, numPages) !== point.page) continue;
+    const edges = toUnitEdges(region.box, point.geometry);
+    if (!edges || point.x < edges.x1 || point.x > edges.x2 || point.y < edges.y1 || point.y > edges.y2) continue;
+    (region.target === "sap" ? sapPaths : documentPaths).add(region.path);
+  }
+  return { documentPaths: [...documentPaths], sapPaths: [...sapPaths] };
+}
@@ -0,0 +1,99 @@
+import type { PDFPageProxy } from "pdfjs-dist";
+import type { Worker as TesseractWorker } from "tesseract.js";
+import type { UnitEdges } from "@/lib/geometry";
+
+// Render scale for OCR; scans need roughly 300 dpi (PDF space is 72 dpi) for reliable results
+const OCR_RENDER_SCALE = 300 / 72;
+// Longest side of the rendered region, so a page-sized selection stays within canvas limits
+const MAX_OCR_SIDE_PX = 4000;
+
+export type OcrWord = UnitEdges & {
+  text: string;
+  confidence: number; // 0..100
+};
+
+export type OcrLine = UnitEdges & {
+  text: string;
+  confidence: number; // 0..100
+  words: Array<OcrWord>;
+};
+
+export type OcrResult = {
+  text: string;
+  confidence: number; // 0..100, for the whole region
+  words: Array<OcrWord>;
+  lines: Array<OcrLine>;
+};
+
+let workerPromise: Promise<TesseractWorker> | null = null;
+
+/**
+ * Shared Tesseract worker, created on first use. tesseract.js and its language data are only
+ * loaded once OCR is actually needed.
+ */
+export function getOcrWorker(): Promise<TesseractWorker> {
+  if (!workerPromise) {
+    workerPromise = import("tesseract.js")
+      .then(({ createWorker }) => createWorker("eng"))
+      .catch((e) => {
+        workerPromise = null;
+        throw e;
+      });
+  }
+  return workerPromise;
+}
+
+/**
+ * OCR of one region of a page. Only the region is rendered, at OCR resolution; word boxes are
+ * returned in unit page space like the pdf.js text items.
+ */
+export async function recognizeRegion(page: PDFPageProxy, region: UnitEdges): Promise<OcrResult> {
+  const base = page.getViewport({ scale: 1 });
+  const regionW = (region.x2 - region.x1) * base.width;
+  const regionH = (region.y2 - region.y1) * base.height;
+  const scale = Math.min(OCR_RENDER_SCALE, MAX_OCR_SIDE_PX / Math.max(regionW, regionH, 1));
+  const viewport = page.getViewport({ scale });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.floor(regionW * scale));
+  canvas.height = Math.max(1, Math.floor(regionH * scale));
+  const left = region.x1 * viewport.width;
+  const top = region.y1 * viewport.height;
+
+  try {
+    await page.render({ canvas, viewport, transform: [1, 0, 0, 1, -left, -top] }).promise;
+    const worker = await getOcrWorker();
+    const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true });
+
+    // Tesseract boxes are canvas pixels of the region; map them back to unit page space
+    const toUnit = (bbox: { x0: number; y0: number; x1: number; y1: number }): UnitEdges => ({
+      x1: (left + bbox.x0) / viewport.width,
+      y1: (top + bbox.y0) / viewport.height,
+      x2: (left + bbox.x1) / viewport.width,
+      y2: (top + bbox.y1) / viewport.height,
+    });
+
+    const lines: Array<OcrLine> = [];
+    for (const block of data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          const words = line.words
+            .filter((word) => word.text.trim())
+            .map((word): OcrWord => ({ text: word.text, confidence: word.confidence, ...toUnit(word.bbox) }));
+          if (!words.length) continue;
+          lines.push({ text: line.text.trim(), confidence: line.confidence, words, ...toUnit(line.bbox) });
+        }
+      }
+    }
+
+    return {
+      text: data.text.replace(/\s+/g, " ").trim(),
+      confidence: data.confidence,
+      words: lines.flatMap((line) => line.words),
+      lines,
+    };
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+}
@@ -0,0 +1,68 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { pageGeometryOf, type PageGeometry } from "@/lib/geometry";
+
+// Size and transform of a page at scale 1 (the base viewport overlays project from)
+export type PageDims = PageGeometry;
+
+/**
+ * Base viewport geometry of every page, in page order. Pages are loaded one at a time;
+ * pdf.js keeps the page proxies, so later renders of the same pages are cheap.
+ */
+export async function loadPageDims(pdf: PDFDocumentProxy): Promise<Array<PageDims>> {
+  const dims: Array<PageDims> = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n);
+    dims.push(pageGeometryOf(page.getViewport({ scale: 1 })));
+  }
+  return dims;
+}
+
+/**
+ * Data attributes of a rendered page element: its number and base geometry, so page-level code
+ * outside the viewer (the hover magnifiers) can project boxes onto its canvas.
+ */
+export function pageGeometryAttributes(page: number, dims: PageDims) {
+  return {
+    "data-page-number": page,
+    "data-page-width": dims.width,
+    "data-page-height": dims.height,
+    "data-page-transform": dims.transform?.join(","),
+  };
+}
+
+/**
+ * Page number and base geometry of an element rendered with `pageGeometryAttributes`, or null
+ * when the element is not a page.
+ */
+export function pageGeometryOfElement(el: HTMLElement): { page: number; geometry: PageGeometry } | null {
+  const page = Number(el.dataset.pageNumber);
+  const width = Number(el.dataset.pageWidth);
+  const height = Number(el.dataset.pageHeight);
+  if (!page || !width || !height) return null;
+  const transform = el.dataset.pageTransform?.split(",").map(Number);
+  return { page, geometry: { width, height, transform: transform?.length === 6 ? transform : undefined } };
+}
+
+export type CanvasPool = {
+  acquire: () => HTMLCanvasElement;
+  release: (canvas: HTMLCanvasElement) => void;
+};
+
+/**
+ * Reuses page canvases instead of creating one per page. Released canvases are detached and
+ * shrunk to 0×0 so their bitmap memory is freed immediately; at most `limit` are kept for reuse.
+ */
+export function createCanvasPool(limit: number): CanvasPool {
+  const free: Array<HTMLCanvasElement> = [];
+  return {
+    acquire: () => free.pop() ?? document.createElement("canvas"),
+    release: (canvas) => {
+      canvas.remove();
+      canvas.width = 0;
+      canvas.height = 0;
+      if (free.length < limit) {
+        free.push(canvas);
+      }
+    },
+  };
+}
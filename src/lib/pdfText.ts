@@ -0,0 +1,154 @@
+import { Util, type PDFPageProxy } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { UnitEdges } from "@/lib/geometry";
+
+export type PdfTextItem = UnitEdges & {
+  str: string;
+  // Horizontal stretch for a span rendered in the layer font so it covers the glyphs on the canvas
+  scaleX: number;
+  // Font height relative to the page height
+  fontHeight: number;
+};
+
+export type PdfFindHit = {
+  page: number;
+  rects: Array<UnitEdges>;
+};
+
+export const TEXT_LAYER_FONT = "sans-serif";
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+// Width of `text` at 100px in the layer font
+const measureText = (text: string) => {
+  if (!measureCtx) {
+    measureCtx = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureCtx) return 0;
+  measureCtx.font = `100px ${TEXT_LAYER_FONT}`;
+  return measureCtx.measureText(text).width;
+};
+
+/**
+ * Text items of a page with their boxes in unit space (scale-1 viewport, top-left origin).
+ */
+export async function extractPageText(page: PDFPageProxy): Promise<Array<PdfTextItem>> {
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  const items: Array<PdfTextItem> = [];
+
+  for (const raw of content.items) {
+    if (!("str" in raw)) continue;
+    const item = raw as TextItem;
+    if (!item.str.trim()) continue;
+
+    const tx = Util.transform(viewport.transform, item.transform);
+    const height = Math.hypot(tx[2], tx[3]);
+    const width = item.width * viewport.scale;
+    if (!height || !width) continue;
+
+    const left = tx[4];
+    const top = tx[5] - height;
+    const measured = measureText(item.str) * (height / 100);
+
+    items.push({
+      str: item.str,
+      x1: left / viewport.width,
+      y1: top / viewport.height,
+      x2: (left + width) / viewport.width,
+      y2: (top + height) / viewport.height,
+      fontHeight: height / viewport.height,
+      scaleX: measured > 0 ? width / measured : 1,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Case-insensitive occurrences of `query` in the text of each page, in reading order.
+ * Items are joined with a space so phrases split across items still match; a hit spanning
+ * several items gets one rect per item, each cut to the matched characters.
+ */
+export function findInPages(pages: Map<number, Array<PdfTextItem>>, query: string): Array<PdfFindHit> {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const hits: Array<PdfFindHit> = [];
+  const pageNumbers = [...pages.keys()].sort((a, b) => a - b);
+
+  for (const page of pageNumbers) {
+    const items = pages.get(page) ?? [];
+    let text = "";
+    const starts: Array<number> = [];
+    for (const item of items) {
+      starts.push(text.length);
+      text += item.str + " ";
+    }
+    const haystack = text.toLowerCase();
+
+    let from = 0;
+    while (from < haystack.length) {
+      const index = haystack.indexOf(needle, from);
+      if (index < 0) break;
+      const end = index + needle.length;
+      const rects: Array<UnitEdges> = [];
+
+      items.forEach((item, i) => {
+        const start = starts[i];
+        const stop = start + item.str.length;
+        if (stop <= index || start >= end) return;
+        const a = Math.max(index, start) - start;
+        const b = Math.min(end, stop) - start;
+        const span = item.x2 - item.x1;
+        const len = item.str.length || 1;
+        rects.push({
+          x1: item.x1 + (span * a) / len,
+          x2: item.x1 + (span * b) / len,
+          y1: item.y1,
+          y2: item.y2,
+        });
+      });
+
+      if (rects.length) hits.push({ page, rects });
+      from = end;
+    }
+  }
+
+  return hits;
+}
+
+/**
+ * Text of the items whose centre lies inside `region`, in reading order. Items are grouped into
+ * lines by their vertical centre; lines are joined with a space, as a single field value.
+ */
+export function textInRegion(items: Array<PdfTextItem>, region: UnitEdges): string {
+  const inside = items.filter((item) => {
+    const cx = (item.x1 + item.x2) / 2;
+    const cy = (item.y1 + item.y2) / 2;
+    return cx >= region.x1 && cx <= region.x2 && cy >= region.y1 && cy <= region.y2;
+  });
+  inside.sort((a, b) => (a.y1 + a.y2) / 2 - (b.y1 + b.y2) / 2);
+
+  const lines: Array<Array<PdfTextItem>> = [];
+  for (const item of inside) {
+    const cy = (item.y1 + item.y2) / 2;
+    const line = lines[lines.length - 1];
+    const last = line?.[line.length - 1];
+    if (last && Math.abs(cy - (last.y1 + last.y2) / 2) <= Math.max(last.fontHeight, item.fontHeight) / 2) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines
+    .map((line) =>
+      line
+        .sort((a, b) => a.x1 - b.x1)
+        .map((item) => item.str.trim())
+        .join(" "),
+    )
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
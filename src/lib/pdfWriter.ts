@@ -0,0 +1,177 @@
+// Minimal PDF 1.4 writer for client-side exports: JPEG page images plus text drawn with the
+// standard Helvetica fonts (WinAnsi encoding, no embedding), so no PDF library is needed.
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfPage = {
+  // Page size in points (1/72 in)
+  width: number;
+  height: number;
+  // Full-page background image
+  image?: { jpeg: Uint8Array; width: number; height: number };
+  // Content stream operators drawn on top (see the helpers below)
+  content?: string;
+};
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// Helvetica advance widths (1/1000 em) of the printable ASCII range 32..126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+// Helvetica-Bold runs about 6% wider; close enough for fitting text into columns
+const BOLD_WIDTH_FACTOR = 1.06;
+
+/**
+ * Width of `text` in points when drawn at `size` (latin-1 letters outside ASCII count as "n").
+ */
+export function textWidth(text: string, size: number, font: PdfFont = "regular"): number {
+  let units = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return ((units * size) / 1000) * (font === "bold" ? BOLD_WIDTH_FACTOR : 1);
+}
+
+/**
+ * `text` shortened with an ellipsis so it fits `maxWidth` points.
+ */
+export function fitText(text: string, maxWidth: number, size: number, font: PdfFont = "regular"): string {
+  if (textWidth(text, size, font) <= maxWidth) return text;
+  let out = text;
+  while (out.length > 1 && textWidth(`${out}...`, size, font) > maxWidth) out = out.slice(0, -1);
+  return `${out.trimEnd()}...`;
+}
+
+// Latin-1 string literal; characters WinAnsi cannot show become "?"
+function pdfString(text: string): string {
+  let out = "";
+  for (const ch of text.replace(/\s+/g, " ")) {
+    const code = ch.charCodeAt(0);
+    const safe = ch.length === 1 && code >= 32 && code <= 255 && (code < 127 || code >= 160) ? ch : "?";
+    out += safe === "\\" || safe === "(" || safe === ")" ? `\\${safe}` : safe;
+  }
+  return `(${out})`;
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+function rgb(hex: string): string {
+  const m = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  const [r, g, b] = m ? [m[1], m[2], m[3]].map((h) => parseInt(h, 16) / 255) : [0, 0, 0];
+  return `${num(r)} ${num(g)} ${num(b)}`;
+}
+
+// Text with its baseline at (x, y); y is measured from the top of the page
+export function textOp(
+  page: { height: number },
+  x: number,
+  y: number,
+  text: string,
+  opts: { size: number; font?: PdfFont; color?: string },
+): string {
+  const font = FONT_NAMES[opts.font ?? "regular"];
+  return `BT ${rgb(opts.color ?? "#000000")} rg /${font} ${num(opts.size)} Tf ${num(x)} ${num(page.height - y)} Td ${pdfString(text)} Tj ET\n`;
+}
+
+// Filled rectangle; (x, y) is its top-left corner measured from the top of the page
+export function rectOp(page: { height: number }, x: number, y: number, width: number, height: number, color: string): string {
+  return `${rgb(color)} rg ${num(x)} ${num(page.height - y - height)} ${num(width)} ${num(height)} re f\n`;
+}
+
+// Horizontal rule at `y` (from the top of the page)
+export function lineOp(page: { height: number }, x1: number, x2: number, y: number, color: string, width = 0.5): string {
+  const py = num(page.height - y);
+  return `${rgb(color)} RG ${num(width)} w ${num(x1)} ${py} m ${num(x2)} ${py} l S\n`;
+}
+
+const latin1 = (s: string) => {
+  const bytes = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) bytes[i] = s.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+/**
+ * Serialize pages into a PDF file.
+ */
+export function buildPdf(pages: Array<PdfPage>, info: { title?: string } = {}): Uint8Array {
+  const chunks: Array<Uint8Array> = [];
+  const offsets: Array<number> = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? latin1(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  // Object ids are assigned up front so pages can reference their content and images
+  let nextId = 1;
+  const reserve = () => nextId++;
+  const object = (id: number, body: Array<string | Uint8Array>) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    body.forEach(write);
+    write("\nendobj\n");
+  };
+  const stream = (id: number, dict: string, data: Uint8Array) =>
+    object(id, [`<< ${dict} /Length ${data.length} >>\nstream\n`, data, "\nendstream"]);
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const regularId = reserve();
+  const boldId = reserve();
+  const infoId = reserve();
+  const pageIds = pages.map(() => ({ page: reserve(), content: reserve(), image: reserve() }));
+
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  object(catalogId, [`<< /Type /Catalog /Pages ${pagesId} 0 R >>`]);
+  object(pagesId, [
+    `<< /Type /Pages /Kids [${pageIds.map((p) => `${p.page} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+  ]);
+  object(regularId, ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"]);
+  object(boldId, ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"]);
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const created = `D:${now.getUTCFullYear()}${pad(now.getUTCMonth() + 1)}${pad(now.getUTCDate())}${pad(now.getUTCHours())}${pad(now.getUTCMinutes())}${pad(now.getUTCSeconds())}Z`;
+  object(infoId, [`<< /Title ${pdfString(info.title ?? "Document")} /CreationDate (${created}) >>`]);
+
+  pages.forEach((page, i) => {
+    const ids = pageIds[i];
+    const xobjects = page.image ? `/XObject << /Im1 ${ids.image} 0 R >>` : "";
+    object(ids.page, [
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources << /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >> ${xobjects} >> /Contents ${ids.content} 0 R >>`,
+    ]);
+    const drawImage = page.image ? `q ${num(page.width)} 0 0 ${num(page.height)} 0 0 cm /Im1 Do Q\n` : "";
+    stream(ids.content, "", latin1(drawImage + (page.content ?? "")));
+    if (page.image) {
+      stream(
+        ids.image,
+        `/Type /XObject /Subtype /Image /Width ${page.image.width} /Height ${page.image.height} ` +
+          "/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode",
+        page.image.jpeg,
+      );
+    } else {
+      // Keep object numbering dense; an unused id still needs an entry
+      object(ids.image, ["null"]);
+    }
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${nextId}\n0000000000 65535 f \n`);
+  for (let id = 1; id < nextId; id++) write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  write(`trailer\n<< /Size ${nextId} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const out = new Uint8Array(length);
+  let at = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, at);
+    at += chunk.length;
+  }
+  return out;
+}
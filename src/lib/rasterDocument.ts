@@ -0,0 +1,209 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { isTiff, parseTiff, type TiffPage } from "@/lib/tiff";
+
+// What the viewer is showing: a PDF (pdf.js) or a raster scan (decoded here)
+export type SourceKind = "pdf" | "image" | "tiff";
+
+// Decoded pages kept at once; multi-page faxes are decoded again when revisited
+const MAX_CACHED_BITMAPS = 4;
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "bmp"];
+
+const startsWith = (bytes: Uint8Array, signature: Array<number>) => signature.every((b, i) => bytes[i] === b);
+
+/**
+ * Kind of a stored document. The file signature wins, then the Content-Type header, then the
+ * extension of the storage path (signed URL query strings are ignored); unknown sources are PDFs.
+ */
+export function detectSourceKind(source: { path?: string | null; contentType?: string | null; bytes?: Uint8Array }): SourceKind {
+  const { bytes } = source;
+  if (bytes && bytes.length >= 4) {
+    if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) return "pdf"; // %PDF
+    if (isTiff(bytes)) return "tiff";
+    if (
+      startsWith(bytes, [0x89, 0x50, 0x4e, 0x47]) || // PNG
+      startsWith(bytes, [0xff, 0xd8, 0xff]) || // JPEG
+      startsWith(bytes, [0x47, 0x49, 0x46, 0x38]) || // GIF8
+      startsWith(bytes, [0x42, 0x4d]) || // BMP
+      (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && String.fromCharCode(...bytes.subarray(8, 12)) === "WEBP")
+    ) {
+      return "image";
+    }
+  }
+
+  const contentType = source.contentType?.split(";")[0].trim().toLowerCase();
+  if (contentType === "application/pdf") return "pdf";
+  if (contentType === "image/tiff" || contentType === "image/tif") return "tiff";
+  if (contentType?.startsWith("image/")) return "image";
+
+  const path = source.path?.split(/[?#]/)[0] ?? "";
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  if (extension === "tif" || extension === "tiff") return "tiff";
+  if (IMAGE_EXTENSIONS.includes(extension)) return "image";
+  return "pdf";
+}
+
+type PageSource = {
+  // Size at scale 1; one unit is one source pixel horizontally
+  width: number;
+  height: number;
+  load: () => Promise<ImageBitmap>;
+};
+
+type RasterViewport = {
+  width: number;
+  height: number;
+  scale: number;
+  rotation: number;
+  transform: Array<number>;
+};
+
+function cancelledError() {
+  const error = new Error("Rendering cancelled");
+  error.name = "RenderingCancelledException";
+  return error;
+}
+
+// Stable id of the bytes (FNV-1a), standing in for the PDF fingerprint used by the text cache
+function fingerprintOf(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  const step = Math.max(1, Math.floor(bytes.length / 65536));
+  for (let i = 0; i < bytes.length; i += step) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `raster-${bytes.length.toString(16)}-${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * Page object with the subset of the pdf.js page API the viewer uses: viewports, rendering into a
+ * canvas (with an optional transform, as for OCR crops) and an empty text layer.
+ */
+class RasterPage {
+  readonly pageNumber: number;
+  private readonly source: PageSource;
+  private readonly bitmap: () => Promise<ImageBitmap>;
+
+  constructor(pageNumber: number, source: PageSource, bitmap: () => Promise<ImageBitmap>) {
+    this.pageNumber = pageNumber;
+    this.source = source;
+    this.bitmap = bitmap;
+  }
+
+  getViewport({ scale }: { scale: number }): RasterViewport {
+    return {
+      width: this.source.width * scale,
+      height: this.source.height * scale,
+      scale,
+      rotation: 0,
+      // As for a PDF page the size of the image: user space has its origin bottom-left
+      transform: [scale, 0, 0, -scale, 0, this.source.height * scale],
+    };
+  }
+
+  render({
+    canvas,
+    canvasContext,
+    viewport,
+    transform,
+  }: {
+    canvas?: HTMLCanvasElement;
+    canvasContext?: CanvasRenderingContext2D;
+    viewport: RasterViewport;
+    transform?: Array<number>;
+  }) {
+    let cancelled = false;
+    const promise = this.bitmap().then((bitmap) => {
+      if (cancelled) throw cancelledError();
+      const ctx = canvasContext ?? canvas?.getContext("2d");
+      if (!ctx) throw new Error("Canvas 2D context unavailable");
+      ctx.save();
+      if (transform) ctx.transform(transform[0], transform[1], transform[2], transform[3], transform[4], transform[5]);
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, viewport.width, viewport.height);
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = "high";
+      ctx.drawImage(bitmap, 0, 0, viewport.width, viewport.height);
+      ctx.restore();
+    });
+    return {
+      promise,
+      cancel: () => {
+        cancelled = true;
+      },
+    };
+  }
+
+  async getTextContent() {
+    // Scans have no text layer; region capture falls back to OCR
+    return { items: [], styles: {}, lang: null };
+  }
+
+  cleanup() {
+    return true;
+  }
+}
+
+/**
+ * Raster document (image or multi-page TIFF) behind the pdf.js document API, so the viewer's
+ * zoom, paging, thumbnails, magnifier and overlays work unchanged. Pages are decoded on demand and
+ * only a few decoded pages are kept.
+ */
+export async function loadRasterDocument(bytes: Uint8Array, kind: Exclude<SourceKind, "pdf">): Promise<PDFDocumentProxy> {
+  let sources: Array<PageSource>;
+  if (kind === "tiff") {
+    sources = parseTiff(bytes).map((page) => tiffPageSource(page));
+  } else {
+    const bitmap = await createImageBitmap(new Blob([bytes as BlobPart]));
+    sources = [{ width: bitmap.width, height: bitmap.height, load: async () => bitmap }];
+  }
+
+  const cache = new Map<number, Promise<ImageBitmap>>();
+  const bitmapOf = (index: number): Promise<ImageBitmap> => {
+    const cached = cache.get(index);
+    if (cached) {
+      // Most recently used last
+      cache.delete(index);
+      cache.set(index, cached);
+      return cached;
+    }
+    const loading = sources[index].load();
+    loading.catch(() => cache.delete(index));
+    cache.set(index, loading);
+    if (cache.size > MAX_CACHED_BITMAPS) {
+      const [oldest, evicted] = cache.entries().next().value!;
+      cache.delete(oldest);
+      // Single images keep their bitmap in the page source
+      if (kind === "tiff") void evicted.then((b) => b.close()).catch(() => {});
+    }
+    return loading;
+  };
+
+  const pages = sources.map((source, i) => new RasterPage(i + 1, source, () => bitmapOf(i)));
+
+  const doc = {
+    numPages: pages.length,
+    fingerprints: [fingerprintOf(bytes), null],
+    getPage: async (pageNumber: number) => {
+      const page = pages[pageNumber - 1];
+      if (!page) throw new Error(`Invalid page ${pageNumber}`);
+      return page;
+    },
+    cleanup: async () => {},
+    destroy: async () => {
+      for (const loading of cache.values()) void loading.then((b) => b.close()).catch(() => {});
+      cache.clear();
+    },
+  };
+  return doc as unknown as PDFDocumentProxy;
+}
+
+function tiffPageSource(page: TiffPage): PageSource {
+  // Fax modes use non-square pixels (e.g. 204 x 98 dpi); stretch rows so the page keeps its aspect
+  const aspect = page.xResolution && page.yResolution ? page.xResolution / page.yResolution : 1;
+  return {
+    width: page.width,
+    height: Math.round(page.height * aspect),
+    load: async () => createImageBitmap(await page.decode()),
+  };
+}
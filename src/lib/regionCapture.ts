@@ -0,0 +1,41 @@
+import type { PDFPageProxy } from "pdfjs-dist";
+import type { UnitEdges } from "@/lib/geometry";
+import type { ManualBox, ManualBoxGeometry } from "@/lib/manualBoxes";
+import { recognizeRegion, type OcrWord } from "@/lib/ocr";
+import { textInRegion, type PdfTextItem } from "@/lib/pdfText";
+
+export type CaptureMethod = NonNullable<ManualBox["method"]>;
+
+// Text read from a region the reviewer selected on a page, with the region as evidence
+export type RegionCapture = ManualBoxGeometry & {
+  text: string;
+  method: CaptureMethod;
+  confidence?: number; // OCR only, 0..100
+  words: Array<OcrWord>; // OCR only
+};
+
+/**
+ * Read the text inside `region` of a page. The PDF text layer is used when the region contains
+ * text; otherwise (scans, images) the region is OCRed.
+ */
+export async function captureRegionText(
+  page: PDFPageProxy,
+  textItems: Array<PdfTextItem>,
+  region: UnitEdges,
+): Promise<RegionCapture> {
+  const geometry: ManualBoxGeometry = {
+    page: page.pageNumber,
+    x: region.x1,
+    y: region.y1,
+    width: region.x2 - region.x1,
+    height: region.y2 - region.y1,
+  };
+
+  const text = textInRegion(textItems, region);
+  if (text) {
+    return { ...geometry, text, method: "text_layer", words: [] };
+  }
+
+  const ocr = await recognizeRegion(page, region);
+  return { ...geometry, text: ocr.text, method: "ocr", confidence: ocr.confidence, words: ocr.words };
+}
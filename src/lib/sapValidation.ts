@@ -0,0 +1,93 @@
+import Ajv, { type ErrorObject } from "ajv";
+import { salesOrderCreateSchema } from "@/schemas/salesOrderCreate";
+
+// Validation of the edited SAP payload against salesOrderCreateSchema.
+// Errors are keyed by the same "$.key.[i].key" paths SAPJsonCard and mappingLedger use,
+// so they can be rendered next to the field that caused them.
+
+export type SapValidationErrors = Record<string, string>;
+
+export type SapValidationResult = {
+  valid: boolean;
+  errors: SapValidationErrors;
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateOutput = ajv.compile(salesOrderCreateSchema);
+
+// "/output/to_Item/0/RequestedQuantity" -> "$.to_Item.[0].RequestedQuantity"
+function toSapPath(instancePath: string, extra?: string): string {
+  const segments = instancePath.split("/").filter(Boolean);
+  if (segments[0] === "output") segments.shift();
+  if (extra) segments.push(extra);
+  return ["$", ...segments.map((s) => (/^\d+$/.test(s) ? `[${s}]` : s.replace(/~1/g, "/").replace(/~0/g, "~")))].join(".");
+}
+
+function describeError(err: ErrorObject): { path: string; message: string } {
+  const params = (err.params ?? {}) as Record<string, string | number | undefined>;
+  switch (err.keyword) {
+    case "required":
+      return { path: toSapPath(err.instancePath, String(params.missingProperty)), message: "Required field is missing" };
+    case "additionalProperties":
+      return { path: toSapPath(err.instancePath, String(params.additionalProperty)), message: "Not part of the sales order schema" };
+    case "minItems":
+      return {
+        path: toSapPath(err.instancePath),
+        message: params.limit === 1 ? "At least one row is required" : `At least ${params.limit} rows are required`,
+      };
+    case "type":
+      return { path: toSapPath(err.instancePath), message: `Must be a ${params.type}` };
+    default:
+      return { path: toSapPath(err.instancePath), message: err.message ?? "Invalid value" };
+  }
+}
+
+// Blank inputs count as missing, so an emptied SoldToParty is reported like an absent one
+function dropBlankStrings(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(dropBlankStrings);
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      if (typeof v === "string" && !v.trim()) continue;
+      out[k] = dropBlankStrings(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+export function validateSapPayload(sap: unknown): SapValidationResult {
+  if (!sap || typeof sap !== "object" || Array.isArray(sap)) {
+    return { valid: false, errors: { $: "SAP payload must be an object" } };
+  }
+  const valid = validateOutput({ output: dropBlankStrings(sap) }) as boolean;
+  const errors: SapValidationErrors = {};
+  for (const err of validateOutput.errors ?? []) {
+    const { path, message } = describeError(err);
+    // Keep the first message per field; later ones are usually consequences of it
+    if (!(path in errors)) errors[path] = message;
+  }
+  return { valid, errors };
+}
+
+// Walk the schema along a "$.key.[i].key" path and return the node for that field (if any)
+function schemaAtPath(path: string): { type?: string } | undefined {
+  let node = salesOrderCreateSchema?.properties?.output;
+  for (const seg of path.split(".").slice(1)) {
+    if (!node) return undefined;
+    node = /^\[\d+\]$/.test(seg) ? node.items : node.properties?.[seg];
+  }
+  return node;
+}
+
+// Inputs in the SAP panel produce strings; turn numeric strings into numbers where the schema expects one
+export function coerceSapValue(path: string, raw: unknown): unknown {
+  if (typeof raw !== "string") return raw;
+  const type = schemaAtPath(path)?.type;
+  if (type === "number" || type === "integer") {
+    const trimmed = raw.trim();
+    const n = Number(trimmed);
+    if (trimmed !== "" && Number.isFinite(n)) return n;
+  }
+  return raw;
+}
@@ -0,0 +1,42 @@
+// Section colour palette (hex, so the same colours work on canvas overlays and in exported PDFs)
+export const SECTION_COLORS: Record<string, string> = {
+  metadata: "#10b981", // emerald
+  header: "#10b981",
+  vendor: "#8b5cf6", // violet
+  partner: "#8b5cf6",
+  parties: "#8b5cf6",
+  customer: "#f59e0b", // amber
+  items: "#0ea5e9", // sky
+  lines: "#0ea5e9",
+  addresses: "#06b6d4", // cyan
+  totals: "#f43f5e", // rose
+  other: "#f43f5e",
+};
+
+const FALLBACK_COLORS: Array<string> = [
+  "#22c55e",
+  "#8b5cf6",
+  "#f59e0b",
+  "#0ea5e9",
+  "#f43f5e",
+  "#06b6d4",
+  "#a3e635",
+  "#e879f9",
+];
+
+function hashKeyToIndex(key: string): number {
+  let h = 0;
+  for (let i = 0; i < key.length; i++) h = (h * 31 + key.charCodeAt(i)) | 0;
+  return Math.abs(h) % FALLBACK_COLORS.length;
+}
+
+// Colour of a section key; unknown keys get a stable colour from the fallback palette
+export function colorForKey(key: string): string {
+  return SECTION_COLORS[key] ?? FALLBACK_COLORS[hashKeyToIndex(key)];
+}
+
+// Colour of a "$.key.[i].key" path, by its top-level key ("$.items.[0].material" -> items)
+export function colorForPath(path: string): string {
+  const key = path.replace(/^\$\.?/, "").split(".")[0] || "other";
+  return colorForKey(key.toLowerCase());
+}
@@ -86,6 +86,10 @@ export interface Item {
   bounding_box: BoundingBox[];
 }
 
+export interface TextLine extends FieldValue {
+  words?: Array<FieldValue & { confidence?: number }>;
+}
+
 export interface DocumentData {
   document: {
     pages: Array<{
@@ -117,6 +121,8 @@ export interface DocumentData {
         additional_notes?: FieldValue;
         title?: FieldValue;
       }>;
+      // Recognized lines of text with their words (OCR extractions)
+      text_lines?: Array<TextLine>;
     }>;
   };
 }
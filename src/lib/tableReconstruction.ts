@@ -0,0 +1,308 @@
+import type { PDFPageProxy } from "pdfjs-dist";
+import type { UnitEdges } from "@/lib/geometry";
+import type { ManualBoxGeometry } from "@/lib/manualBoxes";
+import { recognizeRegion } from "@/lib/ocr";
+import type { PdfTextItem } from "@/lib/pdfText";
+import type { CaptureMethod } from "@/lib/regionCapture";
+import { inferLocaleHints, parseAmount } from "@/lib/valueMatching";
+
+// Items closer than this (in font heights) are words of one cell; column gaps are wider
+const WORD_GAP = 0.6;
+
+export type TableCell = UnitEdges & { text: string };
+
+/**
+ * Table read from a region the reviewer drew around a line-item table: the columns found from the
+ * gaps between text, and the cells of every line of text, one per column (null where a line has
+ * nothing in a column). Geometry is unit page space.
+ */
+export type ReconstructedTable = {
+  page: number;
+  region: UnitEdges;
+  method: CaptureMethod;
+  columns: Array<{ x1: number; x2: number }>;
+  rows: Array<Array<TableCell | null>>;
+};
+
+// A SAP item field a column can fill; `path` is relative to the to_Item row
+export type TableItemField = { path: string; label: string; header: RegExp; numeric?: boolean };
+
+export const TABLE_ITEM_FIELDS: Array<TableItemField> = [
+  {
+    path: "MaterialByCustomer",
+    label: "Customer material",
+    header: /material|article|art\.?\s*-?no|part|item\s*(code|no)|sku|artikel/i,
+  },
+  { path: "SalesOrderItemText", label: "Description", header: /desc|bezeichnung|text|product|designation/i },
+  { path: "RequestedQuantity", label: "Quantity", header: /qty|quant|menge|pcs/i, numeric: true },
+  { path: "RequestedQuantityUnit", label: "Unit of measure", header: /uom|^unit$|unit\s*of|einheit|^me$/i },
+  {
+    path: "to_ItemPricingElement.[0].ConditionAmount",
+    label: "Price",
+    header: /price|preis|rate|amount|betrag/i,
+    numeric: true,
+  },
+];
+
+const centreX = (e: { x1: number; x2: number }) => (e.x1 + e.x2) / 2;
+const centreY = (e: UnitEdges) => (e.y1 + e.y2) / 2;
+const overlap = (a: { x1: number; x2: number }, b: { x1: number; x2: number }) =>
+  Math.min(a.x2, b.x2) - Math.max(a.x1, b.x1);
+const union = <T extends UnitEdges>(a: T, b: UnitEdges): T => ({
+  ...a,
+  x1: Math.min(a.x1, b.x1),
+  y1: Math.min(a.y1, b.y1),
+  x2: Math.max(a.x2, b.x2),
+  y2: Math.max(a.y2, b.y2),
+});
+
+// Lines of text in reading order, each split into cells at gaps wider than a word space
+function textLines(items: Array<PdfTextItem>): Array<Array<TableCell>> {
+  const sorted = [...items].sort((a, b) => centreY(a) - centreY(b));
+  const lines: Array<Array<PdfTextItem>> = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    const last = line?.[line.length - 1];
+    if (last && Math.abs(centreY(item) - centreY(last)) <= Math.max(last.fontHeight, item.fontHeight) / 2) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines.map((line) => {
+    const cells: Array<TableCell & { fontHeight: number }> = [];
+    for (const item of [...line].sort((a, b) => a.x1 - b.x1)) {
+      const cell = cells[cells.length - 1];
+      if (cell && item.x1 - cell.x2 <= Math.max(cell.fontHeight, item.fontHeight) * WORD_GAP) {
+        cells[cells.length - 1] = { ...union(cell, item), text: `${cell.text} ${item.str.trim()}` };
+      } else {
+        const { x1, y1, x2, y2, fontHeight } = item;
+        cells.push({ x1, y1, x2, y2, fontHeight, text: item.str.trim() });
+      }
+    }
+    return cells.map(({ x1, y1, x2, y2, text }) => ({ x1, y1, x2, y2, text }));
+  });
+}
+
+/**
+ * Rows and columns of the text inside `region`. Columns are the horizontal extents that text of
+ * several-cell lines keeps to; the first line is left out of that when enough lines follow, since
+ * header captions often span the gap between two columns.
+ */
+export function reconstructTable(
+  items: Array<PdfTextItem>,
+  region: UnitEdges,
+  page: number,
+  method: CaptureMethod = "text_layer",
+): ReconstructedTable {
+  const inside = items.filter((item) => {
+    const cx = centreX(item);
+    const cy = centreY(item);
+    return item.str.trim() && cx >= region.x1 && cx <= region.x2 && cy >= region.y1 && cy <= region.y2;
+  });
+  const lines = textLines(inside);
+
+  let basis = lines.filter((cells) => cells.length > 1);
+  if (basis.length > 2 && basis[0] === lines[0]) basis = basis.slice(1);
+  if (!basis.length) basis = lines;
+
+  const columns: Array<{ x1: number; x2: number }> = [];
+  for (const { x1, x2 } of basis.flat().sort((a, b) => a.x1 - b.x1)) {
+    const last = columns[columns.length - 1];
+    if (last && x1 <= last.x2) last.x2 = Math.max(last.x2, x2);
+    else columns.push({ x1, x2 });
+  }
+
+  // Each cell goes to the column it overlaps most, or the nearest one
+  const columnOf = (cell: TableCell) => {
+    let best = 0;
+    let bestScore = -Infinity;
+    columns.forEach((column, i) => {
+      const o = overlap(cell, column);
+      const score = o > 0 ? o : -Math.abs(centreX(cell) - centreX(column));
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    return best;
+  };
+
+  const rows = lines.map((cells) => {
+    const row: Array<TableCell | null> = columns.map(() => null);
+    for (const cell of cells) {
+      const i = columnOf(cell);
+      const current = row[i];
+      row[i] = current ? { ...union(current, cell), text: `${current.text} ${cell.text}` } : cell;
+    }
+    return row;
+  });
+
+  return { page, region, method, columns, rows };
+}
+
+/**
+ * Read the table in `region` of a page from the PDF text layer, or by OCR when the region has no
+ * text (scans, images).
+ */
+export async function readTableRegion(
+  page: PDFPageProxy,
+  textItems: Array<PdfTextItem>,
+  region: UnitEdges,
+): Promise<ReconstructedTable> {
+  const fromText = reconstructTable(textItems, region, page.pageNumber, "text_layer");
+  if (fromText.rows.length) return fromText;
+
+  const ocr = await recognizeRegion(page, region);
+  const words = ocr.words.map(
+    (w): PdfTextItem => ({ str: w.text, x1: w.x1, y1: w.y1, x2: w.x2, y2: w.y2, fontHeight: w.y2 - w.y1, scaleX: 1 }),
+  );
+  return reconstructTable(words, region, page.pageNumber, "ocr");
+}
+
+// A caption line: several cells and no digits
+export const isHeaderRow = (row: Array<TableCell | null> | undefined) =>
+  !!row && row.filter(Boolean).length > 1 && row.every((cell) => !cell || !/\d/.test(cell.text));
+
+/**
+ * Field of each column guessed from the header captions; every field is suggested at most once.
+ */
+export function suggestColumnFields(header: Array<TableCell | null> | undefined): Array<string | null> {
+  const used = new Set<string>();
+  return (header ?? []).map((cell) => {
+    const field = cell && TABLE_ITEM_FIELDS.find((f) => !used.has(f.path) && f.header.test(cell.text.trim()));
+    if (!field) return null;
+    used.add(field.path);
+    return field.path;
+  });
+}
+
+// Value of one mapped cell, with the text and box it was read from
+export type TableItemValue = { value: string | number; text: string; box: ManualBoxGeometry };
+
+// Mapped values of one item, keyed by item field path
+export type TableItemRow = Record<string, TableItemValue>;
+
+/**
+ * Items of the table body for the given column fields. A line with nothing in the quantity column
+ * (or the first mapped column) continues the item above it, e.g. a description wrapped onto a
+ * second line. Numeric fields are read in the number format the table itself uses.
+ */
+export function tableItemRows(
+  table: ReconstructedTable,
+  columnFields: Array<string | null>,
+  skipHeader: boolean,
+): Array<TableItemRow> {
+  const body = skipHeader ? table.rows.slice(1) : table.rows;
+  const mapped = columnFields.flatMap((field, i) => (field ? [{ field, i }] : []));
+  if (!mapped.length) return [];
+  const anchor = mapped.find((m) => m.field === "RequestedQuantity") ?? mapped[0];
+
+  const groups: Array<Map<string, TableCell>> = [];
+  for (const row of body) {
+    const cells = mapped.filter((m) => row[m.i]);
+    if (!cells.length) continue;
+    const group = row[anchor.i] ? new Map<string, TableCell>() : groups[groups.length - 1];
+    if (!group) continue;
+    if (group.size === 0) groups.push(group);
+    for (const { field, i } of cells) {
+      const cell = row[i] as TableCell;
+      const current = group.get(field);
+      group.set(field, current ? { ...union(current, cell), text: `${current.text} ${cell.text}` } : cell);
+    }
+  }
+
+  const hints = inferLocaleHints(body.flatMap((row) => row.filter((c): c is TableCell => !!c).map((c) => c.text)));
+  const numericFields = new Set(TABLE_ITEM_FIELDS.filter((f) => f.numeric).map((f) => f.path));
+
+  return groups.map((group) => {
+    const item: TableItemRow = {};
+    for (const [field, cell] of group) {
+      let value: string | number = cell.text;
+      if (numericFields.has(field)) {
+        const number = /-?\d[\d.,' ]*/.exec(cell.text)?.[0].trim();
+        const reading = number ? parseAmount(number, hints)[0] : undefined;
+        if (reading) value = reading.value;
+      }
+      item[field] = {
+        value,
+        text: cell.text,
+        box: { page: table.page, x: cell.x1, y: cell.y1, width: cell.x2 - cell.x1, height: cell.y2 - cell.y1 },
+      };
+    }
+    return item;
+  });
+}
+
+export type TableApplyMode = "replace" | "append";
+
+// Evidence of one SAP field filled from the table
+export type TableEvidence = ManualBoxGeometry & { path: string; text: string };
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => !!v && typeof v === "object" && !Array.isArray(v);
+
+// Copy of `node` with the value at a "key.[i].key" path set, creating objects and arrays on the way
+function setAtPath(node: unknown, segments: Array<string>, value: unknown): unknown {
+  const [seg, ...rest] = segments;
+  const arrIdx = /^\[(\d+)\]$/.exec(seg);
+  const next = (current: unknown) => (rest.length ? setAtPath(current, rest, value) : value);
+  if (arrIdx) {
+    const array = Array.isArray(node) ? [...node] : [];
+    array[Number(arrIdx[1])] = next(array[Number(arrIdx[1])]);
+    return array;
+  }
+  const object = isObject(node) ? { ...node } : {};
+  object[seg] = next(object[seg]);
+  return object;
+}
+
+// Customer material of an item, for matching table rows to existing rows
+const customerMaterialOf = (item: unknown) =>
+  isObject(item) && item.MaterialByCustomer !== undefined ? String(item.MaterialByCustomer).trim() : "";
+
+// Path prefix of the item fields; their boxes are dropped when the items are replaced
+export const TABLE_ITEMS_PATH_PREFIX = "$.to_Item.";
+
+/**
+ * SAP payload with its to_Item rows filled from the table, and the evidence box of every value.
+ * "replace" writes new rows in table order: a row keeps the unmapped fields of the existing row with
+ * the same customer material, otherwise it starts empty. "append" adds the items after the existing
+ * rows. Written rows are numbered by position: 10, 20, ...
+ */
+export function applyTableItems(
+  sap: unknown,
+  rows: Array<TableItemRow>,
+  mode: TableApplyMode,
+): { sap: Json; evidence: Array<TableEvidence> } {
+  const payload = isObject(sap) ? sap : {};
+  const existing: Array<unknown> = Array.isArray(payload.to_Item) ? payload.to_Item : [];
+  const offset = mode === "append" ? existing.length : 0;
+  const items = mode === "append" ? [...existing] : [];
+  const unmatched = new Set(existing.keys());
+  const evidence: Array<TableEvidence> = [];
+
+  rows.forEach((row, i) => {
+    const index = offset + i;
+    const material = row.MaterialByCustomer ? String(row.MaterialByCustomer.value).trim() : "";
+    const match =
+      mode === "replace" && material
+        ? Array.from(unmatched).find((j) => customerMaterialOf(existing[j]) === material)
+        : undefined;
+    let item: unknown = {};
+    if (match !== undefined) {
+      unmatched.delete(match);
+      item = { ...(existing[match] as Json) };
+    }
+    item = setAtPath(item, ["SalesOrderItem"], String((index + 1) * 10));
+    for (const [field, { value, text, box }] of Object.entries(row)) {
+      item = setAtPath(item, field.split("."), value);
+      evidence.push({ ...box, path: `${TABLE_ITEMS_PATH_PREFIX}[${index}].${field}`, text });
+    }
+    items[index] = item;
+  });
+
+  return { sap: { ...payload, to_Item: items }, evidence };
+}
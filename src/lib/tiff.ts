@@ -0,0 +1,67 @@
+import * as UTIF from "utif";
+
+// TIFF pages of faxed and scanned orders, decoded with UTIF.js (every baseline compression,
+// CCITT fax modes, LZW, Deflate, PackBits and JPEG).
+
+export type TiffPage = {
+  width: number;
+  height: number;
+  // Horizontal / vertical resolution; differs for fax modes with non-square pixels
+  xResolution?: number;
+  yResolution?: number;
+  decode: () => Promise<ImageData>;
+};
+
+export function isTiff(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 4 &&
+    ((bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+      (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42))
+  );
+}
+
+// First value of a numeric tag ("t256" = ImageWidth, ...)
+const tagNumber = (ifd: UTIF.IFD, tag: number): number | undefined => {
+  const value = ifd[`t${tag}`];
+  const first = Array.isArray(value) ? Number(value[0]) : undefined;
+  return first !== undefined && Number.isFinite(first) && first > 0 ? first : undefined;
+};
+
+/**
+ * Pages (IFDs) of a TIFF file. Only the directory is read here; pixel data is decoded per page
+ * on demand, so long multi-page faxes do not have to be held in memory at once.
+ */
+export function parseTiff(bytes: Uint8Array): Array<TiffPage> {
+  if (!isTiff(bytes)) throw new Error("Not a TIFF file");
+  const buffer = bytes.slice().buffer;
+  let ifds: Array<UTIF.IFD>;
+  try {
+    ifds = UTIF.decode(buffer);
+  } catch (e) {
+    throw new Error(`Unreadable TIFF file: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const pages = ifds.flatMap((ifd): Array<TiffPage> => {
+    const width = tagNumber(ifd, 256);
+    const height = tagNumber(ifd, 257);
+    if (!width || !height) return [];
+    return [
+      {
+        width,
+        height,
+        xResolution: tagNumber(ifd, 282),
+        yResolution: tagNumber(ifd, 283),
+        decode: async () => {
+          // Decode into a copy, so the pixels are released with the ImageData and not kept on the IFD
+          const image = { ...ifd };
+          UTIF.decodeImage(buffer, image);
+          if (!image.data?.length) throw new Error("TIFF page could not be decoded");
+          const rgba = UTIF.toRGBA8(image);
+          return new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.length), image.width, image.height);
+        },
+      },
+    ];
+  });
+  if (!pages.length) throw new Error("TIFF file has no pages");
+  return pages;
+}
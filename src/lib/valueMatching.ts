@@ -0,0 +1,264 @@
+// Canonical forms of extracted values, so a SAP value can be compared with how a document prints
+// it: amounts with locale separators and currencies, dates in any common order, and free text by
+// its words.
+
+/**
+ * How a document writes numbers and dates. Unset fields are unknown; readings that depend on them
+ * are then ambiguous.
+ */
+export type LocaleHints = {
+  decimalSeparator?: "." | ",";
+  // 03/05/2024 is 3 May (true) or March 5 (false)
+  dayFirst?: boolean;
+};
+
+/**
+ * How sure a reading is: the only possible one, picked by a hint among several, one of several
+ * without a hint to decide, or one the hints speak against.
+ */
+export type Certainty = "certain" | "hinted" | "ambiguous" | "contradicted";
+
+export type Reading<T> = { value: T; certainty: Certainty };
+
+const CERTAINTY_ORDER: Array<Certainty> = ["certain", "hinted", "ambiguous", "contradicted"];
+const byCertainty = (a: { certainty: Certainty }, b: { certainty: Certainty }) =>
+  CERTAINTY_ORDER.indexOf(a.certainty) - CERTAINTY_ORDER.indexOf(b.certainty);
+
+// Certainty of one of two readings, given whether the hint prefers it (undefined: no hint)
+const certaintyOf = (preferred: boolean | undefined): Certainty =>
+  preferred === undefined ? "ambiguous" : preferred ? "hinted" : "contradicted";
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  mär: 3,
+  apr: 4,
+  may: 5,
+  mai: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  oct: 10,
+  okt: 10,
+  nov: 11,
+  dec: 12,
+  dez: 12,
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Hints for a BCP 47 locale ("de-DE", "en-US", ...); empty when the runtime does not know it.
+ */
+export function localeHintsFor(locale: string): LocaleHints {
+  try {
+    const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find((p) => p.type === "decimal")?.value;
+    const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(2024, 4, 3)).map((p) => p.type);
+    const day = parts.indexOf("day");
+    const month = parts.indexOf("month");
+    return {
+      ...(decimal === "." || decimal === "," ? { decimalSeparator: decimal } : {}),
+      ...(day >= 0 && month >= 0 ? { dayFirst: day < month } : {}),
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Hints read from the document itself: amounts like "1.000,00" or "12,50" vote for a decimal
+ * comma, dates like "23/04/2024" or "03.05.2024" for day-first. Ties leave the hint unset.
+ */
+export function inferLocaleHints(texts: Iterable<string>): LocaleHints {
+  let comma = 0;
+  let dot = 0;
+  let dayFirst = 0;
+  let monthFirst = 0;
+  for (const text of texts) {
+    comma += (text.match(/\d[.\s']\d{3},\d{1,2}(?![\d.,])|(?<![\d.,])\d+,\d{2}(?![\d.,])/g) ?? []).length;
+    dot += (text.match(/\d[,\s']\d{3}\.\d{1,2}(?![\d.,])|(?<![\d.,])\d+\.\d{2}(?![\d.,])/g) ?? []).length;
+    for (const m of text.matchAll(/(?<!\d)(\d{1,2})([./-])(\d{1,2})\2(\d{2}|\d{4})(?!\d)/g)) {
+      const a = Number(m[1]);
+      const b = Number(m[3]);
+      if (a > 12 || m[2] === ".") dayFirst++;
+      else if (b > 12) monthFirst++;
+    }
+  }
+  return {
+    ...(comma !== dot ? { decimalSeparator: comma > dot ? "," : "." } : {}),
+    ...(dayFirst !== monthFirst ? { dayFirst: dayFirst > monthFirst } : {}),
+  };
+}
+
+// Hints given for the document win; the rest come from what the document itself shows
+export function mergeLocaleHints(explicit: LocaleHints, inferred: LocaleHints): LocaleHints {
+  return {
+    decimalSeparator: explicit.decimalSeparator ?? inferred.decimalSeparator,
+    dayFirst: explicit.dayFirst ?? inferred.dayFirst,
+  };
+}
+
+/**
+ * Number in a SAP value: JSON numbers and plain decimal strings ("1000.000", "-5"), which is how
+ * OData sends amounts and quantities.
+ */
+export function sapNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string" || !/^\s*[+-]?\d+(\.\d+)?\s*$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * Readings of an amount or quantity as printed: currency symbols and codes, percent signs, spaces
+ * and apostrophes used for grouping, SAP-style trailing minus and accounting parentheses are
+ * understood. "1.000" has two readings (one thousand, or one with three decimals); the decimal
+ * separator hint decides which is preferred.
+ */
+export function parseAmount(text: string, hints: LocaleHints = {}): Array<Reading<number>> {
+  let s = text
+    .trim()
+    .replace(/^[A-Z]{3}(?![A-Za-z])|(?<![A-Za-z])[A-Z]{3}$/g, "")
+    .replace(/[€$£¥₹%]/g, "")
+    .replace(/[\s']/g, "");
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) {
+    negative = true;
+    s = s.slice(1, -1);
+  }
+  if (s.endsWith("-")) {
+    negative = !negative;
+    s = s.slice(0, -1);
+  }
+  if (s.startsWith("-")) {
+    negative = !negative;
+    s = s.slice(1);
+  } else if (s.startsWith("+")) {
+    s = s.slice(1);
+  }
+  if (!/^[\d.,]*\d[\d.,]*$/.test(s)) return [];
+
+  const sign = negative ? -1 : 1;
+  const read = (decimal: "." | "," | null): number | null => {
+    const grouping = decimal === "," ? "." : ",";
+    const body = decimal ? s.split(grouping).join("") : s.replace(/[.,]/g, "");
+    const normalized = decimal === "," ? body.replace(",", ".") : body;
+    if ((normalized.match(/\./g) ?? []).length > 1) return null;
+    const n = Number(normalized);
+    return Number.isFinite(n) ? sign * n : null;
+  };
+  const certain = (n: number | null): Array<Reading<number>> =>
+    n === null ? [] : [{ value: n, certainty: "certain" }];
+
+  const lastDot = s.lastIndexOf(".");
+  const lastComma = s.lastIndexOf(",");
+  if (lastDot < 0 && lastComma < 0) return certain(read(null));
+  // Both separators: the last one is the decimal separator
+  if (lastDot >= 0 && lastComma >= 0) return certain(read(lastDot > lastComma ? "." : ","));
+
+  const sep = lastDot >= 0 ? "." : ",";
+  const count = s.split(sep).length - 1;
+  // Repeated separator groups thousands
+  if (count > 1) return certain(read(null));
+  const [whole, fraction] = s.split(sep);
+  if (fraction.length !== 3 || whole === "" || /^0+$/.test(whole)) return certain(read(sep));
+
+  // "1.000" / "1,000": grouping or three decimals
+  const asDecimal = read(sep);
+  const asGrouping = read(null);
+  if (asDecimal === null || asGrouping === null) return certain(asDecimal ?? asGrouping);
+  const preferDecimal = hints.decimalSeparator ? hints.decimalSeparator === sep : undefined;
+  return [
+    {
+      value: asGrouping,
+      certainty: certaintyOf(preferDecimal === undefined ? undefined : !preferDecimal),
+    },
+    { value: asDecimal, certainty: certaintyOf(preferDecimal) },
+  ].sort(byCertainty);
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  if (month < 1 || month > 12 || day < 1) return null;
+  if (day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Date in a SAP value as "YYYY-MM-DD": ISO dates and timestamps, OData "/Date(ms)/" and the
+ * packed "YYYYMMDD" form.
+ */
+export function sapDate(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const s = value.trim();
+  const odata = /^\/Date\((-?\d+)(?:[+-]\d{4})?\)\/$/.exec(s);
+  if (odata) return new Date(Number(odata[1])).toISOString().slice(0, 10);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})(?:$|[T\s])/.exec(s);
+  if (iso) return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  const packed = /^(\d{4})(\d{2})(\d{2})$/.exec(s);
+  if (packed) return isoDate(Number(packed[1]), Number(packed[2]), Number(packed[3]));
+  return null;
+}
+
+/**
+ * Readings of the dates found in a text, as "YYYY-MM-DD": year-first dates, day/month/year in
+ * either order with "/", "." or "-", and month names ("3 May 2024", "May 3, 2024", "03-Mai-24").
+ * Day-first versus month-first is ambiguous when both parts are 12 or less; the hint (or a "."
+ * separator, which is day-first in practice) then decides which reading is preferred.
+ */
+export function parseDates(text: string, hints: LocaleHints = {}): Array<Reading<string>> {
+  const out: Array<Reading<string>> = [];
+  const add = (value: string | null, certainty: Certainty = "certain") => {
+    if (value && !out.some((r) => r.value === value)) out.push({ value, certainty });
+  };
+
+  for (const m of text.matchAll(/(?<!\d)(\d{4})[./-](\d{1,2})[./-](\d{1,2})(?!\d)/g)) {
+    add(isoDate(Number(m[1]), Number(m[2]), Number(m[3])));
+  }
+  for (const m of text.matchAll(/(?<!\d)(\d{1,2})([./-])(\d{1,2})\2(\d{4}|\d{2})(?!\d)/g)) {
+    const [a, b, year] = [Number(m[1]), Number(m[3]), Number(m[4])];
+    if (a > 12 || b > 12 || a === b) {
+      add(a > 12 ? isoDate(year, b, a) : isoDate(year, a, b));
+      continue;
+    }
+    const dayFirst = hints.dayFirst ?? (m[2] === "." ? true : undefined);
+    add(isoDate(year, b, a), certaintyOf(dayFirst));
+    add(isoDate(year, a, b), certaintyOf(dayFirst === undefined ? undefined : !dayFirst));
+  }
+  for (const m of text.matchAll(/(?<!\d)(\d{1,2})\.?[\s-]+([A-Za-zä]{3,})\.?[\s-]+(\d{4}|\d{2})(?!\d)/g)) {
+    const month = MONTHS[m[2].slice(0, 3).toLowerCase()];
+    if (month) add(isoDate(Number(m[3]), month, Number(m[1])));
+  }
+  for (const m of text.matchAll(/([A-Za-zä]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})(?!\d)/g)) {
+    const month = MONTHS[m[1].slice(0, 3).toLowerCase()];
+    if (month) add(isoDate(Number(m[3]), month, Number(m[2])));
+  }
+  return out.sort(byCertainty);
+}
+
+// Lower-cased words and numbers of a text, without one-letter noise
+export function tokenize(text: string): Array<string> {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((t) => t.length > 1 || /\d/.test(t));
+}
+
+/**
+ * Overlap of two token lists (Dice coefficient), 0..1. Tokens of four letters or more also match
+ * when one is a prefix of the other, as with words cut off at a line end or by OCR.
+ */
+export function tokenSimilarity(a: Array<string>, b: Array<string>): number {
+  if (!a.length || !b.length) return 0;
+  const remaining = [...b];
+  let shared = 0;
+  for (const token of a) {
+    let i = remaining.indexOf(token);
+    if (i < 0 && token.length >= 4) {
+      i = remaining.findIndex((t) => t.length >= 4 && (t.startsWith(token) || token.startsWith(t)));
+    }
+    if (i >= 0) {
+      shared++;
+      remaining.splice(i, 1);
+    }
+  }
+  return (2 * shared) / (a.length + b.length);
+}
@@ -0,0 +1,9 @@
+import type { Doc } from "@/convex/_generated/dataModel";
+
+export type DeliveryMode = Doc<"webhookDeliveries">["mode"];
+
+export const DELIVERY_MODE_LABELS: Record<DeliveryMode, string> = {
+  post: "POST",
+  post_gzip: "POST (gzip)",
+  get: "GET (legacy)",
+};
@@ -0,0 +1,36 @@
+import type { Doc } from "@/convex/_generated/dataModel";
+
+export type WorkflowStatus = NonNullable<Doc<"documents">["workflowStatus"]>;
+
+// Lifecycle order; used for filter options and labels
+export const WORKFLOW_STEPS: Array<{ value: WorkflowStatus; label: string }> = [
+  { value: "received", label: "Received" },
+  { value: "extracted", label: "Extracted" },
+  { value: "in_review", label: "In review" },
+  { value: "approved", label: "Approved" },
+  { value: "submitted", label: "Submitted to SAP" },
+  { value: "confirmed", label: "Confirmed" },
+  { value: "rejected", label: "Rejected" },
+];
+
+const WORKFLOW_BADGE_CLASSES: Record<WorkflowStatus, string> = {
+  received: "bg-slate-100 text-slate-700 dark:bg-slate-800/60 dark:text-slate-300",
+  extracted: "bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300",
+  in_review: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  approved: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300",
+  submitted: "bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-300",
+  confirmed: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300",
+  rejected: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300",
+};
+
+export function isWorkflowStatus(value: unknown): value is WorkflowStatus {
+  return typeof value === "string" && value in WORKFLOW_BADGE_CLASSES;
+}
+
+export function workflowLabel(status: WorkflowStatus) {
+  return WORKFLOW_STEPS.find((s) => s.value === status)?.label ?? status;
+}
+
+export function workflowBadgeClass(status: WorkflowStatus) {
+  return WORKFLOW_BADGE_CLASSES[status];
+}
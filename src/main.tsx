@@ -18,6 +18,9 @@ const AuthPage = lazy(() => import("@/pages/Auth.tsx"));
  // Dashboard page removed; using Documents as landing
 const DocumentDetail = lazy(() => import("./pages/DocumentDetail.tsx"));
 const Profile = lazy(() => import("@/pages/Profile.tsx"));
+const AdminUsers = lazy(() => import("@/pages/AdminUsers.tsx"));
+const AdminWebhooks = lazy(() => import("@/pages/AdminWebhooks.tsx"));
+const AdminCustomers = lazy(() => import("@/pages/AdminCustomers.tsx"));
 const NotFound = lazy(() => import("./pages/NotFound.tsx"));
 const Documents = lazy(() => import("./pages/Documents.tsx"));
 
@@ -229,6 +232,9 @@ createRoot(document.getElementById("root")!).render(
                     <Route path="/document/:documentId" element={<Protected><DocumentDetail /></Protected>} />
                     <Route path="/documents" element={<Navigate to="/" replace />} />
                     <Route path="/profile" element={<Protected><Profile /></Protected>} />
+                    <Route path="/admin/users" element={<Protected><AdminUsers /></Protected>} />
+                    <Route path="/admin/webhooks" element={<Protected><AdminWebhooks /></Protected>} />
+                    <Route path="/admin/customers" element={<Protected><AdminCustomers /></Protected>} />
                     <Route path="*" element={<NotFound />} />
                   </Routes>
                 </Suspense>
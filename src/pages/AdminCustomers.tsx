@@ -0,0 +1,276 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/hooks/use-auth';
+import { useRole } from '@/hooks/use-role';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { CUSTOMER_IMPORT_BATCH, customerAddress, parseCustomerCsv, type CustomerCsvResult } from '@/lib/customerMaster';
+import { useMutation, useQuery } from 'convex/react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, BookUser, Loader2, Trash2, Upload } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { toast } from 'sonner';
+
+export default function AdminCustomers() {
+  const { isLoading: authLoading, isAuthenticated } = useAuth();
+  const { isAdmin, isLoading: roleLoading } = useRole();
+  const navigate = useNavigate();
+  const [search, setSearch] = useState('');
+  const customers = useQuery(api.customers.search, isAdmin ? { text: search.trim() || undefined, limit: 50 } : 'skip');
+  const importRows = useMutation(api.customers.importRows);
+  const removeCustomer = useMutation(api.customers.remove);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [parsed, setParsed] = useState<(CustomerCsvResult & { fileName: string }) | null>(null);
+  const [importing, setImporting] = useState<{ done: number; total: number } | null>(null);
+  const [removingId, setRemovingId] = useState<Id<'customers'> | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      navigate('/auth');
+    }
+  }, [authLoading, isAuthenticated, navigate]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setParsed({ ...parseCustomerCsv(await file.text()), fileName: file.name });
+    } catch (e) {
+      toast.error(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  // Large files go in batches; batches already imported stay imported if a later one fails
+  const handleImport = async () => {
+    if (!parsed?.rows.length) return;
+    const { rows } = parsed;
+    let inserted = 0;
+    let updated = 0;
+    try {
+      for (let i = 0; i < rows.length; i += CUSTOMER_IMPORT_BATCH) {
+        setImporting({ done: i, total: rows.length });
+        const res = await importRows({ rows: rows.slice(i, i + CUSTOMER_IMPORT_BATCH) });
+        inserted += res.inserted;
+        updated += res.updated;
+      }
+      toast.success(`Imported ${inserted} new and updated ${updated} existing customers`);
+      setParsed(null);
+    } catch (e) {
+      toast.error(`Import stopped after ${inserted + updated} customers: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const handleRemove = async (id: Id<'customers'>) => {
+    try {
+      setRemovingId(id);
+      await removeCustomer({ id });
+      toast.success('Customer removed');
+    } catch (e) {
+      toast.error(`Failed to remove customer: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (authLoading || roleLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="border-b bg-background sticky top-0 z-10">
+        <div className="flex items-center justify-between px-8 py-4">
+          <div className="flex items-center gap-3">
+            <img
+              src="/logo.svg"
+              alt="Logo"
+              className="h-8 w-8 cursor-pointer"
+              loading="lazy"
+              decoding="async"
+              onClick={() => navigate('/')}
+            />
+            <h1 className="text-xl font-bold tracking-tight">Customer Master</h1>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 p-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4 }}
+          className="mx-auto w-full max-w-5xl"
+        >
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-4">
+                <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+                  <BookUser className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <CardTitle>Customers</CardTitle>
+                  <CardDescription>
+                    Used to look up SoldToParty and partner customers, and to suggest the sold-to party from the
+                    sender's email domain and the extracted customer.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {!isAdmin ? (
+                <div className="py-8 text-center text-sm text-muted-foreground">
+                  Only admins can manage the customer master.
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-3 rounded-md border p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div className="text-sm">
+                        <div className="font-medium">Import from CSV</div>
+                        <div className="text-xs text-muted-foreground">
+                          Columns: customer number, name, name 2, street, postal code, city, country, email domains,
+                          sales organization, distribution channel, division. Existing customers are updated by
+                          number.
+                        </div>
+                      </div>
+                      <input
+                        ref={fileRef}
+                        type="file"
+                        accept=".csv,text/csv"
+                        className="hidden"
+                        onChange={(e) => handleFile(e.target.files?.[0])}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => fileRef.current?.click()}
+                        disabled={!!importing}
+                      >
+                        <Upload className="h-4 w-4 mr-2" />
+                        Choose file
+                      </Button>
+                    </div>
+                    {parsed && (
+                      <div className="space-y-2 text-sm">
+                        <div>
+                          {parsed.fileName}: {parsed.rows.length} {parsed.rows.length === 1 ? 'customer' : 'customers'}
+                          {parsed.errors.length > 0 && `, ${parsed.errors.length} skipped`}
+                        </div>
+                        {parsed.ignoredColumns.length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            Ignored columns: {parsed.ignoredColumns.join(', ')}
+                          </div>
+                        )}
+                        {parsed.errors.length > 0 && (
+                          <ul className="max-h-32 overflow-y-auto text-xs text-destructive">
+                            {parsed.errors.slice(0, 50).map((err, i) => (
+                              <li key={i}>{err}</li>
+                            ))}
+                          </ul>
+                        )}
+                        <div className="flex items-center gap-2">
+                          <Button size="sm" onClick={handleImport} disabled={!!importing || !parsed.rows.length}>
+                            {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            {importing
+                              ? `Importing ${importing.done} of ${importing.total}…`
+                              : `Import ${parsed.rows.length} ${parsed.rows.length === 1 ? 'customer' : 'customers'}`}
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setParsed(null)} disabled={!!importing}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-3">
+                    <Input
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Search by number, name, address or email domain"
+                      className="max-w-sm"
+                    />
+                    {customers === undefined ? (
+                      <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                      </div>
+                    ) : customers.length === 0 ? (
+                      <div className="py-8 text-center text-sm text-muted-foreground">
+                        {search.trim() ? 'No customers found.' : 'No customers imported yet.'}
+                      </div>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-32">Number</TableHead>
+                            <TableHead>Customer</TableHead>
+                            <TableHead>Email domains</TableHead>
+                            <TableHead className="w-32">Sales area</TableHead>
+                            <TableHead className="w-12" />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {customers.map((c) => (
+                            <TableRow key={c._id}>
+                              <TableCell className="font-mono text-xs">{c.customerNumber}</TableCell>
+                              <TableCell>
+                                <div className="font-medium">
+                                  {c.name}
+                                  {c.name2 ? ` ${c.name2}` : ''}
+                                </div>
+                                <div className="text-xs text-muted-foreground">{customerAddress(c)}</div>
+                              </TableCell>
+                              <TableCell className="text-xs">{c.emailDomains.join(', ') || '—'}</TableCell>
+                              <TableCell className="font-mono text-xs">
+                                {[c.salesOrganization, c.distributionChannel, c.division].filter(Boolean).join('/') ||
+                                  '—'}
+                              </TableCell>
+                              <TableCell>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  title="Remove customer"
+                                  onClick={() => handleRemove(c._id)}
+                                  disabled={removingId !== null}
+                                >
+                                  {removingId === c._id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Trash2 className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/hooks/use-auth';
+import { useRole } from '@/hooks/use-role';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useMutation, useQuery } from 'convex/react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Loader2, ShieldCheck } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { toast } from 'sonner';
+
+type Role = 'admin' | 'user' | 'member';
+
+const ROLE_OPTIONS: Array<{ value: Role; label: string; description: string }> = [
+  { value: 'member', label: 'Member', description: 'View documents only' },
+  { value: 'user', label: 'User', description: 'Edit and save SAP JSON, review documents' },
+  { value: 'admin', label: 'Admin', description: 'Send to SAP, delete documents, manage roles' },
+];
+
+export default function AdminUsers() {
+  const { isLoading: authLoading, isAuthenticated } = useAuth();
+  const { isAdmin, isLoading: roleLoading } = useRole();
+  const navigate = useNavigate();
+  const users = useQuery(api.users.listWithRoles, isAdmin ? {} : 'skip');
+  const me = useQuery(api.users.currentUser, isAuthenticated ? {} : 'skip');
+  const setRole = useMutation(api.users.setRole);
+  const [savingId, setSavingId] = useState<Id<'users'> | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      navigate('/auth');
+    }
+  }, [authLoading, isAuthenticated, navigate]);
+
+  const handleRoleChange = async (userId: Id<'users'>, role: Role) => {
+    try {
+      setSavingId(userId);
+      await setRole({ userId, role });
+      toast.success('Role updated');
+    } catch (e) {
+      toast.error(`Failed to update role: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (authLoading || roleLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="border-b bg-background sticky top-0 z-10">
+        <div className="flex items-center justify-between px-8 py-4">
+          <div className="flex items-center gap-3">
+            <img
+              src="/logo.svg"
+              alt="Logo"
+              className="h-8 w-8 cursor-pointer"
+              loading="lazy"
+              decoding="async"
+              onClick={() => navigate('/')}
+            />
+            <h1 className="text-xl font-bold tracking-tight">User Roles</h1>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 p-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4 }}
+          className="mx-auto w-full max-w-4xl"
+        >
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-4">
+                <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+                  <ShieldCheck className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <CardTitle>Manage roles</CardTitle>
+                  <CardDescription>
+                    {ROLE_OPTIONS.map((r) => `${r.label}: ${r.description.toLowerCase()}`).join(' · ')}
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!isAdmin ? (
+                <div className="py-8 text-center text-sm text-muted-foreground">
+                  Only admins can manage user roles.
+                </div>
+              ) : users === undefined ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TableHead className="w-48">Role</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {users.map((u) => {
+                      const isSelf = me?._id === u._id;
+                      return (
+                        <TableRow key={u._id}>
+                          <TableCell>
+                            <div className="font-medium">{u.name || u.email || 'Unnamed user'}</div>
+                            {u.name && u.email && (
+                              <div className="text-xs text-muted-foreground">{u.email}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {u.roleFromEnv ? (
+                              <Badge variant="secondary" title="Set by the ADMIN_EMAILS environment variable">
+                                Admin (env)
+                              </Badge>
+                            ) : (
+                              <div className="flex items-center gap-2">
+                                <Select
+                                  value={u.role}
+                                  onValueChange={(value) => handleRoleChange(u._id, value as Role)}
+                                  disabled={isSelf || savingId !== null}
+                                >
+                                  <SelectTrigger className="h-8" title={isSelf ? 'You cannot change your own role' : undefined}>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {ROLE_OPTIONS.map((r) => (
+                                      <SelectItem key={r.value} value={r.value}>
+                                        {r.label}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                {savingId === u._id && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </main>
+    </div>
+  );
+}
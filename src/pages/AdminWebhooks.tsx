@@ -0,0 +1,142 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { WebhookDeliveryList } from '@/components/webhooks/WebhookDeliveryList';
+import { useAuth } from '@/hooks/use-auth';
+import { useRole } from '@/hooks/use-role';
+import { api } from '@/convex/_generated/api';
+import type { Doc, Id } from '@/convex/_generated/dataModel';
+import { useMutation, useQuery } from 'convex/react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Loader2, Send } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { toast } from 'sonner';
+
+type StatusTab = 'all' | Doc<'webhookDeliveries'>['status'];
+
+const STATUS_TABS: Array<{ value: StatusTab; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'in_flight', label: 'Sending' },
+  { value: 'delivered', label: 'Delivered' },
+  { value: 'dead', label: 'Dead letter' },
+];
+
+export default function AdminWebhooks() {
+  const { isLoading: authLoading, isAuthenticated } = useAuth();
+  const { isAdmin, isLoading: roleLoading } = useRole();
+  const navigate = useNavigate();
+  const [tab, setTab] = useState<StatusTab>('dead');
+  const deliveries = useQuery(
+    api.webhookQueue.list,
+    isAdmin ? { status: tab === 'all' ? undefined : tab, limit: 100 } : 'skip',
+  );
+  const replay = useMutation(api.webhookQueue.replay);
+  const [replayingId, setReplayingId] = useState<Id<'webhookDeliveries'> | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      navigate('/auth');
+    }
+  }, [authLoading, isAuthenticated, navigate]);
+
+  const handleReplay = async (deliveryId: Id<'webhookDeliveries'>) => {
+    try {
+      setReplayingId(deliveryId);
+      await replay({ deliveryId });
+      toast.success('Delivery queued again');
+    } catch (e) {
+      toast.error(`Replay failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  if (authLoading || roleLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="border-b bg-background sticky top-0 z-10">
+        <div className="flex items-center justify-between px-8 py-4">
+          <div className="flex items-center gap-3">
+            <img
+              src="/logo.svg"
+              alt="Logo"
+              className="h-8 w-8 cursor-pointer"
+              loading="lazy"
+              decoding="async"
+              onClick={() => navigate('/')}
+            />
+            <h1 className="text-xl font-bold tracking-tight">Webhook Deliveries</h1>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 p-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4 }}
+          className="mx-auto w-full max-w-5xl"
+        >
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-4">
+                <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+                  <Send className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <CardTitle>Outbound deliveries</CardTitle>
+                  <CardDescription>
+                    Create requests sent to SAP. Failed deliveries are retried with backoff; dead letters and stalled sends can be replayed.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!isAdmin ? (
+                <div className="py-8 text-center text-sm text-muted-foreground">
+                  Only admins can inspect webhook deliveries.
+                </div>
+              ) : (
+                <>
+                  <Tabs value={tab} onValueChange={(value) => setTab(value as StatusTab)}>
+                    <TabsList>
+                      {STATUS_TABS.map((t) => (
+                        <TabsTrigger key={t.value} value={t.value}>
+                          {t.label}
+                        </TabsTrigger>
+                      ))}
+                    </TabsList>
+                  </Tabs>
+                  <WebhookDeliveryList
+                    deliveries={deliveries}
+                    onReplay={handleReplay}
+                    replayingId={replayingId}
+                    showDocument
+                    onOpenDocument={(externalId) => navigate(`/document/${externalId}`)}
+                  />
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </main>
+    </div>
+  );
+}
@@ -32,8 +32,10 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { useAction } from "convex/react";
+import { useAction, useMutation } from "convex/react";
+import { useRole } from "@/hooks/use-role";
 import { api } from "@/convex/_generated/api";
+import { toDocumentData } from "@/convex/extractionFormats";
 import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
 import { BulkActionsBar } from "@/components/dashboard/BulkActionsBar";
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -41,11 +43,14 @@ import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
 import * as SalesSchema from "@/schemas/salesOrderCreate";
 import { DocumentsTable } from "@/components/dashboard/DocumentsTable";
+import { DEFAULT_DOCUMENTS_QUERY, type DocumentsQuery } from "@/lib/documentsQuery";
 
 export default function Dashboard() {
   const { isLoading: authLoading, isAuthenticated, user, signOut } = useAuth();
   const navigate = useNavigate();
   const sendWebhook = useAction(api.webhooks.sendWebhook);
+  const removeDocument = useMutation(api.documents.removeByExternalId);
+  const { isAdmin } = useRole();
 
   type DashboardDoc = {
     id: string;
@@ -65,6 +70,8 @@ export default function Dashboard() {
   const [documents, setDocuments] = useState<DashboardDoc[]>([]);
   const [isLoadingDocs, setIsLoadingDocs] = useState(true);
   const [statusFilter, setStatusFilter] = useState<string>('ALL');
+  // Not routed (see main.tsx); rows here are loaded in full, so the table query only drives its toolbar
+  const [tableQuery, setTableQuery] = useState<DocumentsQuery>(DEFAULT_DOCUMENTS_QUERY);
   const [selectedMailContent, setSelectedMailContent] = useState<string | null>(null);
   const [isMailDialogOpen, setIsMailDialogOpen] = useState(false);
   const [isSAPDialogOpen, setIsSAPDialogOpen] = useState(false);
@@ -210,14 +217,8 @@ export default function Dashboard() {
       row?.['Data'],
     ];
     for (const cand of candidates) {
-      try {
-        const obj = typeof cand === 'string' ? JSON.parse(cand) : cand;
-        if (obj?.document?.pages && Array.isArray(obj.document.pages) && obj.document.pages.length > 0) {
-          return obj;
-        }
-      } catch {
-        // ignore parse errors
-      }
+      const converted = toDocumentData(cand);
+      if (converted) return converted.data;
     }
     return undefined;
   };
@@ -1142,11 +1143,17 @@ export default function Dashboard() {
   };
 
   const handleDeleteDocument = async (docId: string) => {
+    if (!isAdmin) {
+      toast.error("Only admins can delete documents.");
+      return;
+    }
     const confirmed = window.confirm("Delete this document? This cannot be undone.");
     if (!confirmed) return;
 
     let deletedFromSupabase = false;
     try {
+      // The Convex mutation checks the admin role; only touch the source row once it succeeded
+      await removeDocument({ externalId: docId });
       if (hasSupabaseEnv) {
         // Try common ID columns
         for (const col of ["id", "uuid", "_id"]) {
@@ -1520,6 +1527,8 @@ export default function Dashboard() {
                   ) : (
                     <DocumentsTable
                       docs={documents}
+                      query={tableQuery}
+                      onQueryChange={setTableQuery}
                       selectedIds={selectedDocuments}
                       onToggleSelectAll={handleSelectAll}
                       onToggleSelect={handleSelectDocument}
@@ -2,6 +2,10 @@
 // using lazy-loaded PDFViewer
 import { DocumentHeader } from '@/components/document-detail/DocumentHeader';
 import { DebugLogsDialog } from '@/components/document-detail/DebugLogsDialog';
+import { RevisionPanel } from '@/components/document-detail/RevisionPanel';
+import { EvidenceCoveragePanel } from '@/components/document-detail/EvidenceCoveragePanel';
+import { TableMappingDialog } from '@/components/document-detail/TableMappingDialog';
+import { CustomerLookupDialog, LookupButton, PartnerFunctionDialog } from '@/components/document-detail/CustomerLookup';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card';
@@ -14,18 +18,58 @@ import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/componen
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { User } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
-import { supabase, type BoundingBox, hasSupabaseEnv, publicUrlForPath } from '@/lib/supabase';
+import { supabase, hasSupabaseEnv, publicUrlForPath } from '@/lib/supabase';
 import { createSignedUrlForPath } from '@/lib/supabase';
 import { motion } from 'framer-motion';
-import { ArrowLeft, FileText, Loader2, ExternalLink, ArrowUp, Pencil, Check, ChevronDown, ChevronRight } from 'lucide-react';
-import React, { useEffect, useState, useRef, lazy, Suspense } from 'react';
+import { ArrowLeft, FileText, Loader2, ExternalLink, ArrowUp, Pencil, Check, ChevronDown, ChevronRight, ScanText } from 'lucide-react';
+import React, { useEffect, useState, useRef, useMemo, lazy, Suspense } from 'react';
 import { useNavigate, useParams } from 'react-router';
 import { useLocation } from 'react-router';
 import { toast } from 'sonner';
-import { useAction } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
+import { useN8nImport } from '@/hooks/use-n8n-import';
+import { useRole } from '@/hooks/use-role';
+import { useCoverageThreshold } from '@/hooks/use-coverage-threshold';
 import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import type { Customer } from "@/convex/customers";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SAPJsonCard } from "@/components/SAPJsonCard";
+import { validateSapPayload, coerceSapValue } from '@/lib/sapValidation';
+import { workflowLabel } from '@/lib/workflow';
+import { DELIVERY_MODE_LABELS } from '@/lib/webhooks';
+import { parseBox, type PagePoint, type SourceBox } from '@/lib/geometry';
+import { createSourceRegions, sourceLinksAt, type SourceLinks } from '@/lib/mappingLedger';
+import { coverageCounts, documentCoverage, formatCoverage, type CoverageField } from '@/lib/evidenceCoverage';
+import {
+  documentEditTargets,
+  sapEditTargets,
+  withSavedBoxes,
+  type ManualBoxEvidence,
+  type ManualBoxGeometry,
+  type ManualBoxTarget,
+} from '@/lib/manualBoxes';
+import type { RegionCapture } from '@/lib/regionCapture';
+import {
+  applyTableItems,
+  TABLE_ITEMS_PATH_PREFIX,
+  type ReconstructedTable,
+  type TableApplyMode,
+  type TableItemRow,
+} from '@/lib/tableReconstruction';
+import { exportEvidencePdf } from '@/lib/evidenceExport';
+import { documentItems } from '@/lib/documentPages';
+import {
+  isPartnerCustomerPath,
+  isPartnerFunctionPath,
+  isSoldToPath,
+  rankSoldToCandidates,
+  soldToEvidence,
+  soldToSearchText,
+  soldToUpdates,
+} from '@/lib/customerMaster';
+import { extractDocumentLocally, LOCAL_EXTRACTION_ENGINE } from '@/lib/localExtraction';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 
 import PDFViewer from '@/components/PDFViewer'; // Add: correct default import for the PDF viewer
 
@@ -69,7 +113,10 @@ export default function DocumentDetail() {
   const { isLoading: authLoading, isAuthenticated, user, signOut } = useAuth();
   const navigate = useNavigate();
   const { documentId } = useParams<{ documentId: string }>();
-  const sendWebhook = useAction(api.webhooks.sendWebhookGet);
+  const enqueueDelivery = useMutation(api.webhookQueue.enqueue);
+  const replayDelivery = useMutation(api.webhookQueue.replay);
+  const saveReviewedSap = useMutation(api.documents.saveReviewedSap);
+  const { importOne } = useN8nImport();
   const location = useLocation();
   const { id: routeId } = useParams();
 
@@ -84,7 +131,7 @@ export default function DocumentDetail() {
 
   // Rename to avoid shadowing the global window.document
   const [doc, setDoc] = useState<DocumentData | null>(null);
-  const [highlightBox, setHighlightBox] = useState<(BoundingBox & { page?: number }) | null>(null);
+  const [highlightBox, setHighlightBox] = useState<SourceBox | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [navLoading, setNavLoading] = useState<null | 'prev' | 'next'>(null);
 
@@ -145,8 +192,8 @@ export default function DocumentDetail() {
 
   // Add: RAF-throttled hover handler for SAP fields (prevents flicker and excessive re-renders)
   const sapHoverRaf = useRef<number | null>(null);
-  const lastSapHover = useRef<(BoundingBox & { page?: number }) | null>(null);
-  const onSapHover = (box?: (BoundingBox & { page?: number }) | null) => {
+  const lastSapHover = useRef<SourceBox | null>(null);
+  const onSapHover = (box?: SourceBox | null) => {
     lastSapHover.current = box ?? null;
     if (sapHoverRaf.current !== null) return;
     sapHoverRaf.current = requestAnimationFrame(() => {
@@ -235,16 +282,172 @@ export default function DocumentDetail() {
     }
   }, [user?.theme]);
 
+  // Documents come from the Convex documents table; rows not imported yet are pulled from "N8N Logs" once
+  const record = useQuery(
+    api.documents.getByExternalId,
+    isAuthenticated && documentId ? { externalId: documentId } : 'skip'
+  );
+  const importAttemptedRef = useRef<string | null>(null);
+
+  // Saved SAP revisions of this document, newest first
+  const revisions = useQuery(api.sapRevisions.list, record ? { documentId: record._id } : 'skip');
+  const restoreRevision = useMutation(api.sapRevisions.restore);
+  const [restoringId, setRestoringId] = useState<Id<'sapRevisions'> | null>(null);
+
+  const handleRestoreRevision = async (revisionId: Id<'sapRevisions'>) => {
+    try {
+      setRestoringId(revisionId);
+      const revision = revisions?.find((r) => r._id === revisionId);
+      const res = await restoreRevision({ revisionId, coverage: revision && coverageOf(revision.sap) });
+      toast.success(`Restored as revision v${res.version}`);
+    } catch (e: any) {
+      toast.error(`Restore failed: ${e?.message || e}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // Members view only, users edit and review, admins send to SAP; the backend enforces the same rules
+  const { canEdit, isAdmin } = useRole();
+
+  // Outbound Create deliveries of this document (empty for non-admins)
+  const deliveries = useQuery(api.webhookQueue.listForDocument, record && isAdmin ? { documentId: record._id } : 'skip');
+
+  // Review workflow: status, allowed next statuses and history come from the backend
+  const workflow = useQuery(api.workflow.state, record ? { documentId: record._id } : 'skip');
+  const transitionWorkflow = useMutation(api.workflow.transition);
+  const [isTransitioning, setIsTransitioning] = useState(false);
+  const lastTransition = workflow?.history[0];
+  const workflowNote =
+    workflow?.status === 'rejected' && workflow.rejectionReason
+      ? `Rejected: ${workflow.rejectionReason}`
+      : lastTransition?.actorName
+        ? `${workflowLabel(lastTransition.to)} by ${lastTransition.actorName} · ${new Date(lastTransition.createdAt).toLocaleString()}`
+        : undefined;
+
+  const runTransition = async (to: 'approved' | 'rejected' | 'in_review', reason?: string) => {
+    if (!record) return false;
+    try {
+      setIsTransitioning(true);
+      await transitionWorkflow({ documentId: record._id, to, reason });
+      toast.success(`Document ${workflowLabel(to).toLowerCase()}`);
+      return true;
+    } catch (e: any) {
+      toast.error(`Status change failed: ${e?.message || e}`);
+      return false;
+    } finally {
+      setIsTransitioning(false);
+    }
+  };
+
+  // Reviewer-drawn evidence boxes, edited in the PDF viewer; read-only once the document is locked
+  const saveManualBox = useMutation(api.documents.saveManualBox);
+  const removeManualBox = useMutation(api.documents.removeManualBox);
+  const canEditBoxes = Boolean(canEdit && record && workflow && !workflow.sapLocked);
+  const editTargets = useMemo(
+    () => [...documentEditTargets(doc?.document_data), ...sapEditTargets(sapObj)],
+    [doc?.document_data, sapObj]
+  );
+
+  const handleSaveManualBox = async (target: ManualBoxTarget, path: string, geometry: ManualBoxGeometry) => {
+    if (!record) return;
+    try {
+      await saveManualBox({ id: record._id, target, path, ...geometry });
+      toast.success('Box saved');
+    } catch (e: any) {
+      toast.error(`Failed to save box: ${e?.message || e}`);
+      throw e;
+    }
+  };
+
+  const handleRemoveManualBox = async (target: ManualBoxTarget, path: string) => {
+    if (!record) return;
+    try {
+      await removeManualBox({ id: record._id, target, path });
+      toast.success('Box removed');
+    } catch (e: any) {
+      toast.error(`Failed to remove box: ${e?.message || e}`);
+      throw e;
+    }
+  };
+
   useEffect(() => {
-    if (isAuthenticated && documentId) {
-      if (hasSupabaseEnv) {
-        fetchDocument();
-      } else {
-        setIsLoading(false);
-        toast.error('Supabase is not configured.');
-      }
+    setIsLoading(true);
+  }, [documentId]);
+
+  useEffect(() => {
+    if (!documentId || record !== null) return;
+    const notFound = () => {
+      toast.error('Document not found');
+      navigate('/dashboard');
+    };
+    if (importAttemptedRef.current === documentId || !hasSupabaseEnv) {
+      notFound();
+      return;
     }
-  }, [isAuthenticated, documentId, showSAP]);
+    importAttemptedRef.current = documentId;
+    importOne(documentId)
+      .then((res) => {
+        if (!res.inserted && !res.updated) notFound();
+      })
+      .catch((error) => {
+        console.error('Error importing document:', error);
+        toast.error(`Failed to load document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        navigate('/dashboard');
+      });
+  }, [record, documentId]);
+
+  // Render the header and PDF as soon as the record is there; signed URLs only change with the storage path
+  useEffect(() => {
+    if (!record) return;
+    let cancelled = false;
+    (async () => {
+      const path = record.storagePath ?? '';
+      const signedUrl = path && hasSupabaseEnv ? await createSignedUrlForPath(path, 60 * 10) : '';
+      const pdf_url = signedUrl || (path ? publicUrlForPath(path) : '');
+      if (cancelled) return;
+
+      if (!pdf_url) {
+        console.error('No PDF URL could be constructed. Document:', record.externalId);
+        toast.error('PDF URL is missing from document data');
+      }
+
+      setDetailsLoading(true);
+      setDoc({
+        id: record.externalId,
+        created_at: new Date(record.receivedAt).toISOString(),
+        pdf_url,
+        status: record.status,
+        title: record.title || 'Untitled Document',
+        document_data: undefined,
+      });
+      setIsLoading(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [record?._id, record?.storagePath]);
+
+  // Stored SAP payload (reviewed first, then AI output). Convex sends a new record for every patch of
+  // the document (evidence boxes, imports), so the editor is only reset when the payload itself changed.
+  const storedSap = record ? (record.sapReviewed ?? record.sapAiOutput ?? null) : null;
+  const storedSapKey = useMemo(() => JSON.stringify(storedSap), [storedSap]);
+  const hasRecord = !!record;
+  const docId = doc?.id;
+
+  useEffect(() => {
+    if (!hasRecord || !docId) return;
+    setSapOut(showSAP ? JSON.parse(storedSapKey) : null);
+    setDetailsLoading(false);
+  }, [hasRecord, storedSapKey, showSAP, docId]);
+
+  // Extracted document data
+  const recordDocumentData = record?.documentData;
+  useEffect(() => {
+    if (!docId) return;
+    const document_data = showSAP ? recordDocumentData : undefined;
+    setDoc((prev) => (prev ? { ...prev, document_data } : prev));
+  }, [recordDocumentData, showSAP, docId]);
 
   // removed editor sync effect
 
@@ -275,379 +478,288 @@ export default function DocumentDetail() {
     }
   }, [sapOut]);
 
-  // Convert new compact array-based format into the old pages-based structure our UI expects
-  function convertNewFormatToOld(obj: any) {
-    const toNum = (v: any) => (v === null || v === undefined || v === '' ? NaN : Number(v));
-
-    const fromPair = (pair: any) => {
-      // Accept both new [value, [x1,y1,x2,y2,p]] and old { value, bounding_box } shapes
-      if (Array.isArray(pair) && pair.length >= 2 && Array.isArray(pair[1])) {
-        return { value: String(pair[0] ?? ''), bounding_box: [pair[1]] };
-      }
-      if (pair && typeof pair === 'object' && 'value' in pair && 'bounding_box' in pair) {
-        return pair;
-      }
-      return { value: String(pair ?? ''), bounding_box: [] };
-    };
+  // Simple key/value row
+  const KV = ({ label, value }: { label: string; value: any }) => (
+    <div className="rounded border p-2">
+      <div className="text-[11px] text-muted-foreground mb-1">{label}</div>
+      <div className="text-sm font-medium whitespace-pre-wrap break-words">
+        {String(value ?? '—')}
+      </div>
+    </div>
+  );
 
-    const combineBoxes = (boxes: any[]): any[] => {
-      // Combine multiple [x1,y1,x2,y2,p] into a single encompassing box
-      const coords = boxes
-        .filter((b) => Array.isArray(b) && b.length >= 4)
-        .map((b) => ({
-          x1: toNum(b[0]),
-          y1: toNum(b[1]),
-          x2: toNum(b[2]),
-          y2: toNum(b[3]),
-          p: toNum(b[4]),
-        }))
-        .filter((c) => [c.x1, c.y1, c.x2, c.y2].every(Number.isFinite));
-      if (!coords.length) return [];
-      const x1 = Math.min(...coords.map((c) => c.x1));
-      const y1 = Math.min(...coords.map((c) => c.y1));
-      const x2 = Math.max(...coords.map((c) => c.x2));
-      const y2 = Math.max(...coords.map((c) => c.y2));
-      // Prefer the most common page number if provided, else default to 1
-      const pageCounts: Record<string, number> = {};
-      for (const c of coords) {
-        const key = Number.isFinite(c.p) ? String(c.p) : '1';
-        pageCounts[key] = (pageCounts[key] || 0) + 1;
-      }
-      const page = Number(Object.keys(pageCounts).sort((a, b) => pageCounts[b] - pageCounts[a])[0] || '1');
-      return [[x1, y1, x2, y2, page]];
-    };
+  // Helpers to coerce types and keep JSON string synced with object edits
+  const coerceValue = (input: string, original: any) => {
+    if (typeof original === 'number') {
+      const n = Number(input);
+      return Number.isFinite(n) ? n : 0;
+    }
+    if (typeof original === 'boolean') {
+      const val = input.trim().toLowerCase();
+      return val === 'true' || val === '1';
+    }
+    return input;
+  };
 
-    const doc = obj?.document;
-    if (!doc) return undefined;
-
-    // Detect new format: no pages array, metadata fields are pairs
-    const looksNew =
-      !Array.isArray(doc.pages) &&
-      doc.metadata &&
-      (Array.isArray(doc.metadata.document_type) || Array.isArray(doc.metadata.date) || Array.isArray(doc.metadata.purchase_order_no));
-
-    if (!looksNew) return undefined;
-
-    const md = doc.metadata || {};
-    const parties = doc.parties || {};
-    const vendor = parties.vendor_information || parties.vendor || {};
-    const customer = parties.customer_information || parties.customer || {};
-
-    const items = Array.isArray(doc.items) ? doc.items : [];
-    const otherInfoObj = doc.other_information && typeof doc.other_information === 'object' ? doc.other_information : {};
-
-    // Attempt to infer a page number from any available bbox in metadata
-    const inferPage = () => {
-      const candidates: any[] = [
-        md.document_type?.[1],
-        md.date?.[1],
-        md.purchase_order_no?.[1],
-      ].filter(Boolean);
-      for (const c of candidates) {
-        const p = toNum(Array.isArray(c) ? c[4] : undefined);
-        if (Number.isFinite(p)) return p;
-      }
-      return 1;
-    };
-    const page_number = inferPage();
+  const syncEditorFromObj = (next: any) => {
+    try {
+      setSapEditorValue(JSON.stringify(next, null, 2));
+    } catch {
+      // ignore stringify errors
+    }
+  };
 
-    // Map metadata
-    const metadata = {
-      document_title: fromPair(md.document_type),
-      date: fromPair(md.date),
-      purchase_order_no: fromPair(md.purchase_order_no),
+  // Schema validation of the edited SAP object; drives inline errors and the Create button
+  const sapValidation = useMemo(() => validateSapPayload(sapObj), [sapObj]);
+
+  // Copy of `base` with the field at a "$.key.[i].key" path set, coerced to the field's SAP type
+  const withSapValue = (base: unknown, path: string, raw: unknown): unknown => {
+    const segments = path.split('.').slice(1);
+    if (!segments.length) return base;
+    const value = coerceSapValue(path, raw);
+    const setIn = (node: any, idx: number): any => {
+      const seg = segments[idx];
+      const arrIdx = /^\[(\d+)\]$/.exec(seg);
+      const key: string | number = arrIdx ? Number(arrIdx[1]) : seg;
+      const container: any = arrIdx
+        ? (Array.isArray(node) ? [...node] : [])
+        : (node && typeof node === 'object' && !Array.isArray(node) ? { ...node } : {});
+      container[key] = idx === segments.length - 1 ? value : setIn(container[key], idx + 1);
+      return container;
     };
+    return setIn(base, 0);
+  };
 
-    // Map vendor info (sales_person may not exist in new format)
-    const vendor_information = {
-      vendor_name: fromPair(vendor.vendor_name),
-      address: fromPair(vendor.address),
-      contact_no: fromPair(vendor.contact_no),
-      sales_person: fromPair(vendor.sales_person),
-    };
+  // Apply an edit from SAPJsonCard, addressed by its "$.key.[i].key" path
+  const updateSapAtPath = (path: string, raw: unknown) => {
+    setSapObj((prev: any) => {
+      const next = withSapValue(prev, path, raw);
+      syncEditorFromObj(next);
+      return next;
+    });
+  };
 
-    // Map customer info (email may be missing)
-    const customer_information = {
-      customer_name: fromPair(customer.customer_name),
-      address: fromPair(customer.address),
-      contact_no: fromPair(customer.contact_no),
-      contact_person: fromPair(customer.contact_person),
-      email_address: fromPair(customer.email_address),
-    };
+  // Evidence coverage sent with a save of `sap`, against the manual boxes the document has once saved
+  const coverageOf = (sap: unknown, boxes: Array<ManualBoxEvidence> | undefined = record?.manualBoxes) =>
+    record
+      ? coverageCounts(documentCoverage(sap, record.documentData, record.sapAiOutput, boxes))
+      : undefined;
 
-    // Map items to our shape; combine their subfield boxes into one bbox for the item row
-    const mappedItems = items.map((it: any) => {
-      const details = fromPair(it.details);
-      const quantity = fromPair(it.quantity);
-      const unit_price = fromPair(it.unit_price);
-      const total = fromPair(it.total);
+  // Region capture: text selected on the PDF goes into the SAP field focused last, with its box as evidence
+  const [captureField, setCaptureField] = useState<string | null>(null);
+  const canCapture = Boolean(canEdit && showSAP && sapOut && workflow && !workflow.sapLocked);
+  const captureLabel = captureField ? captureField.replace(/^\$\./, '') : null;
 
-      const candidateBoxes: any[] = [];
-      [it.item_no?.[1], it.details?.[1], it.unit?.[1], it.quantity?.[1], it.unit_price?.[1], it.total?.[1]].forEach((b) => {
-        if (Array.isArray(b)) candidateBoxes.push(b);
+  useEffect(() => {
+    setCaptureField(null);
+  }, [record?._id]);
+
+  const handleCaptureRegion = async (capture: RegionCapture) => {
+    if (!captureField || !record) return;
+    const next = withSapValue(sapObj, captureField, capture.text);
+    setSapObj(next);
+    syncEditorFromObj(next);
+    const box = {
+      target: 'sap' as const,
+      path: captureField,
+      page: capture.page,
+      x: capture.x,
+      y: capture.y,
+      width: capture.width,
+      height: capture.height,
+      method: capture.method,
+      capturedText: capture.text,
+    };
+    try {
+      // The value and its box are saved together, as a new revision of the SAP payload
+      await saveManualBox({
+        id: record._id,
+        ...box,
+        sap: next,
+        coverage: coverageOf(next, withSavedBoxes(record.manualBoxes, [box])),
       });
-
-      return {
-        description: details.value || '',
-        quantity: quantity.value || '',
-        unit_price: unit_price.value || '',
-        total: total.value || '',
-        bounding_box: combineBoxes(candidateBoxes),
-      };
-    });
-
-    // Map other_information object => array of objects with FieldValue
-    const other_information: Array<any> = [];
-    for (const [key, pair] of Object.entries(otherInfoObj)) {
-      other_information.push({ [key]: fromPair(pair) });
+      toast.success(
+        `Captured into ${captureLabel}${capture.method === 'ocr' ? ` (OCR, ${Math.round(capture.confidence ?? 0)}% confidence)` : ''}`
+      );
+    } catch (e: any) {
+      toast.error(`Captured into the editor, but it could not be saved: ${e?.message || e}`);
     }
+  };
 
-    return {
-      document: {
-        pages: [
-          {
-            page_number,
-            metadata,
-            parties: { vendor_information },
-            customerparties: { customer_information },
-            items: mappedItems,
-            other_information,
-          },
-        ],
-      },
-    };
-  }
-
-  const coerceDocumentData = (row: any) => {
-    const candidates = [
-      row?.PDF_AI_OUTPUT,
-      row?.['PDF_AI_OUTPUT'],
-      row?.pdf_ai_output,
-      row?.document_data,
-      row?.data,
-      row?.json,
-      row?.payload,
-      row?.['Document Data'],
-      row?.['document_data'],
-      row?.['Data'],
-    ];
-    for (const cand of candidates) {
-      try {
-        const obj = typeof cand === 'string' ? JSON.parse(cand) : cand;
+  // Table detection: a table read from the PDF is mapped to item fields, then written into to_Item
+  // with a box per cell as evidence. Like a capture, the items and their boxes are saved together as
+  // a new revision of the SAP payload.
+  const saveManualBoxes = useMutation(api.documents.saveManualBoxes);
+  const [tableDraft, setTableDraft] = useState<{ table: ReconstructedTable; key: number } | null>(null);
 
-        // Old format: already has pages
-        if (obj?.document?.pages && Array.isArray(obj.document.pages) && obj.document.pages.length > 0) {
-          return obj;
-        }
-        // New format: convert to old shape
-        const converted = convertNewFormatToOld(obj);
-        // Fix: avoid comparing possibly undefined length
-        if (converted && Array.isArray(converted.document?.pages) && converted.document.pages.length > 0) {
-          return converted;
-        }
-      } catch {
-        // ignore parse errors
-      }
+  useEffect(() => {
+    setTableDraft(null);
+  }, [record?._id]);
+
+  const handleTableRegion = (table: ReconstructedTable) => setTableDraft({ table, key: Date.now() });
+
+  const handleTableItems = async (rows: Array<TableItemRow>, mode: TableApplyMode) => {
+    if (!record || !tableDraft) return;
+    const { sap: next, evidence } = applyTableItems(sapObj, rows, mode);
+    setSapObj(next);
+    syncEditorFromObj(next);
+    const boxes = evidence.map(({ text, ...box }) => ({ ...box, method: tableDraft.table.method, capturedText: text }));
+    // Replaced rows take their old boxes with them
+    const clearPathPrefix = mode === 'replace' ? TABLE_ITEMS_PATH_PREFIX : undefined;
+    const savedBoxes = withSavedBoxes(
+      record.manualBoxes,
+      boxes.map((box) => ({ ...box, target: 'sap' as const })),
+      clearPathPrefix,
+    );
+    try {
+      await saveManualBoxes({
+        id: record._id,
+        target: 'sap',
+        boxes,
+        sap: next,
+        coverage: coverageOf(next, savedBoxes),
+        clearPathPrefix,
+      });
+      toast.success(`Wrote ${rows.length} ${rows.length === 1 ? 'item' : 'items'} from the table`);
+    } catch (e: any) {
+      toast.error(`Items written into the editor, but they could not be saved: ${e?.message || e}`);
     }
-    return undefined;
   };
 
-  // Extracts SAP output object from a row and normalizes nested arrays/keys for UI rendering.
-  const extractSapOutput = (row: any): any | undefined => {
-    if (!row) return undefined;
-
-    const isSapLike = (obj: any): boolean => {
-      if (!obj || typeof obj !== 'object') return false;
-      const hasSub =
-        Array.isArray(obj.to_Item) ||
-        Array.isArray(obj.to_Partner) ||
-        Array.isArray(obj.to_PricingElement);
-      if (hasSub) return true;
-      const headerHints = [
-        'DocType',
-        'SalesOrganization',
-        'DistributionChannel',
-        'Division',
-        'SalesOrg',
-        'SalesOffice',
-      ];
-      for (const key of headerHints) {
-        if (typeof obj[key] === 'string' || typeof obj[key] === 'number') return true;
-      }
-      return false;
-    };
-
-    const tryParse = (val: any): any | undefined => {
-      try {
-        const obj = typeof val === 'string' ? JSON.parse(val) : val;
-        if (obj && typeof obj === 'object') {
-          return obj?.output ?? obj;
-        }
-      } catch {
-        // ignore parse errors
-      }
-      return undefined;
-    };
-
-    const pickArray = (obj: any, keys: string[]) => {
-      for (const k of keys) {
-        const v = obj?.[k];
-        if (Array.isArray(v)) return v;
-        if (v && Array.isArray(v.results)) return v.results;
-      }
-      return undefined;
-    };
-
-    const normalizeSap = (src: any) => {
-      if (!src || typeof src !== 'object') return undefined;
-      let root = src;
-
-      // OData-like wrapping
-      if (root?.d) {
-        const d = root.d;
-        if (Array.isArray(d?.results) && d.results.length > 0) {
-          root = d.results[0];
-        } else {
-          root = d;
-        }
-      }
-
-      const out: any = { ...root };
-
-      // Top-level collections (support varied casings/aliases)
-      const items = pickArray(root, ['to_Item', 'to_item', 'Items', 'items', 'TO_ITEM', 'to_Items']);
-      if (items) out.to_Item = items;
+  // Customer master: SoldToParty and to_Partner customers are picked from it, and the sold-to party
+  // is suggested from the sender's email domain and the extracted customer name and address
+  const [customerLookup, setCustomerLookup] = useState<{ path: string; kind: 'customer' | 'partnerFunction' } | null>(
+    null
+  );
+  const canLookup = Boolean(canEdit && showSAP && sapOut && workflow && !workflow.sapLocked);
+  const soldToHints = useMemo(
+    () => soldToEvidence(doc?.document_data, record?.email?.from),
+    [doc?.document_data, record?.email?.from]
+  );
+  const soldToText = soldToSearchText(soldToHints);
+  const soldToCandidates = useQuery(
+    api.customers.candidates,
+    canLookup && (soldToHints.domains.length || soldToText)
+      ? { domains: soldToHints.domains, text: soldToText || undefined }
+      : 'skip'
+  );
+  const soldToSuggestions = useMemo(
+    () => rankSoldToCandidates(soldToCandidates ?? [], soldToHints).slice(0, 5),
+    [soldToCandidates, soldToHints]
+  );
 
-      const partners = pickArray(root, ['to_Partner', 'to_partner', 'Partners', 'partners', 'TO_PARTNER']);
-      if (partners) out.to_Partner = partners;
+  useEffect(() => {
+    setCustomerLookup(null);
+  }, [record?._id]);
+
+  const handlePickCustomer = (customer: Customer) => {
+    if (!customerLookup) return;
+    const updates = isSoldToPath(customerLookup.path)
+      ? soldToUpdates(customer, sapObj)
+      : [{ path: customerLookup.path, value: customer.customerNumber }];
+    for (const { path, value } of updates) updateSapAtPath(path, value);
+    toast.success(
+      `${customerLookup.path.replace(/^\$\./, '')} set to ${customer.customerNumber} ${customer.name}` +
+        (updates.length > 1 ? ' with its sales area' : '')
+    );
+  };
 
-      const pricing = pickArray(
-        root,
-        ['to_PricingElement', 'to_pricingelement', 'to_PricingElements', 'pricing', 'Pricing', 'TO_PRICINGELEMENT']
+  const sapFieldAddon = (path: string) => {
+    if (!canLookup) return null;
+    if (isSoldToPath(path)) {
+      const top = soldToSuggestions[0];
+      const suggested = !!top && String(sapObj?.SoldToParty ?? '').trim() !== top.customer.customerNumber;
+      return (
+        <LookupButton
+          title={
+            suggested
+              ? `Suggested: ${top.customer.customerNumber} ${top.customer.name} (${Math.round(top.score * 100)}% match)`
+              : 'Look up the customer'
+          }
+          suggested={suggested}
+          onClick={() => setCustomerLookup({ path, kind: 'customer' })}
+        />
       );
-      if (pricing) out.to_PricingElement = pricing;
-
-      // Normalize each item nested arrays
-      if (Array.isArray(out.to_Item)) {
-        out.to_Item = out.to_Item.map((it: any) => {
-          const i: any = { ...it };
-          const itemPartners = pickArray(it, [
-            'to_ItemPartner',
-            'to_itempartner',
-            'ItemPartners',
-            'item_partners',
-            'to_Item_Partner',
-          ]);
-          if (itemPartners) i.to_ItemPartner = itemPartners;
-
-          const itemPricing = pickArray(it, [
-            'to_ItemPricingElement',
-            'to_itempricingelement',
-            'ItemPricing',
-            'item_pricing',
-            'to_Item_PricingElement',
-          ]);
-          if (itemPricing) i.to_ItemPricingElement = itemPricing;
-
-          return i;
-        });
-      }
-
-      return out;
-    };
-
-    // Direct candidates (common names) - prioritize SAP_JSON_FROM_APP variants
-    const directCandidates: Array<any> = [
-      // Highest priority: SAP_JSON_FROM_APP and its variants
-      row?.SAP_JSON_FROM_APP,
-      row?.SAP_JSON_from_APP,
-      row?.sap_json_from_app,
-      row?.['SAP JSON from app'],
-      row?.['SAP_JSON_from_APP'],
-      row?.['SAP JSON FROM APP'],
-      row?.sap_json_app,
-      row?.sap_app_json,
-      
-      // Second priority: SAP JSON field
-      row?.['SAP JSON'],
-      row?.SAP_JSON,
-      row?.sap_json,
-
-      // Fallback to other common SAP payload fields
-      row?.SAP_AI_OUTPUT,
-      row?.sap_ai_output,
-      row?.['SAP_AI_OUTPUT'],
-      row?.sap_payload,
-      row?.SAP,
-      row?.sap,
-      row?.sap_output,
-      row?.SAP_Output,
-      row?.sapOutput,
-      row?.sap_payload_json,
-      row?.sap_payload_string,
-    ];
-    for (const cand of directCandidates) {
-      const parsed = tryParse(cand);
-      if (parsed) {
-        const norm = normalizeSap(parsed);
-        if (norm && isSapLike(norm)) return norm;
-        if (isSapLike(parsed)) return parsed;
-      }
     }
-
-    // Keys that include 'sap' anywhere
-    for (const [key, value] of Object.entries(row)) {
-      if (key.toLowerCase().includes('sap')) {
-        const parsed = tryParse(value);
-        if (parsed) {
-          const norm = normalizeSap(parsed);
-          if (norm && isSapLike(norm)) return norm;
-          if (isSapLike(parsed)) return parsed;
-        }
-      }
+    if (isPartnerCustomerPath(path)) {
+      return <LookupButton title="Look up the customer" onClick={() => setCustomerLookup({ path, kind: 'customer' })} />;
     }
-
-    // Fallback: scan all values for any JSON that looks like SAP
-    for (const value of Object.values(row)) {
-      const parsed = tryParse(value);
-      if (parsed) {
-        const norm = normalizeSap(parsed);
-        if (norm && isSapLike(norm)) return norm;
-        if (isSapLike(parsed)) return parsed;
-      }
+    if (isPartnerFunctionPath(path)) {
+      return (
+        <LookupButton
+          title="Choose the partner function"
+          onClick={() => setCustomerLookup({ path, kind: 'partnerFunction' })}
+        />
+      );
     }
-
-    return undefined;
+    return null;
   };
 
-  // Simple key/value row
-  const KV = ({ label, value }: { label: string; value: any }) => (
-    <div className="rounded border p-2">
-      <div className="text-[11px] text-muted-foreground mb-1">{label}</div>
-      <div className="text-sm font-medium whitespace-pre-wrap break-words">
-        {String(value ?? '—')}
-      </div>
-    </div>
-  );
+  // Evidence export: pages are rendered from the document the viewer loaded (PDF or scan)
+  const viewerDocRef = useRef<PDFDocumentProxy | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
 
-  // Helpers to coerce types and keep JSON string synced with object edits
-  const coerceValue = (input: string, original: any) => {
-    if (typeof original === 'number') {
-      const n = Number(input);
-      return Number.isFinite(n) ? n : 0;
+  useEffect(() => {
+    viewerDocRef.current = null;
+  }, [record?._id]);
+
+  const handleExportEvidence = async () => {
+    const pdf = viewerDocRef.current;
+    if (!pdf || !doc) {
+      toast.error('The document is still loading');
+      return;
     }
-    if (typeof original === 'boolean') {
-      const val = input.trim().toLowerCase();
-      return val === 'true' || val === '1';
+    setIsExporting(true);
+    try {
+      const blob = await exportEvidencePdf({
+        pdf,
+        sap: sapObj,
+        documentData: doc.document_data,
+        manualBoxes: record?.manualBoxes,
+        title: doc.title,
+      });
+      const filename = `evidence_${doc.id || 'document'}.pdf`;
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+      toast.success(`Downloaded ${filename}`);
+    } catch (e: any) {
+      toast.error(`Export failed: ${e?.message || e}`);
+    } finally {
+      setIsExporting(false);
     }
-    return input;
   };
 
-  const syncEditorFromObj = (next: any) => {
+  // Local extraction: OCR in the browser for documents that arrived without document_data
+  const saveLocalExtraction = useMutation(api.documents.saveLocalExtraction);
+  const [localExtractProgress, setLocalExtractProgress] = useState<{ done: number; total: number } | null>(null);
+  const canExtractLocally = Boolean(canEdit && record && !record.documentData && workflow && !workflow.sapLocked);
+
+  const handleExtractLocally = async () => {
+    const pdf = viewerDocRef.current;
+    if (!pdf || !record) {
+      toast.error('The document is still loading');
+      return;
+    }
+    setLocalExtractProgress({ done: 0, total: pdf.numPages });
     try {
-      setSapEditorValue(JSON.stringify(next, null, 2));
-    } catch {
-      // ignore stringify errors
+      const result = await extractDocumentLocally(pdf, (done, total) => setLocalExtractProgress({ done, total }));
+      await saveLocalExtraction({
+        id: record._id,
+        documentData: result.documentData,
+        engine: LOCAL_EXTRACTION_ENGINE,
+        confidence: result.confidence,
+      });
+      toast.success(`Recognized ${result.words} words (${result.confidence}% confidence)`);
+    } catch (e: any) {
+      toast.error(`Local extraction failed: ${e?.message || e}`);
+    } finally {
+      setLocalExtractProgress(null);
     }
   };
 
@@ -737,6 +849,65 @@ export default function DocumentDetail() {
   // Default SAP section open at top-level
   const [openHierarchySections, setOpenHierarchySections] = useState<Array<string>>(['sap']);
 
+  // Reverse linking: fields whose source box is under the pointer on the document are marked; a
+  // click opens, flashes and scrolls to them (the SAP field first, e.g. the order item of a line)
+  type FieldReveal = { paths: Array<string>; key: number };
+  const sourceRegions = useMemo(
+    () => (doc ? createSourceRegions(sapOut ? sapObj : null, doc.document_data, record?.manualBoxes) : []),
+    [doc, sapOut, sapObj, record?.manualBoxes],
+  );
+  const [sourceLinks, setSourceLinks] = useState<SourceLinks | null>(null);
+  const [sourceReveal, setSourceReveal] = useState<{ sap: FieldReveal; document: FieldReveal } | null>(null);
+
+  const handlePagePoint = (point: PagePoint | null, action: 'hover' | 'click') => {
+    const links = point ? sourceLinksAt(sourceRegions, point, viewerDocRef.current?.numPages ?? 1) : null;
+    if (action === 'hover') {
+      const keyOf = (l: SourceLinks | null) => (l ? [...l.documentPaths, '|', ...l.sapPaths].join(',') : '');
+      setSourceLinks((prev) => (keyOf(prev) === keyOf(links) ? prev : links));
+      return;
+    }
+    if (!links || (!links.documentPaths.length && !links.sapPaths.length)) return;
+    setOpenHierarchySections((prev) =>
+      Array.from(new Set([...prev, ...(links.documentPaths.length ? ['doc'] : []), ...(links.sapPaths.length ? ['sap'] : [])])),
+    );
+    const key = Date.now();
+    setSourceReveal({ sap: { paths: links.sapPaths, key }, document: { paths: links.documentPaths, key } });
+  };
+
+  // Scroll once the sections have opened; document fields match their own path or an item row's
+  useEffect(() => {
+    if (!sourceReveal) return;
+    const timer = window.setTimeout(() => {
+      const sapEl = sourceReveal.sap.paths
+        .map((p) => document.querySelector<HTMLElement>(`[data-sap-field="${CSS.escape(p)}"]`))
+        .find(Boolean);
+      const documentEl = Array.from(document.querySelectorAll<HTMLElement>('[data-document-path]')).find((el) => {
+        const path = el.dataset.documentPath ?? '';
+        return sourceReveal.document.paths.some((p) => p === path || p.startsWith(`${path}.`));
+      });
+      (sapEl ?? documentEl)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [sourceReveal]);
+
+  // Evidence coverage of the SAP payload as edited. Every save sends the coverage of the payload it
+  // stores, so the documents list can flag poorly supported ones; viewing a document writes nothing.
+  const [coverageThreshold] = useCoverageThreshold();
+  const coverage = useMemo(
+    () =>
+      doc && sapOut
+        ? documentCoverage(sapObj, doc.document_data, record?.sapAiOutput, record?.manualBoxes)
+        : null,
+    [doc, sapOut, sapObj, record?.sapAiOutput, record?.manualBoxes],
+  );
+
+  const handleCoverageFieldSelect = (field: CoverageField) => {
+    setOpenHierarchySections((prev) => (prev.includes('sap') ? prev : [...prev, 'sap']));
+    const key = Date.now();
+    const documentPaths = field.match && field.match.sourcePath !== field.path ? [field.match.sourcePath] : [];
+    setSourceReveal({ sap: { paths: [field.path], key }, document: { paths: documentPaths, key } });
+  };
+
   // Add: collapse all handler on top of both top-level hierarchies
   const [sapCollapseNonce, setSapCollapseNonce] = useState<number>(0);
   // Track whether SAP nested accordions should be expanded by default
@@ -874,6 +1045,7 @@ export default function DocumentDetail() {
               type={isNum ? "number" : "text"}
               value={isNum ? (typeof value === "number" ? value : 0) : String(value ?? "")}
               onChange={(e) => onChangePrimitive(e.target.value)}
+              onFocus={() => setCaptureField(`$.${id}`)}
             />
           )}
         </div>
@@ -1362,160 +1534,6 @@ export default function DocumentDetail() {
     );
   };
 
-  const fetchDocument = async () => {
-    try {
-      setIsLoading(true);
-
-      // Coerce the id to number if possible to avoid type mismatches in Supabase
-      const idFilter = Number.isFinite(Number(documentId)) ? Number(documentId) : documentId;
-
-      // Try a lean select first; if it fails due to missing columns, fall back to select("*")
-      let data: any | null = null;
-
-      const { data: lean, error: leanError } = await supabase
-        .from('N8N Logs')
-        .select(
-          'id, "Bucket Name", path, object_path, bucket_name, file, filename, name, status, Status, state, State, created_at, createdAt, timestamp, title'
-        )
-        .eq('id', idFilter)
-        .single();
-
-      if (leanError) {
-        const msg = (leanError as any)?.message?.toLowerCase?.() ?? '';
-        const columnMissing =
-          msg.includes('column') ||
-          msg.includes('does not exist') ||
-          msg.includes('unknown') ||
-          msg.includes('schema');
-        if (columnMissing) {
-          // Fallback: fetch full row if some projected columns don't exist in this table
-          const { data: fullRow, error: fullRowErr } = await supabase
-            .from('N8N Logs')
-            .select('*')
-            .eq('id', idFilter)
-            .single();
-          if (fullRowErr) throw fullRowErr;
-          data = fullRow;
-        } else {
-          throw leanError;
-        }
-      } else {
-        data = lean;
-      }
-
-      if (!data) {
-        toast.error('Document not found');
-        navigate('/dashboard');
-        return;
-      }
-
-      // Build storage path quickly
-      const bucket = data?.['Bucket Name'] ?? data?.bucket_name ?? '';
-      const objectPathCandidates = [
-        data?.path,
-        data?.object_path,
-        data?.file,
-        data?.filename,
-        data?.name,
-      ];
-      const objectPath = objectPathCandidates.find(
-        (v: any) => typeof v === 'string' && v.trim().length > 0
-      ) as string | undefined;
-
-      let path = '';
-      if (bucket && objectPath) {
-        path = `${bucket}/${objectPath}`;
-      } else if (typeof data?.path === 'string') {
-        path = String(data.path);
-      } else if (typeof data?.['Bucket Name'] === 'string' && String(data['Bucket Name']).includes('/')) {
-        path = String(data['Bucket Name']);
-      }
-
-      const signedUrl = path ? await createSignedUrlForPath(path, 60 * 10) : '';
-      const pdf_url = signedUrl || (path ? publicUrlForPath(path) : '');
-
-      if (!pdf_url) {
-        console.error('No PDF URL could be constructed. Available data:', data);
-        toast.error('PDF URL is missing from document data');
-      }
-
-      const status = data?.status ?? data?.Status ?? data?.state ?? data?.State;
-      const created_at =
-        data?.created_at ?? data?.createdAt ?? data?.timestamp ?? new Date().toISOString();
-
-      // Prefer fast title derivation from path/name; heavy JSON parse deferred
-      const title =
-        (typeof data?.title === 'string' ? data.title : undefined) ||
-        (typeof path === 'string' ? String(path).split('/').pop() : undefined) ||
-        'Untitled Document';
-
-      // Render immediately with PDF and header
-      setDoc({
-        id: String(data.id),
-        created_at: String(created_at),
-        pdf_url,
-        status: status ? String(status) : undefined,
-        title,
-        document_data: undefined,
-      });
-
-      setIsLoading(false);
-
-      // Defer heavy fields (SAP + Document Data) to idle time to avoid blocking navigation
-      setDetailsLoading(true);
-      ric(async () => {
-        try {
-          const { data: full, error: fullErr } = await supabase
-            .from('N8N Logs')
-            .select('*')
-            .eq('id', idFilter)
-            .single();
-
-          if (fullErr || !full) {
-            if (fullErr) console.error('Supabase error (heavy):', fullErr);
-            setDetailsLoading(false);
-            return;
-          }
-
-          // Extract SAP data if enabled
-          const out = showSAP ? extractSapOutput(full) : undefined;
-          setSapOut(showSAP ? (out ?? null) : null);
-
-          // Parse structured document data (can be heavy)
-          const document_data = showSAP ? coerceDocumentData(full) : undefined;
-
-          // Update doc with structured data and possibly refine title
-          setDoc((prev) => {
-            if (!prev) return prev;
-            const refinedTitle =
-              document_data?.document?.pages?.[0]?.metadata?.document_title?.value || prev.title;
-            return { ...prev, document_data, title: refinedTitle };
-          });
-        } catch (e) {
-          console.error('Error in background load:', e);
-        } finally {
-          setDetailsLoading(false);
-        }
-      });
-    } catch (error) {
-      console.error('Error fetching document (lean):', error);
-      const msg =
-        (error && typeof (error as any).message === 'string')
-          ? (error as any).message
-          : (() => {
-              try {
-                return JSON.stringify(error);
-              } catch {
-                return String(error);
-              }
-            })();
-      toast.error(`Failed to load document: ${msg}`);
-      navigate('/dashboard');
-      // Ensure we don't keep the page blocked
-      setIsLoading(false);
-    }
-  };
-
   // Create button: POST id + current SAP JSON to webhook from env via Convex action
   const handleCreate = async () => {
     try {
@@ -1535,11 +1553,18 @@ export default function DocumentDetail() {
         toast.error('Missing document id');
         return;
       }
-      if (!sapEditorValue?.trim()) {
+      // The server sends the stored, approved payload; the editor is read-only from approval on
+      const parsed: any = storedSap;
+      if (!parsed) {
         logDebug('Validation failed', 'No SAP data to send');
         toast.error('No SAP data to send');
         return;
       }
+      if (workflow?.status !== 'approved') {
+        logDebug('Validation failed', `Document is ${workflow?.status ?? 'not loaded'}, not approved`);
+        toast.error('Approve the document before creating it in SAP');
+        return;
+      }
 
       const rawUrl = import.meta.env.VITE_WEBHOOK_URL as string | undefined;
       if (!rawUrl) {
@@ -1567,18 +1592,18 @@ export default function DocumentDetail() {
         }
       }
 
-      let parsed: any;
-      try {
-        parsed = JSON.parse(sapEditorValue);
-      } catch {
-        if (sapObj && typeof sapObj === 'object') {
-          parsed = sapObj;
-          logDebug('Using in-memory SAP object', { size: JSON.stringify(sapObj)?.length ?? 0 });
-        } else {
-          logDebug('Validation failed', 'Edited SAP JSON is invalid');
-          toast.error('Edited SAP JSON is invalid');
-          return;
-        }
+      const validation = validateSapPayload(parsed);
+      if (!validation.valid) {
+        const count = Object.keys(validation.errors).length;
+        logDebug('Validation failed', validation.errors);
+        toast.error(`Fix ${count} SAP validation ${count === 1 ? 'issue' : 'issues'} before creating`);
+        return;
+      }
+
+      if (!record) {
+        logDebug('Validation failed', 'Document is not loaded');
+        toast.error('Missing document id');
+        return;
       }
 
       // Remove confirmation dialog entirely
@@ -1587,10 +1612,9 @@ export default function DocumentDetail() {
       setIsCreating(true);
 
       // Log outgoing request
-      logDebug('Sending webhook', {
+      logDebug('Queueing webhook', {
         url: url.toString(),
         userEmail: user?.email ?? null,
-        method: 'GET',
         bodyPreview: {
           docId: doc?.id ?? null,
           routeId: routeId ?? null,
@@ -1602,24 +1626,23 @@ export default function DocumentDetail() {
         },
       });
 
+      // Delivery happens in the background with retries; the document moves to submitted once it lands
       const webhookUrl = url.toString();
-      const res = await sendWebhook({
+      const res = await enqueueDelivery({
+        documentId: record._id,
         url: webhookUrl,
-        id: doc.id,
-        sap: JSON.stringify(parsed),
         routeId: routeId ?? undefined,
-        userEmail: user?.email ?? undefined,
         source: "DocumentDetailCreate",
       });
 
-      // Log response from action
-      logDebug('Webhook response', res);
+      // The server picks the delivery mode (POST, POST gzip or legacy GET) for the target
+      logDebug('Webhook queued', { ...res, modeLabel: DELIVERY_MODE_LABELS[res.mode] });
 
-      if (!res?.ok) {
-        throw new Error(res?.body || `HTTP ${res?.status ?? 'unknown'}`);
+      if (res.duplicate) {
+        toast.info('This approval is already queued or was delivered; see Logs for its delivery');
+      } else {
+        toast.success(`Create request queued (${DELIVERY_MODE_LABELS[res.mode]}); failed deliveries are retried automatically`);
       }
-
-      toast.success('Create request sent successfully');
     } catch (e) {
       const msg = e instanceof Error ? e.message : 'Unknown error';
       logDebug('Error', { message: msg });
@@ -1629,16 +1652,25 @@ export default function DocumentDetail() {
     }
   };
 
+  const [replayingId, setReplayingId] = useState<Id<'webhookDeliveries'> | null>(null);
+  const handleReplayDelivery = async (deliveryId: Id<'webhookDeliveries'>) => {
+    try {
+      setReplayingId(deliveryId);
+      await replayDelivery({ deliveryId });
+      toast.success('Delivery queued again');
+    } catch (e: any) {
+      toast.error(`Replay failed: ${e?.message || e}`);
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
   const handleSave = async () => {
     try {
-      if (!doc?.id) {
+      if (!record) {
         toast.error('Missing document id');
         return;
       }
-      if (!hasSupabaseEnv) {
-        toast.error('Supabase is not configured.');
-        return;
-      }
       let payload: any;
       try {
         payload = JSON.parse(sapEditorValue || '{}');
@@ -1646,49 +1678,17 @@ export default function DocumentDetail() {
         toast.error('Edited JSON is not valid');
         return;
       }
+      // Drafts may be saved incomplete; validation only blocks Create
+      const validation = validateSapPayload(payload);
 
       setIsSaving(true);
-      // Try updating common "SAP JSON from app" fields; fall back to SAP_AI_OUTPUT
-      const fieldCandidates: Array<string> = [
-        'SAP_JSON_FROM_APP',
-        'SAP_JSON_from_APP', // added variant seen in error message
-        'sap_json_from_app',
-        'SAP JSON from app',
-        'sap_json_app',
-        'sap_app_json',
-      ];
-      let saved = false;
-      for (const field of fieldCandidates) {
-        const { error } = await supabase
-          .from('N8N Logs')
-          .update({ [field]: payload })
-          .eq('id', doc.id);
-        if (!error) {
-          saved = true;
-          break;
-        } else {
-          const msg = String(error.message || '').toLowerCase();
-          // Be lenient: continue to next field on any "missing column" style error
-          if (
-            msg.includes('column') ||
-            msg.includes('does not exist') ||
-            msg.includes('schema cache') ||
-            msg.includes('could not find') ||
-            msg.includes('not found')
-          ) {
-            continue;
-          }
-          throw error;
-        }
-      }
-      if (!saved) {
-        const { error: fbError } = await supabase
-          .from('N8N Logs')
-          .update({ SAP_AI_OUTPUT: payload })
-          .eq('id', doc.id);
-        if (fbError) throw fbError;
+      const res = await saveReviewedSap({ id: record._id, sap: payload, coverage: coverageOf(payload) });
+      if (validation.valid) {
+        toast.success(`Saved as revision v${res.version}`);
+      } else {
+        const count = Object.keys(validation.errors).length;
+        toast.warning(`Saved as revision v${res.version} with ${count} SAP validation ${count === 1 ? 'issue' : 'issues'}; Create stays blocked until fixed`);
       }
-      toast.success('Saved successfully');
     } catch (e: any) {
       toast.error(`Save failed: ${e?.message || e}`);
     } finally {
@@ -1696,6 +1696,37 @@ export default function DocumentDetail() {
     }
   };
 
+  // Approve what is in the editor: unsaved edits are saved as a revision first
+  const handleApprove = async () => {
+    if (!record) return;
+    let payload: any;
+    try {
+      payload = JSON.parse(sapEditorValue || '{}');
+    } catch {
+      toast.error('Edited JSON is not valid');
+      return;
+    }
+    const validation = validateSapPayload(payload);
+    if (!validation.valid) {
+      const count = Object.keys(validation.errors).length;
+      toast.error(`Fix ${count} SAP validation ${count === 1 ? 'issue' : 'issues'} before approving`);
+      return;
+    }
+    const stored = record.sapReviewed ?? record.sapAiOutput;
+    if (JSON.stringify(payload) !== JSON.stringify(stored)) {
+      try {
+        setIsSaving(true);
+        await saveReviewedSap({ id: record._id, sap: payload, coverage: coverageOf(payload) });
+      } catch (e: any) {
+        toast.error(`Save failed: ${e?.message || e}`);
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+    await runTransition('approved');
+  };
+
   // Persist showSAP to localStorage
   useEffect(() => {
     try {
@@ -1787,24 +1818,11 @@ export default function DocumentDetail() {
   // Initialize first line highlight when document data becomes available
   useEffect(() => {
     try {
-      const items = Array.isArray(doc?.document_data?.document?.pages)
-        ? (doc?.document_data?.document?.pages?.[0]?.items ?? [])
-        : [];
-      if (Array.isArray(items) && items.length > 0) {
+      const items = documentItems(doc?.document_data);
+      if (items.length > 0) {
         setCurrentItemIndex(0);
-        const bbox = items[0]?.bounding_box?.[0];
-        if (Array.isArray(bbox) && bbox.length >= 4) {
-          const [x1, y1, x2, y2, p] = bbox;
-          setHighlightBox({
-            x: x1,
-            y: y1,
-            width: x2 - x1,
-            height: y2 - y1,
-            page: Number.isFinite(p) ? p : 1,
-          });
-        } else {
-          setHighlightBox(null);
-        }
+        const bbox = parseBox(items[0].value?.bounding_box?.[0]);
+        setHighlightBox(bbox ? { ...bbox, page: bbox.page ?? items[0].page } : null);
       } else {
         setHighlightBox(null);
       }
@@ -1815,51 +1833,25 @@ export default function DocumentDetail() {
 
   // Line navigation: move between extracted items and highlight their bounding box
   const goPrevLine = () => {
-    const items = Array.isArray(doc?.document_data?.document?.pages)
-      ? (doc?.document_data?.document?.pages?.[0]?.items ?? [])
-      : [];
-    if (!Array.isArray(items) || items.length === 0) return;
+    const items = documentItems(doc?.document_data);
+    if (items.length === 0) return;
 
     setCurrentItemIndex((prev) => {
       const next = Math.max(0, prev - 1);
-      const bbox = items[next]?.bounding_box?.[0];
-      if (Array.isArray(bbox) && bbox.length >= 4) {
-        const [x1, y1, x2, y2, p] = bbox;
-        setHighlightBox({
-          x: x1,
-          y: y1,
-          width: x2 - x1,
-          height: y2 - y1,
-          page: Number.isFinite(p) ? p : 1,
-        });
-      } else {
-        setHighlightBox(null);
-      }
+      const bbox = parseBox(items[next].value?.bounding_box?.[0]);
+      setHighlightBox(bbox ? { ...bbox, page: bbox.page ?? items[next].page } : null);
       return next;
     });
   };
 
   const goNextLine = () => {
-    const items = Array.isArray(doc?.document_data?.document?.pages)
-      ? (doc?.document_data?.document?.pages?.[0]?.items ?? [])
-      : [];
-    if (!Array.isArray(items) || items.length === 0) return;
+    const items = documentItems(doc?.document_data);
+    if (items.length === 0) return;
 
     setCurrentItemIndex((prev) => {
       const next = Math.min(items.length - 1, prev + 1);
-      const bbox = items[next]?.bounding_box?.[0];
-      if (Array.isArray(bbox) && bbox.length >= 4) {
-        const [x1, y1, x2, y2, p] = bbox;
-        setHighlightBox({
-          x: x1,
-          y: y1,
-          width: x2 - x1,
-          height: y2 - y1,
-          page: Number.isFinite(p) ? p : 1,
-        });
-      } else {
-        setHighlightBox(null);
-      }
+      const bbox = parseBox(items[next].value?.bounding_box?.[0]);
+      setHighlightBox(bbox ? { ...bbox, page: bbox.page ?? items[next].page } : null);
       return next;
     });
   };
@@ -1913,8 +1905,8 @@ export default function DocumentDetail() {
         onSignOut={signOut}
         isSaving={isSaving}
         isCreating={isCreating}
-        canSave={Boolean(sapEditorValue?.trim() && doc?.id)}
-        canCreate={Boolean(sapEditorValue?.trim() && doc?.id)}
+        canSave={Boolean(canEdit && sapEditorValue?.trim() && doc?.id && workflow && !workflow.sapLocked)}
+        canCreate={Boolean(isAdmin && sapEditorValue?.trim() && doc?.id && sapValidation.valid && workflow?.status === 'approved')}
         onSave={handleSave}
         onCreate={handleCreate}
         onOpenDebug={() => setDebugOpen(true)}
@@ -1923,6 +1915,16 @@ export default function DocumentDetail() {
         navLoading={navLoading}
         onPrev={goPrev}
         onNext={goNext}
+        workflowStatus={workflow?.status}
+        allowedTransitions={workflow?.allowed}
+        workflowNote={workflowNote}
+        sapResponse={workflow?.sapResponse}
+        isTransitioning={isTransitioning}
+        onApprove={canEdit ? handleApprove : undefined}
+        onReject={canEdit ? (reason) => runTransition('rejected', reason) : undefined}
+        onReopen={canEdit ? () => runTransition('in_review') : undefined}
+        onExportEvidence={sapOut ? handleExportEvidence : undefined}
+        isExporting={isExporting}
       />
 
       
@@ -1956,8 +1958,16 @@ export default function DocumentDetail() {
                     onMouseDown={(e) => e.stopPropagation()}
                   >
                     <SAPJsonCard
-                      data={sapOut ?? {}}
+                      data={sapOut ? sapObj : {}}
                       onHoverHighlight={onSapHover}
+                      sourceDocumentData={doc.document_data}
+                      manualBoxes={record?.manualBoxes}
+                      extractedData={record?.sapAiOutput}
+                      onFieldFocus={setCaptureField}
+                      focusedPath={captureField}
+                      fieldAddon={sapFieldAddon}
+                      validationErrors={sapOut ? sapValidation.errors : undefined}
+                      onValueChange={updateSapAtPath}
                       className="break-words whitespace-pre-wrap"
                     />
                   </div>
@@ -2008,10 +2018,19 @@ export default function DocumentDetail() {
               <Suspense fallback={<PDFSkeleton />}>
                 <PDFViewerComponent
                   pdfUrl={doc.pdf_url}
+                  storagePath={record?.storagePath}
+                  onDocumentLoad={(pdf) => (viewerDocRef.current = pdf)}
                   highlightBox={highlightBox}
                   documentData={showSAP ? doc.document_data : undefined}
                   fitToWidthInitially
                   fitToWidthOnResize
+                  manualBoxes={record?.manualBoxes}
+                  editTargets={editTargets}
+                  onSaveManualBox={canEditBoxes ? handleSaveManualBox : undefined}
+                  onRemoveManualBox={canEditBoxes ? handleRemoveManualBox : undefined}
+                  captureLabel={captureLabel}
+                  onCaptureRegion={canCapture ? handleCaptureRegion : undefined}
+                  onTableRegion={canCapture ? handleTableRegion : undefined}
                 />
               </Suspense>
             </div>
@@ -2055,10 +2074,20 @@ export default function DocumentDetail() {
                   <PDFViewerComponent
                     key={leftPanelWidth ? `pdf-${leftPanelWidth}` : 'pdf'}
                     pdfUrl={doc.pdf_url}
+                    storagePath={record?.storagePath}
+                    onDocumentLoad={(pdf) => (viewerDocRef.current = pdf)}
                     highlightBox={highlightBox}
                     documentData={showSAP ? doc.document_data : undefined}
                     fitToWidthInitially
                     fitToWidthOnResize
+                    manualBoxes={record?.manualBoxes}
+                    editTargets={editTargets}
+                    onSaveManualBox={canEditBoxes ? handleSaveManualBox : undefined}
+                    onRemoveManualBox={canEditBoxes ? handleRemoveManualBox : undefined}
+                    captureLabel={captureLabel}
+                    onCaptureRegion={canCapture ? handleCaptureRegion : undefined}
+                    onTableRegion={canCapture ? handleTableRegion : undefined}
+                    onPagePoint={handlePagePoint}
                   />
                 </Suspense>
               </div>
@@ -2091,14 +2120,40 @@ export default function DocumentDetail() {
                           <AccordionContent className="overflow-visible">
                             {doc.document_data && doc.document_data?.document?.pages?.length > 0 ? (
                               <Suspense fallback={<RightPanelSkeleton />}>
+                                {record?.localExtraction && (
+                                  <div className="mb-2 flex items-center gap-1.5 text-xs text-muted-foreground">
+                                    <ScanText className="h-3.5 w-3.5" />
+                                    Text recognized in the browser ({record.localExtraction.confidence}% confidence)
+                                  </div>
+                                )}
                                 <DocumentFieldsLazy
                                   documentData={doc.document_data}
                                   onFieldHover={onSapHover}
+                                  manualBoxes={record?.manualBoxes}
+                                  linkedPaths={sourceLinks?.documentPaths}
+                                  reveal={sourceReveal?.document}
                                 />
                               </Suspense>
                             ) : (
-                              <div className="text-sm text-muted-foreground">
-                                No structured data available for this document.
+                              <div className="space-y-2 text-sm text-muted-foreground">
+                                <div>No structured data available for this document.</div>
+                                {canExtractLocally && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={handleExtractLocally}
+                                    disabled={localExtractProgress !== null}
+                                  >
+                                    {localExtractProgress ? (
+                                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <ScanText className="mr-2 h-4 w-4" />
+                                    )}
+                                    {localExtractProgress
+                                      ? `Reading page ${Math.min(localExtractProgress.done + 1, localExtractProgress.total)} of ${localExtractProgress.total}…`
+                                      : 'Extract locally'}
+                                  </Button>
+                                )}
                               </div>
                             )}
                           </AccordionContent>
@@ -2122,8 +2177,18 @@ export default function DocumentDetail() {
                                   onMouseDown={(e) => e.stopPropagation()}
                                 >
                                   <SAPJsonCard
-                                    data={sapOut}
+                                    data={sapObj}
                                     onHoverHighlight={onSapHover}
+                                    sourceDocumentData={doc.document_data}
+                                    manualBoxes={record?.manualBoxes}
+                                    extractedData={record?.sapAiOutput}
+                                    onFieldFocus={setCaptureField}
+                                    focusedPath={captureField}
+                                    fieldAddon={sapFieldAddon}
+                                    validationErrors={sapValidation.errors}
+                                    onValueChange={updateSapAtPath}
+                                    linkedPaths={sourceLinks?.sapPaths}
+                                    reveal={sourceReveal?.sap}
                                     className="break-words whitespace-pre-wrap"
                                   />
                                 </div>
@@ -2139,6 +2204,53 @@ export default function DocumentDetail() {
                             )}
                           </AccordionContent>
                         </AccordionItem>
+
+                        <AccordionItem value="coverage">
+                          <AccordionTrigger className="text-base font-semibold">
+                            <span className="flex items-center gap-2">
+                              Evidence Coverage
+                              {coverage?.score != null && (
+                                <span
+                                  className={`rounded px-1.5 text-xs font-medium tabular-nums ${
+                                    coverage.score < coverageThreshold
+                                      ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+                                      : 'text-muted-foreground'
+                                  }`}
+                                >
+                                  {formatCoverage(coverage.score)}
+                                </span>
+                              )}
+                            </span>
+                          </AccordionTrigger>
+                          <AccordionContent className="overflow-visible">
+                            {showSAP && sapOut ? (
+                              <EvidenceCoveragePanel
+                                coverage={coverage}
+                                threshold={coverageThreshold}
+                                onFieldHover={onSapHover}
+                                onFieldSelect={handleCoverageFieldSelect}
+                              />
+                            ) : (
+                              <div className="text-sm text-muted-foreground">
+                                No SAP data loaded for this document.
+                              </div>
+                            )}
+                          </AccordionContent>
+                        </AccordionItem>
+
+                        <AccordionItem value="revisions">
+                          <AccordionTrigger className="text-base font-semibold">
+                            Revisions
+                          </AccordionTrigger>
+                          <AccordionContent className="overflow-visible">
+                            <RevisionPanel
+                              revisions={revisions}
+                              onRestore={handleRestoreRevision}
+                              restoringId={restoringId}
+                              canRestore={canEdit && !workflow?.sapLocked}
+                            />
+                          </AccordionContent>
+                        </AccordionItem>
                       </Accordion>
                     </CardContent>
                   </Card>
@@ -2172,6 +2284,33 @@ export default function DocumentDetail() {
         onOpenChange={setDebugOpen}
         events={debugEvents}
         onClear={() => setDebugEvents([])}
+        deliveries={deliveries}
+        onReplay={handleReplayDelivery}
+        replayingId={replayingId}
+      />
+
+      {tableDraft && (
+        <TableMappingDialog
+          key={tableDraft.key}
+          open
+          onOpenChange={(open) => !open && setTableDraft(null)}
+          table={tableDraft.table}
+          existingItems={Array.isArray(sapObj?.to_Item) ? sapObj.to_Item.length : 0}
+          onApply={handleTableItems}
+        />
+      )}
+
+      <CustomerLookupDialog
+        open={customerLookup?.kind === 'customer'}
+        onOpenChange={(open) => !open && setCustomerLookup(null)}
+        fieldLabel={customerLookup?.path.replace(/^\$\./, '') ?? ''}
+        suggestions={customerLookup && isSoldToPath(customerLookup.path) ? soldToSuggestions : undefined}
+        onSelect={handlePickCustomer}
+      />
+      <PartnerFunctionDialog
+        open={customerLookup?.kind === 'partnerFunction'}
+        onOpenChange={(open) => !open && setCustomerLookup(null)}
+        onSelect={(code) => customerLookup && updateSapAtPath(customerLookup.path, code)}
       />
     </div>
   );
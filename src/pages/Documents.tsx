@@ -1,9 +1,16 @@
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/use-auth';
-import { supabase, hasSupabaseEnv, publicUrlForPath } from '@/lib/supabase';
+import { hasSupabaseEnv, publicUrlForPath } from '@/lib/supabase';
+import { DEFAULT_DOCUMENTS_QUERY, type DocumentsQuery } from '@/lib/documentsQuery';
+import { useComputedCoverage } from '@/hooks/use-computed-coverage';
+import { useN8nImport } from '@/hooks/use-n8n-import';
+import { useN8nRealtime } from '@/hooks/use-n8n-realtime';
+import { useRole } from '@/hooks/use-role';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FileText, Loader2 } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { FileText, Loader2, Sparkles, X } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { usePaginatedQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
 import { useNavigate } from 'react-router';
 import { toast } from 'sonner';
 import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
@@ -16,374 +23,19 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 
-// Add robust helpers to normalize mail content into safe HTML
-const escapeHtml = (s: string) =>
-  s
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
+const PAGE_SIZE = 25;
 
-const textToHtml = (s: string) => {
-  const safe = escapeHtml(s);
-  // Convert double newlines to paragraphs and single newlines to <br/>
-  return safe
-    .split(/\n{2,}/)
-    .map((para: string) => `<p>${para.replace(/\n/g, "<br/>")}</p>`)
-    .join("");
-};
-
-const looksLikeJson = (s: string) => {
-  const t = s.trim();
-  return (t.startsWith("{") && t.endsWith("}")) || (t.startsWith("[") && t.endsWith("]"));
-};
-
-const tryParseJson = (s: string): any | null => {
-  try {
-    return JSON.parse(s);
-  } catch {
-    return null;
-  }
-};
-
-const tryDecodeBase64 = (s: string): string | null => {
-  try {
-    // Remove whitespace that may be present in logged payloads
-    const trimmed = s.replace(/\s+/g, "");
-    if (!/^[A-Za-z0-9+/=]+$/.test(trimmed) || trimmed.length % 4 !== 0) return null;
-    const decoded = atob(trimmed);
-    // Check if mostly printable to avoid showing binary
-    const printable = decoded.split("").filter((c) => /[\x09\x0A\x0D\x20-\x7E]/.test(c)).length;
-    if (decoded.length === 0) return null;
-    if (printable / decoded.length < 0.85) return null;
-    return decoded;
-  } catch {
-    return null;
-  }
-};
-
-// Prefer HTML fields, then plain text, then anything string-like
-const pickMailField = (obj: any): string | undefined => {
-  if (!obj || typeof obj !== "object") return undefined;
-
-  const htmlKeys: string[] = [
-    "html",
-    "HTML",
-    "body_html",
-    "html_body",
-    "content_html",
-    "message_html",
-    "bodyAsHtml",
-  ];
-  const textKeys: string[] = [
-    "text",
-    "Text",
-    "plain",
-    "plain_text",
-    "body_text",
-    "text_body",
-    "textBody",
-    "message",
-    "Message",
-    "body",
-    "Body",
-    "email_body",
-    "Email Body",
-    "emailBody",
-    "bodyAsText",
-    "content",
-    "Content",
-  ];
-
-  for (const k of htmlKeys) {
-    const v = (obj as any)[k];
-    if (typeof v === "string" && v.trim()) return v;
-  }
-  for (const k of textKeys) {
-    const v = (obj as any)[k];
-    if (typeof v === "string" && v.trim()) return v;
-  }
-
-  // Some providers wrap content in arrays or nested objects
-  for (const k of Object.keys(obj)) {
-    const v = (obj as any)[k];
-    if (typeof v === "string" && v.trim()) return v;
-    if (v && typeof v === "object") {
-      const inner = pickMailField(v);
-      if (inner) return inner;
-    }
-    if (Array.isArray(v)) {
-      for (const item of v) {
-        const inner = typeof item === "string" ? item : pickMailField(item);
-        if (inner && String(inner).trim()) return String(inner);
-      }
-    }
-  }
-
-  return undefined;
-};
-
-const getMailContent = (row: any): string => {
-  const directKeys: Array<string> = [
-    "mail_content",
-    "Mail Content",
-    "Mail content",
-    "mail content",
-    "mailContent",
-    "html",
-    "HTML",
-    "body",
-    "Body",
-    "content",
-    "Content",
-    "message",
-    "Message",
-    "text",
-    "Text",
-    "email_body",
-    "Email Body",
-    "emailBody",
-    "body_html",
-    "html_body",
-    "content_html",
-    "message_html",
-    "body_text",
-    "text_body",
-    "textBody",
-    "plain_text",
-    "bodyAsHtml",
-    "bodyAsText",
-    "raw", // sometimes raw payload holds the body
-  ];
-
-  const containers = ["data", "payload", "mail", "email", "message", "raw"];
-
-  const normalizeAnyToHtml = (val: any): string => {
-    if (val == null) return "";
-    if (typeof val === "string") {
-      const s = val.trim();
-      if (!s) return "";
-      // JSON-encoded string?
-      if (looksLikeJson(s)) {
-        const parsed = tryParseJson(s);
-        if (parsed) return normalizeAnyToHtml(parsed);
-      }
-      // Base64-encoded?
-      const maybeDecoded = tryDecodeBase64(s);
-      if (maybeDecoded) {
-        // If decoded contains HTML tags, use as-is; else treat as text
-        if (/[<>]/.test(maybeDecoded)) return maybeDecoded;
-        return textToHtml(maybeDecoded);
-      }
-      // If contains HTML tags, treat as HTML; otherwise treat as plain text
-      if (/[<>]/.test(s)) return s;
-      return textToHtml(s);
-    }
-    if (Array.isArray(val)) {
-      const joined = val
-        .map((item) => (typeof item === "string" ? item : pickMailField(item) ?? ""))
-        .filter(Boolean)
-        .join("\n\n");
-      return normalizeAnyToHtml(joined);
-    }
-    if (typeof val === "object") {
-      const picked = pickMailField(val);
-      if (picked) return normalizeAnyToHtml(picked);
-      // last resort stringify
-      try {
-        return textToHtml(JSON.stringify(val, null, 2));
-      } catch {
-        return "";
-      }
-    }
-    // numbers/booleans
-    return textToHtml(String(val));
-  };
-
-  // 1) Try direct keys on row
-  for (const k of directKeys) {
-    const candidate = row?.[k];
-    if (candidate == null) continue;
-    const html = normalizeAnyToHtml(candidate);
-    if (html) return html;
-  }
-
-  // 2) Try common nested containers
-  for (const c of containers) {
-    const nested = row?.[c];
-    if (!nested) continue;
-
-    // direct pick within the container
-    const picked = pickMailField(nested);
-    if (picked) {
-      const html = normalizeAnyToHtml(picked);
-      if (html) return html;
-    }
-
-    // scan deeper
-    const html = normalizeAnyToHtml(nested);
-    if (html) return html;
-  }
-
-  // 3) Full object scan as fallback
-  const fallback = pickMailField(row);
-  if (fallback) {
-    const html = normalizeAnyToHtml(fallback);
-    if (html) return html;
-  }
-
-  return "";
-};
-
-// Add: robust email extraction helpers for CC parsing
-const emailRegex = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
-
-const extractEmailsFromString = (s: string): string[] => {
-  if (!s) return [];
-  const matches = s.match(emailRegex) || [];
-  // Normalize and uniq
-  const uniq = Array.from(new Set(matches.map((m) => m.trim())));
-  return uniq;
-};
-
-const deepCollectEmails = (val: any, acc: Set<string>): void => {
-  if (!val) return;
-  if (typeof val === "string") {
-    for (const e of extractEmailsFromString(val)) acc.add(e);
-    return;
-  }
-  if (Array.isArray(val)) {
-    for (const item of val) deepCollectEmails(item, acc);
-    return;
-  }
-  if (typeof val === "object") {
-    // Common direct fields
-    const direct = (val as any).value ?? (val as any).address ?? (val as any).email ?? "";
-    if (typeof direct === "string") {
-      for (const e of extractEmailsFromString(direct)) acc.add(e);
-    } else if (direct) {
-      deepCollectEmails(direct, acc);
-    }
-    // Walk all keys conservatively
-    for (const k of Object.keys(val)) {
-      deepCollectEmails((val as any)[k], acc);
-    }
-  }
-};
-
-const parseCCEmails = (field: any): string[] => {
-  const acc: Set<string> = new Set();
-
-  const fromArrayLike = (arr: any[]): string[] => {
-    for (const item of arr) {
-      if (typeof item === "string") {
-        for (const e of extractEmailsFromString(item)) acc.add(e);
-      } else if (item && typeof item === "object") {
-        // Common shapes: { value }, { address }, { email }, or nested
-        const v = (item as any).value ?? (item as any).address ?? (item as any).email ?? item;
-        deepCollectEmails(v, acc);
-      }
-    }
-    return Array.from(acc);
-  };
-
-  // Arrays
-  if (Array.isArray(field)) {
-    return fromArrayLike(field);
-  }
-
-  // Strings (could be JSON, CSV, or semicolon separated)
-  if (typeof field === "string") {
-    const trimmed = field.trim();
-    // JSON-looking string?
-    if (
-      (trimmed.startsWith("{") && trimmed.endsWith("}")) ||
-      (trimmed.startsWith("[") && trimmed.endsWith("]"))
-    ) {
-      try {
-        const parsed = JSON.parse(trimmed);
-        return parseCCEmails(parsed);
-      } catch {
-        // fall through
-      }
-    }
-    // Extract emails from any free-form string, supporting commas/semicolons etc.
-    const emails = extractEmailsFromString(trimmed);
-    if (emails.length) return emails;
-    // As a last resort, split by comma/semicolon and trim
-    const splitGuess = trimmed
-      .split(/[,;]+/)
-      .map((s) => s.trim())
-      .filter(Boolean);
-    for (const part of splitGuess) {
-      for (const e of extractEmailsFromString(part)) acc.add(e);
-    }
-    return Array.from(acc);
-  }
-
-  // Objects
-  if (field && typeof field === "object") {
-    // Known array candidates
-    const arrCandidates =
-      (field as any).cc ??
-      (field as any).CC ??
-      (field as any).cc_emails ??
-      (field as any).recipients ??
-      (field as any).Recipients ??
-      (field as any).addresses ??
-      (field as any).emails ??
-      (field as any).list ??
-      (field as any).to ??
-      (field as any).To ??
-      (field as any).value; // sometimes value is an array
-
-    if (Array.isArray(arrCandidates)) {
-      return fromArrayLike(arrCandidates);
-    }
-
-    // Single value candidates
-    const single =
-      (field as any).value ??
-      (field as any).address ??
-      (field as any).email ??
-      (field as any).recipient ??
-      (field as any).Recipient ??
-      (field as any).user ??
-      (field as any).User;
-
-    if (single != null) {
-      deepCollectEmails(single, acc);
-      if (acc.size) return Array.from(acc);
-    }
-
-    // Deep scan as final fallback
-    deepCollectEmails(field, acc);
-    if (acc.size) return Array.from(acc);
-  }
-
-  return [];
-};
-
-const parseEmailField = (field: any): string => {
-  if (!field) return '';
-  if (typeof field === 'string') return field;
-  if (Array.isArray(field) && field.length > 0) {
-    const first = field[0];
-    if (typeof first === 'string') return first;
-    if (first?.value) return first.value;
-    if (first?.address) return first.address;
-    if (first?.email) return first.email;
-  }
-  if (field.value) return field.value;
-  if (field.address) return field.address;
-  if (field.email) return field.email;
-  return '';
+// yyyy-mm-dd from a date input -> local start/end of that day in ms
+const dayBound = (value: string, end: boolean) => {
+  if (!value) return undefined;
+  const t = new Date(`${value}T${end ? '23:59:59.999' : '00:00:00'}`).getTime();
+  return Number.isFinite(t) ? t : undefined;
 };
 
 export default function Documents() {
   const { isLoading: authLoading, isAuthenticated, user, signOut } = useAuth();
   const navigate = useNavigate();
+  const { isAdmin } = useRole();
 
   type DashboardDoc = {
     id: string;
@@ -391,17 +43,86 @@ export default function Documents() {
     pdf_url: string;
     status?: string;
     title?: string;
-    document_data?: any;
     from_email?: string;
     cc_emails?: string[];
     subject?: string;
     bucket_name?: string;
     mail_content?: string;
-    raw?: any;
+    evidence_coverage?: number;
   };
 
-  const [documents, setDocuments] = useState<DashboardDoc[]>([]);
-  const [isLoadingDocs, setIsLoadingDocs] = useState(true);
+  const [listQuery, setListQuery] = useState<DocumentsQuery>(DEFAULT_DOCUMENTS_QUERY);
+  const {
+    results: records,
+    status: pageStatus,
+    loadMore,
+  } = usePaginatedQuery(
+    api.documents.listPage,
+    isAuthenticated
+      ? {
+          sortBy: listQuery.sortBy,
+          sortDir: listQuery.sortDir,
+          search: listQuery.search || undefined,
+          status: listQuery.status || undefined,
+          sender: listQuery.sender || undefined,
+          receivedFrom: dayBound(listQuery.dateFrom, false),
+          receivedTo: dayBound(listQuery.dateTo, true),
+        }
+      : 'skip',
+    { initialNumItems: PAGE_SIZE },
+  );
+  const { importNew } = useN8nImport();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const isLoadingDocs = pageStatus === 'LoadingFirstPage';
+  const hasFilters =
+    !!listQuery.search || !!listQuery.status || !!listQuery.sender || !!listQuery.dateFrom || !!listQuery.dateTo;
+  // Keep the table mounted once something loaded, so changing a filter does not reset the toolbar
+  const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
+  useEffect(() => {
+    if (!isLoadingDocs) setHasLoadedOnce(true);
+  }, [isLoadingDocs]);
+  const handleLoadMore = useCallback(() => loadMore(PAGE_SIZE), [loadMore]);
+
+  // Rows inserted into "N8N Logs" while this page is open; drives the banner and row highlight
+  const [newIds, setNewIds] = useState<Set<string>>(() => new Set());
+  const handleInserted = useCallback((externalId: string) => {
+    setNewIds((prev) => (prev.has(externalId) ? prev : new Set(prev).add(externalId)));
+  }, []);
+  const dropNewId = useCallback((externalId: string) => {
+    setNewIds((prev) => {
+      if (!prev.has(externalId)) return prev;
+      const next = new Set(prev);
+      next.delete(externalId);
+      return next;
+    });
+  }, []);
+  useN8nRealtime({
+    enabled: isAuthenticated && hasSupabaseEnv,
+    onInserted: handleInserted,
+    onDeleted: dropNewId,
+    mirrorDeletes: isAdmin,
+  });
+
+  // Documents never saved have no stored coverage; theirs is computed here until the first save
+  const computedCoverage = useComputedCoverage(records, isAuthenticated);
+
+  const documents: DashboardDoc[] = useMemo(
+    () =>
+      records.map((r) => ({
+        id: r.externalId,
+        created_at: new Date(r.receivedAt).toISOString(),
+        pdf_url: r.storagePath ? publicUrlForPath(r.storagePath) : '',
+        status: r.workflowStatus ?? r.status,
+        title: r.title || 'Untitled Document',
+        from_email: r.email.from ?? '',
+        cc_emails: r.email.cc,
+        subject: r.email.subject ?? '',
+        bucket_name: r.bucketName ?? '',
+        mail_content: r.email.mailContent ?? '',
+        evidence_coverage: r.evidenceCoverage?.score ?? computedCoverage.get(r._id),
+      })),
+    [records, computedCoverage],
+  );
   const [selectedMailContent, setSelectedMailContent] = useState<string | null>(null);
   const [isMailDialogOpen, setIsMailDialogOpen] = useState(false);
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set());
@@ -432,7 +153,7 @@ export default function Documents() {
 
   useEffect(() => {
     // Tie the global progress bar to document fetching so it only hides when rows are actually loaded.
-    if (isLoadingDocs) {
+    if (isLoadingDocs && !hasLoadedOnce) {
       (window as any).__routePendingStart?.();
     } else {
       (window as any).__routePendingStop?.();
@@ -440,122 +161,29 @@ export default function Documents() {
     return () => {
       (window as any).__routePendingStop?.();
     };
-  }, [isLoadingDocs]);
+  }, [isLoadingDocs, hasLoadedOnce]);
 
   useEffect(() => {
     if (isAuthenticated) {
       if (hasSupabaseEnv) {
-        fetchDocuments();
+        syncDocuments();
       } else {
-        setIsLoadingDocs(false);
         toast.error('Supabase is not configured. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in API keys tab.');
       }
     }
   }, [isAuthenticated]);
 
-  const coerceDocumentData = (row: any) => {
-    const candidates = [
-      row?.document_data,
-      row?.data,
-      row?.json,
-      row?.payload,
-      row?.['Document Data'],
-      row?.['document_data'],
-      row?.['Data'],
-    ];
-    for (const cand of candidates) {
-      try {
-        const obj = typeof cand === 'string' ? JSON.parse(cand) : cand;
-        if (obj?.document?.pages && Array.isArray(obj.document.pages) && obj.document.pages.length > 0) {
-          return obj;
-        }
-      } catch {
-        // ignore parse errors
-      }
-    }
-    return undefined;
-  };
-
-  const fetchDocuments = async () => {
+  // Have the server pull the rows created in "N8N Logs" since the last sync; the list itself is served
+  // by the Convex query
+  const syncDocuments = async () => {
     try {
-      setIsLoadingDocs(true);
-      const { data, error } = await supabase
-        .from('N8N Logs')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
-
-      const mapped: DashboardDoc[] = (data as any[] | null || []).map((row: any, idx: number) => {
-        const path = row?.['Bucket Name'] ?? row?.bucket_name ?? row?.path ?? '';
-        const pdf_url = path ? publicUrlForPath(path) : '';
-        const status = row?.status ?? row?.Status ?? row?.state ?? row?.State;
-        const created_at = row?.created_at ?? row?.createdAt ?? row?.timestamp ?? new Date().toISOString();
-        const id = String(row?.id ?? row?.uuid ?? row?._id ?? `${created_at}-${idx}`);
-        const document_data = coerceDocumentData(row);
-        const title =
-          document_data?.document?.pages?.[0]?.metadata?.document_title?.value ||
-          (typeof row?.title === 'string' ? row.title : undefined) ||
-          (typeof path === 'string' ? String(path).split('/').pop() : undefined) ||
-          'Untitled Document';
-
-        const from_email = parseEmailField(row?.from ?? row?.From ?? row?.from_email ?? row?.sender ?? row?.['From Email']);
-
-        const cc_emails = parseCCEmails(
-          row?.cc ??
-          row?.CC ??
-          row?.cc_emails ??
-          row?.['CC Emails'] ??
-          row?.['Cc Emails'] ??
-          row?.ccEmails ??
-          row?.recipients ??
-          row?.Recipients ??
-          row?.to ??
-          row?.To ??
-          row?.['To Emails']
-        );
-
-        let subject = '';
-        const subjectCandidates = [
-          row?.subject, row?.Subject, row?.title, row?.Title, row?.email_subject,
-          row?.['Email Subject'], row?.mail_subject, row?.['Mail Subject'], row?.emailSubject
-        ];
-        for (const candidate of subjectCandidates) {
-          if (candidate) {
-            if (typeof candidate === 'string') { subject = candidate; break; }
-            else if (candidate?.value) { subject = candidate.value; break; }
-          }
-        }
-        subject = subject.replace(/<[^>]*>/g, '').trim();
-
-        const bucket_name = row?.['Bucket Name'] ?? row?.bucket_name ?? '';
-        const mail_content = getMailContent(row);
-
-        return {
-          id,
-          created_at: String(created_at),
-          pdf_url,
-          status: status ? String(status) : undefined,
-          document_data,
-          raw: row,
-          title,
-          from_email,
-          cc_emails,
-          subject,
-          bucket_name,
-          mail_content,
-        };
-      });
-
-      setDocuments(mapped);
+      setIsSyncing(true);
+      await importNew();
     } catch (error) {
-      console.error('Error fetching documents:', error);
+      console.error('Error importing documents:', error);
       toast.error(`Failed to load documents: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
-      setIsLoadingDocs(false);
+      setIsSyncing(false);
     }
   };
 
@@ -582,9 +210,16 @@ export default function Documents() {
     } catch {
       // ignore storage errors
     }
+    dropNewId(docId);
     navigate(`/document/${docId}`);
   };
 
+  // New documents sort to the top of the default view; clear any search or filter that could hide them
+  const handleShowNew = () => {
+    setListQuery(DEFAULT_DOCUMENTS_QUERY);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const handleEditDocument = (docId: string) => {
     openDocumentWithOrder(docId);
   };
@@ -606,7 +241,8 @@ export default function Documents() {
   };
 
   const handleRefresh = () => {
-    fetchDocuments();
+    if (isSyncing) return;
+    syncDocuments();
     toast.success('Refreshing documents...');
   };
 
@@ -635,6 +271,9 @@ export default function Documents() {
           onProfile={() => navigate('/profile')}
           onToggleDark={toggleDarkMode}
           onSignOut={handleSignOut}
+          onManageRoles={isAdmin ? () => navigate('/admin/users') : undefined}
+          onWebhooks={isAdmin ? () => navigate('/admin/webhooks') : undefined}
+          onCustomers={isAdmin ? () => navigate('/admin/customers') : undefined}
         />
       </motion.header>
 
@@ -646,6 +285,40 @@ export default function Documents() {
 
           {/* Removed BulkActionsBar above table per request */}
 
+          <AnimatePresence>
+            {newIds.size > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: -8 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -8 }}
+                transition={{ duration: 0.2, ease: 'easeOut' }}
+                className="mb-3 flex items-center justify-between gap-3 rounded-xl border border-emerald-400/40 bg-emerald-500/10 px-4 py-2 text-sm"
+              >
+                <div className="flex items-center gap-2">
+                  <Sparkles className="h-4 w-4 text-emerald-500" />
+                  <span>
+                    {newIds.size} new {newIds.size === 1 ? 'document' : 'documents'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" className="h-7" onClick={handleShowNew}>
+                    Show
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setNewIds(new Set())}
+                    aria-label="Dismiss new documents"
+                    title="Dismiss"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           {!hasSupabaseEnv ? (
             <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.25, ease: 'easeOut' }}>
               <div className="text-center py-12 space-y-4">
@@ -656,11 +329,11 @@ export default function Documents() {
                 </p>
               </div>
             </motion.div>
-          ) : isLoadingDocs ? (
+          ) : !hasLoadedOnce || (isSyncing && documents.length === 0 && !hasFilters) ? (
             <div className="flex items-center justify-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
-          ) : documents.length === 0 ? (
+          ) : documents.length === 0 && !hasFilters && !isLoadingDocs ? (
             <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.25, ease: 'easeOut' }}>
               <div className="text-center py-12 space-y-4">
                 <FileText className="h-16 w-16 mx-auto text-muted-foreground opacity-20" />
@@ -673,6 +346,13 @@ export default function Documents() {
           ) : (
             <DocumentsTable
               docs={documents}
+              query={listQuery}
+              onQueryChange={setListQuery}
+              isLoading={isLoadingDocs}
+              canLoadMore={pageStatus === 'CanLoadMore'}
+              isLoadingMore={pageStatus === 'LoadingMore'}
+              onLoadMore={handleLoadMore}
+              highlightIds={newIds}
               selectedIds={selectedDocuments}
               onToggleSelectAll={handleSelectAll}
               onToggleSelect={handleSelectDocument}
@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useAuth } from '@/hooks/use-auth';
+import { useRole } from '@/hooks/use-role';
 import { api } from '@/convex/_generated/api';
 import { useMutation } from 'convex/react';
 import { motion } from 'framer-motion';
@@ -15,6 +16,7 @@ export default function Profile() {
   const { isLoading: authLoading, isAuthenticated, user, signOut } = useAuth();
   const navigate = useNavigate();
   const updateUser = useMutation(api.users.updateProfile);
+  const { role, isAdmin } = useRole();
 
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
@@ -179,8 +181,13 @@ export default function Profile() {
 
                 <div className="space-y-2">
                   <Label>Account Type</Label>
-                  <div className="px-3 py-2 bg-muted rounded-md text-sm">
-                    User
+                  <div className="flex items-center justify-between px-3 py-2 bg-muted rounded-md text-sm">
+                    <span className="capitalize">{role ?? 'member'}</span>
+                    {isAdmin && (
+                      <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => navigate('/admin/users')}>
+                        Manage roles
+                      </Button>
+                    )}
                   </div>
                 </div>
 
@@ -78,6 +78,7 @@ export const salesOrderCreateSchema: any = {
               SalesOrderItem: { type: "string" },
               Material: { type: "string" },
               MaterialByCustomer: { type: "string" },
+              SalesOrderItemText: { type: "string" },
               RequestedQuantity: { type: "number" },
               RequestedQuantityUnit: { type: "string" },
               Batch: { type: "string" },